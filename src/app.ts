@@ -10,27 +10,43 @@
  *
  * MIDDLEWARE PIPELINE (order matters):
  *   1. Body parsing (JSON + URL-encoded)
- *   2. Request logging (timestamps, method, URL, status, duration)
+ *   2. Request logging (timestamps, method, URL, status, duration) and
+ *      per-route request metrics (rate, errors, duration)
  *   3. Static file serving (dashboard HTML/CSS/JS)
- *   4. API routes (health → metrics → simulations → admin)
- *   5. 404 handler (unmatched routes)
- *   6. Global error handler (catches all thrown errors, returns JSON)
+ *   4. Authentication & role gating (see middleware/auth — off unless configured)
+ *   5. Requested random seed (?seed= or body.seed, see middleware/random-seed)
+ *   6. API routes (health → metrics → simulations → admin)
+ *   7. 404 handler (unmatched routes)
+ *   8. Global error handler (catches all thrown errors, returns JSON)
  *
  * API ROUTE STRUCTURE:
  *   GET    /api/health            → Health check (used by Azure health probes)
  *   GET    /api/metrics           → Current system metrics snapshot
  *   GET    /api/metrics/probe     → Lightweight latency probe for sidecar
+ *   GET    /api/metrics/history   → Metrics time series (?from=&to=&resolution=)
+ *   GET    /api/metrics/requests  → Rate, errors and latency per API route
+ *   GET    /metrics               → Prometheus text exposition (scrape target)
  *   POST   /api/simulations/cpu   → Start CPU stress simulation
  *   DELETE /api/simulations/cpu/:id → Stop CPU stress simulation
  *   POST   /api/simulations/memory → Allocate memory
  *   DELETE /api/simulations/memory/:id → Release memory
+ *   POST   /api/simulations/memory/leak → Start gradual memory leak
+ *   DELETE /api/simulations/memory/leak/:id → Stop memory leak
  *   POST   /api/simulations/eventloop → Block event loop
  *   GET    /api/simulations/slow  → Slow request (GET for browser testing)
  *   POST   /api/simulations/crash/* → Trigger crash simulations
  *   GET    /api/loadtest          → Load test endpoint
  *   GET    /api/simulations       → List all active simulations
+ *   GET    /api/simulations/:id   → One simulation with its events
+ *   POST   /api/simulations/:id/{pause,resume,extend} → Control a running simulation
  *   GET    /api/admin/status      → Admin status overview
  *   GET    /api/admin/events      → Event log entries
+ *   POST   /api/admin/diagnostics/heap-snapshot → Capture a V8 heap snapshot
+ *   POST   /api/admin/diagnostics/cpu-profile → Record a CPU profile
+ *   GET    /api/admin/diagnostics/artifacts → List/download captured artifacts
+ *   POST   /api/admin/webhooks    → Register a webhook (list, dead letters, redeliver)
+ *   POST   /api/scenarios         → Start a scenario playbook (JSON or YAML)
+ *   GET    /api/scenarios/:id     → Scenario run state (pause/resume/abort via POST)
  *
  * PORTING NOTES:
  *   - Java Spring Boot: @SpringBootApplication with @RestController classes.
@@ -47,8 +63,12 @@ import express, { Application, Request, Response } from 'express';
 import path from 'path';
 import swaggerUi from 'swagger-ui-express';
 import YAML from 'yamljs';
+import { config } from './config';
 import { errorHandler } from './middleware/error-handler';
 import { requestLogger } from './middleware/request-logger';
+import { requestMetrics } from './middleware/request-metrics';
+import { authenticate } from './middleware/auth';
+import { randomSeed } from './middleware/random-seed';
 import { healthRouter } from './controllers/health.controller';
 import { metricsRouter } from './controllers/metrics.controller';
 import { cpuRouter } from './controllers/cpu.controller';
@@ -59,6 +79,10 @@ import { slowRouter } from './controllers/slow.controller';
 import { failedRouter } from './controllers/failed-request.controller';
 import { crashRouter } from './controllers/crash.controller';
 import { loadtestRouter } from './controllers/loadtest.controller';
+import { diagnosticsRouter } from './controllers/diagnostics.controller';
+import { prometheusRouter } from './controllers/prometheus.controller';
+import { scenarioRouter } from './controllers/scenario.controller';
+import { webhookRouter } from './controllers/webhook.controller';
 import { translatedHtmlMiddleware } from './middleware/translated-html';
 
 /**
@@ -72,6 +96,9 @@ import { translatedHtmlMiddleware } from './middleware/translated-html';
 export function createApp(): Application {
   const app = express();
 
+  // Take the client IP from X-Forwarded-For set by trusted proxies (per-client quotas)
+  app.set('trust proxy', config.trustProxy);
+
   // Body parsing middleware
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
@@ -79,15 +106,25 @@ export function createApp(): Application {
   // Request logging
   app.use(requestLogger);
 
+  // Per-route rate, errors and duration
+  app.use(requestMetrics);
+
   // Serve translated HTML documents (must be BEFORE express.static)
   app.use(translatedHtmlMiddleware);
 
   // Serve static files from public directory
   app.use(express.static(path.join(__dirname, 'public')));
 
+  // Authentication & role gating for API routes (no-op until credentials are configured)
+  app.use(authenticate);
+
+  // Requested random seed (?seed= or body.seed) for the simulations a request starts
+  app.use(randomSeed);
+
   // API Routes
   app.use('/api/health', healthRouter);
   app.use('/api/metrics', metricsRouter);
+  app.use('/metrics', prometheusRouter);
   app.use('/api/simulations/cpu', cpuRouter);
   app.use('/api/simulations/memory', memoryRouter);
   app.use('/api/simulations/eventloop', eventloopRouter);
@@ -95,6 +132,9 @@ export function createApp(): Application {
   app.use('/api/simulations/failed', failedRouter);
   app.use('/api/simulations/crash', crashRouter);
   app.use('/api/loadtest', loadtestRouter);
+  app.use('/api/scenarios', scenarioRouter);
+  app.use('/api/admin/diagnostics', diagnosticsRouter);
+  app.use('/api/admin/webhooks', webhookRouter);
   app.use('/api', adminRouter); // Handles /api/simulations, /api/admin/status, /api/admin/events
 
   // Swagger UI - API documentation
@@ -19,12 +19,40 @@
  *   - MAX_SIMULATION_DURATION_SECONDS → Upper limit for timed simulations
  *   - MAX_MEMORY_ALLOCATION_MB      → Upper limit for single memory allocation
  *   - EVENT_LOG_MAX_ENTRIES         → Ring buffer size for event log
+ *   - EVENT_LOG_PERSIST             → Persist the event log to JSONL files (default: true; 'false' disables)
+ *   - EVENT_LOG_DIR                 → Directory for event log files (default: <tmpdir>/perfsimnode-events)
+ *   - EVENT_LOG_MAX_FILE_MB         → Rotate the active event log file at this size (default: 5)
+ *   - EVENT_LOG_MAX_FILES           → Event log files kept, active included (default: 5)
+ *   - EVENT_LOG_RETENTION_HOURS     → Delete rotated event log files older than this (default: 24)
  *   - IDLE_TIMEOUT_MINUTES          → Idle timeout in minutes before suspending health probes (default: 20)
  *   - HEALTH_PROBE_RATE             → Health probe interval in ms (default: 200, min: 100)
  *   - UI_LANGUAGE                   → UI display language (ISO 639-1 code, default: 'en')
  *   - TRANSLATOR_API_KEY            → Azure Cognitive Services Translator API key
  *   - TRANSLATOR_ENDPOINT           → Azure Translator endpoint URL
  *   - TRANSLATOR_REGION             → Azure Translator resource region
+ *   - DIAGNOSTICS_DIR               → Directory for heap snapshots/profiles (default: <tmpdir>/perfsimnode-diagnostics)
+ *   - MAX_DIAGNOSTIC_ARTIFACTS      → Diagnostic artifacts kept on disk before the oldest is deleted (default: 10)
+ *   - WEBHOOK_TIMEOUT_MS            → Webhook request timeout (default: 5000)
+ *   - WEBHOOK_MAX_ATTEMPTS          → Attempts per webhook delivery before dead-lettering (default: 5)
+ *   - WEBHOOK_RETRY_BASE_MS         → First webhook retry delay, doubled per retry (default: 1000)
+ *   - AUTH_API_KEYS                 → API keys as "key:role,key:role" (roles: viewer, trainee, instructor)
+ *   - AUTH_BEARER_TOKEN             → Shared-secret bearer token (default: none)
+ *   - AUTH_BEARER_ROLE              → Role granted by AUTH_BEARER_TOKEN (default: instructor)
+ *   - AUTH_ANONYMOUS_ROLE           → Role for requests without credentials (default: none → 401)
+ *   Authentication is enabled as soon as AUTH_API_KEYS or AUTH_BEARER_TOKEN is set.
+ *   - TRUST_PROXY                   → Express "trust proxy": true, a hop count or trusted addresses (default: false)
+ *   - QUOTA_MAX_ACTIVE_PER_TYPE     → Active simulations per type, all clients (default: 10, 0 = unlimited)
+ *   - QUOTA_MAX_ACTIVE_PER_CLIENT   → Active simulations per type per client (default: 3, 0 = unlimited)
+ *   - QUOTA_STARTS_PER_MINUTE       → Simulation starts per client per minute (default: 30, 0 = unlimited)
+ *   - GUARDRAIL_MODE                → reject | clamp | off for requests beyond the container's safe limits (default: reject)
+ *   - GUARDRAIL_MEMORY_HEADROOM_PERCENT → Memory kept free when computing safe allocations (default: 15)
+ *   - UV_THREADPOOL_SIZE            → libuv thread pool size, read by Node.js itself (default: 4)
+ *   - THREADPOOL_PROBE_INTERVAL_MS  → How often the thread pool probe runs (default: 500, min: 50)
+ *   - LOAD_GENERATOR_MAX_RPS        → Highest open model rate for the built-in load generator (default: 200)
+ *   - LOAD_GENERATOR_MAX_VUS        → Most closed model virtual users for the load generator (default: 200)
+ *   - LOAD_TEST_EXCEPTIONS_FILE     → JSON file with the load test exception catalog (default: built-in catalog)
+ *   - TRUST_REQUEST_START           → Use X-Request-Start from a trusted front end as load test arrival time (default: false)
+ *   - RANDOM_SEED                   → Seed (0-4294967295) making simulation randomness reproducible (default: random)
  *
  * PORTING NOTES:
  *   - Java Spring: Use application.properties/yml with @Value or @ConfigurationProperties.
@@ -36,7 +64,9 @@
  * @module config
  */
 
-import { AppConfig } from '../types';
+import os from 'os';
+import path from 'path';
+import { AppConfig, AuthApiKey, AuthRole, GuardrailMode } from '../types';
 
 /**
  * Parses an integer from environment variable with fallback.
@@ -54,6 +84,95 @@ function parseIntEnv(envVar: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/** Modes accepted in GUARDRAIL_MODE */
+const GUARDRAIL_MODES: GuardrailMode[] = ['reject', 'clamp', 'off'];
+
+/**
+ * Parses GUARDRAIL_MODE.
+ *
+ * @returns Parsed mode, or 'reject' if unset or invalid
+ */
+function parseGuardrailModeEnv(): GuardrailMode {
+  const value = (process.env.GUARDRAIL_MODE || '').trim().toLowerCase();
+  return GUARDRAIL_MODES.includes(value as GuardrailMode) ? (value as GuardrailMode) : 'reject';
+}
+
+/** Roles accepted in AUTH_* variables */
+const AUTH_ROLES: AuthRole[] = ['viewer', 'trainee', 'instructor'];
+
+/**
+ * Parses a role from an environment variable.
+ *
+ * @param envVar - Environment variable name
+ * @param defaultValue - Role if the variable is unset or invalid
+ * @returns Parsed role or default value
+ */
+function parseRoleEnv<T extends AuthRole | null>(envVar: string, defaultValue: T): AuthRole | T {
+  const value = (process.env[envVar] || '').trim().toLowerCase();
+  return AUTH_ROLES.includes(value as AuthRole) ? (value as AuthRole) : defaultValue;
+}
+
+/**
+ * Parses AUTH_API_KEYS: comma-separated "key:role" entries. Entries with an
+ * unknown role or an empty key are skipped with a warning.
+ *
+ * @returns Parsed API keys
+ */
+function parseApiKeysEnv(): AuthApiKey[] {
+  const keys: AuthApiKey[] = [];
+  for (const entry of (process.env.AUTH_API_KEYS || '').split(',')) {
+    if (entry.trim() === '') {
+      continue;
+    }
+    const separator = entry.lastIndexOf(':');
+    const key = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim().toLowerCase() as AuthRole;
+    if (separator <= 0 || key === '' || !AUTH_ROLES.includes(role)) {
+      console.warn('[Config] Ignoring malformed AUTH_API_KEYS entry (expected key:role)');
+      continue;
+    }
+    keys.push({ key, role });
+  }
+  return keys;
+}
+
+/**
+ * Parses TRUST_PROXY into an Express "trust proxy" setting: "true"/"false",
+ * a number of trusted hops, or a comma-separated list of trusted addresses,
+ * subnets or names ("loopback", "uniquelocal").
+ *
+ * @returns Setting for app.set('trust proxy'), false if unset
+ */
+function parseTrustProxyEnv(): boolean | number | string {
+  const value = (process.env.TRUST_PROXY || '').trim();
+  if (value === '' || value.toLowerCase() === 'false') {
+    return false;
+  }
+  if (value.toLowerCase() === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+/**
+ * Parses RANDOM_SEED: an unsigned 32-bit integer. Invalid values are ignored
+ * with a warning.
+ *
+ * @returns Parsed seed, or null if unset or invalid
+ */
+function parseSeedEnv(): number | null {
+  const value = (process.env.RANDOM_SEED || '').trim();
+  if (value === '') {
+    return null;
+  }
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    console.warn('[Config] Ignoring RANDOM_SEED (expected an integer from 0 to 4294967295)');
+    return null;
+  }
+  return seed;
+}
+
 /**
  * Application configuration loaded from environment variables with defaults.
  *
@@ -74,7 +193,22 @@ export const config: AppConfig = {
   maxMemoryAllocationMb: parseIntEnv('MAX_MEMORY_ALLOCATION_MB', 65536),
 
   /** Maximum number of event log entries to retain (ring buffer) */
-  eventLogMaxEntries: parseIntEnv('EVENT_LOG_MAX_ENTRIES', 100),
+  eventLogMaxEntries: Math.max(1, parseIntEnv('EVENT_LOG_MAX_ENTRIES', 100)),
+
+  /** Persist event log entries to JSONL files so they survive crashes (default: true) */
+  eventLogPersist: process.env.EVENT_LOG_PERSIST !== 'false',
+
+  /** Directory for persisted event log files */
+  eventLogDir: process.env.EVENT_LOG_DIR || path.join(os.tmpdir(), 'perfsimnode-events'),
+
+  /** Rotate the active event log file at this size in MB (default: 5, min: 1) */
+  eventLogMaxFileMb: Math.max(1, parseIntEnv('EVENT_LOG_MAX_FILE_MB', 5)),
+
+  /** Event log files kept, active file included (default: 5, min: 1) */
+  eventLogMaxFiles: Math.max(1, parseIntEnv('EVENT_LOG_MAX_FILES', 5)),
+
+  /** Rotated event log files older than this many hours are deleted (default: 24, min: 1) */
+  eventLogRetentionHours: Math.max(1, parseIntEnv('EVENT_LOG_RETENTION_HOURS', 24)),
 
   /** Health probe interval in milliseconds (default: 200ms, minimum: 100ms) */
   healthProbeRateMs: Math.max(100, parseIntEnv('HEALTH_PROBE_RATE', 200)),
@@ -93,6 +227,75 @@ export const config: AppConfig = {
 
   /** Azure Translator region */
   translatorRegion: process.env.TRANSLATOR_REGION || 'eastus',
+
+  /** Directory for diagnostic artifacts (heap snapshots, CPU profiles) */
+  diagnosticsDir: process.env.DIAGNOSTICS_DIR || path.join(os.tmpdir(), 'perfsimnode-diagnostics'),
+
+  /** Maximum diagnostic artifacts to retain on disk (default: 10, min: 1) */
+  maxDiagnosticArtifacts: Math.max(1, parseIntEnv('MAX_DIAGNOSTIC_ARTIFACTS', 10)),
+
+  /** Webhook request timeout in milliseconds (default: 5000, min: 100) */
+  webhookTimeoutMs: Math.max(100, parseIntEnv('WEBHOOK_TIMEOUT_MS', 5000)),
+
+  /** Attempts per webhook delivery before dead-lettering (default: 5, min: 1) */
+  webhookMaxAttempts: Math.max(1, parseIntEnv('WEBHOOK_MAX_ATTEMPTS', 5)),
+
+  /** First webhook retry delay in milliseconds, doubled per retry (default: 1000) */
+  webhookRetryBaseMs: Math.max(1, parseIntEnv('WEBHOOK_RETRY_BASE_MS', 1000)),
+
+  /** API keys with roles ("key:role,key:role"); none by default */
+  authApiKeys: parseApiKeysEnv(),
+
+  /** Shared-secret bearer token (default: none) */
+  authBearerToken: process.env.AUTH_BEARER_TOKEN || '',
+
+  /** Role granted by the shared bearer token (default: instructor) */
+  authBearerRole: parseRoleEnv('AUTH_BEARER_ROLE', 'instructor'),
+
+  /** Role of unauthenticated requests when auth is enabled (default: none) */
+  authAnonymousRole: parseRoleEnv('AUTH_ANONYMOUS_ROLE', null),
+
+  /** Proxies trusted to set X-Forwarded-For, so req.ip is the real client (default: none) */
+  trustProxy: parseTrustProxyEnv(),
+
+  /** Max concurrent active simulations per type, all clients (default: 10, 0 = unlimited) */
+  quotaMaxActivePerType: Math.max(0, parseIntEnv('QUOTA_MAX_ACTIVE_PER_TYPE', 10)),
+
+  /** Max concurrent active simulations per type per client (default: 3, 0 = unlimited) */
+  quotaMaxActivePerClient: Math.max(0, parseIntEnv('QUOTA_MAX_ACTIVE_PER_CLIENT', 3)),
+
+  /** Simulation starts per client per minute (default: 30, 0 = unlimited) */
+  quotaStartsPerMinute: Math.max(0, parseIntEnv('QUOTA_STARTS_PER_MINUTE', 30)),
+
+  /** Guardrail behavior for requests beyond the safe resource limits (default: reject) */
+  guardrailMode: parseGuardrailModeEnv(),
+
+  /** Memory kept free by the guardrails, percent of the limit (default: 15, max: 90) */
+  guardrailMemoryHeadroomPercent: Math.min(
+    90,
+    Math.max(0, parseIntEnv('GUARDRAIL_MEMORY_HEADROOM_PERCENT', 15))
+  ),
+
+  /** libuv thread pool size; libuv clamps UV_THREADPOOL_SIZE to 1-1024 (default: 4) */
+  threadPoolSize: Math.min(1024, Math.max(1, parseIntEnv('UV_THREADPOOL_SIZE', 4))),
+
+  /** Thread pool probe interval in milliseconds (default: 500, min: 50) */
+  threadPoolProbeIntervalMs: Math.max(50, parseIntEnv('THREADPOOL_PROBE_INTERVAL_MS', 500)),
+
+  /** Highest load generator rate in requests per second (default: 200) */
+  loadGeneratorMaxRps: Math.max(1, parseIntEnv('LOAD_GENERATOR_MAX_RPS', 200)),
+
+  /** Most load generator virtual users (default: 200) */
+  loadGeneratorMaxVirtualUsers: Math.max(1, parseIntEnv('LOAD_GENERATOR_MAX_VUS', 200)),
+
+  /** Load test exception catalog file (default: none, built-in catalog) */
+  loadTestExceptionsFile: process.env.LOAD_TEST_EXCEPTIONS_FILE || '',
+
+  /** Use X-Request-Start as the load test arrival time (default: false, clients could forge it) */
+  trustRequestStart: process.env.TRUST_REQUEST_START === 'true',
+
+  /** Seed of the master random generator (default: none, random at startup) */
+  randomSeed: parseSeedEnv(),
 };
 
 /**
@@ -131,8 +334,36 @@ export const limits = {
   minDurationSeconds: 1,
   /** Maximum duration for timed simulations (seconds) */
   maxDurationSeconds: config.maxSimulationDurationSeconds,
+  /** Minimum explicit CPU target (system-wide percent) */
+  minCpuTargetPercent: 1,
+  /** Maximum explicit CPU target (system-wide percent) */
+  maxCpuTargetPercent: 100,
   /** Minimum memory allocation (MB) */
   minMemoryMb: 1,
   /** Maximum memory allocation (MB) */
   maxMemoryMb: config.maxMemoryAllocationMb,
+  /** Minimum memory leak rate (MB per minute) */
+  minLeakRateMbPerMinute: 1,
+  /** Maximum memory leak rate (MB per minute) — keeps each growth tick short */
+  maxLeakRateMbPerMinute: 6000,
+  /** Minimum CPU profile duration (seconds) */
+  minCpuProfileSeconds: 1,
+  /** Maximum CPU profile duration (seconds) — profiles grow with sampling time */
+  maxCpuProfileSeconds: 120,
+  /** Maximum number of steps in a scenario playbook */
+  maxScenarioSteps: 50,
+  /** Maximum number of load generator ramp stages */
+  maxLoadGeneratorStages: 20,
+  /** Maximum load generator request timeout (ms) — Azure's frontend gives up at 230s */
+  maxLoadGeneratorTimeoutMs: 240000,
+  /** Oldest X-Request-Start accepted, relative to receipt (ms) — also Azure's 230s */
+  maxRequestStartAgeMs: 230000,
+  /** Maximum target (RPS or virtual users) of an exported load test script */
+  maxExportTarget: 100000,
+  /** Maximum total duration of an exported load test script (seconds) */
+  maxExportDurationSeconds: 86400,
+  /** Maximum number of entries in the load test exception catalog */
+  maxExceptionCatalogEntries: 100,
+  /** Largest random seed (unsigned 32-bit) */
+  maxSeed: 0xffffffff,
 };
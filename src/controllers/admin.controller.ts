@@ -10,11 +10,20 @@
  *
  * ENDPOINTS:
  *   GET /api/simulations        → List all active simulations (any type)
+ *   GET  /api/simulations/:id        → One simulation with its event log entries
+ *   POST /api/simulations/:id/pause  → Pause (CPU stress, memory leak, event loop)
+ *   POST /api/simulations/:id/resume → Resume a paused simulation
+ *   POST /api/simulations/:id/extend → Move scheduledEndAt later ({ seconds })
  *   GET /api/admin/status       → Comprehensive status (config + simulations + metrics)
- *   GET /api/admin/events       → Recent event log entries (with limit parameter)
+ *   GET /api/admin/events       → Event log query (filters, cursor paging,
+ *                                 json / ndjson / csv export)
  *   GET /api/admin/memory-debug → Memory diagnostic info (cgroup, OS, process)
  *   GET /api/admin/system-info  → System info (CPU count, model, platform)
  *   GET /api/admin/network-debug → Network diagnostic info (DNS, HTTPS tests)
+ *   GET    /api/admin/exception-catalog → Errors load test error injection picks from
+ *   PUT    /api/admin/exception-catalog → Replace the exception catalog
+ *   DELETE /api/admin/exception-catalog → Reload it from LOAD_TEST_EXCEPTIONS_FILE
+ *                                         (or the built-in catalog)
  *
  * DIAGNOSTIC ENDPOINTS:
  *   memory-debug and network-debug are Azure-specific debugging tools.
@@ -31,7 +40,7 @@
  * @module controllers/admin
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as dns from 'dns';
@@ -39,8 +48,22 @@ import * as https from 'https';
 import { SimulationTrackerService } from '../services/simulation-tracker.service';
 import { EventLogService } from '../services/event-log.service';
 import { MetricsService } from '../services/metrics.service';
-import { config, APP_VERSION } from '../config';
-import { validateOptionalInteger } from '../middleware/validation';
+import { SimulationControlService } from '../services/simulation-control.service';
+import { config, limits, APP_VERSION } from '../config';
+import {
+  validateInteger,
+  validateOptionalInteger,
+  validateOptionalList,
+  validateOptionalTimestamp,
+  validateUuid,
+} from '../middleware/validation';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { assertCanControlSimulation, getPrincipal, isAuthEnabled } from '../middleware/auth';
+import { QuotaService } from '../services/quota.service';
+import { GuardrailService } from '../services/guardrail.service';
+import { ExceptionCatalogService } from '../services/exception-catalog.service';
+import { RandomService } from '../services/random.service';
+import { EventLogEntry, LogLevel, Simulation } from '../types';
 
 /**
  * Express router for admin endpoints.
@@ -66,11 +89,87 @@ adminRouter.get('/simulations', (_req: Request, res: Response) => {
       parameters: sim.parameters,
       startedAt: sim.startedAt.toISOString(),
       scheduledEndAt: sim.scheduledEndAt.toISOString(),
+      seed: sim.seed,
     })),
     count: simulations.length,
   });
 });
 
+/**
+ * GET /api/simulations/:id
+ *
+ * Returns one simulation of any type, including ended ones still tracked,
+ * with the event log entries logged for it.
+ *
+ * @route GET /api/simulations/:id
+ * @returns {Object} Simulation record and its events
+ */
+adminRouter.get('/simulations/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { simulation, events } = SimulationControlService.getDetails(
+      validateUuid(req.params.id, 'id')
+    );
+
+    res.json({ ...toSimulationResponse(simulation), events: events.map(toEventResponse) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/simulations/:id/pause
+ *
+ * @route POST /api/simulations/:id/pause
+ * @returns {Object} Paused simulation
+ */
+adminRouter.post('/simulations/:id/pause', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = findControllableSimulation(req, res).id;
+    const simulation = SimulationControlService.pause(id);
+
+    res.json(toSimulationResponse(simulation));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/simulations/:id/resume
+ *
+ * @route POST /api/simulations/:id/resume
+ * @returns {Object} Resumed simulation
+ */
+adminRouter.post('/simulations/:id/resume', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = findControllableSimulation(req, res).id;
+    const simulation = SimulationControlService.resume(id);
+
+    res.json(toSimulationResponse(simulation));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/simulations/:id/extend
+ *
+ * Body: { "seconds": 60 } — added to scheduledEndAt.
+ *
+ * @route POST /api/simulations/:id/extend
+ * @returns {Object} Extended simulation
+ */
+adminRouter.post('/simulations/:id/extend', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = findControllableSimulation(req, res).id;
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const seconds = validateInteger(body.seconds, 'seconds', 1, limits.maxDurationSeconds);
+
+    res.json(toSimulationResponse(SimulationControlService.extend(id, seconds)));
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/admin/status
  *
@@ -81,7 +180,7 @@ adminRouter.get('/simulations', (_req: Request, res: Response) => {
  */
 adminRouter.get('/admin/status', (_req: Request, res: Response) => {
   const simulations = SimulationTrackerService.getActiveSimulations();
-  const metrics = MetricsService.getMetrics();
+  const metrics = MetricsService.getLastMetrics();
 
   res.json({
     status: 'healthy',
@@ -94,7 +193,9 @@ adminRouter.get('/admin/status', (_req: Request, res: Response) => {
       maxSimulationDurationSeconds: config.maxSimulationDurationSeconds,
       maxMemoryAllocationMb: config.maxMemoryAllocationMb,
       eventLogMaxEntries: config.eventLogMaxEntries,
+      randomSeed: RandomService.getMasterSeed(),
     },
+    resourceLimits: GuardrailService.getLimits(),
     activeSimulations: simulations.map((sim) => ({
       id: sim.id,
       type: sim.type,
@@ -102,6 +203,7 @@ adminRouter.get('/admin/status', (_req: Request, res: Response) => {
       parameters: sim.parameters,
       startedAt: sim.startedAt.toISOString(),
       scheduledEndAt: sim.scheduledEndAt.toISOString(),
+      seed: sim.seed,
     })),
     simulationCount: simulations.length,
     metrics: {
@@ -126,40 +228,233 @@ adminRouter.get('/admin/config', (_req: Request, res: Response) => {
     metricsIntervalMs: config.metricsIntervalMs,
     idleTimeoutMinutes: config.idleTimeoutMinutes,
     uiLanguage: config.uiLanguage,
+    authEnabled: isAuthEnabled(),
+    role: getPrincipal(res).role,
+    quotas: QuotaService.getLimits(),
   });
 });
 
+/**
+ * GET /api/admin/exception-catalog
+ *
+ * Returns the errors load test error injection picks from, with their
+ * weights and status codes, and where the catalog came from.
+ *
+ * @route GET /api/admin/exception-catalog
+ * @returns {Object} Exception catalog
+ */
+adminRouter.get('/admin/exception-catalog', (_req: Request, res: Response) => {
+  res.json(ExceptionCatalogService.getCatalog());
+});
+
+/**
+ * PUT /api/admin/exception-catalog
+ *
+ * Replaces the exception catalog until the next restart or DELETE.
+ *
+ * @route PUT /api/admin/exception-catalog
+ * @body {Object[]} exceptions - [{ name, message, statusCode, weight? }] (or the array itself)
+ * @returns {Object} New exception catalog
+ */
+adminRouter.put('/admin/exception-catalog', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(ExceptionCatalogService.setExceptions(req.body));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/admin/exception-catalog
+ *
+ * Discards changes made through PUT: reloads LOAD_TEST_EXCEPTIONS_FILE, or
+ * restores the built-in catalog when it is not set.
+ *
+ * @route DELETE /api/admin/exception-catalog
+ * @returns {Object} Reloaded exception catalog
+ */
+adminRouter.delete('/admin/exception-catalog', (_req: Request, res: Response) => {
+  res.json(ExceptionCatalogService.load());
+});
+
+/** Largest page the event query returns */
+const MAX_EVENTS_PAGE = 1000;
+
+/** Export formats for GET /api/admin/events */
+const EVENT_EXPORT_FORMATS = ['json', 'ndjson', 'csv'] as const;
+
+/** CSV columns, in order */
+const EVENT_CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'level',
+  'event',
+  'simulationId',
+  'simulationType',
+  'message',
+  'details',
+] as const;
+
 /**
  * GET /api/admin/events
  *
- * Returns recent event log entries.
+ * Queries the event log, newest first, with cursor-based paging.
+ * NDJSON and CSV are sent as downloads for attaching to training reports;
+ * their next-page cursor is in the X-Next-Cursor header.
  *
  * @route GET /api/admin/events
- * @query {number} limit - Maximum number of events to return (default: 50, max: 100)
- * @returns {Object} Recent event log entries
+ * @query {string} [level] - Levels to include (comma-separated: info, warn, error)
+ * @query {string} [event] - Event types to include (comma-separated)
+ * @query {string} [simulationId] - Only entries for this simulation
+ * @query {string} [simulationType] - Only entries for this simulation type
+ * @query {string} [from] - Range start (epoch ms or ISO 8601)
+ * @query {string} [to] - Range end (epoch ms or ISO 8601)
+ * @query {string} [q] - Case-insensitive text search in message, event and details
+ * @query {string} [cursor] - nextCursor from the previous page
+ * @query {number} limit - Page size (default: 50 for json, 1000 for exports; max: 1000)
+ * @query {string} [format] - json (default), ndjson or csv
+ * @returns {Object} Matching event log entries
  */
-adminRouter.get('/admin/events', (req: Request, res: Response) => {
-  const limit = validateOptionalInteger(req.query.limit, 'limit', 1, 100, 50);
-  const events = EventLogService.getRecentEntries(limit);
+adminRouter.get('/admin/events', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const format = optionalQueryString(req.query.format) ?? 'json';
+    if (!(EVENT_EXPORT_FORMATS as readonly string[]).includes(format)) {
+      throw new ValidationError(`format must be one of: ${EVENT_EXPORT_FORMATS.join(', ')}`);
+    }
+    const limit = validateOptionalInteger(
+      req.query.limit,
+      'limit',
+      1,
+      MAX_EVENTS_PAGE,
+      format === 'json' ? 50 : MAX_EVENTS_PAGE
+    );
+    const from = validateOptionalTimestamp(req.query.from, 'from', new Date(0));
+    const to = validateOptionalTimestamp(req.query.to, 'to', new Date(8.64e15));
+    if (from.getTime() > to.getTime()) {
+      throw new ValidationError('from must not be after to');
+    }
 
-  res.json({
-    events: events.map((event) => ({
-      id: event.id,
-      timestamp: event.timestamp.toISOString(),
-      level: event.level,
-      event: event.event,
-      message: event.message,
-      simulationId: event.simulationId,
-      simulationType: event.simulationType,
-      details: event.details,
-      messageKey: event.messageKey,
-      messageParams: event.messageParams,
-    })),
-    count: events.length,
-    total: EventLogService.getCount(),
-  });
+    const page = EventLogService.query({
+      levels: validateOptionalList<LogLevel>(req.query.level, 'level', ['info', 'warn', 'error']),
+      events: validateOptionalList(req.query.event, 'event'),
+      simulationId: optionalQueryString(req.query.simulationId),
+      simulationType: optionalQueryString(req.query.simulationType),
+      from,
+      to,
+      search: optionalQueryString(req.query.q),
+      cursor: optionalQueryString(req.query.cursor),
+      limit,
+    });
+    const events = page.entries.map(toEventResponse);
+
+    if (format === 'json') {
+      res.json({
+        events,
+        count: events.length,
+        total: EventLogService.getCount(),
+        nextCursor: page.nextCursor,
+      });
+      return;
+    }
+
+    if (page.nextCursor) {
+      res.setHeader('X-Next-Cursor', page.nextCursor);
+    }
+    const fileName = `events-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'ndjson') {
+      res.type('application/x-ndjson');
+      res.send(events.map((event) => JSON.stringify(event) + '\n').join(''));
+    } else {
+      const rows = events.map((event) =>
+        EVENT_CSV_COLUMNS.map((column) => toCsvField(event[column])).join(',')
+      );
+      res.type('text/csv');
+      res.send([EVENT_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n');
+    }
+  } catch (error) {
+    next(error);
+  }
 });
 
+/**
+ * Returns a query parameter given once as a non-empty string, else undefined.
+ */
+function optionalQueryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Finds the simulation named by :id and checks the caller may control it.
+ *
+ * @throws ValidationError if the ID is not a UUID
+ * @throws NotFoundError if the simulation does not exist
+ * @throws ForbiddenError if the caller lacks the role or does not own it
+ */
+function findControllableSimulation(req: Request, res: Response): Simulation {
+  const simulation = SimulationTrackerService.getSimulation(validateUuid(req.params.id, 'id'));
+  if (!simulation) {
+    throw new NotFoundError('Simulation not found');
+  }
+  assertCanControlSimulation(res, simulation);
+  return simulation;
+}
+
+/**
+ * Serializes a simulation record for the /api/simulations/:id endpoints.
+ */
+function toSimulationResponse(simulation: Simulation): Record<string, unknown> {
+  return {
+    id: simulation.id,
+    type: simulation.type,
+    status: simulation.status,
+    parameters: simulation.parameters,
+    startedAt: simulation.startedAt.toISOString(),
+    scheduledEndAt: simulation.scheduledEndAt.toISOString(),
+    stoppedAt: simulation.stoppedAt?.toISOString() ?? null,
+    pausedAt: simulation.pausedAt?.toISOString() ?? null,
+    totalPausedMs: simulation.totalPausedMs,
+    clientId: simulation.clientId,
+    seed: simulation.seed,
+  };
+}
+
+/**
+ * Serializes an event log entry for API responses.
+ */
+function toEventResponse(event: EventLogEntry): Record<string, unknown> {
+  return {
+    id: event.id,
+    timestamp: event.timestamp.toISOString(),
+    level: event.level,
+    event: event.event,
+    message: event.message,
+    simulationId: event.simulationId,
+    simulationType: event.simulationType,
+    details: event.details,
+    messageKey: event.messageKey,
+    messageParams: event.messageParams,
+  };
+}
+
+/**
+ * Formats one CSV field (RFC 4180): objects as JSON, quoted when needed.
+ * Strings a spreadsheet would read as a formula (messages can carry request
+ * input) are prefixed with an apostrophe so they open as text.
+ */
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value as string | number | boolean);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
 /**
  * GET /api/admin/memory-debug
  *
@@ -215,7 +510,7 @@ adminRouter.get('/admin/memory-debug', (_req: Request, res: Response) => {
     }
   }
 
-  const metrics = MetricsService.getMetrics();
+  const metrics = MetricsService.getLastMetrics();
 
   res.json({
     osTotalmem: os.totalmem(),
@@ -8,7 +8,8 @@
  *   Delegates all business logic to CpuStressService.
  *
  * ENDPOINTS:
- *   POST   /api/simulations/cpu     → Start CPU stress (body: intensity, durationSeconds)
+ *   POST   /api/simulations/cpu     → Start CPU stress (body: intensity, targetPercent or profile;
+ *                                      durationSeconds)
  *   DELETE /api/simulations/cpu/:id → Stop a running simulation
  *   GET    /api/simulations/cpu     → List active CPU simulations
  *
@@ -29,8 +30,14 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { CpuStressService } from '../services/cpu-stress.service';
 import { SimulationTrackerService } from '../services/simulation-tracker.service';
-import { validateCpuStressParams, validateUuid } from '../middleware/validation';
+import {
+  validateCpuStressParams,
+  validateOptionalBoolean,
+  validateUuid,
+} from '../middleware/validation';
 import { NotFoundError } from '../middleware/error-handler';
+import { simulationQuota } from '../middleware/quota';
+import { GuardrailService } from '../services/guardrail.service';
 
 /**
  * Express router for CPU simulation endpoints.
@@ -43,32 +50,50 @@ export const cpuRouter = Router();
  * Starts a new CPU stress simulation.
  *
  * @route POST /api/simulations/cpu
- * @body {string} intensity - CPU stress intensity ('moderate' or 'high')
+ * @body {string} [intensity] - CPU stress preset ('moderate' or 'high')
+ * @body {number} [targetPercent] - Explicit system-wide CPU target (1-100); overrides intensity
+ * @body {Object} [profile] - Load profile { shape: RAMP|STEP|SINE|SPIKES, startPercent,
+ *                            endPercent, periodSeconds }; overrides targetPercent and intensity
  * @body {number} durationSeconds - Duration in seconds (no limit)
+ * @body {boolean} [force] - Skip clamping the target to the container's CPU quota
  * @returns {SimulationResponse} Created simulation details
  */
-cpuRouter.post('/', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    // Validate input parameters
-    const { intensity, durationSeconds } = validateCpuStressParams(
-      req.body.intensity,
-      req.body.durationSeconds
-    );
+cpuRouter.post(
+  '/',
+  simulationQuota('CPU_STRESS'),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as unknown;
+      const raw =
+        typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
 
-    // Start the simulation
-    const simulation = CpuStressService.start({ intensity, durationSeconds });
+      // Validate input parameters and keep the target inside the CPU quota
+      const params = GuardrailService.guardCpuStress(
+        validateCpuStressParams(raw.intensity, raw.durationSeconds, raw.targetPercent, raw.profile),
+        validateOptionalBoolean(raw.force ?? req.query.force, 'force')
+      );
+      const label = params.profile
+        ? `${params.profile.shape} profile`
+        : params.targetPercent === undefined
+          ? params.intensity
+          : `${params.targetPercent}%`;
 
-    res.status(201).json({
-      id: simulation.id,
-      type: simulation.type,
-      message: `CPU stress simulation started (${intensity}) for ${durationSeconds}s`,
-      parameters: simulation.parameters,
-      scheduledEndAt: simulation.scheduledEndAt.toISOString(),
-    });
-  } catch (error) {
-    next(error);
+      // Start the simulation
+      const simulation = CpuStressService.start(params);
+
+      res.status(201).json({
+        id: simulation.id,
+        type: simulation.type,
+        message: `CPU stress simulation started (${label}) for ${params.durationSeconds}s`,
+        parameters: simulation.parameters,
+        scheduledEndAt: simulation.scheduledEndAt.toISOString(),
+        seed: simulation.seed,
+      });
+    } catch (error) {
+      next(error);
+    }
   }
-});
+);
 
 /**
  * DELETE /api/simulations/cpu/:id
@@ -94,7 +119,7 @@ cpuRouter.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
       throw new NotFoundError('Simulation not found (not a CPU stress simulation)');
     }
 
-    if (simulation.status !== 'ACTIVE') {
+    if (!SimulationTrackerService.isActive(id)) {
       throw new NotFoundError('Simulation is not active');
     }
 
@@ -136,6 +161,7 @@ cpuRouter.get('/', (_req: Request, res: Response) => {
       parameters: sim.parameters,
       startedAt: sim.startedAt.toISOString(),
       scheduledEndAt: sim.scheduledEndAt.toISOString(),
+      seed: sim.seed,
     })),
     count: simulations.length,
   });
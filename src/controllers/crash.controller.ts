@@ -25,6 +25,7 @@
 
 import { Router, Request, Response } from 'express';
 import { CrashService } from '../services/crash.service';
+import { simulationQuota } from '../middleware/quota';
 
 /**
  * Express router for crash simulation endpoints.
@@ -41,7 +42,7 @@ export const crashRouter = Router();
  * @route POST /api/simulations/crash/failfast
  * @returns {Object} Crash initiated message (may not be received)
  */
-crashRouter.post('/failfast', (_req: Request, res: Response) => {
+crashRouter.post('/failfast', simulationQuota(), (_req: Request, res: Response) => {
   res.status(202).json({
     message: 'FailFast initiated - process will terminate via SIGABRT',
     warning: 'The process will terminate immediately. In Azure App Service, it will restart automatically.',
@@ -61,7 +62,7 @@ crashRouter.post('/failfast', (_req: Request, res: Response) => {
  * @route POST /api/simulations/crash/stackoverflow
  * @returns {Object} Crash initiated message (may not be received)
  */
-crashRouter.post('/stackoverflow', (_req: Request, res: Response) => {
+crashRouter.post('/stackoverflow', simulationQuota(), (_req: Request, res: Response) => {
   res.status(202).json({
     message: 'Stack overflow initiated - process will terminate via infinite recursion',
     warning: 'The process will terminate. On Azure App Service, may require manual restart.',
@@ -82,7 +83,7 @@ crashRouter.post('/stackoverflow', (_req: Request, res: Response) => {
  * @route POST /api/simulations/crash/exception
  * @returns {Object} Crash initiated message (may not be received)
  */
-crashRouter.post('/exception', (_req: Request, res: Response) => {
+crashRouter.post('/exception', simulationQuota(), (_req: Request, res: Response) => {
   // Send response before crashing
   res.status(202).json({
     message: 'Crash initiated - process will terminate via unhandled exception',
@@ -104,7 +105,7 @@ crashRouter.post('/exception', (_req: Request, res: Response) => {
  * @route POST /api/simulations/crash/memory
  * @returns {Object} Crash initiated message (may not be received)
  */
-crashRouter.post('/memory', (_req: Request, res: Response) => {
+crashRouter.post('/memory', simulationQuota(), (_req: Request, res: Response) => {
   // Send response before crashing
   res.status(202).json({
     message: 'Memory exhaustion initiated - process will terminate with OOM error',
@@ -0,0 +1,225 @@
+/**
+ * =============================================================================
+ * DIAGNOSTICS CONTROLLER — On-Demand Diagnostic Capture REST API
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Lets trainees capture diagnostic artifacts (heap snapshots, CPU profiles)
+ *   while a simulation is running, then list and download them for offline
+ *   analysis in Chrome DevTools (Memory tab / Performance tab → Load).
+ *
+ * ENDPOINTS:
+ *   POST   /api/admin/diagnostics/heap-snapshot          → Capture a V8 heap snapshot
+ *   POST   /api/admin/diagnostics/cpu-profile            → Record a CPU profile (body: durationSeconds,
+ *                                                          optional simulationId)
+ *   GET    /api/admin/diagnostics/artifacts              → List captured artifacts (?kind=)
+ *   GET    /api/admin/diagnostics/artifacts/:id          → Artifact metadata
+ *   GET    /api/admin/diagnostics/artifacts/:id/download → Download the artifact file
+ *   DELETE /api/admin/diagnostics/artifacts/:id          → Delete an artifact
+ *
+ * CONCURRENCY:
+ *   Only one heap snapshot and one CPU profile may be captured at a time; a
+ *   second request of the same kind while one is in progress returns 409 Conflict.
+ *   CPU profile requests stay open for the whole recording (durationSeconds).
+ *
+ * PORTING NOTES:
+ *   - Java Spring: return ResponseEntity<Resource> with Content-Disposition for downloads.
+ *   - C# ASP.NET: PhysicalFile(path, "application/octet-stream", fileName).
+ *   - Python FastAPI: FileResponse(path, filename=...).
+ *
+ * @module controllers/diagnostics
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { HeapSnapshotService } from '../services/heap-snapshot.service';
+import { CpuProfileService } from '../services/cpu-profile.service';
+import { DiagnosticArtifactService } from '../services/diagnostic-artifact.service';
+import { DiagnosticArtifact, DiagnosticArtifactKind } from '../types';
+import { validateCpuProfileParams, validateUuid } from '../middleware/validation';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+
+/** Artifact kinds accepted by the ?kind= list filter */
+const ARTIFACT_KINDS: DiagnosticArtifactKind[] = ['HEAP_SNAPSHOT', 'CPU_PROFILE'];
+
+/**
+ * Express router for diagnostics endpoints.
+ */
+export const diagnosticsRouter = Router();
+
+/**
+ * Serializes artifact metadata for API responses.
+ *
+ * @param artifact - Artifact metadata
+ * @returns JSON-friendly artifact with download URL
+ */
+function toArtifactResponse(artifact: DiagnosticArtifact): Record<string, unknown> {
+  return {
+    id: artifact.id,
+    kind: artifact.kind,
+    fileName: artifact.fileName,
+    sizeBytes: artifact.sizeBytes,
+    createdAt: artifact.createdAt.toISOString(),
+    captureDurationMs: artifact.captureDurationMs,
+    activeSimulationIds: artifact.activeSimulationIds,
+    simulationId: artifact.simulationId,
+    downloadUrl: `/api/admin/diagnostics/artifacts/${artifact.id}/download`,
+  };
+}
+
+/**
+ * Looks up an artifact by the :id route parameter.
+ *
+ * @param rawId - Raw route parameter
+ * @returns Artifact metadata
+ * @throws ValidationError if the ID is not a UUID, NotFoundError if unknown
+ */
+function findArtifact(rawId: unknown): DiagnosticArtifact {
+  const id = validateUuid(rawId, 'id');
+  const artifact = DiagnosticArtifactService.getArtifact(id);
+  if (!artifact) {
+    throw new NotFoundError('Diagnostic artifact not found');
+  }
+  return artifact;
+}
+
+/**
+ * POST /api/admin/diagnostics/heap-snapshot
+ *
+ * Captures a V8 heap snapshot. The event loop is paused while the snapshot is written.
+ *
+ * @route POST /api/admin/diagnostics/heap-snapshot
+ * @returns {Object} Captured artifact metadata
+ */
+diagnosticsRouter.post(
+  '/heap-snapshot',
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const artifact = await HeapSnapshotService.capture();
+
+      res.status(201).json(toArtifactResponse(artifact));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/diagnostics/cpu-profile
+ *
+ * Records a CPU profile of the main process for durationSeconds. The response
+ * is sent once the recording has finished.
+ *
+ * @route POST /api/admin/diagnostics/cpu-profile
+ * @body {number} durationSeconds - Recording length in seconds
+ * @body {string} [simulationId] - Simulation the profile covers (defaults to the
+ *                                 newest active CPU_STRESS/EVENT_LOOP_BLOCKING)
+ * @returns {Object} Captured artifact metadata
+ */
+diagnosticsRouter.post('/cpu-profile', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as unknown;
+    const params =
+      typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+    const { durationSeconds, simulationId } = validateCpuProfileParams(
+      params.durationSeconds,
+      params.simulationId
+    );
+
+    const artifact = await CpuProfileService.capture(durationSeconds, simulationId);
+
+    res.status(201).json(toArtifactResponse(artifact));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/admin/diagnostics/artifacts
+ *
+ * Lists captured artifacts, newest first.
+ *
+ * @route GET /api/admin/diagnostics/artifacts
+ * @query {string} [kind] - HEAP_SNAPSHOT or CPU_PROFILE
+ * @returns {Object} List of artifacts
+ */
+diagnosticsRouter.get('/artifacts', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const kind = req.query.kind;
+    if (kind !== undefined && !ARTIFACT_KINDS.includes(kind as DiagnosticArtifactKind)) {
+      throw new ValidationError(`kind must be one of: ${ARTIFACT_KINDS.join(', ')}`);
+    }
+
+    const artifacts = DiagnosticArtifactService.listArtifacts(kind as DiagnosticArtifactKind);
+
+    res.json({
+      artifacts: artifacts.map(toArtifactResponse),
+      count: artifacts.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/admin/diagnostics/artifacts/:id
+ *
+ * Returns metadata for a single artifact.
+ *
+ * @route GET /api/admin/diagnostics/artifacts/:id
+ * @param {string} id - Artifact ID (UUID)
+ * @returns {Object} Artifact metadata
+ */
+diagnosticsRouter.get('/artifacts/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(toArtifactResponse(findArtifact(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/admin/diagnostics/artifacts/:id/download
+ *
+ * Streams the artifact file as an attachment.
+ *
+ * @route GET /api/admin/diagnostics/artifacts/:id/download
+ * @param {string} id - Artifact ID (UUID)
+ */
+diagnosticsRouter.get(
+  '/artifacts/:id/download',
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const artifact = findArtifact(req.params.id);
+
+      res.download(DiagnosticArtifactService.getFilePath(artifact), artifact.fileName, (error) => {
+        if (error && !res.headersSent) {
+          next(new NotFoundError('Diagnostic artifact file is no longer available'));
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/diagnostics/artifacts/:id
+ *
+ * Deletes an artifact file and its registry entry.
+ *
+ * @route DELETE /api/admin/diagnostics/artifacts/:id
+ * @param {string} id - Artifact ID (UUID)
+ */
+diagnosticsRouter.delete('/artifacts/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const artifact = findArtifact(req.params.id);
+    DiagnosticArtifactService.deleteArtifact(artifact.id);
+
+    res.json({
+      id: artifact.id,
+      message: `Deleted ${artifact.fileName}`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
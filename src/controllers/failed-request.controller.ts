@@ -23,6 +23,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { FailedRequestService } from '../services/failed-request.service';
 import { validateOptionalInteger } from '../middleware/validation';
+import { getCredential } from '../middleware/auth';
 
 /**
  * Express router for failed request simulation endpoints.
@@ -50,8 +51,11 @@ failedRouter.post('/', async (req: Request, res: Response, next: NextFunction) =
       5         // default
     );
 
-    // Generate the failed requests
-    const simulation = await FailedRequestService.generateFailedRequests({ requestCount });
+    // Generate the failed requests as the caller
+    const simulation = await FailedRequestService.generateFailedRequests(
+      { requestCount },
+      getCredential(req.headers)
+    );
 
     res.json({
       id: simulation.id,
@@ -59,6 +63,7 @@ failedRouter.post('/', async (req: Request, res: Response, next: NextFunction) =
       message: `Generated ${requestCount} HTTP 5xx errors`,
       status: simulation.status,
       requestCount,
+      seed: simulation.seed,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -11,6 +11,10 @@
  * ENDPOINTS:
  *   GET /api/loadtest       → Execute load test work (all params optional query params)
  *   GET /api/loadtest/stats → Current statistics without performing work
+ *   POST   /api/loadtest/generator → Start the built-in load generator (sidecar)
+ *   GET    /api/loadtest/generator → Active or most recent load generator run
+ *   DELETE /api/loadtest/generator → Stop the active load generator run
+ *   POST   /api/loadtest/export    → Download the plan as a k6 or JMeter script
  *
  * DEGRADATION BEHAVIOR:
  *   The endpoint degrades gracefully as concurrency increases:
@@ -28,12 +32,27 @@
  *   - errorAboveConcurrent (default: 20) → Concurrent threshold for random errors (same as softLimit)
  *   - errorPercent     (default: 20)     → Percentage chance of error when above threshold
  *
+ * QUEUE TIME:
+ *   Time spent waiting before work starts is reported separately from work
+ *   time in the stats. A request queued in the socket while the event loop
+ *   was blocked is only seen by Express once it unblocks, so with
+ *   TRUST_REQUEST_START=true the X-Request-Start header (t=<epoch ms>, as set
+ *   by nginx, Heroku and New Relic setups) is used as the arrival time
+ *   instead. Off by default: any client can send the header, and one forged
+ *   stamp would skew the lifetime stats. Stamps older than
+ *   limits.maxRequestStartAgeMs are ignored even when trusted.
+ *
  * @module controllers/loadtest
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { LoadTestService } from '../services/load-test.service';
 import { IdleTimeoutService } from '../services/idle-timeout.service';
+import { LoadGeneratorService } from '../services/load-generator.service';
+import { LoadTestExportService } from '../services/load-test-export.service';
+import { validateLoadGeneratorPlan, validateLoadTestExport } from '../middleware/validation';
+import { getCredential, isAuthEnabled } from '../middleware/auth';
+import { config, limits } from '../config';
 
 /**
  * Express router for load test endpoints.
@@ -73,7 +92,11 @@ export const loadtestRouter = Router();
 loadtestRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
   // Capture arrival time immediately - this is when Express received the request.
   // Under load, there may be significant queue time before executeWork() runs.
-  const arrivalTime = Date.now();
+  const receivedTime = Date.now();
+  const arrivalTime =
+    (config.trustRequestStart
+      ? parseRequestStart(req.headers['x-request-start'], receivedTime)
+      : undefined) ?? receivedTime;
 
   // Record activity to prevent app from entering idle state during load tests
   IdleTimeoutService.recordActivity('load test request');
@@ -108,12 +131,111 @@ loadtestRouter.get('/', async (req: Request, res: Response, next: NextFunction)
  *
  * Returns current load test statistics without performing work.
  * Useful for monitoring concurrent request count during load tests.
+ * Includes response, queue and work time percentiles and exceptions by type
+ * since app start.
  */
 loadtestRouter.get('/stats', (_req: Request, res: Response) => {
   const stats = LoadTestService.getCurrentStats();
   res.json(stats);
 });
 
+/**
+ * POST /api/loadtest/generator
+ *
+ * Starts sending traffic to GET /api/loadtest from the sidecar process, so a
+ * degradation demo needs no outside load testing tool. Live results arrive
+ * as 'loadGenerator' Socket.IO events.
+ *
+ * Request body:
+ * - model (required)   "open" (target = requests per second) or "closed" (target = virtual users)
+ * - stages             [{ durationSeconds, target }], each ramping from the previous target
+ *   or target + durationSeconds (+ rampUpSeconds) for a single level
+ * - request            Load test parameters sent with every request (see GET /api/loadtest)
+ * - thinkTimeMs        Closed model pause between requests (default: 0)
+ * - requestTimeoutMs   Per-request timeout (default: 60000)
+ *
+ * Generated requests carry the caller's credential, so they pass the same
+ * role checks as the caller.
+ */
+loadtestRouter.post('/generator', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = validateLoadGeneratorPlan(req.body);
+    IdleTimeoutService.recordActivity('load generator');
+    const run = LoadGeneratorService.start(plan, getCredential(req.headers));
+    res.status(201).json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/loadtest/generator
+ *
+ * Returns the active or most recent load generator run with its latest results.
+ */
+loadtestRouter.get('/generator', (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(LoadGeneratorService.getRun());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/loadtest/generator
+ *
+ * Stops the active load generator run; requests in flight are abandoned.
+ */
+loadtestRouter.delete('/generator', (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(LoadGeneratorService.stop());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/loadtest/export
+ *
+ * Generates a ready-to-run load test script for this host, so a plan tried
+ * with the built-in generator can move to a real load testing tool.
+ *
+ * Request body: the load generator plan (see POST /api/loadtest/generator)
+ * plus:
+ * - format (required)  "k6" (JavaScript) or "jmeter" (.jmx test plan)
+ * - model              defaults to "closed"; targets are not capped by the
+ *                      built-in generator's limits
+ *
+ * Load test parameters left out of request are written with their defaults.
+ * When authentication is enabled the script sends an API key supplied at
+ * run time.
+ */
+loadtestRouter.post('/export', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format, plan } = validateLoadTestExport(req.body);
+    const script = LoadTestExportService.generate(format, plan, {
+      baseUrl: requestBaseUrl(req),
+      authenticate: isAuthEnabled(),
+    });
+    res.setHeader('Content-Disposition', `attachment; filename="${script.fileName}"`);
+    res.type(script.contentType);
+    res.send(script.content);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Gets the URL clients used to reach this app. Behind Azure's front end the
+ * connection is plain HTTP, so X-Forwarded-Proto tells whether it was HTTPS.
+ */
+function requestBaseUrl(req: Request): string {
+  const forwardedProto = req.get('x-forwarded-proto')?.split(',')[0].trim();
+  const protocol =
+    forwardedProto === 'https' || forwardedProto === 'http' ? forwardedProto : req.protocol;
+  return `${protocol}://${req.get('host') ?? 'localhost'}`;
+}
+
 /**
  * Parses an optional integer from a query parameter value.
  * Returns undefined if the value is not present or not a valid integer.
@@ -126,6 +248,34 @@ function parseOptionalInt(value: string | undefined): number | undefined {
   return isNaN(parsed) ? undefined : parsed;
 }
 
+/**
+ * Parses an X-Request-Start header into epoch milliseconds.
+ *
+ * Accepts "t=<value>" or a bare value in seconds, milliseconds or
+ * microseconds (told apart by magnitude). Returns undefined when absent,
+ * unparseable, in the future (clock skew with the front end) or older than
+ * limits.maxRequestStartAgeMs (no front end holds a request that long).
+ */
+function parseRequestStart(value: string | string[] | undefined, now: number): number | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (!raw) {
+    return undefined;
+  }
+  const parsed = parseFloat(raw.trim().replace(/^t=/, ''));
+  if (!isFinite(parsed) || parsed <= 0) {
+    return undefined;
+  }
+  let epochMs = parsed;
+  if (parsed < 1e11) {
+    epochMs = parsed * 1000; // seconds (nginx $msec)
+  } else if (parsed > 1e14) {
+    epochMs = parsed / 1000; // microseconds
+  }
+  return epochMs <= now && epochMs >= now - limits.maxRequestStartAgeMs
+    ? Math.floor(epochMs)
+    : undefined;
+}
+
 /**
  * Parses an optional boolean from a query parameter value.
  * Returns undefined if the value is not present, true for 'true'/'1', false otherwise.
@@ -11,6 +11,10 @@
  *   POST   /api/simulations/memory     → Allocate memory (body: sizeMb)
  *   DELETE /api/simulations/memory/:id → Release a memory allocation (idempotent)
  *   GET    /api/simulations/memory     → List active allocations with total
+ *   POST   /api/simulations/memory/leak     → Start a gradual leak (body: leakRateMbPerMinute,
+ *                                             optional maxSizeMb, durationSeconds)
+ *   DELETE /api/simulations/memory/leak/:id → Stop a leak and release its memory (idempotent)
+ *   GET    /api/simulations/memory/leak     → List active leaks with retained size
  *
  * DESIGN DECISION:
  *   DELETE is idempotent — releasing an already-released allocation returns
@@ -21,7 +25,15 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { MemoryPressureService } from '../services/memory-pressure.service';
-import { validateMemoryPressureParams, validateUuid } from '../middleware/validation';
+import { MemoryLeakService } from '../services/memory-leak.service';
+import {
+  validateMemoryPressureParams,
+  validateMemoryLeakParams,
+  validateOptionalBoolean,
+  validateUuid,
+} from '../middleware/validation';
+import { simulationQuota } from '../middleware/quota';
+import { GuardrailService } from '../services/guardrail.service';
 
 /**
  * Express router for memory simulation endpoints.
@@ -34,28 +46,40 @@ export const memoryRouter = Router();
  * Allocates memory to simulate memory pressure.
  *
  * @route POST /api/simulations/memory
- * @body {number} sizeMb - Memory to allocate in megabytes (no limit)
+ * @body {number} sizeMb - Memory to allocate in megabytes (checked against the container's safe limit)
+ * @body {boolean} [force] - Skip the guardrails (when an OOM is the point)
  * @returns {SimulationResponse} Created allocation details
  */
-memoryRouter.post('/', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    // Validate input parameters
-    const { sizeMb } = validateMemoryPressureParams(req.body.sizeMb);
-
-    // Allocate memory
-    const simulation = MemoryPressureService.allocate({ sizeMb });
-
-    res.status(201).json({
-      id: simulation.id,
-      type: simulation.type,
-      message: `Allocated ${sizeMb}MB of memory`,
-      parameters: simulation.parameters,
-      totalAllocatedMb: MemoryPressureService.getTotalAllocatedMb(),
-    });
-  } catch (error) {
-    next(error);
+memoryRouter.post(
+  '/',
+  simulationQuota('MEMORY_PRESSURE'),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as unknown;
+      const params =
+        typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+
+      // Validate input parameters and keep them inside the container's limits
+      const validated = validateMemoryPressureParams(params.sizeMb);
+      const force = validateOptionalBoolean(params.force ?? req.query.force, 'force');
+      const sizeMb = GuardrailService.guardMemoryAllocation(validated.sizeMb, force);
+
+      // Allocate memory
+      const simulation = MemoryPressureService.allocate({ sizeMb });
+
+      res.status(201).json({
+        id: simulation.id,
+        type: simulation.type,
+        message: `Allocated ${sizeMb}MB of memory`,
+        parameters: simulation.parameters,
+        seed: simulation.seed,
+        totalAllocatedMb: MemoryPressureService.getTotalAllocatedMb(),
+      });
+    } catch (error) {
+      next(error);
+    }
   }
-});
+);
 
 /**
  * DELETE /api/simulations/memory/:id
@@ -118,8 +142,120 @@ memoryRouter.get('/', (_req: Request, res: Response) => {
       parameters: alloc.parameters,
       sizeMb: MemoryPressureService.getAllocationSize(alloc.id),
       startedAt: alloc.startedAt.toISOString(),
+      seed: alloc.seed,
     })),
     count: allocations.length,
     totalAllocatedMb: MemoryPressureService.getTotalAllocatedMb(),
   });
 });
+
+/**
+ * POST /api/simulations/memory/leak
+ *
+ * Starts a gradual memory leak that grows retained heap at a steady rate.
+ *
+ * @route POST /api/simulations/memory/leak
+ * @body {number} leakRateMbPerMinute - Heap growth rate in MB per minute
+ * @body {number} [maxSizeMb] - Optional ceiling; growth stops (memory retained) once reached
+ * @body {number} [durationSeconds] - Optional duration; memory is released when it elapses
+ * @body {boolean} [force] - Skip the guardrails (no safe-limit ceiling)
+ * @returns {SimulationResponse} Created leak details
+ */
+memoryRouter.post(
+  '/leak',
+  simulationQuota('MEMORY_LEAK'),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as unknown;
+      const raw =
+        typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+
+      // Validate input parameters and keep them inside the container's limits
+      const params = GuardrailService.guardMemoryLeak(
+        validateMemoryLeakParams(raw.leakRateMbPerMinute, raw.maxSizeMb, raw.durationSeconds),
+        validateOptionalBoolean(raw.force ?? req.query.force, 'force')
+      );
+
+      // Start the leak
+      const simulation = MemoryLeakService.start(params);
+
+      res.status(201).json({
+        id: simulation.id,
+        type: simulation.type,
+        message: `Memory leak started at ${params.leakRateMbPerMinute}MB/min`,
+        parameters: simulation.parameters,
+        scheduledEndAt: params.durationSeconds !== undefined ? simulation.scheduledEndAt.toISOString() : null,
+        seed: simulation.seed,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/simulations/memory/leak/:id
+ *
+ * Stops a memory leak and releases everything it retained.
+ *
+ * @route DELETE /api/simulations/memory/leak/:id
+ * @param {string} id - Leak simulation ID (UUID)
+ * @returns {SimulationResponse} Stopped leak details
+ */
+memoryRouter.delete('/leak/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate UUID format
+    const id = validateUuid(req.params.id, 'id');
+
+    const result = MemoryLeakService.stop(id);
+
+    if (result) {
+      res.json({
+        id: result.simulation?.id ?? id,
+        type: 'MEMORY_LEAK',
+        message: `Memory leak stopped, released ${result.leakedMb}MB of memory`,
+        status: result.simulation?.status ?? 'STOPPED',
+        stoppedAt: result.simulation?.stoppedAt?.toISOString(),
+        leakedMb: result.leakedMb,
+      });
+    } else {
+      // Nothing found to stop - return success anyway (idempotent delete)
+      res.json({
+        id: id,
+        type: 'MEMORY_LEAK',
+        message: 'Memory leak already stopped or not found',
+        status: 'STOPPED',
+        leakedMb: 0,
+      });
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/simulations/memory/leak
+ *
+ * Lists active memory leaks with their current retained size.
+ *
+ * @route GET /api/simulations/memory/leak
+ * @returns {Object} List of active memory leaks
+ */
+memoryRouter.get('/leak', (_req: Request, res: Response) => {
+  const leaks = MemoryLeakService.getActiveLeaks();
+
+  res.json({
+    leaks: leaks.map((leak) => ({
+      id: leak.id,
+      type: leak.type,
+      status: leak.status,
+      parameters: leak.parameters,
+      leakedMb: MemoryLeakService.getLeakedMb(leak.id) ?? 0,
+      startedAt: leak.startedAt.toISOString(),
+      scheduledEndAt: leak.scheduledEndAt.toISOString(),
+      seed: leak.seed,
+    })),
+    count: leaks.length,
+    totalLeakedMb: MemoryLeakService.getTotalLeakedMb(),
+  });
+});
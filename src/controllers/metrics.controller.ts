@@ -12,6 +12,9 @@
  *   GET /api/metrics/probe → Lightweight probe for sidecar latency measurement.
  *                            Also returns load test activity status so the
  *                            sidecar can adjust its behavior during load tests.
+ *   GET /api/metrics/history → Recorded metrics within a time range
+ *                            (?from=&to= as epoch ms or ISO 8601, ?resolution= in ms)
+ *   GET /api/metrics/requests → Rate, errors and latency percentiles per API route
  *
  * NOTE: Real-time metrics are primarily delivered via WebSocket (see index.ts).
  *       These REST endpoints are for on-demand queries and sidecar probing.
@@ -19,9 +22,16 @@
  * @module controllers/metrics
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { MetricsService } from '../services/metrics.service';
 import { LoadTestService } from '../services/load-test.service';
+import { MetricsHistoryService } from '../services/metrics-history.service';
+import { RequestMetricsService } from '../services/request-metrics.service';
+import { validateInteger, validateOptionalTimestamp } from '../middleware/validation';
+import { ValidationError } from '../middleware/error-handler';
+
+/** Default history window when `from` is omitted (10 minutes) */
+const DEFAULT_HISTORY_WINDOW_MS = 10 * 60 * 1000;
 
 /**
  * Express router for metrics endpoints.
@@ -31,13 +41,16 @@ export const metricsRouter = Router();
 /**
  * GET /api/metrics
  *
- * Returns current system metrics snapshot.
+ * Returns the latest snapshot collected by the metrics broadcast loop.
+ * Collecting a new one here would end the loop's measurement interval early
+ * (CPU, ELU, GC and container deltas), taking samples away from the socket
+ * stream and the history store.
  *
  * @route GET /api/metrics
- * @returns {SystemMetrics} Current system metrics
+ * @returns {SystemMetrics} Latest system metrics
  */
 metricsRouter.get('/', (_req: Request, res: Response) => {
-  const metrics = MetricsService.getMetrics();
+  const metrics = MetricsService.getLastMetrics();
 
   // Convert Date to ISO string for JSON serialization
   res.json({
@@ -65,3 +78,67 @@ metricsRouter.get('/probe', (_req: Request, res: Response) => {
     },
   });
 });
+
+/**
+ * GET /api/metrics/history
+ *
+ * Returns recorded metrics snapshots within a time range, downsampled to the
+ * requested resolution. Used by the dashboard to backfill charts on load.
+ *
+ * @route GET /api/metrics/history
+ * @query {string} [from] - Range start (epoch ms or ISO 8601, default: to - 10 minutes)
+ * @query {string} [to] - Range end (epoch ms or ISO 8601, default: now)
+ * @query {number} [resolution] - Point spacing in ms (default: auto, at most 2000 points)
+ * @returns {Object} Metrics points, oldest first
+ */
+metricsRouter.get('/history', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const to = validateOptionalTimestamp(req.query.to, 'to', new Date());
+    const from = validateOptionalTimestamp(
+      req.query.from,
+      'from',
+      new Date(to.getTime() - DEFAULT_HISTORY_WINDOW_MS)
+    );
+    if (from.getTime() > to.getTime()) {
+      throw new ValidationError('from must not be after to');
+    }
+    const resolution =
+      req.query.resolution === undefined || req.query.resolution === ''
+        ? undefined
+        : validateInteger(req.query.resolution, 'resolution', 1, 24 * 60 * 60 * 1000);
+
+    const result = MetricsHistoryService.query(from, to, resolution);
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      resolutionMs: result.resolutionMs,
+      sourceResolutionMs: result.sourceResolutionMs,
+      count: result.points.length,
+      points: result.points.map((point) => ({
+        ...point,
+        timestamp: point.timestamp.toISOString(),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/metrics/requests
+ *
+ * Returns rate, errors and duration (RED) per API route: totals since start,
+ * plus rates and latency percentiles over a sliding window.
+ *
+ * @route GET /api/metrics/requests
+ * @returns {RequestMetricsSnapshot} Per-route request metrics, busiest first
+ */
+metricsRouter.get('/requests', (_req: Request, res: Response) => {
+  const snapshot = RequestMetricsService.getSnapshot();
+
+  res.json({
+    ...snapshot,
+    timestamp: snapshot.timestamp.toISOString(),
+  });
+});
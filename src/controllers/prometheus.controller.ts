@@ -0,0 +1,42 @@
+/**
+ * =============================================================================
+ * PROMETHEUS CONTROLLER — Metrics Scrape Endpoint
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Serves the Prometheus text exposition of the simulator's metrics at the
+ *   conventional /metrics path (the default scrape path in Prometheus configs).
+ *
+ * ENDPOINTS:
+ *   GET /metrics → Prometheus text format (version 0.0.4)
+ *
+ * NOTE: GET /api/metrics remains the JSON snapshot used by the dashboard.
+ *       Scrapes read the latest broadcast snapshot and do not count as user
+ *       activity for the idle timeout.
+ *
+ * @module controllers/prometheus
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  PrometheusExporterService,
+  PROMETHEUS_CONTENT_TYPE,
+} from '../services/prometheus-exporter.service';
+
+/**
+ * Express router for the Prometheus scrape endpoint.
+ */
+export const prometheusRouter = Router();
+
+/**
+ * GET /metrics
+ *
+ * Returns all simulator metrics in Prometheus text exposition format.
+ *
+ * @route GET /metrics
+ * @returns {string} Prometheus exposition text
+ */
+prometheusRouter.get('/', (_req: Request, res: Response) => {
+  res.set('Content-Type', PROMETHEUS_CONTENT_TYPE);
+  res.send(PrometheusExporterService.render());
+});
@@ -0,0 +1,219 @@
+/**
+ * =============================================================================
+ * SCENARIO CONTROLLER — Scenario Playbook REST API
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Starts, pauses, resumes, aborts and inspects scenario runs — scripted
+ *   sequences of simulations driven by ScenarioService.
+ *
+ * ENDPOINTS:
+ *   POST /api/scenarios            → Start a playbook (JSON, or YAML with a YAML Content-Type)
+ *   GET  /api/scenarios            → List recent runs
+ *   GET  /api/scenarios/:id        → Run state with per-step status
+ *   POST /api/scenarios/:id/pause  → Pause the scenario clock
+ *   POST /api/scenarios/:id/resume → Resume a paused run
+ *   POST /api/scenarios/:id/abort  → Abort and clean up started simulations
+ *
+ * PLAYBOOK FORMAT (JSON shown; YAML has the same shape):
+ *   {
+ *     "name": "Memory then CPU",
+ *     "steps": [
+ *       { "atSeconds": 0,   "action": "MEMORY_PRESSURE", "sizeMb": 500, "label": "big" },
+ *       { "atSeconds": 30,  "action": "CPU_STRESS", "intensity": "high", "durationSeconds": 60 },
+ *       { "atSeconds": 60,  "action": "EVENT_LOOP_BLOCKING", "durationSeconds": 10 },
+ *       { "atSeconds": 120, "action": "MEMORY_RELEASE", "target": "big" }
+ *     ]
+ *   }
+ *
+ * PORTING NOTES:
+ *   - Java Spring: consumes = {"application/json", "application/yaml"} with a
+ *     Jackson YAMLFactory-backed HttpMessageConverter.
+ *   - C# ASP.NET: YamlDotNet in a custom InputFormatter.
+ *   - Python FastAPI: read the raw body and yaml.safe_load() it for YAML content types.
+ *
+ * @module controllers/scenario
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import YAML from 'yamljs';
+import { ScenarioService } from '../services/scenario.service';
+import { ScenarioRun } from '../types';
+import { validateScenarioPlaybook, validateUuid } from '../middleware/validation';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { assertRole, getPrincipal } from '../middleware/auth';
+import { simulationQuota } from '../middleware/quota';
+
+/** Content types parsed as YAML playbooks */
+const YAML_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml'];
+
+/**
+ * Express router for scenario endpoints.
+ */
+export const scenarioRouter = Router();
+
+// JSON bodies are parsed by the app; YAML playbooks arrive as raw text
+scenarioRouter.use(express.text({ type: YAML_CONTENT_TYPES }));
+
+/**
+ * Serializes a run for API responses.
+ *
+ * @param run - Scenario run
+ * @returns JSON-friendly run with per-step state
+ */
+function toRunResponse(run: ScenarioRun): Record<string, unknown> {
+  return {
+    id: run.id,
+    name: run.playbook.name,
+    description: run.playbook.description,
+    status: run.status,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+    elapsedSeconds: Math.round(ScenarioService.getElapsedMs(run) / 100) / 10,
+    steps: run.steps.map((state) => ({
+      index: state.index,
+      ...state.step,
+      status: state.status,
+      startedAt: state.startedAt?.toISOString() ?? null,
+      finishedAt: state.finishedAt?.toISOString() ?? null,
+      simulationId: state.simulationId,
+      error: state.error,
+    })),
+  };
+}
+
+/**
+ * Looks up a run by the :id route parameter.
+ *
+ * @param rawId - Raw route parameter
+ * @returns Scenario run
+ * @throws ValidationError if the ID is not a UUID, NotFoundError if unknown
+ */
+function findRun(rawId: unknown): ScenarioRun {
+  const id = validateUuid(rawId, 'id');
+  const run = ScenarioService.getRun(id);
+  if (!run) {
+    throw new NotFoundError('Scenario run not found');
+  }
+  return run;
+}
+
+/**
+ * Parses the request body into a raw playbook object.
+ *
+ * @param body - JSON object, or YAML text for YAML content types
+ * @returns Parsed playbook (not yet validated)
+ * @throws ValidationError if the YAML cannot be parsed
+ */
+function parsePlaybookBody(body: unknown): unknown {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  try {
+    return YAML.parse(body) as unknown;
+  } catch (error) {
+    throw new ValidationError(`Invalid YAML playbook: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * POST /api/scenarios
+ *
+ * Validates a playbook and starts running it.
+ *
+ * @route POST /api/scenarios
+ * @body {Object|string} playbook - JSON playbook, or YAML text with a YAML Content-Type
+ * @returns {Object} The new run (201)
+ */
+scenarioRouter.post('/', simulationQuota(), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const playbook = validateScenarioPlaybook(parsePlaybookBody(req.body));
+    // Memory steps need the same role as the memory endpoints themselves
+    if (playbook.steps.some((step) => step.action.startsWith('MEMORY_'))) {
+      assertRole(res, 'instructor', 'A playbook with memory steps');
+    }
+    const run = ScenarioService.start(playbook, getPrincipal(res).clientId);
+
+    res.status(201).json(toRunResponse(run));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/scenarios
+ *
+ * Lists recent scenario runs, newest first.
+ *
+ * @route GET /api/scenarios
+ * @returns {Object} Runs
+ */
+scenarioRouter.get('/', (_req: Request, res: Response) => {
+  const runs = ScenarioService.listRuns().map(toRunResponse);
+
+  res.json({ runs, count: runs.length });
+});
+
+/**
+ * GET /api/scenarios/:id
+ *
+ * Returns a run with per-step status.
+ *
+ * @route GET /api/scenarios/:id
+ * @returns {Object} Run
+ */
+scenarioRouter.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(toRunResponse(findRun(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/scenarios/:id/pause
+ *
+ * @route POST /api/scenarios/:id/pause
+ * @returns {Object} Paused run
+ */
+scenarioRouter.post('/:id/pause', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = ScenarioService.pause(findRun(req.params.id).id);
+
+    res.json(toRunResponse(run));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/scenarios/:id/resume
+ *
+ * @route POST /api/scenarios/:id/resume
+ * @returns {Object} Resumed run
+ */
+scenarioRouter.post('/:id/resume', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = ScenarioService.resume(findRun(req.params.id).id);
+
+    res.json(toRunResponse(run));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/scenarios/:id/abort
+ *
+ * @route POST /api/scenarios/:id/abort
+ * @returns {Object} Aborted run
+ */
+scenarioRouter.post('/:id/abort', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = ScenarioService.abort(findRun(req.params.id).id);
+
+    res.json(toRunResponse(run));
+  } catch (error) {
+    next(error);
+  }
+});
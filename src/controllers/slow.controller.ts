@@ -23,6 +23,7 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { SlowRequestService } from '../services/slow-request.service';
+import { RandomService, SeededRandom } from '../services/random.service';
 import { validateOptionalInteger } from '../middleware/validation';
 import { limits, defaults } from '../config';
 import { SlowRequestBlockingPattern } from '../types';
@@ -39,8 +40,8 @@ export const slowRouter = Router();
  */
 const BLOCKING_PATTERNS: SlowRequestBlockingPattern[] = ['setTimeout', 'libuv', 'worker'];
 
-function getRandomBlockingPattern(): SlowRequestBlockingPattern {
-  return BLOCKING_PATTERNS[Math.floor(Math.random() * BLOCKING_PATTERNS.length)];
+function getRandomBlockingPattern(random: SeededRandom): SlowRequestBlockingPattern {
+  return BLOCKING_PATTERNS[random.nextInt(BLOCKING_PATTERNS.length)];
 }
 
 /**
@@ -65,11 +66,15 @@ slowRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
       defaults.slowRequestDelaySeconds
     );
     
-    // Randomly select a blocking pattern
-    const blockingPattern = getRandomBlockingPattern();
+    // Randomly select a blocking pattern (?seed= picks the same one again)
+    const random = RandomService.createGenerator();
+    const blockingPattern = getRandomBlockingPattern(random);
 
     // Execute the slow request
-    const simulation = await SlowRequestService.delay({ delaySeconds, blockingPattern });
+    const simulation = await SlowRequestService.delay(
+      { delaySeconds, blockingPattern },
+      random.seed
+    );
 
     res.json({
       id: simulation.id,
@@ -78,6 +83,7 @@ slowRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
       status: simulation.status,
       requestedDelaySeconds: delaySeconds,
       blockingPattern,
+      seed: simulation.seed,
       actualDurationMs: simulation.stoppedAt
         ? simulation.stoppedAt.getTime() - simulation.startedAt.getTime()
         : null,
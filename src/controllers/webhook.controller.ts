@@ -0,0 +1,233 @@
+/**
+ * =============================================================================
+ * WEBHOOK CONTROLLER — Webhook Registration & Dead-Letter REST API
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Manages webhooks that push event log entries (crashes, long CPU runs, …)
+ *   to chat channels or automation in shared training labs.
+ *
+ * ENDPOINTS:
+ *   POST   /api/admin/webhooks                            → Register a webhook (body: url, optional
+ *                                                          events, levels, secret, description)
+ *   GET    /api/admin/webhooks                            → List webhooks
+ *   GET    /api/admin/webhooks/dead-letters               → Deliveries that exhausted their retries
+ *   DELETE /api/admin/webhooks/dead-letters               → Empty the dead-letter list
+ *   POST   /api/admin/webhooks/dead-letters/:id/redeliver → Deliver a dead letter again
+ *   GET    /api/admin/webhooks/:id                        → Webhook details and delivery counts
+ *   DELETE /api/admin/webhooks/:id                        → Remove a webhook
+ *
+ * SECRETS:
+ *   The signing secret is returned only by POST (generated if not supplied).
+ *   Listings never include it.
+ *
+ * PORTING NOTES:
+ *   - Java Spring: @RestController with @RequestMapping("/api/admin/webhooks").
+ *   - C# ASP.NET: [ApiController] [Route("api/admin/webhooks")].
+ *   - Python FastAPI: APIRouter(prefix="/api/admin/webhooks").
+ *
+ * @module controllers/webhook
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { WebhookService } from '../services/webhook.service';
+import { WebhookDeadLetter, WebhookRegistration } from '../types';
+import { validateUuid, validateWebhookParams } from '../middleware/validation';
+import { NotFoundError } from '../middleware/error-handler';
+
+/**
+ * Express router for webhook endpoints.
+ */
+export const webhookRouter = Router();
+
+/**
+ * Serializes a webhook for API responses (without its secret).
+ *
+ * @param webhook - Webhook registration
+ * @returns JSON-friendly webhook
+ */
+function toWebhookResponse(webhook: WebhookRegistration): Record<string, unknown> {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    levels: webhook.levels,
+    description: webhook.description,
+    createdAt: webhook.createdAt.toISOString(),
+    deliveredCount: webhook.deliveredCount,
+    failedCount: webhook.failedCount,
+    lastDeliveryAt: webhook.lastDeliveryAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Serializes a dead letter for API responses.
+ *
+ * @param letter - Dead letter
+ * @returns JSON-friendly dead letter
+ */
+function toDeadLetterResponse(letter: WebhookDeadLetter): Record<string, unknown> {
+  return {
+    ...letter,
+    failedAt: letter.failedAt.toISOString(),
+  };
+}
+
+/**
+ * Looks up a webhook by the :id route parameter.
+ *
+ * @param rawId - Raw route parameter
+ * @returns Webhook registration
+ * @throws ValidationError if the ID is not a UUID, NotFoundError if unknown
+ */
+function findWebhook(rawId: unknown): WebhookRegistration {
+  const webhook = WebhookService.get(validateUuid(rawId, 'id'));
+  if (!webhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+  return webhook;
+}
+
+/**
+ * POST /api/admin/webhooks
+ *
+ * Registers a webhook. Entries matching all given filters are POSTed to url.
+ *
+ * @route POST /api/admin/webhooks
+ * @body {string} url - http(s) URL to deliver to
+ * @body {string[]} [events] - Event types to deliver (default: all)
+ * @body {string[]} [levels] - Levels to deliver: info, warn, error (default: all)
+ * @body {string} [secret] - HMAC signing secret, 16–256 characters (default: generated)
+ * @body {string} [description] - Free-text label
+ * @returns {Object} The webhook, including its secret
+ */
+webhookRouter.post('/', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhook = WebhookService.register(validateWebhookParams(req.body));
+
+    res.status(201).json({
+      ...toWebhookResponse(webhook),
+      secret: webhook.secret,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/admin/webhooks
+ *
+ * Lists registered webhooks.
+ *
+ * @route GET /api/admin/webhooks
+ * @returns {Object} List of webhooks
+ */
+webhookRouter.get('/', (_req: Request, res: Response) => {
+  const webhooks = WebhookService.list();
+
+  res.json({
+    webhooks: webhooks.map(toWebhookResponse),
+    count: webhooks.length,
+  });
+});
+
+/**
+ * GET /api/admin/webhooks/dead-letters
+ *
+ * Lists deliveries that failed every attempt, newest first.
+ *
+ * @route GET /api/admin/webhooks/dead-letters
+ * @returns {Object} List of dead letters
+ */
+webhookRouter.get('/dead-letters', (_req: Request, res: Response) => {
+  const deadLetters = WebhookService.getDeadLetters();
+
+  res.json({
+    deadLetters: deadLetters.map(toDeadLetterResponse),
+    count: deadLetters.length,
+  });
+});
+
+/**
+ * DELETE /api/admin/webhooks/dead-letters
+ *
+ * Empties the dead-letter list.
+ *
+ * @route DELETE /api/admin/webhooks/dead-letters
+ */
+webhookRouter.delete('/dead-letters', (_req: Request, res: Response) => {
+  const count = WebhookService.clearDeadLetters();
+
+  res.json({
+    count,
+    message: `Removed ${count} dead letters`,
+  });
+});
+
+/**
+ * POST /api/admin/webhooks/dead-letters/:id/redeliver
+ *
+ * Removes a dead letter from the list and delivers it again with a fresh
+ * set of attempts. Fails again into the dead-letter list if it still cannot
+ * be delivered.
+ *
+ * @route POST /api/admin/webhooks/dead-letters/:id/redeliver
+ * @param {string} id - Dead letter (delivery) ID
+ */
+webhookRouter.post(
+  '/dead-letters/:id/redeliver',
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const letter = WebhookService.redeliver(validateUuid(req.params.id, 'id'));
+      if (!letter) {
+        throw new NotFoundError('Dead letter not found, or its webhook was removed');
+      }
+
+      res.status(202).json({
+        id: letter.id,
+        webhookId: letter.webhookId,
+        message: 'Redelivery started',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/:id
+ *
+ * Returns a webhook with its delivery counts.
+ *
+ * @route GET /api/admin/webhooks/:id
+ * @param {string} id - Webhook ID (UUID)
+ */
+webhookRouter.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(toWebhookResponse(findWebhook(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/admin/webhooks/:id
+ *
+ * Removes a webhook. Deliveries waiting for a retry are dropped.
+ *
+ * @route DELETE /api/admin/webhooks/:id
+ * @param {string} id - Webhook ID (UUID)
+ */
+webhookRouter.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhook = findWebhook(req.params.id);
+    WebhookService.remove(webhook.id);
+
+    res.json({
+      id: webhook.id,
+      message: `Removed webhook for ${webhook.url}`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
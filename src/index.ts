@@ -30,11 +30,14 @@
  *   └─────────────────────────────────────────────────┘
  *
  * REAL-TIME DATA FLOW:
- *   1. Metrics: MetricsService.getMetrics() → io.emit('metrics') every 250ms
+ *   1. Metrics: MetricsService.getMetrics() → MetricsHistoryService.record()
+ *      + io.emit('metrics') every 250ms
  *   2. Events:  EventLogService.log() → broadcaster → io.emit('event')
  *   3. Latency: Sidecar HTTP probe → IPC message → io.emit('sidecarProbe')
  *   4. Load Test Stats: LoadTestService stats → io.emit('loadTestStats') every 60s
  *   5. Load Test Latency: Individual request latency (1:10 sampling) → io.emit('loadTestLatency')
+ *   6. Request Metrics: RequestMetricsService.getSnapshot() → io.emit('requestMetrics') every 1s
+ *   7. Load Generator: sidecar progress (IPC, every 1s) → LoadGeneratorService → io.emit('loadGenerator')
  *
  * SIDECAR PATTERN:
  *   The sidecar probe process runs on its OWN event loop (separate Node.js
@@ -69,15 +72,25 @@ import { Server as SocketServer } from 'socket.io';
 import { createApp } from './app';
 import { config } from './config';
 import { MetricsService } from './services/metrics.service';
+import { MetricsHistoryService } from './services/metrics-history.service';
+import { RequestMetricsService } from './services/request-metrics.service';
 import { EventLogService } from './services/event-log.service';
+import { JsonlFileEventSink } from './services/event-log-file-sink';
 import { LoadTestService } from './services/load-test.service';
+import { ExceptionCatalogService } from './services/exception-catalog.service';
+import { LoadGeneratorMessage, LoadGeneratorService } from './services/load-generator.service';
+import { PrometheusExporterService } from './services/prometheus-exporter.service';
 import { IdleTimeoutService } from './services/idle-timeout.service';
+import { ThreadPoolProbeService } from './services/threadpool-probe.service';
 import { runStartupTranslation } from './services/translation-startup.service';
+import { getCredential, hasRole, resolvePrincipal } from './middleware/auth';
+import { AuthPrincipal } from './types';
 
 /**
  * Bootstrap and start the application server.
  *
  * This function:
+ * 0. Attaches the persistent event log sink (restoring pre-crash entries)
  * 1. Creates the Express app (HTTP routing)
  * 2. Wraps it in an HTTP server (needed for Socket.IO to share the port)
  * 3. Initializes Socket.IO on the same HTTP server
@@ -86,6 +99,38 @@ import { runStartupTranslation } from './services/translation-startup.service';
  * 6. Begins listening on the configured port
  */
 async function main(): Promise<void> {
+  // --------------------------------------------------------------------------
+  // EVENT LOG PERSISTENCE
+  // Attach the JSONL sink before anything else logs, so entries from the
+  // previous process (e.g. right before a CRASH_* simulation) are restored
+  // ahead of this process's own events. Persistence is best-effort: if the
+  // directory is unusable, the log stays in memory only.
+  // --------------------------------------------------------------------------
+  if (config.eventLogPersist) {
+    try {
+      const restored = EventLogService.setSink(
+        new JsonlFileEventSink({
+          dir: config.eventLogDir,
+          maxFileBytes: config.eventLogMaxFileMb * 1024 * 1024,
+          maxFiles: config.eventLogMaxFiles,
+          maxAgeMs: config.eventLogRetentionHours * 60 * 60 * 1000,
+        })
+      );
+      if (restored > 0) {
+        EventLogService.info('EVENT_LOG_RESTORED', `Restored ${restored} event log entries from ${config.eventLogDir}`, {
+          details: { restored, dir: config.eventLogDir },
+          messageKey: 'srv.eventLog.restored',
+          messageParams: { count: restored },
+        });
+      }
+    } catch (error) {
+      console.error(`[EventLog] Persistence disabled: ${(error as Error).message}`);
+    }
+  }
+
+  // Load test error injection picks from LOAD_TEST_EXCEPTIONS_FILE if set
+  ExceptionCatalogService.load();
+
   const app = createApp();
   const port = config.port;
 
@@ -135,6 +180,27 @@ async function main(): Promise<void> {
     });
   });
 
+  // --------------------------------------------------------------------------
+  // SOCKET AUTHENTICATION
+  // Same credentials and roles as the REST API (see middleware/auth). Live
+  // updates need at least the viewer role; the token is sent as handshake
+  // auth { token } (browsers cannot set headers on WebSocket upgrades).
+  // --------------------------------------------------------------------------
+  io.use((socket, next) => {
+    const handshakeToken = (socket.handshake.auth as { token?: unknown }).token;
+    const credential =
+      typeof handshakeToken === 'string' && handshakeToken !== ''
+        ? handshakeToken
+        : getCredential(socket.handshake.headers);
+    const principal = resolvePrincipal(credential, `ip:${socket.handshake.address}`);
+    if (!principal || !hasRole(principal.role, 'viewer')) {
+      next(new Error('Unauthorized'));
+      return;
+    }
+    (socket.data as { principal?: AuthPrincipal }).principal = principal;
+    next();
+  });
+
   // Handle WebSocket connections
   io.on('connection', (socket) => {
     // Log to console only (not to event log - reduces noise for users)
@@ -199,15 +265,26 @@ async function main(): Promise<void> {
   // --------------------------------------------------------------------------
   setInterval(() => {
     const metrics = MetricsService.getMetrics();
+    MetricsHistoryService.record(metrics);
     io.emit('metrics', {
       timestamp: metrics.timestamp.toISOString(),
       cpu: metrics.cpu,
       memory: metrics.memory,
       eventLoop: metrics.eventLoop,
       process: metrics.process,
+      container: metrics.container,
+      gc: metrics.gc,
+      threadPool: metrics.threadPool,
     });
   }, config.metricsIntervalMs);
 
+  // Per-route request metrics (RED) once per second — percentiles are over a
+  // 60s window, so a faster push would not show anything new
+  setInterval(() => {
+    const snapshot = RequestMetricsService.getSnapshot();
+    io.emit('requestMetrics', { ...snapshot, timestamp: snapshot.timestamp.toISOString() });
+  }, 1000);
+
   // Wire up load test stats broadcaster to Socket.IO
   LoadTestService.setStatsBroadcaster((data) => {
     io.emit('loadTestStats', data);
@@ -220,6 +297,12 @@ async function main(): Promise<void> {
     io.emit('loadTestLatency', { latencyMs, timestamp: new Date().toISOString() });
   });
 
+  // Load generator runs (sent by the sidecar) → Socket.IO on every change and
+  // once per second while running
+  LoadGeneratorService.setBroadcaster((run) => {
+    io.emit('loadGenerator', run);
+  });
+
   // Run startup translations BEFORE accepting requests
   await runStartupTranslation();
 
@@ -297,19 +380,30 @@ async function main(): Promise<void> {
         process.stderr.write(data.toString());
       });
 
+      // The load generator runs in the sidecar; route its commands through IPC
+      const child = sidecarProcess;
+      LoadGeneratorService.setTransport((message) => child.connected && child.send(message));
+
       // Relay IPC messages from sidecar to dashboard via main Socket.IO
       sidecarProcess.on('message', (msg: { type: string; latencyMs?: number; [key: string]: unknown }) => {
+        if (msg.type === 'loadGeneratorProgress' || msg.type === 'loadGeneratorDone') {
+          LoadGeneratorService.handleMessage(msg as LoadGeneratorMessage);
+          return;
+        }
         if (msg.type === 'sidecarProbe') {
           io.emit('sidecarProbe', msg);
-          // Record probe latency for load test stats estimation
+          // Record probe latency for load test stats estimation and the Prometheus histogram
           if (typeof msg.latencyMs === 'number') {
             LoadTestService.recordProbeLatency(msg.latencyMs);
+            PrometheusExporterService.observeProbeLatency(msg.latencyMs);
           }
         }
       });
 
       sidecarProcess.on('exit', (code, signal) => {
         console.log(`[PerfSimNode] Sidecar exited (code: ${code}, signal: ${signal})`);
+        // A run in the sidecar died with it
+        LoadGeneratorService.setTransport(null);
         // Restart sidecar after a brief delay unless main process is shutting down
         if (!isShuttingDown) {
           setTimeout(() => {
@@ -369,6 +463,9 @@ async function main(): Promise<void> {
 
     // Start idle timeout monitoring
     IdleTimeoutService.start();
+
+    // Start timing the libuv thread pool queue
+    ThreadPoolProbeService.start();
     
     // Log probe stats every 60 seconds
     const websiteHostname = process.env.WEBSITE_HOSTNAME;
@@ -0,0 +1,311 @@
+/**
+ * =============================================================================
+ * AUTHENTICATION & ROLE GATING MIDDLEWARE
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Keeps anyone who can reach the site from crashing it or allocating
+ *   65536 MB. Requests present an API key or the shared bearer token and are
+ *   granted a role (viewer < trainee < instructor); each route requires a
+ *   minimum role.
+ *
+ * ENABLING:
+ *   Auth is off (everyone is instructor) until AUTH_API_KEYS or
+ *   AUTH_BEARER_TOKEN is configured, so local development keeps working
+ *   without credentials.
+ *
+ * CREDENTIALS (either header, either credential kind):
+ *   Authorization: Bearer <key or token>
+ *   X-API-Key: <key or token>
+ *   Socket.IO clients pass the same value as handshake auth { token }.
+ *
+ * CLIENT IDS (quota buckets, simulation owners):
+ *   API key      → key:<fingerprint>
+ *   Bearer token → bearer:<fingerprint>@ip:<address>. The token is shared, so
+ *                  its holders are told apart by address.
+ *   Anonymous    → ip:<address>
+ *   Behind a reverse proxy (Azure App Service front end) the address is the
+ *   proxy's unless TRUST_PROXY lets Express read X-Forwarded-For.
+ *
+ * ROUTE POLICY:
+ *   ROUTE_POLICIES below is the single table of required roles, matched by
+ *   path prefix (first match wins), with separate roles for reads (GET/HEAD)
+ *   and writes. Static files and the health endpoints stay public so the
+ *   dashboard can load and Azure health probes keep working. Controlling a
+ *   simulation by ID (/api/simulations/:id/pause etc.) also needs the role
+ *   its type's own routes require and, below instructor, the caller must be
+ *   the client that started it (see assertCanControlSimulation). Paths are
+ *   lowercased before matching because Express routes case-insensitively:
+ *   /API/simulations/memory reaches the same handler as /api/simulations/memory.
+ *
+ * ERRORS:
+ *   No or unknown credentials → 401 UnauthorizedError (WWW-Authenticate: Bearer)
+ *   Role too low              → 403 ForbiddenError
+ *
+ * PORTING NOTES:
+ *   - Java Spring Security: an API-key filter + authorizeHttpRequests().requestMatchers(...).hasRole(...).
+ *   - C# ASP.NET: an AuthenticationHandler + [Authorize(Roles = "...")] or endpoint policies.
+ *   - Python FastAPI: a Depends() security dependency checking the role per router.
+ *   Compare secrets in constant time (MessageDigest.isEqual, CryptographicOperations.FixedTimeEquals,
+ *   hmac.compare_digest).
+ *
+ * @module middleware/auth
+ */
+
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { AuthPrincipal, AuthRole, Simulation, SimulationType } from '../types';
+import { ForbiddenError, UnauthorizedError } from './error-handler';
+
+/** Roles in increasing order of privilege */
+const ROLE_ORDER: AuthRole[] = ['viewer', 'trainee', 'instructor'];
+
+/**
+ * Required roles for a path prefix. null means public.
+ */
+interface RoutePolicy {
+  prefix: string;
+  read: AuthRole | null;
+  write: AuthRole | null;
+}
+
+/**
+ * Required roles per route, first match wins. Paths not under /api or
+ * /metrics (dashboard, docs, static files) are public.
+ */
+const ROUTE_POLICIES: RoutePolicy[] = [
+  { prefix: '/api/health', read: null, write: null },
+  // Polled by the sidecar process, which has no credentials
+  { prefix: '/api/metrics/probe', read: null, write: null },
+  // Fetched by the dashboard on startup
+  { prefix: '/api/admin/config', read: 'viewer', write: 'instructor' },
+  { prefix: '/api/admin', read: 'instructor', write: 'instructor' },
+  { prefix: '/api/simulations/crash', read: 'instructor', write: 'instructor' },
+  { prefix: '/api/simulations/memory', read: 'viewer', write: 'instructor' },
+  // GET starts a slow request simulation
+  { prefix: '/api/simulations/slow', read: 'trainee', write: 'trainee' },
+  { prefix: '/api/simulations', read: 'viewer', write: 'trainee' },
+  { prefix: '/api/scenarios', read: 'viewer', write: 'trainee' },
+  { prefix: '/api/loadtest', read: 'trainee', write: 'trainee' },
+  { prefix: '/api', read: 'viewer', write: 'trainee' },
+  { prefix: '/metrics', read: 'viewer', write: 'viewer' },
+];
+
+/**
+ * Route prefix whose write policy governs controlling each simulation type.
+ */
+const SIMULATION_ROUTE_PREFIXES: Record<SimulationType, string> = {
+  CPU_STRESS: '/api/simulations/cpu',
+  MEMORY_PRESSURE: '/api/simulations/memory',
+  MEMORY_LEAK: '/api/simulations/memory',
+  EVENT_LOOP_BLOCKING: '/api/simulations/eventloop',
+  SLOW_REQUEST: '/api/simulations/slow',
+  FAILED_REQUEST: '/api/simulations/failed',
+  CRASH_EXCEPTION: '/api/simulations/crash',
+  CRASH_MEMORY: '/api/simulations/crash',
+  CRASH_FAILFAST: '/api/simulations/crash',
+  CRASH_STACKOVERFLOW: '/api/simulations/crash',
+};
+
+/**
+ * Whether authentication is configured.
+ *
+ * @returns True if any API key or the bearer token is set
+ */
+export function isAuthEnabled(): boolean {
+  return config.authApiKeys.length > 0 || config.authBearerToken !== '';
+}
+
+/**
+ * Checks whether a role meets a required role.
+ *
+ * @param role - Granted role (null = none)
+ * @param required - Minimum role
+ * @returns True if role is at least required
+ */
+export function hasRole(role: AuthRole | null, required: AuthRole): boolean {
+  return role !== null && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required);
+}
+
+/**
+ * Extracts the credential from Authorization: Bearer or X-API-Key.
+ *
+ * @param headers - Request headers
+ * @returns The credential, or undefined if none was sent
+ */
+export function getCredential(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization && /^Bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^Bearer\s+/i, '').trim();
+  }
+  const apiKey = headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey !== '' ? apiKey : undefined;
+}
+
+/**
+ * Resolves who is calling from a credential.
+ *
+ * @param credential - Credential sent by the client, if any
+ * @param anonymousId - Client ID to use when no credential was sent (e.g. "ip:10.0.0.1")
+ * @returns The principal, or null if a credential was sent but is not known
+ */
+export function resolvePrincipal(
+  credential: string | undefined,
+  anonymousId: string
+): AuthPrincipal | null {
+  if (!isAuthEnabled()) {
+    return { clientId: anonymousId, role: 'instructor' };
+  }
+  if (credential === undefined) {
+    return { clientId: anonymousId, role: config.authAnonymousRole };
+  }
+
+  for (const apiKey of config.authApiKeys) {
+    if (safeEqual(credential, apiKey.key)) {
+      return { clientId: `key:${fingerprint(apiKey.key)}`, role: apiKey.role };
+    }
+  }
+  if (config.authBearerToken !== '' && safeEqual(credential, config.authBearerToken)) {
+    return {
+      clientId: `bearer:${fingerprint(config.authBearerToken)}@${anonymousId}`,
+      role: config.authBearerRole,
+    };
+  }
+  return null;
+}
+
+/**
+ * Returns the minimum role for a request, or null if the route is public.
+ *
+ * @param method - HTTP method
+ * @param path - Request path, in any case
+ * @returns Required role or null
+ */
+export function getRequiredRole(method: string, path: string): AuthRole | null {
+  const normalized = path.toLowerCase();
+  const policy = ROUTE_POLICIES.find(
+    ({ prefix }) => normalized === prefix || normalized.startsWith(`${prefix}/`)
+  );
+  if (!policy) {
+    return null;
+  }
+  return method === 'GET' || method === 'HEAD' ? policy.read : policy.write;
+}
+
+/**
+ * Authentication middleware. Resolves the caller into res.locals.principal
+ * and enforces ROUTE_POLICIES. Mounted before all routes.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const principal = resolvePrincipal(getCredential(req.headers), `ip:${clientAddress(req)}`);
+  if (!principal) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    next(new UnauthorizedError('Invalid API key or token'));
+    return;
+  }
+  res.locals.principal = principal;
+
+  try {
+    const required = getRequiredRole(req.method, req.path);
+    if (required) {
+      assertRole(res, required);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Gets the principal resolved by authenticate().
+ *
+ * @param res - Express response
+ * @returns The principal (full access if authenticate() did not run)
+ */
+export function getPrincipal(res: Response): AuthPrincipal {
+  return (
+    (res.locals.principal as AuthPrincipal | undefined) ?? { clientId: 'local', role: 'instructor' }
+  );
+}
+
+/**
+ * Throws unless the caller has at least the given role. Used by controllers
+ * for checks that depend on the request body.
+ *
+ * @param res - Express response
+ * @param required - Minimum role
+ * @param reason - What needs the role (for the error message)
+ * @throws UnauthorizedError if the caller sent no credentials, ForbiddenError if the role is too low
+ */
+export function assertRole(res: Response, required: AuthRole, reason?: string): void {
+  const { role } = getPrincipal(res);
+  if (hasRole(role, required)) {
+    return;
+  }
+  if (role === null) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw new UnauthorizedError();
+  }
+  throw new ForbiddenError(`${reason ?? 'This operation'} requires the ${required} role`, {
+    role,
+    required,
+  });
+}
+
+/**
+ * Gets the caller's IP address. Some proxies (Azure App Service on Windows)
+ * append the client port to X-Forwarded-For; it is dropped so every
+ * connection from one client lands in the same quota bucket.
+ */
+function clientAddress(req: Request): string {
+  const address = req.ip ?? 'unknown';
+  return address.replace(/^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/, '$1');
+}
+
+/**
+ * Throws unless the caller may pause, resume or extend a simulation: it
+ * needs the role required to start that type, and unless it is an
+ * instructor, it must be the client that started the simulation (so one
+ * trainee cannot keep another's simulation running past their quota).
+ *
+ * @param res - Express response
+ * @param simulation - Simulation to control
+ * @throws UnauthorizedError or ForbiddenError as for assertRole
+ * @throws ForbiddenError if the simulation belongs to another client
+ */
+export function assertCanControlSimulation(res: Response, simulation: Simulation): void {
+  const required = getRequiredRole('POST', SIMULATION_ROUTE_PREFIXES[simulation.type]);
+  if (required) {
+    assertRole(res, required, `Controlling ${simulation.type} simulations`);
+  }
+
+  const { clientId, role } = getPrincipal(res);
+  if (!hasRole(role, 'instructor') && simulation.clientId !== clientId) {
+    throw new ForbiddenError('Only the client that started this simulation can control it', {
+      role,
+      required: 'instructor',
+    });
+  }
+}
+
+/**
+ * Compares two secrets in constant time (hashing first evens out lengths).
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Non-secret identifier for an API key: first 8 hex chars of its SHA-256.
+ */
+function fingerprint(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
@@ -11,7 +11,13 @@
  * ERROR HIERARCHY:
  *   AppError (base)       → Custom application error with HTTP status code
  *   ├─ ValidationError    → 400 Bad Request (invalid user input)
- *   └─ NotFoundError      → 404 Not Found (resource doesn't exist)
+ *   ├─ UnauthorizedError  → 401 Unauthorized (missing or unknown credentials)
+ *   ├─ ForbiddenError     → 403 Forbidden (role not allowed)
+ *   ├─ NotFoundError      → 404 Not Found (resource doesn't exist)
+ *   ├─ ConflictError      → 409 Conflict (operation already in progress)
+ *   ├─ TooManyRequestsError → 429 Too Many Requests (quota or rate limit hit)
+ *   ├─ ServiceUnavailableError → 503 Service Unavailable (helper process not running)
+ *   └─ InjectedError      → status of the exception catalog entry (load test error injection)
  *   SyntaxError           → 400 Bad Request (malformed JSON body)
  *   Error (any other)     → 500 Internal Server Error
  *
@@ -69,6 +75,26 @@ export class ValidationError extends AppError {
   }
 }
 
+/**
+ * Authentication error for missing or unknown credentials. Returns HTTP 401.
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(401, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Authorization error when the caller's role is not allowed. Returns HTTP 403.
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(403, message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
 /**
  * Not found error for missing resources. Returns HTTP 404.
  *
@@ -81,6 +107,64 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Conflict error for operations that cannot run concurrently. Returns HTTP 409.
+ *
+ * Thrown when a request would start an operation that is already in progress
+ * (e.g., a second heap snapshot while one is being written).
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(409, message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Quota error when a client starts too many simulations. Returns HTTP 429.
+ *
+ * Thrown when a concurrency quota or the start rate limit is exceeded. The
+ * `details` field names the limit and, for rate limits, when to retry.
+ */
+export class TooManyRequestsError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(429, message, details);
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+/**
+ * Error when a dependency of the request is not available. Returns HTTP 503.
+ *
+ * Thrown when a request needs a helper process that is not running (e.g. the
+ * sidecar that sends load generator traffic).
+ */
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(503, message, details);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Error thrown on purpose by load test error injection.
+ *
+ * Created from an exception catalog entry: the name is the entry's error
+ * class, so monitoring tools group failures by it, and the response carries
+ * the entry's status code.
+ */
+export class InjectedError extends AppError {
+  constructor(
+    name: string,
+    message: string,
+    statusCode: number,
+    details?: Record<string, unknown>
+  ) {
+    super(statusCode, message, details);
+    this.name = name;
+  }
+}
+
 /**
  * Global error handler middleware.
  *
@@ -124,8 +208,8 @@ export function errorHandler(
       message: 'Invalid JSON in request body',
     };
   } else {
-    // For other errors (including load test injected errors),
-    // include the actual error message for diagnostics visibility.
+    // For other errors, include the actual error message for
+    // diagnostics visibility.
     // This is appropriate for a dev/test tool.
     errorResponse = {
       error: err.message || 'Internal Server Error',
@@ -0,0 +1,56 @@
+/**
+ * =============================================================================
+ * SIMULATION QUOTA MIDDLEWARE
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Guards the routes that start simulations with QuotaService: rejects the
+ *   request with 429 when the caller is over a quota, otherwise runs the
+ *   route handler with the caller recorded as the simulation's client.
+ *
+ * USAGE:
+ *   router.post('/', simulationQuota('CPU_STRESS'), handler)  → concurrency + rate limit
+ *   router.post('/x', simulationQuota(), handler)             → rate limit only
+ *   Mount after authenticate() so the client is the API key, not just the IP.
+ *
+ * RESPONSES:
+ *   429 { error, message, details: { limit, max, ... } }
+ *   Rate limit rejections also carry a Retry-After header (seconds).
+ *
+ * PORTING NOTES:
+ *   - Java Spring: a HandlerInterceptor (or @RateLimiter) on the simulation controllers.
+ *   - C# ASP.NET: [EnableRateLimiting("simulations")] plus an action filter for concurrency.
+ *   - Python FastAPI: a Depends() dependency on the start endpoints.
+ *
+ * @module middleware/quota
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { SimulationType } from '../types';
+import { QuotaService } from '../services/quota.service';
+import { SimulationTrackerService } from '../services/simulation-tracker.service';
+import { getPrincipal } from './auth';
+import { TooManyRequestsError } from './error-handler';
+
+/**
+ * Creates middleware enforcing simulation quotas for a start route.
+ *
+ * @param type - Simulation type started by the route; omit for rate limiting only
+ * @returns Express middleware
+ */
+export function simulationQuota(type?: SimulationType): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const { clientId } = getPrincipal(res);
+    try {
+      QuotaService.checkStart(clientId, type);
+    } catch (error) {
+      const retryAfter = error instanceof TooManyRequestsError && error.details?.retryAfterSeconds;
+      if (typeof retryAfter === 'number') {
+        res.setHeader('Retry-After', String(retryAfter));
+      }
+      next(error);
+      return;
+    }
+    SimulationTrackerService.runAsClient(clientId, next);
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * =============================================================================
+ * RANDOM SEED MIDDLEWARE
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Lets any API request fix the seed of the randomness it triggers: a
+ *   "seed" query parameter (or JSON body field) runs the rest of the request
+ *   inside RandomService.runWithSeed(), so simulations started by it use that
+ *   seed instead of the next one from the master generator. Replaying a
+ *   seed echoed in a simulation record or LoadTestResult repeats the run.
+ *
+ * RESPONSES:
+ *   400 when the seed is not an integer from 0 to 4294967295.
+ *
+ * PORTING NOTES:
+ *   - Java Spring: a OncePerRequestFilter storing the seed in a request-scoped bean.
+ *   - C# ASP.NET: middleware storing the seed in a scoped service.
+ *   - Python: middleware setting a contextvars.ContextVar.
+ *
+ * @module middleware/random-seed
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { RandomService } from '../services/random.service';
+import { validateOptionalSeed } from './validation';
+
+/**
+ * Runs the request with the seed it asks for, if any.
+ *
+ * @param req - Express request
+ * @param _res - Express response
+ * @param next - Express next function
+ */
+export function randomSeed(req: Request, _res: Response, next: NextFunction): void {
+  const body = req.body as unknown;
+  const bodySeed =
+    typeof body === 'object' && body !== null && !Array.isArray(body)
+      ? (body as Record<string, unknown>).seed
+      : undefined;
+
+  let seed: number | undefined;
+  try {
+    seed = validateOptionalSeed(req.query.seed ?? bodySeed);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  if (seed === undefined) {
+    next();
+    return;
+  }
+  RandomService.runWithSeed(seed, next);
+}
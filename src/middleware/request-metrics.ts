@@ -0,0 +1,86 @@
+/**
+ * =============================================================================
+ * REQUEST METRICS MIDDLEWARE
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Feeds RequestMetricsService with the route template, status code and
+ *   duration of every API request, and tracks requests while in flight.
+ *
+ * ROUTE TEMPLATES:
+ *   Express sets req.route once a route matches, but its path is relative to
+ *   the router's mount point and req.baseUrl is reset when an error leaves
+ *   the router. The template is therefore rebuilt from the request path: the
+ *   leading segments not covered by the route's path are the mount point
+ *   (/api/scenarios/abc/pause with route /:id/pause → /api/scenarios/:id/pause).
+ *   Mount segments are lowercased: Express matches mount points
+ *   case-insensitively, so /API/Scenarios/abc/pause reaches the same route,
+ *   and every mount point in app.ts is lowercase.
+ *   Static files and the dashboard are not routes and are not recorded; API
+ *   requests without a route are grouped as "(unmatched)".
+ *
+ * PORTING NOTES:
+ *   - Java Spring: HandlerMapping.BEST_MATCHING_PATTERN_ATTRIBUTE in a Filter
+ *   - C#: HttpContext.GetEndpoint() as RouteEndpoint → RoutePattern.RawText
+ *   - Python: request.scope['route'].path (Starlette) / request.resolver_match.route (Django)
+ *
+ * @module middleware/request-metrics
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { performance } from 'perf_hooks';
+import {
+  RequestMetricsService,
+  RouteKey,
+  UNMATCHED_ROUTE,
+} from '../services/request-metrics.service';
+
+/**
+ * Resolves the route template a request matched.
+ *
+ * @param req - Express request
+ * @returns Method and template; null for non-API requests and API requests
+ *          not routed yet
+ */
+export function resolveRouteKey(req: Request): RouteKey | null {
+  const path = req.originalUrl.split('?')[0];
+  const routePath = (req.route as { path?: unknown } | undefined)?.path;
+
+  if (typeof routePath === 'string') {
+    const pathSegments = path.split('/').filter(Boolean);
+    const routeSegments = routePath.split('/').filter(Boolean);
+    const mountSegments = pathSegments
+      .slice(0, pathSegments.length - routeSegments.length)
+      .map((segment) => segment.toLowerCase());
+    return { method: req.method, route: '/' + [...mountSegments, ...routeSegments].join('/') };
+  }
+
+  if (path.startsWith('/api/') || path === '/metrics') {
+    return { method: req.method, route: UNMATCHED_ROUTE };
+  }
+  return null;
+}
+
+/**
+ * Request metrics middleware.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export function requestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const startTime = performance.now();
+  // Until a route matches (or for static files) the request counts nowhere
+  const done = RequestMetricsService.trackInFlight(() => (req.route ? resolveRouteKey(req) : null));
+
+  res.on('finish', () => {
+    const key = resolveRouteKey(req);
+    if (key) {
+      RequestMetricsService.record(key, res.statusCode, performance.now() - startTime);
+    }
+  });
+  // 'close' also fires for aborted requests, which never 'finish'
+  res.on('close', done);
+
+  next();
+}
@@ -27,7 +27,25 @@
  */
 
 import { ValidationError } from './error-handler';
-import { limits } from '../config';
+import { config, limits } from '../config';
+import {
+  CpuLoadProfile,
+  CpuLoadProfileShape,
+  CpuStressParams,
+  EventType,
+  LoadGeneratorModel,
+  LoadGeneratorPlan,
+  LoadGeneratorStage,
+  LoadTestExceptionEntry,
+  LoadTestExportFormat,
+  LoadTestRequest,
+  LogLevel,
+  ScenarioAction,
+  ScenarioPlaybook,
+  ScenarioStep,
+  SlowRequestBlockingPattern,
+  WebhookParams,
+} from '../types';
 
 /**
  * Validates that a value is a positive integer within a range.
@@ -96,32 +114,216 @@ export function validateOptionalInteger(
   return validateInteger(value, fieldName, min, max);
 }
 
+/**
+ * Validates an optional boolean flag given in a JSON body (true/false) or a
+ * query string ("true"/"false").
+ *
+ * @param value - Value to validate (can be undefined)
+ * @param fieldName - Name of the field (for error messages)
+ * @returns The flag, false if not provided
+ * @throws ValidationError if the value is not a boolean
+ */
+export function validateOptionalBoolean(value: unknown, fieldName: string): boolean {
+  if (value === undefined || value === null || value === '') {
+    return false;
+  }
+  if (value === true || value === 'true') {
+    return true;
+  }
+  if (value === false || value === 'false') {
+    return false;
+  }
+  throw new ValidationError(`${fieldName} must be true or false`);
+}
+
+/**
+ * Validates an optional random seed: an unsigned 32-bit integer.
+ *
+ * @param value - Value to validate (can be undefined)
+ * @returns The seed, or undefined if not provided
+ * @throws ValidationError if the value is not an integer from 0 to 2^32 - 1
+ */
+export function validateOptionalSeed(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return validateInteger(value, 'seed', 0, limits.maxSeed);
+}
+
+/**
+ * Validates an optional timestamp parameter given as epoch milliseconds or an
+ * ISO 8601 string (query strings carry both as text).
+ *
+ * @param value - Value to validate (can be undefined)
+ * @param fieldName - Name of the field (for error messages)
+ * @param defaultValue - Default value if not provided
+ * @returns The parsed date or default
+ * @throws ValidationError if the value is not a valid timestamp
+ */
+export function validateOptionalTimestamp(
+  value: unknown,
+  fieldName: string,
+  defaultValue: Date
+): Date {
+  if (value === undefined || value === null || value === '') {
+    return defaultValue;
+  }
+
+  let date: Date | null = null;
+  if (typeof value === 'number') {
+    date = new Date(value);
+  } else if (typeof value === 'string') {
+    date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  }
+
+  if (!date || isNaN(date.getTime())) {
+    throw new ValidationError(`${fieldName} must be epoch milliseconds or an ISO 8601 timestamp`);
+  }
+
+  return date;
+}
+
+/**
+ * Validates an optional list parameter given as a comma-separated string
+ * and/or repeated query parameter (?level=warn,error or ?level=warn&level=error).
+ *
+ * @param value - Value to validate (can be undefined)
+ * @param fieldName - Name of the field (for error messages)
+ * @param allowed - Accepted values; any non-empty string if omitted
+ * @returns The list of values, or undefined if not provided
+ * @throws ValidationError if a value is not allowed
+ */
+export function validateOptionalList<T extends string = string>(
+  value: unknown,
+  fieldName: string,
+  allowed?: readonly T[]
+): T[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const parts = Array.isArray(value) ? value : [value];
+  if (!parts.every((part) => typeof part === 'string')) {
+    throw new ValidationError(`${fieldName} must be a string`);
+  }
+
+  const items = parts
+    .flatMap((part) => part.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+  for (const item of items) {
+    if (allowed && !allowed.includes(item as T)) {
+      throw new ValidationError(`${fieldName} must be one of: ${allowed.join(', ')}`, {
+        field: fieldName,
+        received: item,
+      });
+    }
+  }
+
+  return items.length > 0 ? (items as T[]) : undefined;
+}
+
+/** Shapes accepted for CPU load profiles */
+const CPU_PROFILE_SHAPES: CpuLoadProfileShape[] = ['RAMP', 'STEP', 'SINE', 'SPIKES'];
+
+/**
+ * Validates a CPU load profile.
+ *
+ * @param raw - Raw profile object
+ * @returns Validated profile
+ * @throws ValidationError if validation fails
+ */
+function validateCpuLoadProfile(raw: unknown): CpuLoadProfile {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError('profile must be an object');
+  }
+  const profile = raw as Record<string, unknown>;
+
+  if (!CPU_PROFILE_SHAPES.includes(profile.shape as CpuLoadProfileShape)) {
+    throw new ValidationError(`profile.shape must be one of: ${CPU_PROFILE_SHAPES.join(', ')}`);
+  }
+
+  return {
+    shape: profile.shape as CpuLoadProfileShape,
+    startPercent: validateInteger(
+      profile.startPercent,
+      'profile.startPercent',
+      0,
+      limits.maxCpuTargetPercent
+    ),
+    endPercent: validateInteger(
+      profile.endPercent,
+      'profile.endPercent',
+      0,
+      limits.maxCpuTargetPercent
+    ),
+    periodSeconds: validateInteger(
+      profile.periodSeconds,
+      'profile.periodSeconds',
+      limits.minDurationSeconds,
+      limits.maxDurationSeconds
+    ),
+  };
+}
+
 /**
  * Validates CPU stress parameters.
  *
+ * One of intensity, targetPercent or profile is required. Precedence when
+ * several are given: profile, then targetPercent, then intensity.
+ *
  * @param intensity - CPU stress intensity ('moderate' or 'high')
  * @param durationSeconds - Duration in seconds
+ * @param targetPercent - Optional explicit system-wide CPU target (1–100)
+ * @param profile - Optional time-varying load profile
  * @returns Validated parameters
  * @throws ValidationError if validation fails
  */
 export function validateCpuStressParams(
   intensity: unknown,
-  durationSeconds: unknown
-): { intensity: 'moderate' | 'high'; durationSeconds: number } {
-  // Validate intensity
-  if (intensity !== 'moderate' && intensity !== 'high') {
+  durationSeconds: unknown,
+  targetPercent?: unknown,
+  profile?: unknown
+): CpuStressParams {
+  const hasIntensity = intensity !== undefined && intensity !== null;
+  if (hasIntensity && intensity !== 'moderate' && intensity !== 'high') {
     throw new ValidationError('intensity must be "moderate" or "high"');
   }
-  
-  return {
-    intensity,
-    durationSeconds: validateInteger(
-      durationSeconds,
-      'durationSeconds',
-      limits.minDurationSeconds,
-      limits.maxDurationSeconds
-    ),
-  };
+
+  const validatedDuration = validateInteger(
+    durationSeconds,
+    'durationSeconds',
+    limits.minDurationSeconds,
+    limits.maxDurationSeconds
+  );
+
+  if (profile !== undefined && profile !== null) {
+    return { profile: validateCpuLoadProfile(profile), durationSeconds: validatedDuration };
+  }
+
+  if (targetPercent !== undefined && targetPercent !== null) {
+    const params: CpuStressParams = {
+      targetPercent: validateInteger(
+        targetPercent,
+        'targetPercent',
+        limits.minCpuTargetPercent,
+        limits.maxCpuTargetPercent
+      ),
+      durationSeconds: validatedDuration,
+    };
+    if (hasIntensity) {
+      params.intensity = intensity;
+    }
+    return params;
+  }
+
+  if (!hasIntensity) {
+    throw new ValidationError(
+      'intensity ("moderate" or "high"), targetPercent (1-100) or profile is required'
+    );
+  }
+
+  return { intensity, durationSeconds: validatedDuration };
 }
 
 /**
@@ -137,6 +339,53 @@ export function validateMemoryPressureParams(sizeMb: unknown): { sizeMb: number
   };
 }
 
+/**
+ * Validates memory leak parameters.
+ *
+ * Only the leak rate is required. The ceiling and duration are optional;
+ * when omitted, the leak grows until limits.maxMemoryMb and runs until released.
+ *
+ * @param leakRateMbPerMinute - Heap growth rate in MB per minute
+ * @param maxSizeMb - Optional ceiling in megabytes
+ * @param durationSeconds - Optional duration in seconds
+ * @returns Validated parameters
+ * @throws ValidationError if validation fails
+ */
+export function validateMemoryLeakParams(
+  leakRateMbPerMinute: unknown,
+  maxSizeMb: unknown,
+  durationSeconds: unknown
+): { leakRateMbPerMinute: number; maxSizeMb?: number; durationSeconds?: number } {
+  const result: { leakRateMbPerMinute: number; maxSizeMb?: number; durationSeconds?: number } = {
+    leakRateMbPerMinute: validateInteger(
+      leakRateMbPerMinute,
+      'leakRateMbPerMinute',
+      limits.minLeakRateMbPerMinute,
+      limits.maxLeakRateMbPerMinute
+    ),
+  };
+
+  if (maxSizeMb !== undefined && maxSizeMb !== null && maxSizeMb !== '') {
+    result.maxSizeMb = validateInteger(
+      maxSizeMb,
+      'maxSizeMb',
+      limits.minMemoryMb,
+      limits.maxMemoryMb
+    );
+  }
+
+  if (durationSeconds !== undefined && durationSeconds !== null && durationSeconds !== '') {
+    result.durationSeconds = validateInteger(
+      durationSeconds,
+      'durationSeconds',
+      limits.minDurationSeconds,
+      limits.maxDurationSeconds
+    );
+  }
+
+  return result;
+}
+
 /**
  * Validates event loop blocking parameters.
  *
@@ -175,6 +424,538 @@ export function validateSlowRequestParams(delaySeconds: unknown): { delaySeconds
   };
 }
 
+/**
+ * Validates CPU profile capture parameters.
+ *
+ * @param durationSeconds - How long to record the profile
+ * @param simulationId - Optional simulation the profile is taken for
+ * @returns Validated parameters
+ * @throws ValidationError if validation fails
+ */
+export function validateCpuProfileParams(
+  durationSeconds: unknown,
+  simulationId: unknown
+): { durationSeconds: number; simulationId?: string } {
+  const result: { durationSeconds: number; simulationId?: string } = {
+    durationSeconds: validateInteger(
+      durationSeconds,
+      'durationSeconds',
+      limits.minCpuProfileSeconds,
+      limits.maxCpuProfileSeconds
+    ),
+  };
+
+  if (simulationId !== undefined && simulationId !== null && simulationId !== '') {
+    result.simulationId = validateUuid(simulationId, 'simulationId');
+  }
+
+  return result;
+}
+
+/** Actions accepted in scenario playbook steps */
+const SCENARIO_ACTIONS: ScenarioAction[] = [
+  'CPU_STRESS',
+  'MEMORY_PRESSURE',
+  'MEMORY_RELEASE',
+  'EVENT_LOOP_BLOCKING',
+  'SLOW_REQUEST',
+];
+
+/** Blocking patterns accepted for SLOW_REQUEST steps */
+const SLOW_REQUEST_PATTERNS: SlowRequestBlockingPattern[] = ['setTimeout', 'libuv', 'worker'];
+
+/**
+ * Validates a single scenario step's action-specific parameters.
+ *
+ * @param raw - Raw step object
+ * @param atSeconds - Already validated offset
+ * @param label - Already validated label
+ * @param labels - Labels of earlier MEMORY_PRESSURE steps (for MEMORY_RELEASE targets)
+ * @returns Validated step
+ * @throws ValidationError if validation fails
+ */
+function validateScenarioStep(
+  raw: Record<string, unknown>,
+  atSeconds: number,
+  label: string | undefined,
+  labels: Set<string>
+): ScenarioStep {
+  const base = label === undefined ? { atSeconds } : { atSeconds, label };
+
+  switch (raw.action) {
+    case 'CPU_STRESS':
+      return {
+        ...base,
+        action: 'CPU_STRESS',
+        ...validateCpuStressParams(
+          raw.intensity,
+          raw.durationSeconds,
+          raw.targetPercent,
+          raw.profile
+        ),
+      };
+    case 'MEMORY_PRESSURE':
+      return { ...base, action: 'MEMORY_PRESSURE', ...validateMemoryPressureParams(raw.sizeMb) };
+    case 'MEMORY_RELEASE': {
+      if (raw.target === undefined || raw.target === null || raw.target === '') {
+        return { ...base, action: 'MEMORY_RELEASE' };
+      }
+      if (typeof raw.target !== 'string' || !labels.has(raw.target)) {
+        throw new ValidationError('target must be the label of an earlier MEMORY_PRESSURE step');
+      }
+      return { ...base, action: 'MEMORY_RELEASE', target: raw.target };
+    }
+    case 'EVENT_LOOP_BLOCKING': {
+      const step: ScenarioStep = {
+        ...base,
+        action: 'EVENT_LOOP_BLOCKING',
+        ...validateEventLoopBlockingParams(raw.durationSeconds),
+      };
+      if (raw.chunkMs !== undefined && raw.chunkMs !== null) {
+        step.chunkMs = validateInteger(raw.chunkMs, 'chunkMs', 50, 2000);
+      }
+      return step;
+    }
+    case 'SLOW_REQUEST': {
+      const step: ScenarioStep = {
+        ...base,
+        action: 'SLOW_REQUEST',
+        ...validateSlowRequestParams(raw.delaySeconds),
+      };
+      if (raw.blockingPattern !== undefined && raw.blockingPattern !== null) {
+        if (!SLOW_REQUEST_PATTERNS.includes(raw.blockingPattern as SlowRequestBlockingPattern)) {
+          throw new ValidationError(
+            `blockingPattern must be one of: ${SLOW_REQUEST_PATTERNS.join(', ')}`
+          );
+        }
+        step.blockingPattern = raw.blockingPattern as SlowRequestBlockingPattern;
+      }
+      return step;
+    }
+    default:
+      throw new ValidationError(`action must be one of: ${SCENARIO_ACTIONS.join(', ')}`);
+  }
+}
+
+/**
+ * Validates a scenario playbook (already parsed from JSON or YAML).
+ *
+ * Steps are returned sorted by atSeconds (stable, so steps sharing an offset
+ * keep their playbook order). Errors are prefixed with the step position,
+ * e.g. "steps[2]: sizeMb is required".
+ *
+ * @param raw - Parsed playbook
+ * @returns Validated playbook
+ * @throws ValidationError if validation fails
+ */
+export function validateScenarioPlaybook(raw: unknown): ScenarioPlaybook {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError('playbook must be an object with name and steps');
+  }
+  const playbook = raw as Record<string, unknown>;
+
+  if (typeof playbook.name !== 'string' || playbook.name.trim() === '') {
+    throw new ValidationError('name is required');
+  }
+  if (playbook.description !== undefined && typeof playbook.description !== 'string') {
+    throw new ValidationError('description must be a string');
+  }
+  if (!Array.isArray(playbook.steps) || playbook.steps.length === 0) {
+    throw new ValidationError('steps must be a non-empty array');
+  }
+  if (playbook.steps.length > limits.maxScenarioSteps) {
+    throw new ValidationError(`steps must contain at most ${limits.maxScenarioSteps} entries`);
+  }
+
+  const rawSteps = (playbook.steps as unknown[]).map((step, index) => ({ step, index }));
+  const atSeconds = rawSteps.map(({ step, index }) => {
+    if (typeof step !== 'object' || step === null) {
+      throw new ValidationError(`steps[${index}]: step must be an object`);
+    }
+    try {
+      return validateInteger(
+        (step as Record<string, unknown>).atSeconds,
+        'atSeconds',
+        0,
+        limits.maxDurationSeconds
+      );
+    } catch (error) {
+      throw new ValidationError(`steps[${index}]: ${(error as Error).message}`);
+    }
+  });
+
+  // Validate in execution order so MEMORY_RELEASE targets must precede the release
+  const ordered = rawSteps.sort((a, b) => atSeconds[a.index] - atSeconds[b.index]);
+  const memoryLabels = new Set<string>();
+  const allLabels = new Set<string>();
+  const steps = ordered.map(({ step, index }) => {
+    const stepObject = step as Record<string, unknown>;
+    try {
+      let label: string | undefined;
+      if (stepObject.label !== undefined && stepObject.label !== null) {
+        if (typeof stepObject.label !== 'string' || stepObject.label === '') {
+          throw new ValidationError('label must be a non-empty string');
+        }
+        if (allLabels.has(stepObject.label)) {
+          throw new ValidationError(`label "${stepObject.label}" is used more than once`);
+        }
+        label = stepObject.label;
+        allLabels.add(label);
+      }
+
+      const validated = validateScenarioStep(stepObject, atSeconds[index], label, memoryLabels);
+      if (validated.action === 'MEMORY_PRESSURE' && label) {
+        memoryLabels.add(label);
+      }
+      return validated;
+    } catch (error) {
+      throw new ValidationError(`steps[${index}]: ${(error as Error).message}`);
+    }
+  });
+
+  const result: ScenarioPlaybook = { name: playbook.name.trim(), steps };
+  if (typeof playbook.description === 'string') {
+    result.description = playbook.description;
+  }
+
+  return result;
+}
+
+/** Load test parameters a load generator plan may set, with their bounds */
+const LOAD_TEST_REQUEST_BOUNDS: Record<string, [number, number]> = {
+  workIterations: [0, 10000],
+  bufferSizeKb: [0, 1048576],
+  baselineDelayMs: [0, 300000],
+  softLimit: [0, 100000],
+  degradationFactor: [0, 300000],
+  errorAboveConcurrent: [-1, 100000],
+  errorPercent: [0, 100],
+};
+
+/**
+ * Validates a load generator plan.
+ *
+ * Ramps are given as stages ([{ durationSeconds, target }], each ramping
+ * from the previous target), or as a single target held for
+ * durationSeconds after an optional linear rampUpSeconds. The target is
+ * requests per second for the open model and virtual users for the closed one.
+ *
+ * @param raw - Raw request body
+ * @returns Validated plan
+ * @throws ValidationError if validation fails
+ */
+export function validateLoadGeneratorPlan(raw: unknown): LoadGeneratorPlan {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError('load generator plan must be an object with a model');
+  }
+  const body = raw as Record<string, unknown>;
+
+  if (body.model !== 'open' && body.model !== 'closed') {
+    throw new ValidationError('model must be one of: open, closed');
+  }
+  const maxTarget =
+    body.model === 'open' ? config.loadGeneratorMaxRps : config.loadGeneratorMaxVirtualUsers;
+
+  return validateTrafficPlan(body, body.model, maxTarget, limits.maxDurationSeconds);
+}
+
+/** Formats load test plans can be exported in */
+const LOAD_TEST_EXPORT_FORMATS: LoadTestExportFormat[] = ['k6', 'jmeter'];
+
+/**
+ * Validates a load test export request.
+ *
+ * Takes the same plan as validateLoadGeneratorPlan plus the script format.
+ * The model defaults to closed (target = virtual users), and since the
+ * script runs in an outside tool, the built-in generator's target limits do
+ * not apply.
+ *
+ * @param raw - Raw request body
+ * @returns Script format and validated plan
+ * @throws ValidationError if validation fails
+ */
+export function validateLoadTestExport(raw: unknown): {
+  format: LoadTestExportFormat;
+  plan: LoadGeneratorPlan;
+} {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError('load test export must be an object with a format');
+  }
+  const body = raw as Record<string, unknown>;
+
+  const format = body.format as LoadTestExportFormat;
+  if (!LOAD_TEST_EXPORT_FORMATS.includes(format)) {
+    throw new ValidationError(`format must be one of: ${LOAD_TEST_EXPORT_FORMATS.join(', ')}`);
+  }
+  const model = body.model ?? 'closed';
+  if (model !== 'open' && model !== 'closed') {
+    throw new ValidationError('model must be one of: open, closed');
+  }
+
+  return {
+    format,
+    plan: validateTrafficPlan(body, model, limits.maxExportTarget, limits.maxExportDurationSeconds),
+  };
+}
+
+/**
+ * Validates the stages, load test parameters and timings of a traffic plan.
+ *
+ * @param body - Raw plan
+ * @param model - Validated traffic model
+ * @param maxTarget - Highest target allowed for a stage
+ * @param maxDurationSeconds - Longest total duration allowed
+ * @returns Validated plan
+ * @throws ValidationError if validation fails
+ */
+function validateTrafficPlan(
+  body: Record<string, unknown>,
+  model: LoadGeneratorModel,
+  maxTarget: number,
+  maxDurationSeconds: number
+): LoadGeneratorPlan {
+  let stages: LoadGeneratorStage[];
+  if (body.stages !== undefined) {
+    if (!Array.isArray(body.stages) || body.stages.length === 0) {
+      throw new ValidationError('stages must be a non-empty array');
+    }
+    if (body.stages.length > limits.maxLoadGeneratorStages) {
+      throw new ValidationError(
+        `stages must contain at most ${limits.maxLoadGeneratorStages} entries`
+      );
+    }
+    stages = (body.stages as unknown[]).map((stage, index) => {
+      try {
+        if (typeof stage !== 'object' || stage === null) {
+          throw new ValidationError('stage must be an object');
+        }
+        const { durationSeconds, target } = stage as Record<string, unknown>;
+        return {
+          durationSeconds: validateInteger(
+            durationSeconds,
+            'durationSeconds',
+            0,
+            maxDurationSeconds
+          ),
+          target: validateInteger(target, 'target', 0, maxTarget),
+        };
+      } catch (error) {
+        throw new ValidationError(`stages[${index}]: ${(error as Error).message}`);
+      }
+    });
+  } else {
+    const target = validateInteger(body.target, 'target', 1, maxTarget);
+    const durationSeconds = validateInteger(
+      body.durationSeconds,
+      'durationSeconds',
+      limits.minDurationSeconds,
+      maxDurationSeconds
+    );
+    const rampUpSeconds = validateOptionalInteger(
+      body.rampUpSeconds,
+      'rampUpSeconds',
+      0,
+      maxDurationSeconds,
+      0
+    );
+    stages = [
+      { durationSeconds: rampUpSeconds, target },
+      { durationSeconds, target },
+    ];
+  }
+
+  const totalSeconds = stages.reduce((sum, stage) => sum + stage.durationSeconds, 0);
+  if (totalSeconds < limits.minDurationSeconds || totalSeconds > maxDurationSeconds) {
+    throw new ValidationError(
+      `stages must last between ${limits.minDurationSeconds} and ${maxDurationSeconds} seconds in total`
+    );
+  }
+  if (stages.every((stage) => stage.target === 0)) {
+    throw new ValidationError('at least one stage must have a target above 0');
+  }
+
+  const request: Partial<LoadTestRequest> = {};
+  if (body.request !== undefined) {
+    if (typeof body.request !== 'object' || body.request === null || Array.isArray(body.request)) {
+      throw new ValidationError('request must be an object of load test parameters');
+    }
+    for (const [name, value] of Object.entries(body.request as Record<string, unknown>)) {
+      if (name === 'suppressLogs') {
+        request.suppressLogs = validateOptionalBoolean(value, 'request.suppressLogs');
+        continue;
+      }
+      const bounds = LOAD_TEST_REQUEST_BOUNDS[name];
+      if (!bounds) {
+        throw new ValidationError(
+          `request.${name} is not a load test parameter (allowed: ${Object.keys(
+            LOAD_TEST_REQUEST_BOUNDS
+          ).join(', ')}, suppressLogs)`
+        );
+      }
+      request[name as keyof Omit<LoadTestRequest, 'suppressLogs'>] = validateInteger(
+        value,
+        `request.${name}`,
+        bounds[0],
+        bounds[1]
+      );
+    }
+  }
+
+  return {
+    model,
+    stages,
+    request,
+    thinkTimeMs: validateOptionalInteger(body.thinkTimeMs, 'thinkTimeMs', 0, 60000, 0),
+    requestTimeoutMs: validateOptionalInteger(
+      body.requestTimeoutMs,
+      'requestTimeoutMs',
+      1000,
+      limits.maxLoadGeneratorTimeoutMs,
+      60000
+    ),
+  };
+}
+
+/**
+ * Validates a load test exception catalog.
+ *
+ * Accepts an array of entries or { exceptions: [...] }. Each entry has an
+ * error class name (letters, digits, _ $ and dots, e.g.
+ * "System.TimeoutException"), a message, an HTTP status code from 400 to 599
+ * and an optional weight (default: 1).
+ *
+ * @param raw - Raw request body or file contents
+ * @returns Validated entries
+ * @throws ValidationError if validation fails
+ */
+export function validateExceptionCatalog(raw: unknown): LoadTestExceptionEntry[] {
+  const entries =
+    typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>).exceptions
+      : raw;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ValidationError('exceptions must be a non-empty array');
+  }
+  if (entries.length > limits.maxExceptionCatalogEntries) {
+    throw new ValidationError(
+      `exceptions must contain at most ${limits.maxExceptionCatalogEntries} entries`
+    );
+  }
+
+  return (entries as unknown[]).map((entry, index) => {
+    try {
+      if (typeof entry !== 'object' || entry === null) {
+        throw new ValidationError('entry must be an object');
+      }
+      const { name, message, statusCode, weight } = entry as Record<string, unknown>;
+      if (typeof name !== 'string' || !/^[A-Za-z_$][\w$.]{0,99}$/.test(name)) {
+        throw new ValidationError('name must be an error class name of up to 100 characters');
+      }
+      if (typeof message !== 'string' || message.trim() === '' || message.length > 500) {
+        throw new ValidationError('message must be a non-empty string of up to 500 characters');
+      }
+      if (
+        weight !== undefined &&
+        (typeof weight !== 'number' || !isFinite(weight) || weight <= 0 || weight > 1000000)
+      ) {
+        throw new ValidationError('weight must be a number above 0 and at most 1000000');
+      }
+      return {
+        name,
+        message,
+        statusCode: validateInteger(statusCode, 'statusCode', 400, 599),
+        weight: weight ?? 1,
+      };
+    } catch (error) {
+      throw new ValidationError(`exceptions[${index}]: ${(error as Error).message}`);
+    }
+  });
+}
+
+/** Log levels accepted by level filters */
+const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
+
+/** Event types accepted by webhook filters */
+const EVENT_TYPES: EventType[] = [
+  'SIMULATION_STARTED',
+  'SIMULATION_STOPPED',
+  'SIMULATION_COMPLETED',
+  'SIMULATION_FAILED',
+  'SIMULATION_PAUSED',
+  'SIMULATION_RESUMED',
+  'SIMULATION_EXTENDED',
+  'CRASH_WARNING',
+  'MEMORY_ALLOCATING',
+  'MEMORY_ALLOCATED',
+  'MEMORY_RELEASED',
+  'MEMORY_LEAK_PROGRESS',
+  'HEAP_SNAPSHOT_CAPTURED',
+  'CPU_PROFILE_CAPTURED',
+  'SCENARIO_STARTED',
+  'SCENARIO_STEP_STARTED',
+  'SCENARIO_STEP_COMPLETED',
+  'SCENARIO_STEP_FAILED',
+  'SCENARIO_PAUSED',
+  'SCENARIO_RESUMED',
+  'SCENARIO_COMPLETED',
+  'SCENARIO_ABORTED',
+  'SERVER_STARTED',
+  'EVENT_LOG_RESTORED',
+  'CLIENT_CONNECTED',
+  'CLIENT_DISCONNECTED',
+  'LOAD_TEST_STATS',
+  'LOAD_TEST_ERROR_INJECTED',
+  'LOAD_TEST_EXCEPTIONS_UPDATED',
+  'LOAD_GENERATOR_STARTED',
+  'LOAD_GENERATOR_COMPLETED',
+  'LOAD_GENERATOR_STOPPED',
+  'LOAD_GENERATOR_FAILED',
+  'FAILED_REQUEST_ERROR',
+  'GUARDRAIL_CLAMPED',
+];
+
+/**
+ * Validates a webhook registration.
+ *
+ * @param raw - Raw request body
+ * @returns Validated webhook parameters
+ * @throws ValidationError if validation fails
+ */
+export function validateWebhookParams(raw: unknown): WebhookParams {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError('webhook must be an object with a url');
+  }
+  const body = raw as Record<string, unknown>;
+
+  let url: URL | null = null;
+  try {
+    url = typeof body.url === 'string' ? new URL(body.url) : null;
+  } catch {
+    // Reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw new ValidationError('url must be an absolute http(s) URL');
+  }
+
+  if (
+    body.secret !== undefined &&
+    (typeof body.secret !== 'string' || body.secret.length < 16 || body.secret.length > 256)
+  ) {
+    throw new ValidationError('secret must be a string of 16 to 256 characters');
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    throw new ValidationError('description must be a string');
+  }
+
+  return {
+    url: url.toString(),
+    events: validateOptionalList(body.events, 'events', EVENT_TYPES),
+    levels: validateOptionalList(body.levels, 'levels', LOG_LEVELS),
+    secret: body.secret,
+    description: body.description,
+  };
+}
+
 /**
  * Validates a UUID format.
  *
@@ -0,0 +1,83 @@
+/**
+ * =============================================================================
+ * DASHBOARD AUTH — API Key Handling for fetch() and Socket.IO
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   When the server has AUTH_API_KEYS / AUTH_BEARER_TOKEN configured, every
+ *   API call and the Socket.IO connection must carry a key. This script:
+ *   - Takes the key from ?apiKey=... once (then removes it from the address bar)
+ *     or asks for it when the server answers 401
+ *   - Keeps it in localStorage
+ *   - Adds "Authorization: Bearer <key>" to same-origin fetch() calls, so the
+ *     rest of the dashboard code stays unchanged
+ *   - Exposes PerfSimAuth.getToken() for the Socket.IO handshake
+ *
+ * SCRIPT LOADING ORDER:
+ *   Load BEFORE socket-client.js, charts.js and dashboard.js in index.html so
+ *   their fetch() calls go through the wrapper.
+ *
+ * PORTING NOTES:
+ *   The frontend is unchanged across backends; only the header name matters.
+ */
+
+(function () {
+  const STORAGE_KEY = 'perfsim.apiKey';
+  let promptOpen = false;
+
+  // Accept a key from the URL once, then drop it so it is not bookmarked or shared
+  const params = new URLSearchParams(window.location.search);
+  if (params.has('apiKey')) {
+    localStorage.setItem(STORAGE_KEY, params.get('apiKey'));
+    params.delete('apiKey');
+    const query = params.toString();
+    window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+  }
+
+  /**
+   * Returns the stored API key, or '' if none.
+   */
+  function getToken() {
+    return localStorage.getItem(STORAGE_KEY) || '';
+  }
+
+  /**
+   * Asks the user for an API key and reloads the dashboard with it.
+   */
+  function promptForToken() {
+    if (promptOpen) return;
+    promptOpen = true;
+    const message = typeof i18n === 'function' ? i18n('auth.prompt') : 'Enter your API key';
+    const value = window.prompt(message, '');
+    promptOpen = false;
+    if (value) {
+      localStorage.setItem(STORAGE_KEY, value.trim());
+      window.location.reload();
+    }
+  }
+
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async function (input, init = {}) {
+    const url = new URL(typeof input === 'string' ? input : input.url, window.location.href);
+    const token = getToken();
+
+    if (token && url.origin === window.location.origin) {
+      const headers = new Headers(
+        init.headers || (input instanceof Request ? input.headers : undefined)
+      );
+      if (!headers.has('Authorization')) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+      init = { ...init, headers };
+    }
+
+    const response = await originalFetch(input, init);
+    if (response.status === 401 && url.origin === window.location.origin) {
+      promptForToken();
+    }
+    return response;
+  };
+
+  window.PerfSimAuth = { getToken, promptForToken };
+})();
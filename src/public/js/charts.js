@@ -13,6 +13,8 @@
  * DATA FLOW:
  *   socket-client.js receives WebSocket events → calls onMetricsUpdate()
  *   and onProbeLatency() → this file updates charts.
+ *   On page load, the CPU/Memory and Event Loop charts are backfilled from
+ *   GET /api/metrics/history so a reload does not start from an empty chart.
  *
  * LATENCY CHART FEATURES:
  *   - Color-coded gradient fill based on latency severity:
@@ -71,6 +73,7 @@ function getUtcTimeString() {
 // Chart instances
 let cpuMemoryChart = null;
 let eventloopChart = null;
+let threadpoolChart = null;
 let latencyChart = null;
 
 // Data history for CPU/Memory/EventLoop charts (240 data points at 250ms intervals = 60s)
@@ -81,6 +84,7 @@ const chartData = {
   memory: [],
   eventloop: [],
   rss: [],
+  threadpool: [],
 };
 
 // Separate data store for latency chart (60 seconds at 100ms intervals)
@@ -746,6 +750,39 @@ function initCharts() {
     });
   }
 
+  // libuv Thread Pool Chart - probe queue wait rises when the pool is saturated
+  const threadpoolCtx = document.getElementById('threadpool-chart')?.getContext('2d');
+  if (threadpoolCtx) {
+    threadpoolChart = new Chart(threadpoolCtx, {
+      type: 'line',
+      data: {
+        labels: chartData.labels,
+        datasets: [
+          {
+            label: 'Probe wait (ms)',
+            data: chartData.threadpool,
+            borderColor: '#d83b01',
+            backgroundColor: 'rgba(216, 59, 1, 0.2)',
+            fill: true,
+          },
+        ],
+      },
+      options: {
+        ...chartConfig,
+        scales: {
+          ...chartConfig.scales,
+          y: {
+            ...chartConfig.scales.y,
+            beginAtZero: true,
+            title: {
+              display: false,
+            },
+          },
+        },
+      },
+    });
+  }
+
   // Latency Chart (uses separate data store for 60-second window)
   const latencyCtx = document.getElementById('latency-chart')?.getContext('2d');
   if (latencyCtx) {
@@ -827,6 +864,32 @@ function initCharts() {
   }
 }
 
+/**
+ * CPU usage to display: the container's share of its CPU quota when cgroup
+ * accounting is available (what Azure's container metrics show), otherwise
+ * host-wide CPU.
+ *
+ * @param {Object} metrics - System metrics or history point from server
+ * @returns {number} CPU usage percentage
+ */
+function getCpuPercent(metrics) {
+  return metrics.container ? metrics.container.cpuUsagePercent : metrics.cpu.usagePercent;
+}
+
+/**
+ * Memory ceiling for percentages: the container's memory limit when one is
+ * set, otherwise the host's total memory.
+ *
+ * @param {Object} metrics - System metrics from server
+ * @returns {number} Memory ceiling in MB
+ */
+function getMemoryTotalMb(metrics) {
+  if (metrics.container && metrics.container.memoryLimitMb) {
+    return Math.min(metrics.container.memoryLimitMb, metrics.memory.totalSystemMb || Infinity);
+  }
+  return metrics.memory.totalSystemMb || 4096;
+}
+
 /**
  * Updates charts with new metrics data.
  *
@@ -836,11 +899,12 @@ function updateCharts(metrics) {
   // Add new data point (UTC time to match Azure diagnostics)
   const now = getUtcTimeString();
   chartData.labels.push(now);
-  chartData.cpu.push(metrics.cpu.usagePercent);
+  chartData.cpu.push(getCpuPercent(metrics));
   chartData.memory.push(metrics.memory.heapUsedMb);
   // Use heartbeatLagMs for real-time event loop blocking visibility
   chartData.eventloop.push(metrics.eventLoop.heartbeatLagMs);
   chartData.rss.push(metrics.memory.rssMb);
+  chartData.threadpool.push(metrics.threadPool.probeLatencyMs);
   
   // Note: Latency is now tracked by the heartbeat probe system
   // Don't add fake latency data here
@@ -855,6 +919,7 @@ function updateCharts(metrics) {
     chartData.memory.shift();
     chartData.eventloop.shift();
     chartData.rss.shift();
+    chartData.threadpool.shift();
   }
 
   // Update charts
@@ -864,6 +929,9 @@ function updateCharts(metrics) {
   if (eventloopChart) {
     eventloopChart.update('none');
   }
+  if (threadpoolChart) {
+    threadpoolChart.update('none');
+  }
   if (latencyChart) {
     latencyChart.update('none');
   }
@@ -881,12 +949,12 @@ function updateMetricBars(metrics) {
   const rssBar = document.getElementById('rss-bar');
   
   if (cpuBar) {
-    cpuBar.style.width = Math.min(100, metrics.cpu.usagePercent) + '%';
+    cpuBar.style.width = Math.min(100, getCpuPercent(metrics)) + '%';
   }
   
   if (memoryBar) {
-    // Use actual system memory for visualization
-    const totalMb = metrics.memory.totalSystemMb || 4096;
+    // Use the container limit (or system memory) for visualization
+    const totalMb = getMemoryTotalMb(metrics);
     const memoryPercent = (metrics.memory.heapUsedMb / totalMb) * 100;
     memoryBar.style.width = Math.min(100, memoryPercent) + '%';
   }
@@ -899,8 +967,8 @@ function updateMetricBars(metrics) {
   }
   
   if (rssBar) {
-    // Use actual system memory for RSS visualization
-    const totalMbForRss = metrics.memory.totalSystemMb || 4096;
+    // Use the container limit (or system memory) for RSS visualization
+    const totalMbForRss = getMemoryTotalMb(metrics);
     const rssPercent = (metrics.memory.rssMb / totalMbForRss) * 100;
     rssBar.style.width = Math.min(100, rssPercent) + '%';
   }
@@ -1072,6 +1140,48 @@ function startLatencyInterpolation() {
   }, LATENCY_CHART_UPDATE_INTERVAL_MS);
 }
 
+/**
+ * Backfills the CPU/Memory and Event Loop charts from server-side history.
+ * Only runs while the charts are still empty, so live points that arrived
+ * before the response are never overwritten.
+ * @returns {Promise<void>}
+ */
+async function loadMetricsHistory() {
+  try {
+    const windowMs = maxDataPoints * serverConfig.metricsIntervalMs;
+    const from = Date.now() - windowMs;
+    const response = await fetch(
+      `/api/metrics/history?from=${from}&resolution=${serverConfig.metricsIntervalMs}`
+    );
+    if (!response.ok || chartData.labels.length > 0) {
+      return;
+    }
+
+    const history = await response.json();
+    for (const point of history.points.slice(-maxDataPoints)) {
+      chartData.labels.push(timestampToUtcTimeString(point.timestamp));
+      chartData.cpu.push(getCpuPercent(point));
+      chartData.memory.push(point.memory.heapUsedMb);
+      chartData.eventloop.push(point.eventLoop.heartbeatLagMs);
+      chartData.rss.push(point.memory.rssMb);
+      chartData.threadpool.push(point.threadPool.probeLatencyMs);
+    }
+
+    if (cpuMemoryChart) {
+      cpuMemoryChart.update('none');
+    }
+    if (eventloopChart) {
+      eventloopChart.update('none');
+    }
+    if (threadpoolChart) {
+      threadpoolChart.update('none');
+    }
+    console.log(`[Charts] Backfilled ${history.count} points from metrics history`);
+  } catch (err) {
+    console.warn('[Charts] Failed to load metrics history:', err);
+  }
+}
+
 // Initialize charts when DOM is ready
 document.addEventListener('DOMContentLoaded', async () => {
   // Fetch server config first to get probe interval
@@ -1079,6 +1189,9 @@ document.addEventListener('DOMContentLoaded', async () => {
   
   initCharts();
   latencyInterpolation.chartsInitialized = true;
+
+  // Backfill charts from the server so a reload keeps recent history
+  await loadMetricsHistory();
   
   startHeartbeatProbe();
   
@@ -115,18 +115,27 @@ function onMetricsUpdate(metrics) {
   }
 
   // Update metric display values with stress-based colors
+  // Container CPU (share of the cgroup quota) when available, like Azure's metrics
+  const cpuPercent = getCpuPercent(metrics);
   const cpuEl = document.getElementById('cpu-value');
-  cpuEl.textContent = metrics.cpu.usagePercent.toFixed(1);
-  cpuEl.style.color = getMetricColor(metrics.cpu.usagePercent, 60, 80);
+  cpuEl.textContent = cpuPercent.toFixed(1);
+  cpuEl.style.color = getMetricColor(cpuPercent, 60, 80);
+
+  // Show CFS throttling when the container hits its CPU quota
+  const throttledEl = document.getElementById('cpu-throttled');
+  const throttledPeriods = metrics.container ? metrics.container.throttledPeriods : 0;
+  throttledEl.textContent = throttledPeriods > 0
+    ? (typeof i18n === 'function' ? i18n('metrics.cpu.throttled', { periods: throttledPeriods }) : `${throttledPeriods} throttled`)
+    : '';
 
   const memoryEl = document.getElementById('memory-value');
   memoryEl.textContent = metrics.memory.heapUsedMb.toFixed(1);
-  const totalMb = metrics.memory.totalSystemMb || 4096;
+  const totalMb = getMemoryTotalMb(metrics);
   const memoryPercent = (metrics.memory.heapUsedMb / totalMb) * 100;
   memoryEl.style.color = getMetricColor(memoryPercent, 60, 80);
   
-  // Update total memory display
-  const totalGb = (metrics.memory.totalSystemMb / 1024).toFixed(1);
+  // Update total memory display (container limit when one is set)
+  const totalGb = (totalMb / 1024).toFixed(1);
   document.getElementById('memory-total').textContent = typeof i18n === 'function' ? i18n('metrics.memory.total', { total: totalGb }) : `of ${totalGb} GB`;
 
   // Use heartbeatLagMs for real-time event loop blocking visibility
@@ -135,6 +144,16 @@ function onMetricsUpdate(metrics) {
   // Event loop: yellow at 100ms, red at 1000ms
   eventloopEl.style.color = getMetricColor(metrics.eventLoop.heartbeatLagMs, 100, 1000);
 
+  // Utilization tells "busy but responsive" apart from "blocked" (busy AND lagging)
+  const utilizationPercent = Math.round(metrics.eventLoop.utilization * 100);
+  document.getElementById('eventloop-utilization').textContent = typeof i18n === 'function' ? i18n('metrics.threads.utilization', { percent: utilizationPercent }) : `${utilizationPercent}% busy`;
+
+  // Pool size next to the thread pool chart legend
+  const poolSizeEl = document.getElementById('threadpool-size');
+  if (poolSizeEl) {
+    poolSizeEl.textContent = typeof i18n === 'function' ? i18n('charts.libuvPool.size', { size: metrics.threadPool.poolSize }) : `${metrics.threadPool.poolSize} threads`;
+  }
+
   const rssEl = document.getElementById('rss-value');
   rssEl.textContent = metrics.memory.rssMb.toFixed(1);
   const rssPercent = (metrics.memory.rssMb / totalMb) * 100;
@@ -146,6 +165,48 @@ function onMetricsUpdate(metrics) {
   }
 }
 
+/**
+ * Called with per-route request metrics (RED) every second.
+ * Rows turn amber when p95 passes 1s and red when the route returns 5xx.
+ *
+ * @param {Object} snapshot - RequestMetricsSnapshot from the server
+ */
+function onRequestMetricsUpdate(snapshot) {
+  const body = document.getElementById('endpoints-body');
+  const empty = document.getElementById('endpoints-empty');
+  if (!body) {
+    return;
+  }
+
+  // Routes come from request URLs, so cells are filled with textContent
+  body.replaceChildren(...snapshot.routes.map((route) => {
+    const row = document.createElement('tr');
+    if (route.errorsPerSecond > 0) {
+      row.className = 'failing';
+    } else if (route.latencyMs.p95 > 1000) {
+      row.className = 'degraded';
+    }
+    const cells = [
+      `${route.method} ${route.route}`,
+      route.requestsPerSecond.toFixed(2),
+      route.errorsPerSecond.toFixed(2),
+      String(route.inFlight),
+      formatLatency(route.latencyMs.p50),
+      formatLatency(route.latencyMs.p95),
+      formatLatency(route.latencyMs.p99),
+    ];
+    for (const text of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = text;
+      row.appendChild(cell);
+    }
+    return row;
+  }));
+  if (empty) {
+    empty.style.display = snapshot.routes.length > 0 ? 'none' : '';
+  }
+}
+
 /**
  * Called when a new event is received via WebSocket.
  */
@@ -339,8 +400,13 @@ function getEventIconAndClass(event) {
     return { icon: '🔄', colorClass: 'restart' };
   }
   
-  // Check for load test stats and error injection
-  if (event.eventType === 'LOAD_TEST_STATS' || event.eventType === 'LOAD_TEST_ERROR_INJECTED') {
+  // Check for load test stats, error injection, the exception catalog and load generator runs
+  if (
+    event.eventType === 'LOAD_TEST_STATS' ||
+    event.eventType === 'LOAD_TEST_ERROR_INJECTED' ||
+    event.eventType === 'LOAD_TEST_EXCEPTIONS_UPDATED' ||
+    (event.eventType || '').startsWith('LOAD_GENERATOR_')
+  ) {
     return { icon: '📈', colorClass: 'loadtest' };
   }
   
@@ -543,7 +609,7 @@ function renderActiveCpuSimulations() {
         .map(
           (sim) => `
           <div class="active-simulation">
-            <span>${i18n('activeSim.cpuDetail', { intensity: sim.parameters.intensity, duration: sim.parameters.durationSeconds })}</span>
+            <span>${i18n('activeSim.cpuDetail', { intensity: formatCpuTarget(sim.parameters), duration: sim.parameters.durationSeconds })}</span>
             <span class="sim-id">${sim.id.slice(0, 8)}...</span>
             <button class="btn-stop" onclick="stopCpuSimulation('${sim.id}')">${i18n('sim.cpu.stop')}</button>
           </div>
@@ -607,7 +673,7 @@ function renderActiveSimulationsList() {
     badges.push(`
       <div class="simulation-badge cpu">
         <span class="spinner"></span>
-        <span>${i18n('activeSim.cpuBadge', { intensity: sim.parameters.intensity })}</span>
+        <span>${i18n('activeSim.cpuBadge', { intensity: formatCpuTarget(sim.parameters) })}</span>
       </div>
     `);
   });
@@ -625,6 +691,17 @@ function renderActiveSimulationsList() {
   container.innerHTML = `<div class="simulations-list">${badges.join('')}</div>`;
 }
 
+/**
+ * Formats a CPU simulation's target: a load profile, then explicit targetPercent, then the preset.
+ */
+function formatCpuTarget(parameters) {
+  if (parameters.profile) {
+    const { shape, startPercent, endPercent } = parameters.profile;
+    return `${shape.toLowerCase()} ${startPercent}-${endPercent}%`;
+  }
+  return parameters.targetPercent !== undefined ? `${parameters.targetPercent}%` : parameters.intensity;
+}
+
 /**
  * Starts a CPU stress simulation.
  */
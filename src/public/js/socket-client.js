@@ -58,6 +58,14 @@ function initSocket() {
     reconnectionDelayMax: 5000,
     // Match server timeout settings
     timeout: 60000,
+    // API key when server auth is enabled (see auth.js); re-read on every reconnect
+    auth: (cb) => cb({ token: window.PerfSimAuth ? window.PerfSimAuth.getToken() : '' }),
+  });
+
+  socket.on('connect_error', (error) => {
+    if (error && error.message === 'Unauthorized' && window.PerfSimAuth) {
+      window.PerfSimAuth.promptForToken();
+    }
   });
 
   socket.on('connect', () => {
@@ -155,6 +163,13 @@ function initSocket() {
     }
   });
 
+  // Listen for per-route request metrics (every second)
+  socket.on('requestMetrics', (snapshot) => {
+    if (typeof onRequestMetricsUpdate === 'function') {
+      onRequestMetricsUpdate(snapshot);
+    }
+  });
+
   // Listen for idle status updates from the server
   socket.on('idleStatus', (data) => {
     console.log('[Socket] Received idleStatus:', data);
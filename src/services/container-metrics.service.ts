@@ -0,0 +1,308 @@
+/**
+ * =============================================================================
+ * CONTAINER METRICS SERVICE — CPU and Memory as the Container Sees Them
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   os.cpus() and os.totalmem() describe the host VM. An App Service worker
+ *   runs in a container with its own CPU quota and memory limit, and Azure's
+ *   container metrics are computed from the cgroup, so host-based numbers
+ *   drift from what the portal shows (e.g. 25% host CPU is 100% of a 1-core
+ *   quota on a 4-core host). This service reads the cgroup accounting files
+ *   and reports CPU and memory relative to the container's limits.
+ *
+ * FILES READ (cgroup v2 first, v1 as fallback):
+ *   v2 (/sys/fs/cgroup/cgroup.controllers exists):
+ *     cpu.stat      → usage_usec, nr_periods, nr_throttled, throttled_usec
+ *     cpu.max       → "<quota> <period>" or "max <period>"
+ *     memory.current, memory.stat (inactive_file), memory.max
+ *   v1:
+ *     cpuacct/cpuacct.usage (ns), cpu/cpu.stat (throttled_time in ns),
+ *     cpu/cpu.cfs_quota_us + cpu.cfs_period_us
+ *     memory/memory.usage_in_bytes, memory.stat (total_inactive_file),
+ *     memory/memory.limit_in_bytes
+ *
+ * CALCULATIONS:
+ *   CPU %        = Δusage / (Δwall time × limit cores), limit cores being the
+ *                  quota or, without one, the host's core count
+ *   Throttling   = Δnr_throttled and Δthrottled time between samples (plus totals)
+ *   Working set  = usage − inactive file cache, the value Azure and kubelet
+ *                  report and the one the OOM killer compares to the limit
+ *
+ * Without cgroups (Windows, macOS, bare VMs) getMetrics() returns null and
+ * the host-based MetricsService fields remain the only source.
+ *
+ * PORTING NOTES:
+ *   - Java: OperatingSystemMXBean is container-aware since JDK 10 (getCpuLoad());
+ *     throttling still needs cpu.stat.
+ *   - C#: System.Diagnostics reads cgroups on Linux; parse cpu.stat for throttling.
+ *   - Python: read the same files; psutil does not report cgroup throttling.
+ *
+ * @module services/container-metrics
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import { ContainerMetrics } from '../types';
+import { bytesToMb } from '../utils';
+
+/** Where cgroup filesystems are mounted */
+export const CGROUP_ROOT = '/sys/fs/cgroup';
+
+/** cgroup v1 reports "unlimited" as a page-rounded 2^63 - 1; anything this large is no limit */
+const CGROUP_V1_UNLIMITED_BYTES = 2 ** 60;
+
+/**
+ * Limits read from the cgroup filesystem.
+ */
+export interface CgroupLimits {
+  version: 1 | 2 | null;
+  memoryLimitBytes: number | null;
+  cpuQuotaCores: number | null;
+}
+
+/**
+ * Cumulative usage counters read from the cgroup filesystem, with its limits.
+ */
+export interface CgroupStats extends CgroupLimits {
+  /** Total CPU time used by the cgroup in microseconds (null = not available) */
+  cpuUsageUs: number | null;
+  /** CFS enforcement periods elapsed */
+  periods: number;
+  /** CFS periods in which the cgroup was throttled */
+  throttledPeriods: number;
+  /** Total time throttled in microseconds */
+  throttledUs: number;
+  /** Memory usage minus inactive file cache in bytes (null = not available) */
+  memoryWorkingSetBytes: number | null;
+}
+
+/**
+ * Reads the memory and CPU limits of the current cgroup.
+ *
+ * @param root - cgroup mount point (overridable for tests)
+ * @returns Detected limits; null fields mean unlimited or not found
+ */
+export function readCgroupLimits(root: string = CGROUP_ROOT): CgroupLimits {
+  if (isCgroupV2(root)) {
+    const memoryMax = readFile(path.join(root, 'memory.max'));
+    const [quota, period] = (readFile(path.join(root, 'cpu.max')) ?? 'max').split(/\s+/);
+    return {
+      version: 2,
+      memoryLimitBytes: memoryMax && memoryMax !== 'max' ? toPositive(memoryMax) : null,
+      cpuQuotaCores: quota !== 'max' ? toCores(quota, period ?? '100000') : null,
+    };
+  }
+
+  const memoryLimit =
+    readFile(path.join(root, 'memory', 'memory.limit_in_bytes')) ??
+    readFile(path.join(root, 'memory.limit_in_bytes'));
+  const cpuDir = findV1Dir(root, ['cpu', 'cpu,cpuacct'], 'cpu.cfs_quota_us');
+  const quota = cpuDir ? readFile(path.join(cpuDir, 'cpu.cfs_quota_us')) : null;
+  const period = cpuDir ? readFile(path.join(cpuDir, 'cpu.cfs_period_us')) : null;
+
+  const memoryLimitBytes = memoryLimit !== null ? toPositive(memoryLimit) : null;
+  return {
+    version: memoryLimit !== null || cpuDir ? 1 : null,
+    memoryLimitBytes:
+      memoryLimitBytes !== null && memoryLimitBytes < CGROUP_V1_UNLIMITED_BYTES
+        ? memoryLimitBytes
+        : null,
+    cpuQuotaCores: quota !== null && period !== null ? toCores(quota, period) : null,
+  };
+}
+
+/**
+ * Reads the cumulative CPU and memory counters of the current cgroup.
+ *
+ * @param root - cgroup mount point (overridable for tests)
+ * @returns Counters and limits (version null = no cgroup found)
+ */
+export function readCgroupStats(root: string = CGROUP_ROOT): CgroupStats {
+  const limits = readCgroupLimits(root);
+
+  if (limits.version === 2) {
+    const cpuStat = readKeyValues(path.join(root, 'cpu.stat'));
+    const memoryStat = readKeyValues(path.join(root, 'memory.stat'));
+    const memoryCurrent = readFile(path.join(root, 'memory.current'));
+    return {
+      ...limits,
+      cpuUsageUs: cpuStat.get('usage_usec') ?? null,
+      periods: cpuStat.get('nr_periods') ?? 0,
+      throttledPeriods: cpuStat.get('nr_throttled') ?? 0,
+      throttledUs: cpuStat.get('throttled_usec') ?? 0,
+      memoryWorkingSetBytes: workingSet(memoryCurrent, memoryStat.get('inactive_file')),
+    };
+  }
+
+  const cpuacctDir = findV1Dir(root, ['cpuacct', 'cpu,cpuacct', 'cpu'], 'cpuacct.usage');
+  const cpuDir = findV1Dir(root, ['cpu', 'cpu,cpuacct'], 'cpu.stat');
+  const cpuUsageNs = cpuacctDir ? readFile(path.join(cpuacctDir, 'cpuacct.usage')) : null;
+  const cpuStat = cpuDir ? readKeyValues(path.join(cpuDir, 'cpu.stat')) : new Map<string, number>();
+  const memoryStat = readKeyValues(path.join(root, 'memory', 'memory.stat'));
+  const memoryUsage = readFile(path.join(root, 'memory', 'memory.usage_in_bytes'));
+  return {
+    ...limits,
+    version: limits.version ?? (cpuacctDir || memoryUsage !== null ? 1 : null),
+    cpuUsageUs:
+      cpuUsageNs !== null && toPositive(cpuUsageNs) !== null ? Number(cpuUsageNs) / 1000 : null,
+    periods: cpuStat.get('nr_periods') ?? 0,
+    throttledPeriods: cpuStat.get('nr_throttled') ?? 0,
+    throttledUs: (cpuStat.get('throttled_time') ?? 0) / 1000,
+    memoryWorkingSetBytes: workingSet(memoryUsage, memoryStat.get('total_inactive_file')),
+  };
+}
+
+/**
+ * Previous sample, for per-interval deltas.
+ */
+interface ContainerSample {
+  at: number;
+  stats: CgroupStats;
+}
+
+/**
+ * Service for collecting container-level CPU and memory metrics.
+ *
+ * DESIGN: Like MetricsService's CPU measurement, CPU % and throttling are
+ * deltas between consecutive getMetrics() calls, so it is called once per
+ * metrics tick from MetricsService.getMetrics().
+ */
+class ContainerMetricsServiceClass {
+  private cgroupRoot = CGROUP_ROOT;
+  private lastSample: ContainerSample | null = null;
+
+  /**
+   * Collects container metrics since the previous call.
+   *
+   * @returns Container metrics, or null when no cgroup accounting is found
+   */
+  getMetrics(): ContainerMetrics | null {
+    const stats = readCgroupStats(this.cgroupRoot);
+    if (stats.version === null) {
+      return null;
+    }
+
+    const now = performance.now();
+    const previous = this.lastSample?.stats;
+    const elapsedUs = this.lastSample ? (now - this.lastSample.at) * 1000 : 0;
+    this.lastSample = { at: now, stats };
+
+    const cpuLimitCores = stats.cpuQuotaCores ?? os.cpus().length;
+    let cpuUsagePercent = 0;
+    if (previous?.cpuUsageUs != null && stats.cpuUsageUs !== null && elapsedUs > 0) {
+      const usedUs = Math.max(0, stats.cpuUsageUs - previous.cpuUsageUs);
+      cpuUsagePercent = Math.min(100, (usedUs / (elapsedUs * cpuLimitCores)) * 100);
+    }
+
+    const memoryUsageMb =
+      stats.memoryWorkingSetBytes !== null ? bytesToMb(stats.memoryWorkingSetBytes) : null;
+    const memoryLimitMb =
+      stats.memoryLimitBytes !== null ? bytesToMb(stats.memoryLimitBytes) : null;
+
+    return {
+      cgroupVersion: stats.version,
+      cpuUsagePercent: Math.round(cpuUsagePercent * 100) / 100,
+      cpuLimitCores,
+      throttledPeriods: previous
+        ? Math.max(0, stats.throttledPeriods - previous.throttledPeriods)
+        : 0,
+      throttledTimeMs: previous
+        ? Math.round(Math.max(0, stats.throttledUs - previous.throttledUs) / 10) / 100
+        : 0,
+      throttledPeriodsTotal: stats.throttledPeriods,
+      throttledTimeMsTotal: Math.round(stats.throttledUs / 10) / 100,
+      memoryUsageMb,
+      memoryLimitMb,
+      memoryUsagePercent:
+        memoryUsageMb !== null && memoryLimitMb !== null
+          ? Math.round((memoryUsageMb / memoryLimitMb) * 10000) / 100
+          : null,
+    };
+  }
+
+  /**
+   * Points collection at another cgroup mount and forgets the previous
+   * sample (used by tests).
+   *
+   * @param root - cgroup mount point, or undefined to restore the default
+   */
+  setCgroupRoot(root?: string): void {
+    this.cgroupRoot = root ?? CGROUP_ROOT;
+    this.lastSample = null;
+  }
+}
+
+/**
+ * Whether the root is a cgroup v2 (unified) mount.
+ */
+function isCgroupV2(root: string): boolean {
+  return fs.existsSync(path.join(root, 'cgroup.controllers'));
+}
+
+/**
+ * Finds the first cgroup v1 controller directory containing a file.
+ */
+function findV1Dir(root: string, dirs: string[], file: string): string | undefined {
+  return dirs.map((dir) => path.join(root, dir)).find((dir) => fs.existsSync(path.join(dir, file)));
+}
+
+/**
+ * Reads and trims a file, or returns null if it cannot be read.
+ */
+function readFile(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf8').trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a flat "key value" file such as cpu.stat or memory.stat.
+ */
+function readKeyValues(filePath: string): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const line of (readFile(filePath) ?? '').split('\n')) {
+    const [key, value] = line.trim().split(/\s+/);
+    const parsed = Number(value);
+    if (key && Number.isFinite(parsed)) {
+      values.set(key, parsed);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a positive number, or returns null.
+ */
+function toPositive(value: string): number | null {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Converts a CFS quota and period (microseconds) to cores; null if unlimited.
+ */
+function toCores(quota: string, period: string): number | null {
+  const quotaUs = toPositive(quota);
+  const periodUs = toPositive(period);
+  return quotaUs !== null && periodUs !== null
+    ? Math.round((quotaUs / periodUs) * 100) / 100
+    : null;
+}
+
+/**
+ * Computes the working set: usage minus inactive file cache.
+ */
+function workingSet(usage: string | null, inactiveFile: number | undefined): number | null {
+  const usageBytes = usage !== null ? toPositive(usage) : null;
+  return usageBytes !== null ? Math.max(0, usageBytes - (inactiveFile ?? 0)) : null;
+}
+
+/**
+ * Singleton instance of the ContainerMetricsService.
+ */
+export const ContainerMetricsService = new ContainerMetricsServiceClass();
@@ -0,0 +1,183 @@
+/**
+ * =============================================================================
+ * CPU PROFILE SERVICE — On-Demand V8 CPU Profiling via node:inspector
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Records a sampling CPU profile of the main process for a requested number
+ *   of seconds and stores it as a downloadable .cpuprofile artifact. Trainees
+ *   use it during CPU_STRESS and EVENT_LOOP_BLOCKING simulations the same way
+ *   they would capture a profile from a production App Service instance.
+ *
+ * HOW IT WORKS:
+ *   1. Refuse if a profile is already being recorded (HTTP 409) — the V8
+ *      Profiler domain supports one recording per session
+ *   2. Resolve the simulation the capture covers: the requested simulationId
+ *      (must be ACTIVE), or else the newest active CPU_STRESS/EVENT_LOOP_BLOCKING
+ *   3. Open an in-process inspector Session → Profiler.enable → Profiler.start
+ *   4. Wait durationSeconds, then Profiler.stop → profile JSON
+ *   5. Write the profile to the diagnostics directory and register it
+ *   6. Log CPU_PROFILE_CAPTURED with the simulation ID
+ *
+ * WHAT THE PROFILE SHOWS:
+ *   - EVENT_LOOP_BLOCKING: the blocking loop runs on the main thread, so it
+ *     dominates the profile — exactly what a trainee should find.
+ *   - CPU_STRESS: the burn runs in forked cpu-worker processes, so the main
+ *     process profile stays mostly idle. That contrast is intentional: it
+ *     teaches that high CPU on the instance is not always in the web process.
+ *
+ * PORTING NOTES:
+ *   - Java: JFR (jcmd JFR.start duration=30s) or async-profiler
+ *   - C#: dotnet-trace collect --duration / EventPipe via DiagnosticsClient
+ *   - Python: cProfile / py-spy record --duration
+ *
+ * @module services/cpu-profile
+ */
+
+import * as fs from 'fs';
+import { Session } from 'inspector';
+import { DiagnosticArtifact, Simulation, SimulationType } from '../types';
+import { DiagnosticArtifactService } from './diagnostic-artifact.service';
+import { SimulationTrackerService } from './simulation-tracker.service';
+import { EventLogService } from './event-log.service';
+import { ConflictError, NotFoundError } from '../middleware/error-handler';
+import { bytesToMb, delay, secondsToMs } from '../utils';
+
+/**
+ * Simulation types whose work runs where a main-process profile can see it
+ * (or, for CPU_STRESS, where its absence is the lesson).
+ */
+const PROFILED_SIMULATION_TYPES: SimulationType[] = ['CPU_STRESS', 'EVENT_LOOP_BLOCKING'];
+
+/**
+ * CPU Profile Service
+ *
+ * Records one profile at a time through an in-process inspector session.
+ */
+class CpuProfileServiceClass {
+  private recording = false;
+
+  /**
+   * Records a CPU profile and registers it as a diagnostic artifact.
+   *
+   * @param durationSeconds - How long to record
+   * @param simulationId - Simulation the profile is taken for (defaults to the
+   *                       newest active CPU_STRESS/EVENT_LOOP_BLOCKING simulation)
+   * @returns The registered artifact metadata
+   * @throws ConflictError if a profile is already being recorded
+   * @throws NotFoundError if simulationId is given but not an active simulation
+   */
+  async capture(durationSeconds: number, simulationId?: string): Promise<DiagnosticArtifact> {
+    if (this.recording) {
+      throw new ConflictError('A CPU profile capture is already in progress');
+    }
+
+    const simulation = this.resolveSimulation(simulationId);
+    const activeSimulationIds = SimulationTrackerService.getActiveSimulations().map(
+      (sim) => sim.id
+    );
+
+    this.recording = true;
+    const session = new Session();
+    try {
+      session.connect();
+      await this.post(session, 'Profiler.enable');
+      await this.post(session, 'Profiler.start');
+
+      const startTime = Date.now();
+      await delay(secondsToMs(durationSeconds));
+      const { profile } = await this.post<{ profile: object }>(session, 'Profiler.stop');
+      const captureDurationMs = Date.now() - startTime;
+
+      const filePath = DiagnosticArtifactService.createFilePath('CPU_PROFILE');
+      fs.writeFileSync(filePath, JSON.stringify(profile));
+
+      const artifact = DiagnosticArtifactService.register(
+        'CPU_PROFILE',
+        filePath,
+        captureDurationMs,
+        activeSimulationIds,
+        simulation?.id
+      );
+
+      const sizeMb = bytesToMb(artifact.sizeBytes);
+      EventLogService.info(
+        'CPU_PROFILE_CAPTURED',
+        `CPU profile captured (${durationSeconds}s, ${sizeMb}MB file)`,
+        {
+          simulationId: simulation?.id,
+          simulationType: simulation?.type,
+          details: {
+            artifactId: artifact.id,
+            fileName: artifact.fileName,
+            sizeBytes: artifact.sizeBytes,
+            durationSeconds,
+            captureDurationMs,
+          },
+          messageKey: 'srv.diagnostics.cpuProfile',
+          messageParams: { duration: durationSeconds, size: sizeMb },
+        }
+      );
+
+      return artifact;
+    } finally {
+      session.disconnect();
+      this.recording = false;
+    }
+  }
+
+  /**
+   * Whether a profile is currently being recorded.
+   *
+   * @returns True while a profile is being recorded
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Resolves the simulation a capture is tied to.
+   *
+   * @param simulationId - Requested simulation ID, if any
+   * @returns The simulation, or undefined if none is requested and none is running
+   * @throws NotFoundError if the requested simulation is unknown or no longer active
+   */
+  private resolveSimulation(simulationId?: string): Simulation | undefined {
+    if (simulationId) {
+      const simulation = SimulationTrackerService.getSimulation(simulationId);
+      if (!simulation || !SimulationTrackerService.isActive(simulationId)) {
+        throw new NotFoundError('Simulation not found or not active');
+      }
+      return simulation;
+    }
+
+    // Newest active CPU-related simulation, if any
+    return SimulationTrackerService.getActiveSimulations()
+      .filter((sim) => PROFILED_SIMULATION_TYPES.includes(sim.type))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())[0];
+  }
+
+  /**
+   * Promise wrapper around the callback-style Session.post().
+   *
+   * @param session - Connected inspector session
+   * @param method - Inspector protocol method
+   * @returns The method's result
+   */
+  private post<T = unknown>(session: Session, method: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      session.post(method, (error, result) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result as T);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Singleton instance of the CpuProfileService.
+ */
+export const CpuProfileService = new CpuProfileServiceClass();
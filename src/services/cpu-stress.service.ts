@@ -9,10 +9,23 @@
  *   like Azure App Service metrics, top/htop, and Windows Task Manager.
  *
  * HOW IT WORKS:
- *   1. Calculate number of worker processes: round((targetLoadPercent/100) * CPU_CORES)
- *   2. Fork N child processes (cpu-worker.ts) via child_process.fork()
- *   3. Each child runs pbkdf2Sync in a tight loop, burning 100% of one CPU core
- *   4. After durationSeconds, kill all child processes
+ *   1. Resolve the target: explicit targetPercent (1–100), or the intensity preset
+ *   2. Convert it to busy cores: (targetPercent/100) * CPU_CORES, e.g. 65% of 2 = 1.3
+ *   3. Fork N = ceil(busy cores) child processes (cpu-worker.ts) via child_process.fork()
+ *   4. Each child runs a busy/sleep duty cycle of (busy cores / N), e.g. 2 × 65%,
+ *      so the system-wide usage settles near the target on any core count
+ *   5. After durationSeconds, kill all child processes
+ *
+ * LOAD PROFILES (RAMP, STEP, SINE, SPIKES):
+ *   The worker pool is sized for the profile's peak. Every second the service
+ *   evaluates the profile and sends each worker its new duty cycle over IPC
+ *   ({ type: 'dutyCycle', dutyCycle }), so load changes without re-forking.
+ *
+ * WHY DUTY CYCLES:
+ *   Whole-core workers can only produce multiples of 100/CPU_CORES percent —
+ *   on a 2-core plan that is 50% or 100%, so most targets land on the wrong
+ *   value. Spreading the fractional load evenly over N partially busy workers
+ *   reaches any target and avoids one core at 100% next to one at 30%.
  *
  * WHY CHILD PROCESSES (NOT WORKER THREADS OR MAIN THREAD):
  *   - Node.js is single-threaded — CPU work in the main thread blocks ALL I/O
@@ -39,14 +52,21 @@
 import { fork, ChildProcess } from 'child_process';
 import { cpus } from 'os';
 import path from 'path';
-import { Simulation, CpuStressParams } from '../types';
+import { Simulation, CpuStressParams, CpuLoadProfile } from '../types';
 import { SimulationTrackerService } from './simulation-tracker.service';
 import { EventLogService } from './event-log.service';
 import { SimulationContextService } from './simulation-context.service';
+import { ConflictError } from '../middleware/error-handler';
+import { RandomService } from './random.service';
 
 /** Active CPU stress processes by simulation ID */
 const activeProcesses: Map<string, ChildProcess[]> = new Map();
 const activeTimeouts: Map<string, NodeJS.Timeout> = new Map();
+/** Load profile update timers by simulation ID */
+const activeProfileTimers: Map<string, NodeJS.Timeout> = new Map();
+
+/** How often a load profile is re-evaluated and pushed to the workers */
+const PROFILE_TICK_MS = 1000;
 
 /** Maps intensity levels to internal target percentages */
 const INTENSITY_MAP = {
@@ -54,6 +74,32 @@ const INTENSITY_MAP = {
   high: 100,
 } as const;
 
+/**
+ * Resolves the system-wide CPU target used to size the worker pool:
+ * a profile's peak, else explicit targetPercent, else the preset.
+ * Also used by the guardrails to compare requests with the CPU quota.
+ *
+ * @param params - CPU stress parameters (validated: at least one is set)
+ * @returns Target percentage (0-100)
+ */
+export function resolveTargetPercent(params: CpuStressParams): number {
+  if (params.profile) {
+    return Math.max(params.profile.startPercent, params.profile.endPercent);
+  }
+  return params.targetPercent ?? INTENSITY_MAP[params.intensity ?? 'high'];
+}
+
+/**
+ * Describes the target for log messages, e.g. 'moderate', '40%' or 'SINE 20-80%/60s'.
+ */
+function describeTarget(params: CpuStressParams): string {
+  if (params.profile) {
+    const { shape, startPercent, endPercent, periodSeconds } = params.profile;
+    return `${shape} ${startPercent}-${endPercent}%/${periodSeconds}s`;
+  }
+  return params.targetPercent !== undefined ? `${params.targetPercent}%` : (params.intensity ?? 'high');
+}
+
 /**
  * CPU Stress Service
  *
@@ -64,6 +110,8 @@ const INTENSITY_MAP = {
  * On start: fork N processes, store handles, set completion timer
  * On stop:  send 'stop' IPC message, force-kill after 200ms, clear timer
  * On complete: same as stop but triggered by timer expiration
+ * On pause:  SIGSTOP every worker, clear timer (not available on Windows)
+ * On resume: SIGCONT every worker, set the timer for the moved scheduledEndAt
  */
 class CpuStressServiceClass {
   /**
@@ -73,8 +121,9 @@ class CpuStressServiceClass {
    * @returns The created simulation
    */
   start(params: CpuStressParams): Simulation {
-    const { intensity, durationSeconds } = params;
-    const targetLoadPercent = INTENSITY_MAP[intensity];
+    const { durationSeconds } = params;
+    const targetLoadPercent = resolveTargetPercent(params);
+    const label = describeTarget(params);
 
     // Create simulation record
     const simulation = SimulationTrackerService.createSimulation(
@@ -87,16 +136,16 @@ class CpuStressServiceClass {
     SimulationContextService.setContext(simulation.id, 'CPU_STRESS');
 
     // Log the start
-    EventLogService.info('SIMULATION_STARTED', `CPU stress simulation started (${intensity}) for ${durationSeconds}s`, {
+    EventLogService.info('SIMULATION_STARTED', `CPU stress simulation started (${label}) for ${durationSeconds}s`, {
       simulationId: simulation.id,
       simulationType: 'CPU_STRESS',
-      details: { intensity, durationSeconds },
+      details: { intensity: params.intensity, targetPercent: targetLoadPercent, profile: params.profile, durationSeconds },
       messageKey: 'srv.cpu.started',
-      messageParams: { intensity, threads: Math.max(1, Math.round((INTENSITY_MAP[intensity] / 100) * cpus().length)), duration: durationSeconds },
+      messageParams: { intensity: label, threads: this.planWorkers(targetLoadPercent, cpus().length).workers, duration: durationSeconds },
     });
 
     // Start the CPU burn processes
-    this.startCpuProcesses(simulation.id, targetLoadPercent, durationSeconds);
+    this.startCpuProcesses(simulation.id, targetLoadPercent, durationSeconds, params.profile);
 
     return simulation;
   }
@@ -125,16 +174,96 @@ class CpuStressServiceClass {
     return simulation;
   }
 
+  /**
+   * Suspends the workers of a simulation being paused (SIGSTOP). Called by
+   * SimulationControlService before the tracker marks it PAUSED.
+   *
+   * @param id - Simulation ID
+   * @throws ConflictError on Windows, which has no SIGSTOP
+   */
+  pause(id: string): void {
+    if (process.platform === 'win32') {
+      throw new ConflictError('Pausing CPU stress needs SIGSTOP, which Windows does not support');
+    }
+    this.clearCompletion(id);
+    this.signalWorkers(id, 'SIGSTOP');
+  }
+
+  /**
+   * Continues the workers of a resumed simulation (SIGCONT) and re-arms its
+   * completion timer. Called after the tracker marks it ACTIVE again.
+   *
+   * @param id - Simulation ID
+   */
+  resume(id: string): void {
+    this.signalWorkers(id, 'SIGCONT');
+    this.reschedule(id);
+  }
+
+  /**
+   * Re-arms the completion timer for the simulation's current scheduledEndAt
+   * (after an extension or resume). Paused simulations get no timer.
+   *
+   * @param id - Simulation ID
+   */
+  reschedule(id: string): void {
+    const simulation = SimulationTrackerService.getSimulation(id);
+    if (simulation?.status === 'ACTIVE' && activeProcesses.has(id)) {
+      this.scheduleCompletion(id, simulation.scheduledEndAt.getTime() - Date.now());
+    }
+  }
+
+  /**
+   * Splits a system-wide target into worker processes and a per-worker duty cycle.
+   *
+   * @param targetPercent - System-wide target (1-100)
+   * @param numCpus - CPU core count
+   * @returns Worker count and duty cycle (0-1] for each worker
+   */
+  planWorkers(targetPercent: number, numCpus: number): { workers: number; dutyCycle: number } {
+    const busyCores = (targetPercent / 100) * numCpus;
+    const workers = Math.max(1, Math.ceil(busyCores - 1e-9));
+    return { workers, dutyCycle: Math.min(1, busyCores / workers) };
+  }
+
+  /**
+   * Evaluates a load profile at a point in time.
+   *
+   * @param profile - Load profile
+   * @param elapsedSeconds - Time since the simulation started
+   * @param inSpike - Whether a SPIKES profile is currently in a spike
+   * @returns System-wide target percentage at that time
+   */
+  getProfilePercent(profile: CpuLoadProfile, elapsedSeconds: number, inSpike = false): number {
+    const { startPercent, endPercent, periodSeconds } = profile;
+    const range = endPercent - startPercent;
+
+    switch (profile.shape) {
+      case 'RAMP':
+        return startPercent + range * Math.min(1, elapsedSeconds / periodSeconds);
+      case 'STEP':
+        return elapsedSeconds < periodSeconds ? startPercent : endPercent;
+      case 'SINE':
+        // Starts at startPercent, peaks at endPercent half way through each period
+        return startPercent + (range * (1 - Math.cos((2 * Math.PI * elapsedSeconds) / periodSeconds))) / 2;
+      case 'SPIKES':
+        return inSpike ? endPercent : startPercent;
+    }
+  }
+
   /**
    * Starts CPU worker processes for a simulation.
    *
    * ALGORITHM:
    * 1. Get CPU core count from os.cpus().length
-   * 2. Calculate worker count: round((targetLoadPercent / 100) * numCpus)
-   *    - 100% on 2 CPUs = 2 workers; 50% on 4 CPUs = 2 workers
-   * 3. Fork each worker as a separate OS process running cpu-worker.js
+   * 2. Plan workers (planWorkers): ceil(busy cores) workers sharing the load
+   *    - 100% on 2 CPUs = 2 workers at 100%; 65% on 2 CPUs = 2 workers at 65%
+   *    - 30% on 8 CPUs = 3 workers at 80%
+   * 3. Fork each worker as a separate OS process running cpu-worker.js,
+   *    passing its duty cycle as the first argument
    * 4. Each worker signals 'ready' via IPC when its burn loop starts
-   * 5. Set a timeout to auto-kill all workers after durationSeconds
+   * 5. With a profile, start the timer that pushes duty cycle updates
+   * 6. Set a timeout to auto-kill all workers after durationSeconds
    *
    * PORTING NOTES:
    *   The fork() call creates a new Node.js process. In other runtimes:
@@ -145,17 +274,19 @@ class CpuStressServiceClass {
    * @param simulationId - Simulation ID for tracking
    * @param targetLoadPercent - Target CPU load percentage (1-100)
    * @param durationSeconds - Total duration in seconds
+   * @param profile - Optional load profile (the pool is sized for its peak)
    */
   private startCpuProcesses(
     simulationId: string,
     targetLoadPercent: number,
-    durationSeconds: number
+    durationSeconds: number,
+    profile?: CpuLoadProfile
   ): void {
     const numCpus = cpus().length;
-    
-    // Calculate workers: for 100% on 2 CPUs = 2 processes
-    // For 50% on 2 CPUs = 1 process
-    const numProcesses = Math.max(1, Math.round((targetLoadPercent / 100) * numCpus));
+    const { workers: numProcesses, dutyCycle: peakDutyCycle } = this.planWorkers(targetLoadPercent, numCpus);
+    const dutyCycle = profile
+      ? this.toDutyCycle(this.getProfilePercent(profile, 0), numCpus, numProcesses)
+      : peakDutyCycle;
 
     const processes: ChildProcess[] = [];
     const workerPath = path.join(__dirname, 'cpu-worker.js');
@@ -164,7 +295,7 @@ class CpuStressServiceClass {
 
     for (let i = 0; i < numProcesses; i++) {
       try {
-        const child = fork(workerPath, [], {
+        const child = fork(workerPath, [String(dutyCycle)], {
           detached: false,
           stdio: ['ignore', 'ignore', 'ignore', 'ipc'],
         });
@@ -193,42 +324,166 @@ class CpuStressServiceClass {
 
     activeProcesses.set(simulationId, processes);
 
+    if (profile) {
+      this.startProfileUpdates(simulationId, profile, numCpus, numProcesses);
+    }
+
     // Log status after brief delay
     setTimeout(() => {
       const status = processErrors.length > 0 
         ? `ERRORS: ${processErrors.join('; ')}`
         : `ready=${processesReady}`;
-      process.stdout.write(`[CPU Stress] fork() - target=${targetLoadPercent}%, cpus=${numCpus}, processes=${processes.length}, ${status}\n`);
+      process.stdout.write(`[CPU Stress] fork() - target=${targetLoadPercent}%, cpus=${numCpus}, processes=${processes.length}, duty=${Math.round(dutyCycle * 100)}%, ${status}\n`);
     }, 1000);
 
     // Set up auto-completion timeout
-    const timeout = setTimeout(() => {
-      this.stopCpuProcesses(simulationId);
-      const simulation = SimulationTrackerService.completeSimulation(simulationId);
-      if (simulation) {
-        EventLogService.info('SIMULATION_COMPLETED', 'CPU stress simulation completed', {
-          simulationId,
-          simulationType: 'CPU_STRESS',
-          messageKey: 'srv.cpu.completed',
-        });
-      }
-    }, durationSeconds * 1000);
+    this.scheduleCompletion(simulationId, durationSeconds * 1000);
+  }
+
+  /**
+   * Sets (or replaces) the auto-completion timer of a simulation.
+   *
+   * @param simulationId - Simulation ID
+   * @param delayMs - Time until completion
+   */
+  private scheduleCompletion(simulationId: string, delayMs: number): void {
+    this.clearCompletion(simulationId);
+    const timeout = setTimeout(
+      () => {
+        this.stopCpuProcesses(simulationId);
+        const simulation = SimulationTrackerService.completeSimulation(simulationId);
+        if (simulation) {
+          EventLogService.info('SIMULATION_COMPLETED', 'CPU stress simulation completed', {
+            simulationId,
+            simulationType: 'CPU_STRESS',
+            messageKey: 'srv.cpu.completed',
+          });
+        }
+      },
+      Math.max(0, delayMs)
+    );
 
     activeTimeouts.set(simulationId, timeout);
   }
 
   /**
-   * Stops CPU worker processes for a simulation.
+   * Clears the auto-completion timer of a simulation, if any.
    *
    * @param simulationId - Simulation ID
    */
-  private stopCpuProcesses(simulationId: string): void {
-    // Clear the timeout
+  private clearCompletion(simulationId: string): void {
     const timeout = activeTimeouts.get(simulationId);
     if (timeout) {
       clearTimeout(timeout);
       activeTimeouts.delete(simulationId);
     }
+  }
+
+  /**
+   * Sends a signal to every worker of a simulation.
+   *
+   * @param simulationId - Simulation ID
+   * @param signal - Signal to send
+   */
+  private signalWorkers(simulationId: string, signal: NodeJS.Signals): void {
+    for (const child of activeProcesses.get(simulationId) ?? []) {
+      try {
+        child.kill(signal);
+      } catch {
+        // Worker may already be terminated
+      }
+    }
+  }
+
+  /**
+   * Re-evaluates a load profile every PROFILE_TICK_MS and sends the new duty
+   * cycle to each worker over IPC.
+   *
+   * SPIKES: each tick starts a spike with probability tick / periodSeconds,
+   * so spikes arrive on average once per period. The draws come from a
+   * generator seeded with the simulation's seed, so a replay spikes on the
+   * same ticks.
+   *
+   * The profile clock is the simulation's elapsed time, so it stands still
+   * while the simulation is paused.
+   *
+   * @param simulationId - Simulation ID
+   * @param profile - Load profile
+   * @param numCpus - CPU core count
+   * @param workers - Size of the worker pool
+   */
+  private startProfileUpdates(
+    simulationId: string,
+    profile: CpuLoadProfile,
+    numCpus: number,
+    workers: number
+  ): void {
+    const random = RandomService.createGenerator(
+      SimulationTrackerService.getSimulation(simulationId)?.seed
+    );
+    const spikeDurationMs = Math.max(1000, (profile.periodSeconds * 1000) / 10);
+    const spikeProbability = PROFILE_TICK_MS / (profile.periodSeconds * 1000);
+    let spikeUntil = 0;
+
+    const timer = setInterval(() => {
+      // Suspended workers cannot read their IPC channel
+      if (SimulationTrackerService.getSimulation(simulationId)?.status === 'PAUSED') {
+        return;
+      }
+
+      const elapsedMs = SimulationTrackerService.getElapsedMs(simulationId);
+      if (
+        profile.shape === 'SPIKES' &&
+        elapsedMs >= spikeUntil &&
+        random.next() < spikeProbability
+      ) {
+        spikeUntil = elapsedMs + spikeDurationMs;
+      }
+
+      const percent = this.getProfilePercent(profile, elapsedMs / 1000, elapsedMs < spikeUntil);
+      const dutyCycle = this.toDutyCycle(percent, numCpus, workers);
+
+      for (const child of activeProcesses.get(simulationId) ?? []) {
+        try {
+          if (child.connected) {
+            child.send({ type: 'dutyCycle', dutyCycle });
+          }
+        } catch {
+          // Worker may be exiting
+        }
+      }
+    }, PROFILE_TICK_MS);
+
+    activeProfileTimers.set(simulationId, timer);
+  }
+
+  /**
+   * Converts a system-wide percentage into a duty cycle for each of N workers.
+   */
+  private toDutyCycle(percent: number, numCpus: number, workers: number): number {
+    return Math.min(1, ((percent / 100) * numCpus) / workers);
+  }
+
+  /**
+   * Stops CPU worker processes for a simulation.
+   *
+   * @param simulationId - Simulation ID
+   */
+  private stopCpuProcesses(simulationId: string): void {
+    // Clear the timeout
+    this.clearCompletion(simulationId);
+
+    // Suspended workers cannot handle the stop message
+    if (SimulationTrackerService.getSimulation(simulationId)?.status === 'PAUSED') {
+      this.signalWorkers(simulationId, 'SIGCONT');
+    }
+
+    // Stop load profile updates
+    const profileTimer = activeProfileTimers.get(simulationId);
+    if (profileTimer) {
+      clearInterval(profileTimer);
+      activeProfileTimers.delete(simulationId);
+    }
 
     // Terminate all processes
     const processes = activeProcesses.get(simulationId);
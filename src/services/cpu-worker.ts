@@ -1,30 +1,39 @@
 /**
  * =============================================================================
- * CPU WORKER PROCESS — Forked Child That Burns One CPU Core at 100%
+ * CPU WORKER PROCESS — Forked Child That Burns One CPU Core at a Duty Cycle
  * =============================================================================
  *
  * PURPOSE:
  *   This file is the ENTRY POINT for a forked child process. It is NOT imported
  *   — it is spawned via child_process.fork() from CpuStressService.
- *   Each instance burns exactly one CPU core at 100% utilization.
+ *   Each instance keeps one CPU core busy for a fraction of the time (its
+ *   duty cycle, passed as the first argument: 0–1, default 1 = 100%, and
+ *   adjustable at runtime over IPC).
  *
  * EXECUTION MODEL:
  *   - Spawned by: CpuStressService.start() via child_process.fork(__filename)
- *   - Each forked process = 1 OS process = 1 CPU core pinned at 100%
- *   - The parent spawns N workers (one per target core)
+ *   - Each forked process = 1 OS process = 1 CPU core at its duty cycle
+ *   - The parent spawns N workers sharing the target load (see planWorkers)
  *   - Communication: IPC messages between parent <-> child
  *     - Child sends 'ready' when initialized
  *     - Parent sends 'stop' to gracefully terminate
+ *     - Parent sends { type: 'dutyCycle', dutyCycle } to change the load
+ *       (used by load profiles; takes effect from the next period)
  *
  * HOW IT BURNS CPU:
- *   A tight while(true) loop calling pbkdf2Sync (PBKDF2 with 10,000 iterations).
- *   Each call takes ~5-10ms of pure CPU work. The loop runs until 'stop' is
- *   received. Since this is a SEPARATE PROCESS, blocking the event loop is
- *   intentional and will not affect the main app.
+ *   Time is divided into 100ms periods. In each period the worker calls
+ *   pbkdf2Sync (PBKDF2 with 1,000 iterations, ~0.5-1ms each) in a loop until
+ *   dutyCycle × 100ms has passed, then sleeps for the rest of the period.
+ *   Averaged over a metrics interval, the core reads as dutyCycle × 100% busy.
+ *   At a duty cycle of 1 the sleep is a setImmediate, so the worker still
+ *   yields once per period and can receive the 'stop' message. Since this is
+ *   a SEPARATE PROCESS, blocking the event loop is intentional and will not
+ *   affect the main app.
  *
  * PORTING NOTES:
  *   - Java: Implement as a Runnable submitted to an ExecutorService.
- *     Use a while(!Thread.interrupted()) loop with MessageDigest work.
+ *     Use a while(!Thread.interrupted()) loop with MessageDigest work,
+ *     then Thread.sleep() for the idle part of each period.
  *   - Python: Use multiprocessing.Process (NOT threading — GIL prevents
  *     true parallelism with threads). hashlib.pbkdf2_hmac in a while loop.
  *   - C#: Task.Run() with a while(!cancellationToken.IsCancellationRequested)
@@ -40,17 +49,39 @@
 
 import { pbkdf2Sync } from 'crypto';
 
+/** Length of one busy/sleep period in milliseconds */
+const PERIOD_MS = 100;
+
 let running = true;
 
 /**
- * IPC message handler: parent sends 'stop' to gracefully terminate.
- * In Java/C#, this would be a Thread.interrupt() or CancellationToken.
+ * Parses a duty cycle, clamped to [0, 1].
+ *
+ * @returns The duty cycle, or undefined if the value is not a number
+ */
+function parseDutyCycle(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.min(1, Math.max(0, parsed)) : undefined;
+}
+
+/** Fraction of each period spent busy, from the first fork() argument; updated over IPC */
+let dutyCycle = parseDutyCycle(process.argv[2]) ?? 1;
+
+/**
+ * IPC message handler: parent sends 'stop' to gracefully terminate, or a
+ * dutyCycle message to change the load.
+ * In Java/C#, this would be a Thread.interrupt() or CancellationToken, and a
+ * volatile field read by the burn loop.
  */
-process.on('message', (msg: string) => {
+process.on('message', (msg: unknown) => {
   if (msg === 'stop') {
     running = false;
     process.exit(0);
   }
+
+  if (typeof msg === 'object' && msg !== null && (msg as { type?: unknown }).type === 'dutyCycle') {
+    dutyCycle = parseDutyCycle((msg as { dutyCycle?: unknown }).dutyCycle) ?? dutyCycle;
+  }
 });
 
 /** OS signal handler for graceful shutdown (e.g., parent process killed). */
@@ -60,30 +91,40 @@ process.on('SIGTERM', () => {
 });
 
 /**
- * Main CPU burn loop. Runs synchronously until stopped.
+ * Main CPU burn loop. Runs one busy/sleep period per call until stopped.
  *
  * ALGORITHM:
- *   1. Send 'ready' message to parent (signals successful initialization)
- *   2. Enter tight while(running) loop
- *   3. Each iteration: pbkdf2Sync with 10,000 rounds (~5-10ms of pure CPU)
- *   4. Loop exits when IPC message sets running=false
+ *   1. Busy phase: pbkdf2Sync with 1,000 rounds until dutyCycle × PERIOD_MS has passed
+ *   2. Sleep phase: setTimeout for the rest of the period (setImmediate at 100%)
+ *   3. Repeat until the IPC 'stop' message sets running=false
  *
  * The choice of pbkdf2Sync is deliberate:
  *   - Cryptographic work that cannot be optimized away by the JIT compiler
- *   - Predictable duration per call (~5-10ms)
+ *   - Short, predictable duration per call, so the busy phase ends on time
  *   - Available in all languages' standard libraries
  */
-function burnCpu(): void {
-  // Signal to parent that this worker is initialized and beginning work
-  if (process.send) {
-    process.send('ready');
+function burnPeriod(): void {
+  if (!running) {
+    return;
   }
-  
-  while (running) {
-    // PBKDF2 with 10,000 iterations: ~5-10ms of CPU-intensive synchronous work.
-    // The sync variant is used intentionally to keep CPU at 100% without yielding.
-    pbkdf2Sync('password', 'salt', 10000, 64, 'sha512');
+
+  const periodStart = Date.now();
+  const busyMs = dutyCycle * PERIOD_MS;
+  while (Date.now() - periodStart < busyMs) {
+    pbkdf2Sync('password', 'salt', 1000, 64, 'sha512');
   }
+
+  const sleepMs = PERIOD_MS - (Date.now() - periodStart);
+  if (sleepMs >= 1) {
+    setTimeout(burnPeriod, sleepMs);
+  } else {
+    setImmediate(burnPeriod);
+  }
+}
+
+// Signal to parent that this worker is initialized and beginning work
+if (process.send) {
+  process.send('ready');
 }
 
-burnCpu();
+burnPeriod();
@@ -0,0 +1,176 @@
+/**
+ * =============================================================================
+ * DIAGNOSTIC ARTIFACT SERVICE — Registry of Captured Diagnostic Files
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Keeps track of diagnostic files (heap snapshots, profiles) captured on
+ *   demand so they can be listed and downloaded later through the admin API.
+ *
+ * RESPONSIBILITIES:
+ *   1. Own the diagnostics directory (config.diagnosticsDir) and create it lazily
+ *   2. Hand out file paths for new captures
+ *   3. Register metadata for finished captures
+ *   4. Enforce retention (config.maxDiagnosticArtifacts) — oldest files deleted first
+ *   5. Resolve artifact IDs to file paths for downloads
+ *
+ * STORAGE:
+ *   Metadata is an in-memory Map<id, DiagnosticArtifact>; the files live on
+ *   disk. Like the simulation registry, metadata is lost on restart. Heap
+ *   snapshots are large (often larger than the heap itself), so retention is
+ *   deliberately small to avoid filling the App Service /tmp volume.
+ *
+ * PORTING NOTES:
+ *   - Java: a @Service holding ConcurrentHashMap<String, Artifact> plus Files.* APIs.
+ *   - Python: dict + pathlib; FastAPI FileResponse for downloads.
+ *   - C#: ConcurrentDictionary + PhysicalFileResult for downloads.
+ *
+ * @module services/diagnostic-artifact
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import { DiagnosticArtifact, DiagnosticArtifactKind } from '../types';
+import { generateId } from '../utils';
+import { config } from '../config';
+
+/** File extension per artifact kind (tools recognise these extensions) */
+const FILE_EXTENSIONS: Record<DiagnosticArtifactKind, string> = {
+  HEAP_SNAPSHOT: '.heapsnapshot',
+  CPU_PROFILE: '.cpuprofile',
+};
+
+/**
+ * Service for registering and retrieving diagnostic artifacts.
+ */
+class DiagnosticArtifactServiceClass {
+  private artifacts: Map<string, DiagnosticArtifact> = new Map();
+
+  /**
+   * Builds a new, unique file path for an artifact of the given kind.
+   * Creates the diagnostics directory if it does not exist yet.
+   *
+   * @param kind - Artifact kind (determines file extension)
+   * @returns Absolute file path to write the artifact to
+   */
+  createFilePath(kind: DiagnosticArtifactKind): string {
+    fs.mkdirSync(config.diagnosticsDir, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const prefix = kind.toLowerCase().replace(/_/g, '-');
+    const fileName = `${prefix}-${stamp}-${process.pid}${FILE_EXTENSIONS[kind]}`;
+    return path.join(config.diagnosticsDir, fileName);
+  }
+
+  /**
+   * Registers a finished capture and applies retention.
+   *
+   * @param kind - Artifact kind
+   * @param filePath - Path the artifact was written to
+   * @param captureDurationMs - How long the capture took
+   * @param activeSimulationIds - Simulations active during the capture
+   * @param simulationId - Optional simulation the capture was taken for
+   * @returns The registered artifact metadata
+   */
+  register(
+    kind: DiagnosticArtifactKind,
+    filePath: string,
+    captureDurationMs: number,
+    activeSimulationIds: string[],
+    simulationId?: string
+  ): DiagnosticArtifact {
+    const artifact: DiagnosticArtifact = {
+      id: generateId(),
+      kind,
+      fileName: path.basename(filePath),
+      sizeBytes: fs.statSync(filePath).size,
+      createdAt: new Date(),
+      captureDurationMs,
+      activeSimulationIds,
+      simulationId,
+    };
+
+    this.artifacts.set(artifact.id, artifact);
+    this.applyRetention();
+
+    return artifact;
+  }
+
+  /**
+   * Gets artifact metadata by ID.
+   *
+   * @param id - Artifact ID
+   * @returns Artifact or undefined if not found
+   */
+  getArtifact(id: string): DiagnosticArtifact | undefined {
+    return this.artifacts.get(id);
+  }
+
+  /**
+   * Lists all registered artifacts.
+   *
+   * @param kind - Optional kind filter
+   * @returns Artifacts, newest first
+   */
+  listArtifacts(kind?: DiagnosticArtifactKind): DiagnosticArtifact[] {
+    return Array.from(this.artifacts.values())
+      .filter((artifact) => !kind || artifact.kind === kind)
+      .reverse();
+  }
+
+  /**
+   * Resolves an artifact to its absolute file path.
+   *
+   * @param artifact - Artifact metadata
+   * @returns Absolute file path
+   */
+  getFilePath(artifact: DiagnosticArtifact): string {
+    return path.join(config.diagnosticsDir, artifact.fileName);
+  }
+
+  /**
+   * Deletes an artifact's file and removes it from the registry.
+   *
+   * @param id - Artifact ID
+   * @returns True if the artifact was found and removed
+   */
+  deleteArtifact(id: string): boolean {
+    const artifact = this.artifacts.get(id);
+    if (!artifact) {
+      return false;
+    }
+
+    try {
+      fs.unlinkSync(this.getFilePath(artifact));
+    } catch {
+      // File may already have been removed (e.g., /tmp cleanup) — registry entry still goes
+    }
+
+    return this.artifacts.delete(id);
+  }
+
+  /**
+   * Deletes all artifacts. Useful for testing and cleanup.
+   */
+  clear(): void {
+    for (const id of Array.from(this.artifacts.keys())) {
+      this.deleteArtifact(id);
+    }
+  }
+
+  /**
+   * Deletes the oldest artifacts until at most config.maxDiagnosticArtifacts remain.
+   * Map iteration order is insertion order, so the first keys are the oldest.
+   */
+  private applyRetention(): void {
+    while (this.artifacts.size > config.maxDiagnosticArtifacts) {
+      const oldestId = this.artifacts.keys().next().value as string;
+      this.deleteArtifact(oldestId);
+    }
+  }
+}
+
+/**
+ * Singleton instance of the DiagnosticArtifactService.
+ */
+export const DiagnosticArtifactService = new DiagnosticArtifactServiceClass();
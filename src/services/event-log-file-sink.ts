@@ -0,0 +1,232 @@
+/**
+ * =============================================================================
+ * EVENT LOG FILE SINK — Rotating JSON Lines Persistence for the Event Log
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Appends every EventLogEntry to a JSON Lines file so the event log survives
+ *   process death. After a CRASH_* simulation, the restarted process reloads
+ *   the most recent entries and a reconnecting dashboard shows what happened
+ *   before the crash.
+ *
+ * FILES (in the configured directory):
+ *   events.jsonl                 → active file, one JSON entry per line
+ *   events-<epochMs>.jsonl       → rotated files, named by rotation time
+ *
+ * ROTATION & RETENTION:
+ *   - The active file is renamed when the next line would exceed maxFileBytes
+ *   - At most maxFiles files are kept (active included); oldest are deleted
+ *   - Rotated files whose last write is older than maxAgeMs are deleted
+ *   Retention runs at startup and on every rotation.
+ *
+ * WHY SYNCHRONOUS WRITES:
+ *   The crash simulations end the process immediately (process.abort(),
+ *   uncaught exceptions, OOM). An async write queued just before would be
+ *   lost with the process, so each entry is written with appendFileSync
+ *   before log() returns. Events are infrequent, so the cost is negligible.
+ *
+ * CRASH SAFETY:
+ *   A line cut short by a crash is skipped when the file is reloaded.
+ *
+ * PORTING NOTES:
+ *   - Java: Logback RollingFileAppender with SizeAndTimeBasedRollingPolicy and a JSON encoder.
+ *   - C#: Serilog.Sinks.File (rollOnFileSizeLimit, retainedFileCountLimit) with a JSON formatter.
+ *   - Python: logging.handlers.RotatingFileHandler with a JSON formatter.
+ *
+ * @module services/event-log-file-sink
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EventLogEntry, EventLogSink } from '../types';
+
+/** Name of the active (currently written) file */
+const ACTIVE_FILE_NAME = 'events.jsonl';
+
+/** Rotated file names: events-<epochMs>.jsonl */
+const ROTATED_FILE_PATTERN = /^events-(\d+)\.jsonl$/;
+
+/**
+ * Options for the JSONL file sink.
+ */
+export interface JsonlFileEventSinkOptions {
+  /** Directory holding the event log files (created if missing) */
+  dir: string;
+  /** Rotate the active file at this size in bytes */
+  maxFileBytes: number;
+  /** Maximum files kept, active file included */
+  maxFiles: number;
+  /** Rotated files older than this (by modification time) are deleted, in ms */
+  maxAgeMs: number;
+}
+
+/**
+ * Event log sink writing rotating JSON Lines files.
+ */
+export class JsonlFileEventSink implements EventLogSink {
+  private readonly activePath: string;
+  private activeSize: number;
+  private writeFailed = false;
+
+  /**
+   * Creates the directory if needed and applies retention to existing files.
+   *
+   * @param options - File locations and limits
+   */
+  constructor(private readonly options: JsonlFileEventSinkOptions) {
+    fs.mkdirSync(options.dir, { recursive: true });
+    this.activePath = path.join(options.dir, ACTIVE_FILE_NAME);
+    this.activeSize = fs.existsSync(this.activePath) ? fs.statSync(this.activePath).size : 0;
+    this.applyRetention();
+  }
+
+  /**
+   * Appends one entry, rotating first if it would overflow the active file.
+   * Write errors (disk full, permissions) are reported once and otherwise ignored
+   * so logging never breaks a simulation.
+   *
+   * @param entry - Entry to persist
+   */
+  append(entry: EventLogEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    const lineBytes = Buffer.byteLength(line);
+
+    try {
+      if (this.activeSize > 0 && this.activeSize + lineBytes > this.options.maxFileBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.activePath, line);
+      this.activeSize += lineBytes;
+      this.writeFailed = false;
+    } catch (error) {
+      if (!this.writeFailed) {
+        console.error(`[EventLog] Failed to write ${this.activePath}: ${(error as Error).message}`);
+      }
+      this.writeFailed = true;
+    }
+  }
+
+  /**
+   * Loads the most recent persisted entries, reading files newest first and
+   * stopping once `limit` entries have been collected.
+   *
+   * @param limit - Maximum entries to return
+   * @returns Entries, oldest first
+   */
+  loadRecent(limit: number): EventLogEntry[] {
+    const newestFirst: EventLogEntry[] = [];
+    const files = [this.activePath, ...this.listRotatedFiles().map((file) => file.path)];
+
+    for (const filePath of files) {
+      if (newestFirst.length >= limit) {
+        break;
+      }
+
+      let lines: string[];
+      try {
+        lines = fs.readFileSync(filePath, 'utf8').split('\n');
+      } catch {
+        continue;
+      }
+
+      for (let i = lines.length - 1; i >= 0 && newestFirst.length < limit; i--) {
+        const entry = parseEntry(lines[i]);
+        if (entry) {
+          newestFirst.push(entry);
+        }
+      }
+    }
+
+    return newestFirst.reverse();
+  }
+
+  /**
+   * Renames the active file to events-<epochMs>.jsonl and applies retention.
+   */
+  private rotate(): void {
+    if (fs.existsSync(this.activePath)) {
+      // Names must sort after every existing rotation, even within one millisecond
+      const newest = this.listRotatedFiles()[0];
+      const rotatedAt = Math.max(Date.now(), newest ? newest.rotatedAt + 1 : 0);
+      fs.renameSync(this.activePath, path.join(this.options.dir, `events-${rotatedAt}.jsonl`));
+    }
+    this.activeSize = 0;
+    this.applyRetention();
+  }
+
+  /**
+   * Deletes rotated files beyond maxFiles or older than maxAgeMs.
+   */
+  private applyRetention(): void {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    // The active file counts towards maxFiles
+    const keep = this.options.maxFiles - 1;
+
+    this.listRotatedFiles().forEach((file, index) => {
+      if (index < keep && file.mtimeMs >= cutoff) {
+        return;
+      }
+      try {
+        fs.unlinkSync(file.path);
+      } catch {
+        // Already gone
+      }
+    });
+  }
+
+  /**
+   * Lists rotated files, newest first.
+   */
+  private listRotatedFiles(): Array<{ path: string; rotatedAt: number; mtimeMs: number }> {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.options.dir);
+    } catch {
+      return [];
+    }
+
+    const files: Array<{ path: string; rotatedAt: number; mtimeMs: number }> = [];
+    for (const name of names) {
+      const match = ROTATED_FILE_PATTERN.exec(name);
+      if (!match) {
+        continue;
+      }
+      const filePath = path.join(this.options.dir, name);
+      try {
+        files.push({
+          path: filePath,
+          rotatedAt: Number(match[1]),
+          mtimeMs: fs.statSync(filePath).mtimeMs,
+        });
+      } catch {
+        // Deleted between readdir and stat
+      }
+    }
+
+    return files.sort((a, b) => b.rotatedAt - a.rotatedAt);
+  }
+}
+
+/**
+ * Parses one JSONL line into an entry, or null if the line is blank,
+ * truncated (crash mid-write) or not an event log entry.
+ */
+function parseEntry(line: string): EventLogEntry | null {
+  if (line.trim() === '') {
+    return null;
+  }
+
+  try {
+    const raw = JSON.parse(line) as Partial<EventLogEntry> & { timestamp?: string };
+    if (typeof raw.id !== 'string' || typeof raw.event !== 'string' || !raw.timestamp) {
+      return null;
+    }
+    const timestamp = new Date(raw.timestamp);
+    if (isNaN(timestamp.getTime())) {
+      return null;
+    }
+    return { ...(raw as EventLogEntry), timestamp };
+  } catch {
+    return null;
+  }
+}
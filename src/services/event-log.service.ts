@@ -10,23 +10,29 @@
  *
  * DATA FLOW:
  *   Service/Controller calls EventLogService.info/warn/error()
- *     → Entry added to in-memory array
+ *     → Entry added to in-memory array (oldest dropped beyond eventLogMaxEntries)
+ *     → Entry persisted by the sink, if one is set (see EventLogSink)
  *     → Entry printed to console (stdout/stderr based on level)
  *     → Entry broadcast to all WebSocket clients via broadcaster callback
+ *     → Entry passed to subscribers (e.g. WebhookService)
  *
  * SINGLETON PATTERN:
  *   Single instance created at module load. All services share it.
  *
  * MEMORY:
- *   Event log grows unbounded during runtime but clears when the process
- *   restarts. This is acceptable since the dashboard clears on page refresh
- *   and long-running sessions are not expected in this educational tool.
+ *   The in-memory log is a ring buffer of config.eventLogMaxEntries entries.
+ *
+ * PERSISTENCE:
+ *   Without a sink the log clears when the process restarts. The server plugs
+ *   in a JsonlFileEventSink at startup (EVENT_LOG_PERSIST), which persists
+ *   each entry and hands back the most recent ones, so the log survives the
+ *   crash simulations.
  *
  * PORTING NOTES:
  *   - Java: Use ArrayList or ConcurrentLinkedDeque. Thread-safe wrapper
  *     needed if accessed from multiple threads.
- *   - Python: Simple list — no maxlen needed.
- *   - C#: List<T> or ConcurrentQueue<T>.
+ *   - Python: collections.deque(maxlen=N).
+ *   - C#: Queue<T> trimmed to N, or ConcurrentQueue<T>.
  *   - PHP: Simple array.
  *
  *   The broadcaster callback pattern decouples this service from Socket.IO.
@@ -36,21 +42,29 @@
  * @module services/event-log
  */
 
-import { EventLogEntry, EventType, LogLevel, SimulationType } from '../types';
+import {
+  EventLogEntry,
+  EventLogPage,
+  EventLogQuery,
+  EventLogSink,
+  EventType,
+  LogLevel,
+  SimulationType,
+} from '../types';
 import { generateId } from '../utils';
+import { config } from '../config';
+import { ValidationError } from '../middleware/error-handler';
 
 /**
  * Service for logging simulation and system events.
  *
- * Maintains an in-memory array of events that clears on process restart.
+ * Maintains a bounded in-memory array of events, optionally persisted by a sink.
  */
 class EventLogServiceClass {
   private entries: EventLogEntry[] = [];
   private broadcaster: ((event: EventLogEntry) => void) | null = null;
-
-  constructor() {
-    // No configuration needed - unlimited entries
-  }
+  private sink: EventLogSink | null = null;
+  private listeners = new Set<(event: EventLogEntry) => void>();
 
   /**
    * Sets a broadcaster function to emit events in real-time (e.g., via Socket.IO).
@@ -59,6 +73,48 @@ class EventLogServiceClass {
   setBroadcaster(fn: (event: EventLogEntry) => void): void {
     this.broadcaster = fn;
   }
+
+  /**
+   * Subscribes a listener to every new entry (in addition to the broadcaster).
+   * Listener errors are caught so one subscriber cannot break logging.
+   *
+   * @param listener - Function to call with each new entry
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: EventLogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Plugs in a sink that persists every new entry, and restores the most
+   * recent persisted entries (e.g. from before a crash) ahead of any entries
+   * already logged by this process. Pass null to detach.
+   *
+   * @param sink - Sink to use, or null
+   * @returns Number of entries restored from the sink
+   */
+  setSink(sink: EventLogSink | null): number {
+    this.sink = sink;
+    if (!sink) {
+      return 0;
+    }
+
+    // Entries logged before the sink was attached have not been persisted yet
+    for (const entry of this.entries) {
+      sink.append(entry);
+    }
+
+    const restored = sink.loadRecent(config.eventLogMaxEntries);
+    const current = new Set(this.entries.map((entry) => entry.id));
+    const previous = restored.filter((entry) => !current.has(entry.id));
+    this.entries = [...previous, ...this.entries];
+    this.trim();
+
+    return previous.length;
+  }
   /**
    * Logs a new event.
    *
@@ -93,6 +149,12 @@ class EventLogServiceClass {
     };
 
     this.entries.push(entry);
+    this.trim();
+
+    // Persist before anything else can fail — a crash simulation may follow
+    if (this.sink) {
+      this.sink.append(entry);
+    }
 
     // Also log to console for visibility
     const consoleMessage = `[${entry.timestamp.toISOString()}] [${entry.level.toUpperCase()}] ${event}: ${message}`;
@@ -109,6 +171,14 @@ class EventLogServiceClass {
       this.broadcaster(entry);
     }
 
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error(`[EventLog] Subscriber failed: ${(error as Error).message}`);
+      }
+    }
+
     return entry;
   }
 
@@ -218,6 +288,47 @@ class EventLogServiceClass {
     return this.entries.filter((entry) => entry.level === level);
   }
 
+  /**
+   * Queries the log with filters, newest first, one page at a time.
+   *
+   * The cursor names the last entry of the previous page. If that entry has
+   * since dropped out of the ring buffer, paging resumes by its timestamp.
+   *
+   * @param query - Filters, cursor and page size
+   * @returns Matching entries and the cursor for the next page
+   * @throws ValidationError if the cursor is malformed
+   */
+  query(query: EventLogQuery): EventLogPage {
+    let end = this.entries.length;
+    if (query.cursor) {
+      const position = decodeCursor(query.cursor);
+      end = this.entries.findIndex((entry) => entry.id === position.id);
+      if (end < 0) {
+        const newer = this.entries.findIndex(
+          (entry) => entry.timestamp.getTime() >= position.timestampMs
+        );
+        end = newer < 0 ? this.entries.length : newer;
+      }
+    }
+
+    const search = query.search?.toLowerCase();
+    const matches: EventLogEntry[] = [];
+    // Collect one extra match to know whether another page exists
+    for (let i = end - 1; i >= 0 && matches.length <= query.limit; i--) {
+      const entry = this.entries[i];
+      if (matchesQuery(entry, query, search)) {
+        matches.push(entry);
+      }
+    }
+
+    const hasMore = matches.length > query.limit;
+    const entries = matches.slice(0, query.limit);
+    return {
+      entries,
+      nextCursor: hasMore ? encodeCursor(entries[entries.length - 1]) : null,
+    };
+  }
+
   /**
    * Gets the count of log entries.
    *
@@ -228,11 +339,74 @@ class EventLogServiceClass {
   }
 
   /**
-   * Clears all log entries.
+   * Clears all log entries (in memory only; persisted files are kept).
    */
   clear(): void {
     this.entries = [];
   }
+
+  /**
+   * Drops the oldest entries beyond config.eventLogMaxEntries.
+   */
+  private trim(): void {
+    const excess = this.entries.length - config.eventLogMaxEntries;
+    if (excess > 0) {
+      this.entries.splice(0, excess);
+    }
+  }
+}
+
+/**
+ * Checks an entry against the query filters.
+ *
+ * @param search - Lower-cased search text, if any
+ */
+function matchesQuery(entry: EventLogEntry, query: EventLogQuery, search?: string): boolean {
+  if (query.levels && !query.levels.includes(entry.level)) {
+    return false;
+  }
+  if (query.events && !query.events.includes(entry.event)) {
+    return false;
+  }
+  if (query.simulationId && entry.simulationId !== query.simulationId) {
+    return false;
+  }
+  if (query.simulationType && entry.simulationType !== query.simulationType) {
+    return false;
+  }
+  if (query.from && entry.timestamp < query.from) {
+    return false;
+  }
+  if (query.to && entry.timestamp > query.to) {
+    return false;
+  }
+  if (search) {
+    const text = `${entry.message}\n${entry.event}\n${entry.details ? JSON.stringify(entry.details) : ''}`;
+    if (!text.toLowerCase().includes(search)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Encodes a paging cursor: base64url of "<timestampMs>:<id>".
+ */
+function encodeCursor(entry: EventLogEntry): string {
+  return Buffer.from(`${entry.timestamp.getTime()}:${entry.id}`).toString('base64url');
+}
+
+/**
+ * Decodes a paging cursor produced by encodeCursor().
+ *
+ * @throws ValidationError if the cursor is malformed
+ */
+function decodeCursor(cursor: string): { timestampMs: number; id: string } {
+  const match = /^(\d+):(.+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!match) {
+    throw new ValidationError('cursor is invalid');
+  }
+  return { timestampMs: parseInt(match[1], 10), id: match[2] };
 }
 
 /**
@@ -21,6 +21,10 @@
  *   The event loop is blocked ~97% of the time during the simulation —
  *   effectively unresponsive, but with enough yields for monitoring to work.
  *
+ *   Each chunk re-reads the simulation record, so an extension moves the end
+ *   time and a paused simulation stops blocking (checking back every
+ *   PAUSED_POLL_MS) until it is resumed.
+ *
  * CHUNKING STRATEGY:
  *   Block for 200ms, yield, block for 200ms, yield, ...
  *   This is analogous to real-world patterns like:
@@ -53,6 +57,9 @@ import { SimulationContextService } from './simulation-context.service';
 /** Default chunk duration — long enough to spike latency, short enough to let probes through */
 const DEFAULT_CHUNK_MS = 200;
 
+/** How often a paused simulation checks whether it was resumed */
+const PAUSED_POLL_MS = 100;
+
 /**
  * Event Loop Block Service
  *
@@ -100,7 +107,7 @@ class EventLoopBlockServiceClass {
 
     try {
       // Block the event loop in chunks with brief yields
-      await this.blockEventLoopChunked(durationSeconds * 1000, chunkMs);
+      await this.blockEventLoopChunked(simulation.id, chunkMs);
 
       // Mark as completed
       SimulationTrackerService.completeSimulation(simulation.id);
@@ -130,16 +137,27 @@ class EventLoopBlockServiceClass {
   }
 
   /**
-   * Blocks the event loop in repeated chunks, yielding briefly between each.
+   * Blocks the event loop in repeated chunks, yielding briefly between each,
+   * until the simulation's scheduledEndAt or until it ends elsewhere.
    *
-   * @param totalDurationMs - Total blocking duration in milliseconds
+   * @param simulationId - Simulation whose record sets the end time and pauses
    * @param chunkMs - Duration of each blocking chunk in milliseconds
    */
-  private blockEventLoopChunked(totalDurationMs: number, chunkMs: number): Promise<void> {
+  private blockEventLoopChunked(simulationId: string, chunkMs: number): Promise<void> {
     return new Promise((resolve) => {
-      const endTime = Date.now() + totalDurationMs;
-
       const runChunk = (): void => {
+        const simulation = SimulationTrackerService.getSimulation(simulationId);
+        if (!simulation || !SimulationTrackerService.isActive(simulationId)) {
+          resolve();
+          return;
+        }
+        if (simulation.status === 'PAUSED') {
+          // Don't block while paused; check back until resumed or stopped
+          setTimeout(runChunk, PAUSED_POLL_MS);
+          return;
+        }
+
+        const endTime = simulation.scheduledEndAt.getTime();
         const chunkEnd = Math.min(Date.now() + chunkMs, endTime);
         // Block synchronously for one chunk
         while (Date.now() < chunkEnd) {
@@ -0,0 +1,208 @@
+/**
+ * =============================================================================
+ * EXCEPTION CATALOG SERVICE — Errors Thrown by Load Test Error Injection
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   When GET /api/loadtest injects an error, it throws one picked from this
+ *   catalog. Each entry has an error class name, a message, the HTTP status
+ *   code of the failed response and a weight, so a specific failure
+ *   signature (say, mostly 504 TimeoutErrors with a few 429s) can be
+ *   reproduced in App Insights failures blades and other monitoring tools.
+ *
+ * WHERE THE CATALOG COMES FROM:
+ *   1. PUT /api/admin/exception-catalog replaces it at runtime (source "api")
+ *   2. LOAD_TEST_EXCEPTIONS_FILE, a JSON file read at startup and on
+ *      DELETE /api/admin/exception-catalog (source "file"). An unreadable or
+ *      invalid file is logged and the built-in catalog is used instead.
+ *   3. Otherwise DEFAULT_EXCEPTIONS (source "default")
+ *
+ * PICKING:
+ *   An entry is picked with probability weight / total weight, using the
+ *   number drawn from the caller's seeded generator (RandomService).
+ *
+ * PORTING NOTES:
+ *   Map the names to exception types of the target language, or throw one
+ *   generic exception type carrying the name, message and status code:
+ *   - Java: IllegalStateException, NullPointerException, SocketTimeoutException, etc.
+ *   - Python: ValueError, TypeError, TimeoutError, ConnectionError, etc.
+ *   - C#: InvalidOperationException, NullReferenceException, TimeoutException, etc.
+ *   - PHP: RuntimeException, InvalidArgumentException, DomainException, etc.
+ *
+ * @module services/exception-catalog
+ */
+
+import fs from 'fs';
+import { config } from '../config';
+import { InjectedError } from '../middleware/error-handler';
+import { validateExceptionCatalog } from '../middleware/validation';
+import {
+  LoadTestExceptionCatalog,
+  LoadTestExceptionEntry,
+  LoadTestExceptionSource,
+} from '../types';
+import { EventLogService } from './event-log.service';
+
+/**
+ * Built-in catalog: diverse real-world application failures, all 500s.
+ */
+const DEFAULT_EXCEPTIONS: LoadTestExceptionEntry[] = [
+  // Common application logic errors
+  entry('InvalidOperationError', 'Operation is not valid due to current state'),
+  entry('TypeError', 'Value does not fall within the expected range'),
+  entry('TypeError', 'Cannot read properties of null'),
+
+  // Classic JS errors
+  entry('ReferenceError', 'Object reference not set to an instance of an object'),
+  entry('RangeError', 'Index was outside the bounds of the array'),
+  entry('KeyNotFoundError', 'The given key was not present in the dictionary'),
+
+  // I/O and network-related
+  entry('TimeoutError', 'The operation has timed out'),
+  entry('IOException', 'Unable to read data from the transport connection'),
+  entry('HttpRequestError', 'An error occurred while sending the request'),
+
+  // Math and format errors
+  entry('RangeError', 'Attempted to divide by zero'),
+  entry('SyntaxError', 'Input string was not in a correct format'),
+  entry('RangeError', 'Arithmetic operation resulted in an overflow'),
+
+  // Async-related
+  entry('AbortError', 'The operation was aborted'),
+  entry('OperationCancelledError', 'The operation was canceled'),
+
+  // Scary ones
+  entry('OutOfMemoryError', 'Insufficient memory to continue execution'),
+  entry('StackOverflowError', 'Maximum call stack size exceeded'),
+];
+
+/**
+ * Service holding the load test exception catalog.
+ */
+class ExceptionCatalogServiceClass {
+  private exceptions: LoadTestExceptionEntry[] = DEFAULT_EXCEPTIONS;
+  private source: LoadTestExceptionSource = 'default';
+
+  /**
+   * Gets the active catalog.
+   *
+   * @returns Catalog with its source
+   */
+  getCatalog(): LoadTestExceptionCatalog {
+    return {
+      source: this.source,
+      file: config.loadTestExceptionsFile || null,
+      exceptions: this.exceptions.map((exception) => ({ ...exception })),
+    };
+  }
+
+  /**
+   * Replaces the catalog at runtime.
+   *
+   * @param raw - Entries, as validated by validateExceptionCatalog
+   * @returns The new catalog
+   * @throws ValidationError if the entries are invalid
+   */
+  setExceptions(raw: unknown): LoadTestExceptionCatalog {
+    this.apply(validateExceptionCatalog(raw), 'api');
+    return this.getCatalog();
+  }
+
+  /**
+   * Loads the catalog from LOAD_TEST_EXCEPTIONS_FILE, or the built-in one
+   * when the file is unset, unreadable or invalid.
+   *
+   * @returns The loaded catalog
+   */
+  load(): LoadTestExceptionCatalog {
+    const file = config.loadTestExceptionsFile;
+    if (!file) {
+      this.apply(DEFAULT_EXCEPTIONS, 'default');
+      return this.getCatalog();
+    }
+
+    try {
+      const raw: unknown = JSON.parse(fs.readFileSync(file, 'utf8'));
+      this.apply(validateExceptionCatalog(raw), 'file');
+    } catch (error) {
+      const reason = (error as Error).message;
+      EventLogService.warn(
+        'LOAD_TEST_EXCEPTIONS_UPDATED',
+        `Could not load the exception catalog from ${file}, using the built-in one: ${reason}`,
+        {
+          details: { file, error: reason },
+          messageKey: 'srv.loadtest.exceptionsFileFailed',
+          messageParams: { file, error: reason },
+        }
+      );
+      this.apply(DEFAULT_EXCEPTIONS, 'default', false);
+    }
+    return this.getCatalog();
+  }
+
+  /**
+   * Picks an entry by weight.
+   *
+   * @param random - Number in [0, 1), e.g. SeededRandom.next()
+   * @returns Picked entry
+   */
+  pick(random: number): LoadTestExceptionEntry {
+    const totalWeight = this.exceptions.reduce((sum, exception) => sum + exception.weight, 0);
+    let remaining = random * totalWeight;
+    for (const exception of this.exceptions) {
+      remaining -= exception.weight;
+      if (remaining < 0) {
+        return exception;
+      }
+    }
+    return this.exceptions[this.exceptions.length - 1];
+  }
+
+  /**
+   * Creates the error to throw for a picked entry.
+   *
+   * @param exception - Catalog entry
+   * @param details - Extra response details (e.g. the request's seed)
+   * @returns Error with the entry's name, message and status code
+   */
+  createError(exception: LoadTestExceptionEntry, details?: Record<string, unknown>): InjectedError {
+    return new InjectedError(exception.name, exception.message, exception.statusCode, details);
+  }
+
+  /**
+   * Makes entries the active catalog, logging the change.
+   */
+  private apply(
+    exceptions: LoadTestExceptionEntry[],
+    source: LoadTestExceptionSource,
+    log: boolean = true
+  ): void {
+    const previousSource = this.source;
+    this.exceptions = exceptions;
+    this.source = source;
+    // Starting up with the built-in catalog is not worth an event
+    if (log && (source !== 'default' || previousSource !== 'default')) {
+      EventLogService.info(
+        'LOAD_TEST_EXCEPTIONS_UPDATED',
+        `Load test exception catalog set from ${source}: ${exceptions.length} entries`,
+        {
+          details: { source, count: exceptions.length },
+          messageKey: 'srv.loadtest.exceptionsUpdated',
+          messageParams: { source, count: exceptions.length },
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Builds a built-in catalog entry (status 500, weight 1).
+ */
+function entry(name: string, message: string): LoadTestExceptionEntry {
+  return { name, message, statusCode: 500, weight: 1 };
+}
+
+/**
+ * Singleton instance of the ExceptionCatalogService.
+ */
+export const ExceptionCatalogService = new ExceptionCatalogServiceClass();
@@ -16,12 +16,18 @@
  *      - errorPercent=100 (100% probability of error)
  *      - workIterations=700, bufferSizeKb=5000, baselineDelayMs=500
  *        (enough work to be visible in latency monitoring)
- *   3. Each request fails with a random exception type from the load test
- *      service's exception pool (17 different error types)
- *   4. Errors produce HTTP 500 responses and appear in AppLens/App Insights
+ *   3. Each request fails with an exception picked from the load test
+ *      exception catalog (ExceptionCatalogService)
+ *   4. Each request carries a seed drawn from the simulation's seeded
+ *      generator, so replaying the simulation's seed fails with the same
+ *      exceptions in the same order, and the credential of whoever started
+ *      the simulation, so it passes authentication like any other caller
+ *   5. Errors produce HTTP 5xx responses (the status code of the picked
+ *      catalog entry, 500 by default) and appear in AppLens/App Insights.
+ *      Catalog entries with a 4xx status are not counted as failures.
  *
  * ERROR DIVERSITY:
- *   The load test service randomly selects from exceptions including:
+ *   The built-in catalog includes exceptions such as:
  *   - InvalidOperationError, TypeError, ReferenceError, TimeoutError
  *   - IOException, HttpRequestError, OutOfMemoryError, StackOverflowError
  *   This produces diverse error signatures for training diagnostics skills.
@@ -40,6 +46,7 @@ import { Simulation, FailedRequestParams } from '../types';
 import { SimulationTrackerService } from './simulation-tracker.service';
 import { EventLogService } from './event-log.service';
 import { SimulationContextService } from './simulation-context.service';
+import { RandomService } from './random.service';
 import { config } from '../config';
 
 /**
@@ -76,9 +83,13 @@ class FailedRequestServiceClass {
    * Generates the specified number of failed requests.
    *
    * @param params - Request parameters including count
+   * @param credential - Credential for the internal requests when authentication is on
    * @returns The simulation record
    */
-  async generateFailedRequests(params: FailedRequestParams): Promise<Simulation> {
+  async generateFailedRequests(
+    params: FailedRequestParams,
+    credential?: string
+  ): Promise<Simulation> {
     const { requestCount } = params;
 
     // Create simulation record
@@ -105,9 +116,10 @@ class FailedRequestServiceClass {
     const errors: string[] = [];
 
     // Fire all requests concurrently for maximum visibility
+    const random = RandomService.createGenerator(simulation.seed);
     const promises: Promise<FailedRequestResult>[] = [];
     for (let i = 0; i < requestCount; i++) {
-      promises.push(this.makeFailingRequest());
+      promises.push(this.makeFailingRequest(random.nextUint32(), credential));
     }
 
     // Wait for all requests to complete
@@ -121,7 +133,7 @@ class FailedRequestServiceClass {
         errors.push(errorType);
         
         // Log each failed request with its error type
-        EventLogService.error('FAILED_REQUEST_ERROR', `HTTP 500 generated: ${errorType} - ${result.errorMessage || 'No message'}`, {
+        EventLogService.error('FAILED_REQUEST_ERROR', `HTTP ${result.statusCode} generated: ${errorType} - ${result.errorMessage || 'No message'}`, {
           simulationId: simulation.id,
           simulationType: 'FAILED_REQUEST',
           details: {
@@ -159,8 +171,11 @@ class FailedRequestServiceClass {
    *
    * Uses Node.js http module to make a local request to avoid external dependencies.
    * The load test endpoint is configured with errorPercent=100 to guarantee failure.
+   *
+   * @param seed - Seed for the load test request (decides the exception thrown)
+   * @param credential - Credential sent as a bearer token, if any
    */
-  private makeFailingRequest(): Promise<FailedRequestResult> {
+  private makeFailingRequest(seed: number, credential?: string): Promise<FailedRequestResult> {
     return new Promise((resolve) => {
       const startTime = Date.now();
       
@@ -174,6 +189,7 @@ class FailedRequestServiceClass {
         errorAboveConcurrent: String(FAILURE_PARAMS.errorAboveConcurrent),
         errorPercent: String(FAILURE_PARAMS.errorPercent),
         suppressLogs: 'true', // Suppress load test logs - failed request service handles its own logging
+        seed: String(seed),
       });
 
       const options: http.RequestOptions = {
@@ -181,6 +197,7 @@ class FailedRequestServiceClass {
         port: config.port,
         path: `/api/loadtest?${queryParams.toString()}`,
         method: 'GET',
+        headers: credential ? { Authorization: `Bearer ${credential}` } : undefined,
         timeout: 30000, // 30 second timeout
       };
 
@@ -196,12 +213,11 @@ class FailedRequestServiceClass {
 
           // Try to parse error details from response body
           try {
-            const parsed = JSON.parse(body);
+            const parsed = JSON.parse(body) as { error?: string; message?: string };
             if (parsed.error) {
-              // Extract error type from the error message
-              const match = parsed.error.match(/^([A-Za-z]+Error?):/);
-              errorType = match ? match[1] : 'ServerError';
-              errorMessage = parsed.error;
+              // Injected errors respond with the error class as error
+              errorType = parsed.error;
+              errorMessage = parsed.message ?? null;
             }
           } catch {
             // If body isn't JSON, use generic error
@@ -0,0 +1,223 @@
+/**
+ * =============================================================================
+ * GUARDRAIL SERVICE — Keep Simulations Inside the Container's Real Limits
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   limits.maxMemoryMb (MAX_MEMORY_ALLOCATION_MB, 64 GB by default) says
+ *   nothing about the container the app actually runs in. A 4 GB allocation
+ *   in a 1.75 GB App Service container gets the process OOM-killed, which is
+ *   only the point when the trainer means it. This service detects the
+ *   effective memory and CPU limits and checks simulation requests against
+ *   them before they start.
+ *
+ * DETECTION (read on every check, no caching — limits can change at runtime):
+ *   readCgroupLimits() (container-metrics.service) reads cgroup v2 memory.max
+ *   and cpu.max, or the cgroup v1 equivalents. Without cgroups (Windows,
+ *   macOS, bare VMs) only the OS totals apply.
+ *
+ * SAFE LIMITS:
+ *   Memory simulations retain objects on the V8 heap, so two ceilings apply,
+ *   each minus config.guardrailMemoryHeadroomPercent and current usage:
+ *     container: min(cgroup limit, os.totalmem()) − process RSS
+ *     heap:      V8 heap_size_limit − heapUsed
+ *   Allocations still being filled in are already partly counted, so rapid
+ *   back-to-back requests can overshoot a little — the headroom covers that.
+ *   CPU: a quota of Q cores on an N-core host can deliver at most Q/N of the
+ *   system-wide CPU the dashboard shows.
+ *
+ * ENFORCEMENT (config.guardrailMode):
+ *   reject → memory requests above the safe limit fail with 400
+ *   clamp  → they are reduced to the safe limit
+ *   off    → no checks
+ *   force=true on the request skips the checks (for deliberate OOM demos).
+ *   CPU targets above the quota are always clamped, never rejected: they
+ *   only throttle, they cannot crash the container. Unbounded memory leaks
+ *   get the safe limit as their ceiling.
+ *   Every clamp is logged as a GUARDRAIL_CLAMPED warning.
+ *
+ * PORTING NOTES:
+ *   - Java: Runtime.maxMemory() for the heap; the JVM is container-aware
+ *     (-XX:+UseContainerSupport) and availableProcessors() honors the quota.
+ *   - C#: GC.GetGCMemoryInfo().TotalAvailableMemoryBytes and
+ *     Environment.ProcessorCount are cgroup-aware in .NET Core 3.0+.
+ *   - Python: read the same cgroup files; os.sched_getaffinity() for cpusets.
+ *
+ * @module services/guardrail
+ */
+
+import os from 'os';
+import v8 from 'v8';
+import { CpuStressParams, MemoryLeakParams, ResourceLimits } from '../types';
+import { resolveTargetPercent } from './cpu-stress.service';
+import { CGROUP_ROOT, readCgroupLimits } from './container-metrics.service';
+import { EventLogService } from './event-log.service';
+import { ValidationError } from '../middleware/error-handler';
+import { config } from '../config';
+import { bytesToMb } from '../utils';
+
+/**
+ * Service for computing safe resource limits and checking requests against them.
+ */
+class GuardrailServiceClass {
+  private cgroupRoot = CGROUP_ROOT;
+
+  /**
+   * Computes the current effective and safe limits.
+   *
+   * @returns Resource limits
+   */
+  getLimits(): ResourceLimits {
+    const cgroup = readCgroupLimits(this.cgroupRoot);
+    const hostMemoryMb = Math.round(bytesToMb(os.totalmem()));
+    const hostCpus = os.cpus().length;
+    const containerMemoryLimitMb =
+      cgroup.memoryLimitBytes !== null ? Math.round(bytesToMb(cgroup.memoryLimitBytes)) : null;
+    const heap = v8.getHeapStatistics();
+    const heapLimitMb = Math.round(bytesToMb(heap.heap_size_limit));
+
+    const usable = 1 - config.guardrailMemoryHeadroomPercent / 100;
+    const effectiveMemoryMb = Math.min(containerMemoryLimitMb ?? hostMemoryMb, hostMemoryMb);
+    const containerBudgetMb = effectiveMemoryMb * usable - bytesToMb(process.memoryUsage().rss);
+    const heapBudgetMb = heapLimitMb * usable - bytesToMb(heap.used_heap_size);
+
+    const maxCpuPercent =
+      cgroup.cpuQuotaCores !== null
+        ? Math.max(1, Math.min(100, Math.floor((cgroup.cpuQuotaCores / hostCpus) * 100)))
+        : 100;
+
+    return {
+      cgroupVersion: cgroup.version,
+      containerMemoryLimitMb,
+      containerCpuQuotaCores: cgroup.cpuQuotaCores,
+      hostMemoryMb,
+      hostCpus,
+      heapLimitMb,
+      mode: config.guardrailMode,
+      safeMemoryAllocationMb: Math.max(0, Math.floor(Math.min(containerBudgetMb, heapBudgetMb))),
+      maxCpuPercent,
+    };
+  }
+
+  /**
+   * Checks a memory pressure allocation against the safe limit.
+   *
+   * @param sizeMb - Requested allocation (validated)
+   * @param force - Skip the check
+   * @returns The size to allocate (clamped in clamp mode)
+   * @throws ValidationError in reject mode when sizeMb exceeds the safe limit
+   */
+  guardMemoryAllocation(sizeMb: number, force: boolean): number {
+    if (force || config.guardrailMode === 'off') {
+      return sizeMb;
+    }
+    return this.limitMemory('sizeMb', sizeMb, this.getLimits());
+  }
+
+  /**
+   * Checks a memory leak's ceiling against the safe limit. A leak without a
+   * ceiling gets the safe limit as its ceiling.
+   *
+   * @param params - Validated leak parameters
+   * @param force - Skip the check
+   * @returns Parameters to start the leak with
+   * @throws ValidationError in reject mode when maxSizeMb exceeds the safe limit
+   */
+  guardMemoryLeak(params: MemoryLeakParams, force: boolean): MemoryLeakParams {
+    if (force || config.guardrailMode === 'off') {
+      return params;
+    }
+    const limits = this.getLimits();
+    if (params.maxSizeMb === undefined) {
+      return { ...params, maxSizeMb: Math.max(1, limits.safeMemoryAllocationMb) };
+    }
+    return { ...params, maxSizeMb: this.limitMemory('maxSizeMb', params.maxSizeMb, limits) };
+  }
+
+  /**
+   * Clamps a CPU stress target to what the CPU quota can deliver.
+   *
+   * @param params - Validated CPU stress parameters
+   * @param force - Skip the check
+   * @returns Parameters to start the simulation with
+   */
+  guardCpuStress(params: CpuStressParams, force: boolean): CpuStressParams {
+    if (force || config.guardrailMode === 'off') {
+      return params;
+    }
+    const { maxCpuPercent } = this.getLimits();
+    const requested = resolveTargetPercent(params);
+    if (requested <= maxCpuPercent) {
+      return params;
+    }
+
+    this.logClamp('targetPercent', requested, maxCpuPercent, 'CPU quota');
+    if (params.profile) {
+      return {
+        ...params,
+        profile: {
+          ...params.profile,
+          startPercent: Math.min(params.profile.startPercent, maxCpuPercent),
+          endPercent: Math.min(params.profile.endPercent, maxCpuPercent),
+        },
+      };
+    }
+    return { ...params, targetPercent: maxCpuPercent };
+  }
+
+  /**
+   * Points detection at another cgroup mount (used by tests).
+   *
+   * @param root - cgroup mount point, or undefined to restore the default
+   */
+  setCgroupRoot(root?: string): void {
+    this.cgroupRoot = root ?? CGROUP_ROOT;
+  }
+
+  /**
+   * Rejects or clamps a memory size above the safe limit.
+   */
+  private limitMemory(field: string, requestedMb: number, limits: ResourceLimits): number {
+    const safeMb = limits.safeMemoryAllocationMb;
+    if (requestedMb <= safeMb) {
+      return requestedMb;
+    }
+
+    if (config.guardrailMode === 'reject') {
+      throw new ValidationError(
+        `${field} ${requestedMb}MB exceeds the safe limit of ${safeMb}MB for this container; send force=true to allocate anyway`,
+        {
+          field,
+          requested: requestedMb,
+          safeLimitMb: safeMb,
+          containerMemoryLimitMb: limits.containerMemoryLimitMb,
+          heapLimitMb: limits.heapLimitMb,
+        }
+      );
+    }
+
+    const clampedMb = Math.max(1, safeMb);
+    this.logClamp(field, requestedMb, clampedMb, 'memory limit');
+    return clampedMb;
+  }
+
+  /**
+   * Logs a GUARDRAIL_CLAMPED warning.
+   */
+  private logClamp(field: string, requested: number, applied: number, limit: string): void {
+    EventLogService.warn(
+      'GUARDRAIL_CLAMPED',
+      `Guardrail reduced ${field} from ${requested} to ${applied} (${limit})`,
+      {
+        details: { field, requested, applied, limit },
+        messageKey: 'srv.guardrail.clamped',
+        messageParams: { field, requested, applied, limit },
+      }
+    );
+  }
+}
+
+/**
+ * Singleton instance of the GuardrailService.
+ */
+export const GuardrailService = new GuardrailServiceClass();
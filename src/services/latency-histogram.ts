@@ -0,0 +1,174 @@
+/**
+ * =============================================================================
+ * LATENCY HISTOGRAM — HDR-Style Log-Linear Histogram for Percentiles
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Percentiles (p50/p90/p95/p99) need the distribution, not just a running
+ *   average. Keeping every sample grows without bound under a load test; a
+ *   histogram keeps a fixed number of counters and answers any percentile
+ *   with a bounded relative error.
+ *
+ * BUCKETING (as in HdrHistogram):
+ *   Values are recorded in microseconds. Values below 128µs get one bucket
+ *   each. Above that, every power-of-two range [2^e, 2^(e+1)) is split into
+ *   64 equal sub-buckets, so a bucket is never wider than 1/64 (~1.6%) of
+ *   its values. 1,984 buckets cover 1µs to ~19 hours in 8 KB; larger values
+ *   land in the last bucket.
+ *
+ *   A percentile is reported as the upper edge of the bucket holding it
+ *   (capped at the largest recorded value), so it never understates latency.
+ *
+ * PORTING NOTES:
+ *   - Java: org.HdrHistogram.Histogram (the original), or Micrometer's
+ *     Timer with publishPercentiles().
+ *   - C#: HdrHistogram.NET, or System.Diagnostics.Metrics Histogram with an
+ *     OpenTelemetry exporter.
+ *   - Python: hdrhistogram (hdrh) package.
+ *
+ * @module services/latency-histogram
+ */
+
+import { LatencyPercentiles } from '../types';
+
+/** Values below this many µs are counted exactly */
+const LINEAR_LIMIT_US = 128;
+
+/** log2(SUB_BUCKETS) */
+const SUB_BUCKET_BITS = 6;
+
+/** Sub-buckets per power of two above LINEAR_LIMIT_US */
+const SUB_BUCKETS = 2 ** SUB_BUCKET_BITS;
+
+/** log2(LINEAR_LIMIT_US) */
+const LINEAR_EXPONENT = 7;
+
+/** Highest power of two covered (2^36 µs ≈ 19 hours) */
+const MAX_EXPONENT = 36;
+
+/** Total number of buckets */
+const BUCKET_COUNT = LINEAR_LIMIT_US + (MAX_EXPONENT - LINEAR_EXPONENT) * SUB_BUCKETS;
+
+/**
+ * Log-linear latency histogram.
+ */
+export class LatencyHistogram {
+  private counts = new Uint32Array(BUCKET_COUNT);
+  private total = 0;
+  private sumUs = 0;
+  private maxUs = 0;
+
+  /**
+   * Records one latency.
+   *
+   * @param latencyMs - Latency in milliseconds (negative values count as 0)
+   */
+  record(latencyMs: number): void {
+    const valueUs = Math.max(0, Math.round(latencyMs * 1000));
+    this.counts[bucketIndex(valueUs)]++;
+    this.total++;
+    this.sumUs += valueUs;
+    this.maxUs = Math.max(this.maxUs, valueUs);
+  }
+
+  /**
+   * @returns Number of recorded values
+   */
+  get count(): number {
+    return this.total;
+  }
+
+  /**
+   * Returns the latency at a percentile.
+   *
+   * @param percentile - 0-100
+   * @returns Latency in ms (0 when empty)
+   */
+  percentile(percentile: number): number {
+    if (this.total === 0) {
+      return 0;
+    }
+    const rank = Math.max(1, Math.ceil((percentile / 100) * this.total));
+    let seen = 0;
+    for (let index = 0; index < BUCKET_COUNT; index++) {
+      seen += this.counts[index];
+      if (seen >= rank) {
+        return toMs(Math.min(bucketUpperUs(index), this.maxUs));
+      }
+    }
+    return toMs(this.maxUs);
+  }
+
+  /**
+   * @returns The standard percentiles, max and mean in ms
+   */
+  summary(): LatencyPercentiles {
+    return {
+      p50: this.percentile(50),
+      p90: this.percentile(90),
+      p95: this.percentile(95),
+      p99: this.percentile(99),
+      max: toMs(this.maxUs),
+      mean: this.total > 0 ? toMs(this.sumUs / this.total) : 0,
+    };
+  }
+
+  /**
+   * Adds another histogram's values to this one.
+   *
+   * @param other - Histogram to merge in
+   */
+  merge(other: LatencyHistogram): void {
+    for (let index = 0; index < BUCKET_COUNT; index++) {
+      this.counts[index] += other.counts[index];
+    }
+    this.total += other.total;
+    this.sumUs += other.sumUs;
+    this.maxUs = Math.max(this.maxUs, other.maxUs);
+  }
+
+  /**
+   * Clears all recorded values.
+   */
+  reset(): void {
+    this.counts.fill(0);
+    this.total = 0;
+    this.sumUs = 0;
+    this.maxUs = 0;
+  }
+}
+
+/**
+ * Maps a value in µs to its bucket.
+ */
+function bucketIndex(valueUs: number): number {
+  if (valueUs < LINEAR_LIMIT_US) {
+    return valueUs;
+  }
+  const exponent = Math.floor(Math.log2(valueUs));
+  if (exponent >= MAX_EXPONENT) {
+    return BUCKET_COUNT - 1;
+  }
+  const subBucket = Math.floor(valueUs / 2 ** (exponent - SUB_BUCKET_BITS)) - SUB_BUCKETS;
+  return LINEAR_LIMIT_US + (exponent - LINEAR_EXPONENT) * SUB_BUCKETS + subBucket;
+}
+
+/**
+ * Largest value in µs that maps to a bucket.
+ */
+function bucketUpperUs(index: number): number {
+  if (index < LINEAR_LIMIT_US) {
+    return index;
+  }
+  const offset = index - LINEAR_LIMIT_US;
+  const exponent = LINEAR_EXPONENT + Math.floor(offset / SUB_BUCKETS);
+  const subBucket = SUB_BUCKETS + (offset % SUB_BUCKETS);
+  return (subBucket + 1) * 2 ** (exponent - SUB_BUCKET_BITS) - 1;
+}
+
+/**
+ * Converts µs to ms rounded to 2 decimals.
+ */
+function toMs(valueUs: number): number {
+  return Math.round(valueUs / 10) / 100;
+}
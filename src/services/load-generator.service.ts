@@ -0,0 +1,230 @@
+/**
+ * =============================================================================
+ * LOAD GENERATOR SERVICE — Runs of the Sidecar's Built-in Load Generator
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Starts, stops and tracks runs of the load generator that lives in the
+ *   sidecar process (see sidecar/load-generator.ts), so a degradation demo
+ *   against /api/loadtest needs no outside tool. The sidecar does the
+ *   sending on its own event loop; this service only keeps the run state,
+ *   relays commands and results, and writes start/end events to the log.
+ *
+ * IPC:
+ *   main → sidecar  { type: 'loadGeneratorStart', runId, plan, credential }
+ *                   { type: 'loadGeneratorStop', runId }
+ *   sidecar → main  { type: 'loadGeneratorProgress', runId, progress }   (every second)
+ *                   { type: 'loadGeneratorDone', runId, progress, state } (once)
+ *   index.ts wires the sidecar's send function in with setTransport() and
+ *   passes its messages to handleMessage(). Without a sidecar (tests,
+ *   sidecar restarting) runs cannot start.
+ *
+ * PORTING NOTES:
+ *   - Java/C#: the generator can run on a background thread of the same
+ *     process, so the "transport" becomes a direct method call.
+ *   - Python: multiprocessing.Pipe plays the role of the IPC channel.
+ *
+ * @module services/load-generator
+ */
+
+import { LoadGeneratorPlan, LoadGeneratorProgress, LoadGeneratorRun } from '../types';
+import { EventLogService } from './event-log.service';
+import { ConflictError, NotFoundError, ServiceUnavailableError } from '../middleware/error-handler';
+import { generateId } from '../utils';
+
+/**
+ * Sends a message to the sidecar; returns false if it could not be sent.
+ */
+export type LoadGeneratorTransport = (message: Record<string, unknown>) => boolean;
+
+/**
+ * Messages from the sidecar about a run.
+ */
+export interface LoadGeneratorMessage {
+  type: string;
+  runId?: string;
+  progress?: LoadGeneratorProgress;
+  state?: 'completed' | 'stopped';
+}
+
+/**
+ * Service that tracks load generator runs.
+ */
+class LoadGeneratorServiceClass {
+  private transport: LoadGeneratorTransport | null = null;
+  private run: LoadGeneratorRun | null = null;
+  private broadcaster: ((run: LoadGeneratorRun) => void) | null = null;
+
+  /**
+   * Sets how commands reach the sidecar, or null while it is not running.
+   * Losing the sidecar fails the active run.
+   *
+   * @param transport - Sends a message to the sidecar
+   */
+  setTransport(transport: LoadGeneratorTransport | null): void {
+    this.transport = transport;
+    if (!transport && this.run?.state === 'running') {
+      this.end('failed', 'The sidecar process exited');
+    }
+  }
+
+  /**
+   * Sets the function called with the run on every change and progress report.
+   * Typically wired to Socket.IO's emit.
+   */
+  setBroadcaster(fn: (run: LoadGeneratorRun) => void): void {
+    this.broadcaster = fn;
+  }
+
+  /**
+   * Starts a run.
+   *
+   * @param plan - Validated plan
+   * @param credential - Credential for the generated requests when authentication is on
+   * @returns The new run
+   * @throws ConflictError if a run is already active
+   * @throws ServiceUnavailableError if the sidecar is not running
+   */
+  start(plan: LoadGeneratorPlan, credential?: string): LoadGeneratorRun {
+    if (this.run?.state === 'running') {
+      throw new ConflictError('A load generator run is already active', { runId: this.run.id });
+    }
+
+    const id = generateId();
+    if (
+      !this.transport ||
+      !this.transport({ type: 'loadGeneratorStart', runId: id, plan, credential })
+    ) {
+      throw new ServiceUnavailableError('The sidecar process that sends load is not running');
+    }
+
+    const durationSeconds = plan.stages.reduce((sum, stage) => sum + stage.durationSeconds, 0);
+    this.run = {
+      id,
+      state: 'running',
+      plan,
+      durationSeconds,
+      startedAt: new Date(),
+      endedAt: null,
+      progress: null,
+    };
+
+    const peakTarget = Math.max(...plan.stages.map((stage) => stage.target));
+    const unit = plan.model === 'open' ? 'RPS' : 'virtual users';
+    EventLogService.info(
+      'LOAD_GENERATOR_STARTED',
+      `Load generator started: ${plan.model} model, up to ${peakTarget} ${unit} for ${durationSeconds}s`,
+      {
+        details: { runId: id, ...plan },
+        messageKey: 'srv.loadGenerator.started',
+        messageParams: { model: plan.model, target: peakTarget, unit, duration: durationSeconds },
+      }
+    );
+    this.broadcast();
+    return this.run;
+  }
+
+  /**
+   * Stops the active run. The sidecar aborts in-flight requests and reports
+   * the final results.
+   *
+   * @returns The run, now stopped
+   * @throws ConflictError if no run is active
+   */
+  stop(): LoadGeneratorRun {
+    if (!this.run || this.run.state !== 'running') {
+      throw new ConflictError('No load generator run is active');
+    }
+    this.transport?.({ type: 'loadGeneratorStop', runId: this.run.id });
+    // Mark it stopped right away; the sidecar's final report adds the results
+    return this.end('stopped');
+  }
+
+  /**
+   * Gets the active or most recent run.
+   *
+   * @returns The run
+   * @throws NotFoundError if the generator has not been run yet
+   */
+  getRun(): LoadGeneratorRun {
+    if (!this.run) {
+      throw new NotFoundError('The load generator has not been run yet');
+    }
+    return this.run;
+  }
+
+  /**
+   * Handles a message from the sidecar. Messages for other runs are ignored.
+   *
+   * @param message - IPC message
+   */
+  handleMessage(message: LoadGeneratorMessage): void {
+    if (!this.run || message.runId !== this.run.id || !message.progress) {
+      return;
+    }
+
+    this.run.progress = message.progress;
+    if (message.type === 'loadGeneratorDone' && this.run.state === 'running') {
+      this.end(message.state ?? 'completed');
+    } else {
+      this.broadcast();
+    }
+  }
+
+  /**
+   * Forgets the run and the transport. Useful for testing.
+   */
+  reset(): void {
+    this.run = null;
+    this.transport = null;
+  }
+
+  /**
+   * Ends the active run and logs the outcome.
+   */
+  private end(state: 'completed' | 'stopped' | 'failed', error?: string): LoadGeneratorRun {
+    const run = this.run as LoadGeneratorRun;
+    run.state = state;
+    run.endedAt = new Date();
+    if (error) {
+      run.error = error;
+    }
+
+    const sent = run.progress?.sent ?? 0;
+    const errors = run.progress?.errors ?? 0;
+    const details = { runId: run.id, state, error, progress: run.progress };
+    if (state === 'failed') {
+      EventLogService.warn('LOAD_GENERATOR_FAILED', `Load generator failed: ${error}`, {
+        details,
+        messageKey: 'srv.loadGenerator.failed',
+        messageParams: { error: error ?? '' },
+      });
+    } else {
+      EventLogService.info(
+        state === 'completed' ? 'LOAD_GENERATOR_COMPLETED' : 'LOAD_GENERATOR_STOPPED',
+        `Load generator ${state}: ${sent} requests sent, ${errors} errors`,
+        {
+          details,
+          messageKey: `srv.loadGenerator.${state}`,
+          messageParams: { sent, errors },
+        }
+      );
+    }
+    this.broadcast();
+    return run;
+  }
+
+  /**
+   * Sends the run to the broadcaster.
+   */
+  private broadcast(): void {
+    if (this.run && this.broadcaster) {
+      this.broadcaster(this.run);
+    }
+  }
+}
+
+/**
+ * Singleton instance of the LoadGeneratorService.
+ */
+export const LoadGeneratorService = new LoadGeneratorServiceClass();
@@ -0,0 +1,399 @@
+/**
+ * =============================================================================
+ * LOAD TEST EXPORT SERVICE — k6 and JMeter Scripts for /api/loadtest
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Teams that outgrow the built-in load generator move to a real load
+ *   testing tool and would otherwise retype the /api/loadtest query
+ *   parameters by hand. This service turns a load test request and a traffic
+ *   shape (the same plan POST /api/loadtest/generator takes) into a
+ *   ready-to-run script targeting this host. Parameters the caller leaves out
+ *   are written out with LoadTestService.getDefaults(), so every knob is
+ *   visible and editable in the script.
+ *
+ * k6 (JavaScript):
+ *   - closed: ramping-vus executor, stages copied as-is, optional sleep() as
+ *             think time.
+ *   - open:   ramping-arrival-rate executor, target = iterations per second.
+ *   BASE_URL and PERFSIM_API_KEY can be overridden with -e at run time.
+ *
+ * JMeter (.jmx):
+ *   - open:   the Open Model Thread Group (JMeter 5.5+), whose schedule
+ *             ramps linearly between rates just like the stages.
+ *   - closed: the core Thread Group can only ramp up from zero and hold, so
+ *             each stage becomes a group holding the lower of its two
+ *             targets plus, when it ramps up, a group ramping the difference
+ *             over the stage. A ramp down drops to the new target as the
+ *             stage starts.
+ *   Host, port, protocol and apiKey are JMeter properties (-Jhost=...).
+ *
+ * PORTING NOTES:
+ *   Plain string building with XML escaping; any language's templating
+ *   works. Keep the generated scripts free of dependencies beyond the tool.
+ *
+ * @module services/load-test-export
+ */
+
+import { LoadTestService } from './load-test.service';
+import {
+  LoadGeneratorPlan,
+  LoadGeneratorStage,
+  LoadTestExportFormat,
+  LoadTestRequest,
+  LoadTestScript,
+} from '../types';
+
+/** Where and how the generated script sends its requests */
+export interface LoadTestExportTarget {
+  /** Base URL of this app, e.g. https://myapp.azurewebsites.net */
+  baseUrl: string;
+  /** Whether the script must send an API key */
+  authenticate: boolean;
+}
+
+/** Open model: most concurrent requests k6 may hold open (same cap as the built-in generator) */
+const OPEN_MODEL_MAX_VUS = 2000;
+
+/** JMeter version the .jmx is saved as */
+const JMETER_VERSION = '5.6.3';
+
+/**
+ * A JMeter Thread Group for part of a closed model plan.
+ */
+interface ThreadGroupSpec {
+  name: string;
+  threads: number;
+  rampSeconds: number;
+  delaySeconds: number;
+  durationSeconds: number;
+}
+
+/**
+ * Service for exporting load test plans as scripts for outside tools.
+ */
+class LoadTestExportServiceClass {
+  /**
+   * Generates a load test script.
+   *
+   * @param format - Tool to generate the script for
+   * @param plan - Load test parameters and traffic shape
+   * @param target - Host the script sends requests to
+   * @returns Script with its download file name and content type
+   */
+  generate(
+    format: LoadTestExportFormat,
+    plan: LoadGeneratorPlan,
+    target: LoadTestExportTarget
+  ): LoadTestScript {
+    const params: LoadTestRequest = { ...LoadTestService.getDefaults(), ...plan.request };
+
+    if (format === 'k6') {
+      return {
+        format,
+        fileName: 'perfsim-loadtest.js',
+        contentType: 'application/javascript',
+        content: this.toK6(plan, params, target),
+      };
+    }
+    return {
+      format,
+      fileName: 'perfsim-loadtest.jmx',
+      contentType: 'application/xml',
+      content: this.toJMeter(plan, params, target),
+    };
+  }
+
+  /**
+   * Builds a k6 script.
+   */
+  private toK6(
+    plan: LoadGeneratorPlan,
+    params: LoadTestRequest,
+    target: LoadTestExportTarget
+  ): string {
+    const peak = Math.max(...plan.stages.map((stage) => stage.target));
+    const thinks = plan.model === 'closed' && plan.thinkTimeMs > 0;
+    const stages = plan.stages.map(
+      (stage) => `        { duration: '${stage.durationSeconds}s', target: ${stage.target} },`
+    );
+    const scenario =
+      plan.model === 'closed'
+        ? ["      executor: 'ramping-vus',", '      startVUs: 0,']
+        : [
+            "      executor: 'ramping-arrival-rate',",
+            '      startRate: 0,',
+            "      timeUnit: '1s',",
+            // Enough users for the peak rate at the baseline response time
+            `      preAllocatedVUs: ${Math.max(1, Math.ceil((peak * params.baselineDelayMs) / 1000))},`,
+            `      maxVUs: ${OPEN_MODEL_MAX_VUS},`,
+          ];
+    const description =
+      plan.model === 'closed'
+        ? [
+            ' * Closed model: ramps virtual users through the stages below; each user',
+            ' * sends GET /api/loadtest' +
+              (plan.thinkTimeMs > 0 ? `, then pauses ${plan.thinkTimeMs} ms.` : ' back to back.'),
+          ]
+        : [
+            ' * Open model: starts GET /api/loadtest requests at the rate (per second)',
+            ' * of the stages below, whether or not earlier ones have responded.',
+          ];
+
+    return [
+      '/**',
+      ' * k6 load test for PerfSimNode — generated by POST /api/loadtest/export',
+      ' *',
+      ...description,
+      ' *',
+      ' * Run:',
+      ' *   k6 run perfsim-loadtest.js',
+      ' *   k6 run -e BASE_URL=https://other-host perfsim-loadtest.js',
+      ...(target.authenticate
+        ? [' *   k6 run -e PERFSIM_API_KEY=<api key> perfsim-loadtest.js']
+        : []),
+      ' */',
+      "import http from 'k6/http';",
+      thinks ? "import { check, sleep } from 'k6';" : "import { check } from 'k6';",
+      '',
+      `const BASE_URL = __ENV.BASE_URL || ${JSON.stringify(target.baseUrl)};`,
+      '',
+      '// Load test parameters sent with every request (see GET /api/loadtest)',
+      'const PARAMS = {',
+      ...Object.entries(params).map(([name, value]) => `  ${name}: ${JSON.stringify(value)},`),
+      '};',
+      '',
+      'const QUERY = Object.entries(PARAMS)',
+      '  .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)',
+      "  .join('&');",
+      '',
+      'export const options = {',
+      '  scenarios: {',
+      '    loadtest: {',
+      ...scenario,
+      '      stages: [',
+      ...stages,
+      '      ],',
+      '    },',
+      '  },',
+      '};',
+      '',
+      'export default function () {',
+      '  const headers = {};',
+      ...(target.authenticate
+        ? ['  headers.Authorization = `Bearer ${__ENV.PERFSIM_API_KEY}`;']
+        : []),
+      '  const res = http.get(`${BASE_URL}/api/loadtest?${QUERY}`, {',
+      '    headers,',
+      `    timeout: '${plan.requestTimeoutMs}ms',`,
+      '  });',
+      "  check(res, { 'status is 200': (r) => r.status === 200 });",
+      ...(thinks ? [`  sleep(${plan.thinkTimeMs / 1000});`] : []),
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Builds a JMeter test plan.
+   */
+  private toJMeter(
+    plan: LoadGeneratorPlan,
+    params: LoadTestRequest,
+    target: LoadTestExportTarget
+  ): string {
+    const url = new URL(target.baseUrl);
+    const protocol = url.protocol.replace(':', '');
+    const port = url.port || (protocol === 'https' ? '443' : '80');
+
+    const headers: Array<[string, string]> = [];
+    if (target.authenticate) {
+      headers.push(['Authorization', 'Bearer ${__P(apiKey,)}']);
+    }
+
+    let threadGroups: string[];
+    if (plan.model === 'open') {
+      threadGroups = [
+        `      <OpenModelThreadGroup guiclass="OpenModelThreadGroupGui" testclass="OpenModelThreadGroup" testname="Open model">`,
+        '        <elementProp name="ThreadGroup.main_controller" elementType="OpenModelThreadGroupController"/>',
+        '        <stringProp name="ThreadGroup.on_sample_error">continue</stringProp>',
+        `        <stringProp name="schedule">${escapeXml(openModelSchedule(plan.stages))}</stringProp>`,
+        '        <stringProp name="random_seed"></stringProp>',
+        '      </OpenModelThreadGroup>',
+        ...sampleTree(params, 0),
+      ];
+    } else {
+      threadGroups = closedModelThreadGroups(plan.stages).flatMap((group) => [
+        `      <ThreadGroup guiclass="ThreadGroupGui" testclass="ThreadGroup" testname="${escapeXml(group.name)}">`,
+        '        <stringProp name="ThreadGroup.on_sample_error">continue</stringProp>',
+        '        <elementProp name="ThreadGroup.main_controller" elementType="LoopController" guiclass="LoopControlPanel" testclass="LoopController">',
+        '          <boolProp name="LoopController.continue_forever">false</boolProp>',
+        '          <intProp name="LoopController.loops">-1</intProp>',
+        '        </elementProp>',
+        `        <stringProp name="ThreadGroup.num_threads">${group.threads}</stringProp>`,
+        `        <stringProp name="ThreadGroup.ramp_time">${group.rampSeconds}</stringProp>`,
+        '        <boolProp name="ThreadGroup.scheduler">true</boolProp>',
+        `        <stringProp name="ThreadGroup.duration">${group.durationSeconds}</stringProp>`,
+        `        <stringProp name="ThreadGroup.delay">${group.delaySeconds}</stringProp>`,
+        '        <boolProp name="ThreadGroup.same_user_on_next_iteration">true</boolProp>',
+        '      </ThreadGroup>',
+        ...sampleTree(params, plan.thinkTimeMs),
+      ]);
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!--',
+      '  JMeter test plan for PerfSimNode, generated by POST /api/loadtest/export',
+      '',
+      '  Run:',
+      '    jmeter -n -t perfsim-loadtest.jmx -l results.jtl -e -o report',
+      '    jmeter -n -t perfsim-loadtest.jmx -Jhost=other-host -Jport=443 -Jprotocol=https ...',
+      ...(target.authenticate
+        ? ['    jmeter -n -t perfsim-loadtest.jmx -JapiKey=<api key> ...']
+        : []),
+      ...(plan.model === 'open'
+        ? ['', '  Requires JMeter 5.5 or later (Open Model Thread Group).']
+        : []),
+      '-->',
+      `<jmeterTestPlan version="1.2" properties="5.0" jmeter="${JMETER_VERSION}">`,
+      '  <hashTree>',
+      '    <TestPlan guiclass="TestPlanGui" testclass="TestPlan" testname="PerfSimNode load test">',
+      '      <elementProp name="TestPlan.user_defined_variables" elementType="Arguments" guiclass="ArgumentsPanel" testclass="Arguments">',
+      '        <collectionProp name="Arguments.arguments"/>',
+      '      </elementProp>',
+      '      <boolProp name="TestPlan.functional_mode">false</boolProp>',
+      '      <boolProp name="TestPlan.serialize_threadgroups">false</boolProp>',
+      '    </TestPlan>',
+      '    <hashTree>',
+      '      <ConfigTestElement guiclass="HttpDefaultsGui" testclass="ConfigTestElement" testname="HTTP Request Defaults">',
+      '        <elementProp name="HTTPsampler.Arguments" elementType="Arguments">',
+      '          <collectionProp name="Arguments.arguments"/>',
+      '        </elementProp>',
+      `        <stringProp name="HTTPSampler.protocol">\${__P(protocol,${escapeXml(protocol)})}</stringProp>`,
+      `        <stringProp name="HTTPSampler.domain">\${__P(host,${escapeXml(url.hostname)})}</stringProp>`,
+      `        <stringProp name="HTTPSampler.port">\${__P(port,${port})}</stringProp>`,
+      `        <stringProp name="HTTPSampler.response_timeout">${plan.requestTimeoutMs}</stringProp>`,
+      '      </ConfigTestElement>',
+      '      <hashTree/>',
+      '      <HeaderManager guiclass="HeaderPanel" testclass="HeaderManager" testname="HTTP Header Manager">',
+      '        <collectionProp name="HeaderManager.headers">',
+      ...headers.flatMap(([name, value]) => [
+        '          <elementProp name="" elementType="Header">',
+        `            <stringProp name="Header.name">${escapeXml(name)}</stringProp>`,
+        `            <stringProp name="Header.value">${escapeXml(value)}</stringProp>`,
+        '          </elementProp>',
+      ]),
+      '        </collectionProp>',
+      '      </HeaderManager>',
+      '      <hashTree/>',
+      ...threadGroups,
+      '    </hashTree>',
+      '  </hashTree>',
+      '</jmeterTestPlan>',
+      '',
+    ].join('\n');
+  }
+}
+
+/**
+ * Builds an Open Model Thread Group schedule from ramp stages, e.g.
+ * "rate(0/s) random_arrivals(60 s) rate(20/s)". A 0-second stage is a step.
+ */
+export function openModelSchedule(stages: LoadGeneratorStage[]): string {
+  const parts = ['rate(0/s)'];
+  for (const stage of stages) {
+    if (stage.durationSeconds > 0) {
+      parts.push(`random_arrivals(${stage.durationSeconds} s)`);
+    }
+    parts.push(`rate(${stage.target}/s)`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Splits closed model stages into Thread Groups: per stage, one group holding
+ * the lower of the stage's start and end targets, plus one ramping up the
+ * rest over the stage when it ramps up.
+ */
+function closedModelThreadGroups(stages: LoadGeneratorStage[]): ThreadGroupSpec[] {
+  const groups: ThreadGroupSpec[] = [];
+  let from = 0;
+  let delaySeconds = 0;
+  stages.forEach((stage, index) => {
+    const durationSeconds = stage.durationSeconds;
+    const hold = Math.min(from, stage.target);
+    const label = `Stage ${index + 1}: ${from} → ${stage.target} users over ${durationSeconds}s`;
+    if (durationSeconds > 0 && hold > 0) {
+      groups.push({ name: label, threads: hold, rampSeconds: 0, delaySeconds, durationSeconds });
+    }
+    if (durationSeconds > 0 && stage.target > from) {
+      groups.push({
+        name: `${label} (ramp)`,
+        threads: stage.target - from,
+        rampSeconds: durationSeconds,
+        delaySeconds,
+        durationSeconds,
+      });
+    }
+    from = stage.target;
+    delaySeconds += durationSeconds;
+  });
+  return groups;
+}
+
+/**
+ * Builds the hashTree under a thread group: the /api/loadtest sampler with
+ * every load test parameter, plus a think time timer.
+ */
+function sampleTree(params: LoadTestRequest, thinkTimeMs: number): string[] {
+  return [
+    '      <hashTree>',
+    '        <HTTPSamplerProxy guiclass="HttpTestSampleGui" testclass="HTTPSamplerProxy" testname="GET /api/loadtest">',
+    '          <elementProp name="HTTPsampler.Arguments" elementType="Arguments">',
+    '            <collectionProp name="Arguments.arguments">',
+    ...Object.entries(params).flatMap(([name, value]) => [
+      `              <elementProp name="${name}" elementType="HTTPArgument">`,
+      '                <boolProp name="HTTPArgument.always_encode">false</boolProp>',
+      `                <stringProp name="Argument.name">${name}</stringProp>`,
+      `                <stringProp name="Argument.value">${escapeXml(String(value))}</stringProp>`,
+      '                <stringProp name="Argument.metadata">=</stringProp>',
+      '                <boolProp name="HTTPArgument.use_equals">true</boolProp>',
+      '              </elementProp>',
+    ]),
+    '            </collectionProp>',
+    '          </elementProp>',
+    '          <stringProp name="HTTPSampler.path">/api/loadtest</stringProp>',
+    '          <stringProp name="HTTPSampler.method">GET</stringProp>',
+    '          <boolProp name="HTTPSampler.follow_redirects">true</boolProp>',
+    '          <boolProp name="HTTPSampler.use_keepalive">true</boolProp>',
+    '        </HTTPSamplerProxy>',
+    '        <hashTree/>',
+    ...(thinkTimeMs > 0
+      ? [
+          '        <ConstantTimer guiclass="ConstantTimerGui" testclass="ConstantTimer" testname="Think time">',
+          `          <stringProp name="ConstantTimer.delay">${thinkTimeMs}</stringProp>`,
+          '        </ConstantTimer>',
+          '        <hashTree/>',
+        ]
+      : []),
+    '      </hashTree>',
+  ];
+}
+
+/**
+ * Escapes text for XML element content and attribute values.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Singleton instance of the LoadTestExportService.
+ */
+export const LoadTestExportService = new LoadTestExportServiceClass();
@@ -23,20 +23,37 @@
  *      - Touch memory each cycle to prevent GC/OS page reclamation
  *   5. CONCURRENCY-BASED ERROR INJECTION (configurable via errorAboveConcurrent and errorPercent):
  *      When concurrent requests exceed errorAboveConcurrent threshold, errorPercent
- *      chance of throwing a random exception from a pool of realistic error types.
+ *      chance of throwing an exception picked from the exception catalog.
  *      This simulates system instability under high load - the more overloaded
  *      the system, the more likely errors occur.
  *   6. DECREMENT counter in finally block; return timing diagnostics
  *
- * EXCEPTION POOL:
- *   17 different exception types simulating real-world failures:
- *   - InvalidOperationError, TypeError, ReferenceError, TimeoutError,
- *     IOException, HttpRequestError, StackOverflowError, etc.
+ * EXCEPTION CATALOG:
+ *   Injected errors come from ExceptionCatalogService: weighted entries with
+ *   an error class name, message and HTTP status code, configurable through
+ *   LOAD_TEST_EXCEPTIONS_FILE and /api/admin/exception-catalog. The built-in
+ *   catalog has 16 realistic failures (InvalidOperationError, TypeError,
+ *   TimeoutError, IOException, StackOverflowError, ...), all returning 500.
  *   These produce diverse error signatures in Application Insights.
  *
+ * REPRODUCIBILITY:
+ *   Each request draws its randomness (error injection, the catalog pick and
+ *   the heap chunk values) from its own seeded generator (RandomService).
+ *   The seed is echoed in the result, and in the details of injected error
+ *   responses; sending it back as ?seed= replays the same decisions.
+ *
  * STATISTICS:
  *   Tracks lifetime and per-period statistics:
  *   - Concurrent requests, total processed, total exceptions
+ *   - Exceptions by type (the name before the colon in the message, or the
+ *     JavaScript error class: "TimeoutError", "TypeError", ...)
+ *   - p50/p90/p95/p99 of three timings per completed request, in HDR-style
+ *     histograms (see LatencyHistogram):
+ *       response time = arrival → completion (what the load testing tool sees)
+ *       queue time    = arrival → start of work (waiting, not working)
+ *       work time     = start of work → completion
+ *     Queue time growing while work time stays flat means requests are
+ *     waiting behind a busy event loop rather than getting slower themselves.
  *   - Period stats (60s windows) broadcast via Socket.IO
  *
  * PORTING NOTES:
@@ -61,51 +78,9 @@ import {
   LoadTestStatsData,
 } from '../types';
 import { EventLogService } from './event-log.service';
-
-// =============================================================================
-// RANDOM EXCEPTION POOL
-// =============================================================================
-// Simulates diverse real-world application failures for load testing.
-// When a request has been processing for >120 seconds, there is a 20% chance
-// per work cycle that one of these exceptions is thrown. This produces varied
-// error signatures in Application Insights and other monitoring tools.
-//
-// PORTING NOTES:
-//   Replace these with equivalent exception types in the target language:
-//   - Java: IllegalStateException, NullPointerException, SocketTimeoutException, etc.
-//   - Python: ValueError, TypeError, TimeoutError, ConnectionError, etc.
-//   - C#: InvalidOperationException, NullReferenceException, TimeoutException, etc.
-//   - PHP: RuntimeException, InvalidArgumentException, DomainException, etc.
-
-const EXCEPTION_FACTORIES: Array<() => Error> = [
-  // Common application logic errors
-  () => new Error('InvalidOperationError: Operation is not valid due to current state'),
-  () => new TypeError('Value does not fall within the expected range'),
-  () => new TypeError('Cannot read properties of null'),
-
-  // Classic JS errors
-  () => new ReferenceError('Object reference not set to an instance of an object'),
-  () => new RangeError('Index was outside the bounds of the array'),
-  () => new Error('KeyNotFoundError: The given key was not present in the dictionary'),
-
-  // I/O and network-related
-  () => new Error('TimeoutError: The operation has timed out'),
-  () => new Error('IOException: Unable to read data from the transport connection'),
-  () => new Error('HttpRequestError: An error occurred while sending the request'),
-
-  // Math and format errors
-  () => new RangeError('Attempted to divide by zero'),
-  () => new SyntaxError('Input string was not in a correct format'),
-  () => new RangeError('Arithmetic operation resulted in an overflow'),
-
-  // Async-related
-  () => new Error('AbortError: The operation was aborted'),
-  () => new Error('OperationCancelledError: The operation was canceled'),
-
-  // Scary ones
-  () => new Error('OutOfMemoryError: Insufficient memory to continue execution'),
-  () => new Error('StackOverflowError: Maximum call stack size exceeded'),
-];
+import { ExceptionCatalogService } from './exception-catalog.service';
+import { LatencyHistogram } from './latency-histogram';
+import { RandomService, SeededRandom } from './random.service';
 
 // =============================================================================
 // CONSTANTS
@@ -117,6 +92,15 @@ const SLEEP_PER_CYCLE_MS = 50;
 /** Interval in seconds between event log broadcasts */
 const BROADCAST_INTERVAL_SECONDS = 60;
 
+/**
+ * Latency histograms for the three timings of a completed request.
+ */
+interface RequestTimings {
+  responseTime: LatencyHistogram;
+  queueTime: LatencyHistogram;
+  workTime: LatencyHistogram;
+}
+
 // =============================================================================
 // DEFAULT REQUEST VALUES
 // =============================================================================
@@ -162,6 +146,8 @@ class LoadTestServiceClass {
   private totalRequestsProcessed = 0;
   private totalExceptionsThrown = 0;
   private totalResponseTimeMs = 0;
+  private totalTimings = createRequestTimings();
+  private totalExceptionsByType: Record<string, number> = {};
 
   // ---- Period stats (reset each broadcast) ----
   private periodRequestsCompleted = 0;
@@ -169,6 +155,8 @@ class LoadTestServiceClass {
   private periodMaxResponseTimeMs = 0;
   private periodPeakConcurrent = 0;
   private periodExceptions = 0;
+  private periodExceptionsByType: Record<string, number> = {};
+  private periodTimings = createRequestTimings();
   private periodSuppressedRequests = 0; // Requests with suppressLogs=true (internal callers)
 
   // ---- In-flight request tracking ----
@@ -182,8 +170,8 @@ class LoadTestServiceClass {
   // ---- Sidecar probe latency tracking ----
   // The sidecar measures actual HTTP round-trip time including queue delay.
   // We use this to estimate total request latency for load test stats.
-  private recentProbeLatencies: number[] = [];
-  private readonly MAX_PROBE_SAMPLES = 120; // ~60 seconds at 500ms interval
+  // Reset with the period stats, so it covers the last 60 seconds.
+  private probeLatency = new LatencyHistogram();
 
   // ---- Latency sampling (1 in 10 requests to avoid flooding monitor) ----
   private requestSampleCounter = 0;
@@ -230,27 +218,7 @@ class LoadTestServiceClass {
    * since we can only measure processing time from within the main event loop.
    */
   recordProbeLatency(latencyMs: number): void {
-    this.recentProbeLatencies.push(latencyMs);
-    if (this.recentProbeLatencies.length > this.MAX_PROBE_SAMPLES) {
-      this.recentProbeLatencies.shift();
-    }
-  }
-
-  /**
-   * Gets the average recent probe latency, which approximates HTTP queue delay.
-   */
-  private getAverageProbeLatency(): number {
-    if (this.recentProbeLatencies.length === 0) return 0;
-    const sum = this.recentProbeLatencies.reduce((a, b) => a + b, 0);
-    return sum / this.recentProbeLatencies.length;
-  }
-
-  /**
-   * Gets the maximum recent probe latency.
-   */
-  private getMaxProbeLatency(): number {
-    if (this.recentProbeLatencies.length === 0) return 0;
-    return Math.max(...this.recentProbeLatencies);
+    this.probeLatency.record(latencyMs);
   }
 
   /**
@@ -268,7 +236,8 @@ class LoadTestServiceClass {
    * Executes the load test work with the specified parameters.
    *
    * @param request - Configuration for the load test behavior
-   * @param arrivalTime - Optional timestamp when Express received the request.
+   * @param arrivalTime - Optional timestamp when the request arrived (trusted
+   *                      X-Request-Start header, or when Express received it).
    *                      Used for accurate stats that include HTTP queue time.
    * @returns Result containing timing and diagnostic information
    */
@@ -304,6 +273,7 @@ class LoadTestServiceClass {
     let heapMemory: number[][] | null = null;
     let nativeBuffer: Buffer | null = null;
     const allocatedBytes = params.bufferSizeKb * 1024;
+    const random = RandomService.createGenerator();
 
     try {
       // -----------------------------------------------------------------
@@ -321,7 +291,7 @@ class LoadTestServiceClass {
       // Capture memory before allocation for diagnostics
       const memBefore = process.memoryUsage();
 
-      heapMemory = this.allocateHeapMemory(heapKb);
+      heapMemory = this.allocateHeapMemory(heapKb, random);
       this.touchHeapMemory(heapMemory);
 
       nativeBuffer = Buffer.alloc(nativeKb * 1024);
@@ -376,7 +346,7 @@ class LoadTestServiceClass {
 
       // Check for concurrency-based error injection after work completes
       // This simulates system instability under high load
-      this.checkAndThrowConcurrencyException(currentConcurrent, params.errorAboveConcurrent, params.errorPercent, params.suppressLogs);
+      this.checkAndThrowConcurrencyException(currentConcurrent, params.errorAboveConcurrent, params.errorPercent, random, params.suppressLogs);
 
       // Final memory touch before returning
       this.touchHeapMemory(heapMemory);
@@ -394,21 +364,24 @@ class LoadTestServiceClass {
         allocatedBytes,
         workCompleted,
         false,
-        null
+        null,
+        random.seed
       );
     } catch (error) {
       const elapsedMs = Date.now() - statsStartTime;
       this.totalExceptionsThrown++;
       this.periodExceptions++;
 
-      const errorName = error instanceof Error ? error.constructor.name : 'Error';
+      const errorName = error instanceof Error ? error.name : 'Error';
       const errorMessage = error instanceof Error ? error.message : String(error);
+      this.totalExceptionsByType[errorName] = (this.totalExceptionsByType[errorName] ?? 0) + 1;
+      this.periodExceptionsByType[errorName] = (this.periodExceptionsByType[errorName] ?? 0) + 1;
 
       console.warn(
         `[LoadTest] Exception after ${elapsedMs}ms: ${errorName} - ${errorMessage}`
       );
 
-      // Re-throw to let Express error handler produce 500
+      // Re-throw to let the Express error handler produce the error response
       throw error;
     } finally {
       // Remove from in-flight tracking
@@ -419,9 +392,20 @@ class LoadTestServiceClass {
       this.concurrentRequests--;
       this.totalRequestsProcessed++;
       // Use statsStartTime for elapsed time to match Azure Load Testing measurement
-      const elapsedMs = Date.now() - statsStartTime;
+      const finishTime = Date.now();
+      const elapsedMs = finishTime - statsStartTime;
       this.totalResponseTimeMs += elapsedMs;
 
+      // Timing percentiles: response = queue + work. Queue time is clamped
+      // because an arrival timestamp from another host may run ahead of ours.
+      const queueMs = Math.max(0, workStartTime - statsStartTime);
+      const workMs = finishTime - workStartTime;
+      for (const timings of [this.totalTimings, this.periodTimings]) {
+        timings.responseTime.record(elapsedMs);
+        timings.queueTime.record(queueMs);
+        timings.workTime.record(workMs);
+      }
+
       // Period stats
       this.periodRequestsCompleted++;
       this.periodResponseTimeSum += elapsedMs;
@@ -464,6 +448,10 @@ class LoadTestServiceClass {
       totalRequestsProcessed: this.totalRequestsProcessed,
       totalExceptionsThrown: this.totalExceptionsThrown,
       averageResponseTimeMs: Math.round(avgResponseTime * 100) / 100,
+      responseTimeMs: this.totalTimings.responseTime.summary(),
+      queueTimeMs: this.totalTimings.queueTime.summary(),
+      workTimeMs: this.totalTimings.workTime.summary(),
+      exceptionsByType: { ...this.totalExceptionsByType },
     };
   }
 
@@ -480,7 +468,7 @@ class LoadTestServiceClass {
    * metric, and heap growth triggers GC pauses that cause event loop lag.
    *
    * STRUCTURE: Array of number[128] chunks, where each chunk ≈ 1 KB.
-   * Using Math.random() ensures V8 stores actual heap-allocated doubles,
+   * Using random fractions ensures V8 stores actual heap-allocated doubles,
    * not Small Integer (SMI) optimizations.
    *
    * PORTING NOTES:
@@ -491,15 +479,16 @@ class LoadTestServiceClass {
    *   - Python: list of bytearray(1024) objects
    *
    * @param sizeKb - Amount of memory to allocate in kilobytes
+   * @param random - The request's generator (fills the chunks)
    * @returns Array of number arrays residing on the V8 heap
    */
-  private allocateHeapMemory(sizeKb: number): number[][] {
+  private allocateHeapMemory(sizeKb: number, random: SeededRandom): number[][] {
     const memory: number[][] = new Array(sizeKb);
     for (let i = 0; i < sizeKb; i++) {
       // 128 doubles × 8 bytes = 1024 bytes ≈ 1 KB per chunk
       const chunk = new Array<number>(128);
       for (let j = 0; j < 128; j++) {
-        chunk[j] = Math.random(); // heap-allocated doubles, not SMIs
+        chunk[j] = random.next(); // heap-allocated doubles, not SMIs
       }
       memory[i] = chunk;
     }
@@ -536,12 +525,14 @@ class LoadTestServiceClass {
    * @param errorAboveConcurrent - Threshold above which errors may be thrown
    *                               (0 = disabled, -1 = always inject errors)
    * @param errorPercent - Percentage chance (0-100) of throwing exception when above threshold
+   * @param random - The request's generator (decides whether and what to throw)
    * @param suppressLogs - When true, suppress event log messages (for internal callers)
    */
   private checkAndThrowConcurrencyException(
     currentConcurrent: number,
     errorAboveConcurrent: number,
     errorPercent: number,
+    random: SeededRandom,
     suppressLogs?: boolean
   ): void {
     // Skip if error injection is disabled (threshold is 0 or percent is 0)
@@ -555,14 +546,16 @@ class LoadTestServiceClass {
 
     if (shouldInject) {
       const probability = errorPercent / 100;
-      if (Math.random() < probability) {
-        const idx = Math.floor(Math.random() * EXCEPTION_FACTORIES.length);
-        const exception = EXCEPTION_FACTORIES[idx]();
+      if (random.next() < probability) {
+        const exception = ExceptionCatalogService.createError(
+          ExceptionCatalogService.pick(random.next()),
+          { seed: random.seed }
+        );
         // Log to event log so it appears in dashboard (unless suppressed)
         if (!suppressLogs) {
           EventLogService.warn(
             'LOAD_TEST_ERROR_INJECTED',
-            `Injecting error (concurrent=${currentConcurrent} > threshold=${errorAboveConcurrent}): ${exception.message}`
+            `Injecting error (concurrent=${currentConcurrent} > threshold=${errorAboveConcurrent}): ${exception.name} (${exception.statusCode}): ${exception.message}`
           );
         }
         throw exception;
@@ -604,7 +597,8 @@ class LoadTestServiceClass {
     bufferSizeBytes: number,
     workCompleted: boolean,
     exceptionThrown: boolean,
-    exceptionType: string | null
+    exceptionType: string | null,
+    seed: number
   ): LoadTestResult {
     return {
       elapsedMs,
@@ -615,6 +609,7 @@ class LoadTestServiceClass {
       workCompleted,
       exceptionThrown,
       exceptionType,
+      seed,
       timestamp: new Date().toISOString(),
     };
   }
@@ -639,8 +634,9 @@ class LoadTestServiceClass {
     // The sidecar runs in a separate process with its own unblocked event loop,
     // so it can accurately measure HTTP round-trip time including queue delay.
     // This is the same latency shown in the Request Latency Monitor.
-    const avgServerLatency = this.getAverageProbeLatency();
-    const maxServerLatency = this.getMaxProbeLatency();
+    const probeSummary = this.probeLatency.summary();
+    const avgServerLatency = probeSummary.mean;
+    const maxServerLatency = probeSummary.max;
 
     const statsData: LoadTestStatsData = {
       currentConcurrent,
@@ -651,6 +647,10 @@ class LoadTestServiceClass {
       maxInFlightMs: 0, // Not needed when using sidecar measurements
       requestsPerSecond: Math.round(requestsPerSecond * 100) / 100,
       exceptionCount: exceptions,
+      exceptionsByType: { ...this.periodExceptionsByType },
+      responseTimeMs: this.periodTimings.responseTime.summary(),
+      queueTimeMs: this.periodTimings.queueTime.summary(),
+      workTimeMs: this.periodTimings.workTime.summary(),
       timestamp: new Date().toISOString(),
     };
 
@@ -669,7 +669,7 @@ class LoadTestServiceClass {
     if (this.periodSuppressedRequests < requestsCompleted) {
       EventLogService.info(
         'LOAD_TEST_STATS',
-        `Load test period stats (60s): ${requestsCompleted} requests, ${statsData.avgResponseTimeMs} avg ms, ${statsData.maxResponseTimeMs} max ms (sidecar), ${statsData.requestsPerSecond} RPS, peak ${peakConcurrent} concurrent, ${errorPercent}% errors`,
+        `Load test period stats (60s): ${requestsCompleted} requests, ${statsData.avgResponseTimeMs} avg ms, ${statsData.maxResponseTimeMs} max ms (sidecar), p95 ${statsData.responseTimeMs.p95} ms (queue ${statsData.queueTimeMs.p95} ms), ${statsData.requestsPerSecond} RPS, peak ${peakConcurrent} concurrent, ${errorPercent}% errors`,
         {
           details: {
             requestsCompleted,
@@ -679,6 +679,10 @@ class LoadTestServiceClass {
             peakConcurrent,
             requestsPerSecond: statsData.requestsPerSecond,
             exceptionCount: exceptions,
+            exceptionsByType: statsData.exceptionsByType,
+            responseTimeMs: statsData.responseTimeMs,
+            queueTimeMs: statsData.queueTimeMs,
+            workTimeMs: statsData.workTimeMs,
             errorPercent: parseFloat(errorPercent),
             measurementSource: 'sidecar',
           },
@@ -687,6 +691,8 @@ class LoadTestServiceClass {
             requests: requestsCompleted,
             avgMs: statsData.avgResponseTimeMs,
             maxMs: statsData.maxResponseTimeMs,
+            p95Ms: statsData.responseTimeMs.p95,
+            queueP95Ms: statsData.queueTimeMs.p95,
             rps: statsData.requestsPerSecond,
             errorRate: errorPercent,
           },
@@ -705,8 +711,10 @@ class LoadTestServiceClass {
     this.periodMaxResponseTimeMs = 0;
     this.periodPeakConcurrent = 0;
     this.periodExceptions = 0;
+    this.periodExceptionsByType = {};
+    this.periodTimings = createRequestTimings();
     this.periodSuppressedRequests = 0;
-    this.recentProbeLatencies = [];
+    this.probeLatency.reset();
   }
 
   /**
@@ -728,6 +736,17 @@ class LoadTestServiceClass {
   }
 }
 
+/**
+ * Creates empty histograms for the request timings.
+ */
+function createRequestTimings(): RequestTimings {
+  return {
+    responseTime: new LatencyHistogram(),
+    queueTime: new LatencyHistogram(),
+    workTime: new LatencyHistogram(),
+  };
+}
+
 /**
  * Singleton instance of the Load Test Service.
  */
@@ -0,0 +1,463 @@
+/**
+ * =============================================================================
+ * MEMORY LEAK SERVICE — Gradual Heap Growth Simulation
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Simulates the slow memory leak that is far more common in production than
+ *   a single large allocation. Retained heap grows at a configured MB/minute
+ *   and is never freed while the leak is active, producing the steadily rising
+ *   heapUsed line (with no GC sawtooth) that memory diagnostic tools look for.
+ *
+ * HOW IT WORKS:
+ *   1. A growth timer fires every LEAK_TICK_MS (1 second)
+ *   2. Each tick computes the target size from elapsed time (time spent
+ *      paused excluded):
+ *        targetMb = min(ceiling, leakRateMbPerMinute * elapsedMinutes)
+ *   3. Small JS objects (~4800 per MB, same calibration as MemoryPressureService)
+ *      are appended until the retained array reaches the target
+ *   4. Allocation is batched via setImmediate so high leak rates never block
+ *      the event loop for long
+ *   5. Progress is logged to the event log every PROGRESS_LOG_INTERVAL_MS
+ *   6. At the ceiling, growth stops but memory is retained (plateau)
+ *   7. When durationSeconds elapses or the user stops the leak, all retained
+ *      objects are dereferenced and GC is forced (if --expose-gc is set)
+ *   8. While paused, ticks skip growth and the duration timer is cleared;
+ *      the memory stays retained
+ *
+ * WHY TIME-BASED TARGETS:
+ *   Timers drift under load (especially while another simulation is blocking
+ *   the event loop). Computing the target from elapsed wall-clock time keeps
+ *   the effective leak rate accurate — a late tick simply catches up.
+ *
+ * PORTING NOTES:
+ *   - Java: ScheduledExecutorService appending byte[1024] arrays to a static list.
+ *   - Python: asyncio task appending dicts/bytearrays to a module-level list.
+ *   - C#: System.Threading.Timer appending byte[] to a static List<byte[]>.
+ *   - PHP: Not directly applicable (per-request memory) — use a long-running
+ *     worker process (Swoole/RoadRunner) holding a static array.
+ *
+ * @module services/memory-leak
+ */
+
+import { Simulation, MemoryLeakParams } from '../types';
+import { SimulationTrackerService } from './simulation-tracker.service';
+import { EventLogService } from './event-log.service';
+import { SimulationContextService } from './simulation-context.service';
+import { RandomService, SeededRandom } from './random.service';
+import { limits } from '../config';
+
+/** How often the leak grows (ms) */
+const LEAK_TICK_MS = 1000;
+
+/** How often progress is written to the event log (ms) */
+const PROGRESS_LOG_INTERVAL_MS = 15000;
+
+/** Calibrated: ~4800 objects = ~1MB of V8 heap (matches MemoryPressureService) */
+const OBJECTS_PER_MB = 4800;
+
+/** Objects allocated per setImmediate batch (~2MB) */
+const BATCH_SIZE = 10000;
+
+/** Active leak state for a single simulation */
+interface MemoryLeak {
+  /** Retained objects — never trimmed while the leak is active */
+  data: object[];
+  /** Validated leak parameters */
+  params: MemoryLeakParams;
+  /** Effective ceiling in MB (explicit maxSizeMb or limits.maxMemoryMb) */
+  ceilingMb: number;
+  /** Growth timer */
+  tickTimer: NodeJS.Timeout;
+  /** Duration timer (null when the leak runs until released) */
+  completionTimer: NodeJS.Timeout | null;
+  /** Last time a progress event was logged (epoch ms) */
+  lastProgressLogMs: number;
+  /** True while a batched allocation is in flight */
+  allocating: boolean;
+  /** True once the ceiling has been reached and logged */
+  ceilingReached: boolean;
+  /** Generator for the payloads, seeded with the simulation's seed */
+  random: SeededRandom;
+}
+
+/** Active memory leaks by simulation ID */
+const leaks: Map<string, MemoryLeak> = new Map();
+
+/**
+ * Memory Leak Service
+ *
+ * LEAK TRACKING:
+ * - leaks Map<simulationId, MemoryLeak>
+ * - Each entry holds the retained objects plus its growth/duration timers
+ *
+ * LIFECYCLE:
+ * - start():    Creates simulation, starts growth timer (and duration timer if set)
+ * - stop():     User-initiated — releases memory, simulation → STOPPED
+ * - complete(): Duration elapsed — releases memory, simulation → COMPLETED
+ */
+class MemoryLeakServiceClass {
+  /**
+   * Starts a gradual memory leak simulation.
+   *
+   * @param params - Memory leak parameters (rate, optional ceiling and duration)
+   * @returns The created simulation record
+   */
+  start(params: MemoryLeakParams): Simulation {
+    const { leakRateMbPerMinute, maxSizeMb, durationSeconds } = params;
+    const ceilingMb = maxSizeMb ?? limits.maxMemoryMb;
+
+    // Without an explicit duration the tracker falls back to the max simulation duration
+    const simulation = SimulationTrackerService.createSimulation(
+      'MEMORY_LEAK',
+      { type: 'MEMORY_LEAK', ...params },
+      durationSeconds
+    );
+
+    // Set Application Insights correlation context
+    SimulationContextService.setContext(simulation.id, 'MEMORY_LEAK');
+
+    const now = Date.now();
+    const leak: MemoryLeak = {
+      data: [],
+      params,
+      ceilingMb,
+      tickTimer: setInterval(() => this.grow(simulation.id), LEAK_TICK_MS),
+      completionTimer: null,
+      lastProgressLogMs: now,
+      allocating: false,
+      ceilingReached: false,
+      random: RandomService.createGenerator(simulation.seed),
+    };
+
+    if (durationSeconds !== undefined) {
+      leak.completionTimer = setTimeout(() => this.complete(simulation.id), durationSeconds * 1000);
+    }
+
+    leaks.set(simulation.id, leak);
+
+    const durationText =
+      durationSeconds !== undefined ? ` for ${durationSeconds}s` : ' until released';
+    EventLogService.info(
+      'SIMULATION_STARTED',
+      `Memory leak started: ${leakRateMbPerMinute}MB/min (ceiling ${ceilingMb}MB)${durationText}`,
+      {
+        simulationId: simulation.id,
+        simulationType: 'MEMORY_LEAK',
+        details: {
+          leakRateMbPerMinute,
+          maxSizeMb: ceilingMb,
+          durationSeconds: durationSeconds ?? null,
+        },
+        messageKey: 'srv.memoryLeak.started',
+        messageParams: { rate: leakRateMbPerMinute, ceiling: ceilingMb },
+      }
+    );
+
+    return simulation;
+  }
+
+  /**
+   * Stops a memory leak and releases its retained memory (user-initiated).
+   *
+   * @param id - Simulation ID
+   * @returns Release info including size freed, or undefined if nothing found
+   */
+  stop(id: string): { simulation?: Simulation; leakedMb: number; wasLeaking: boolean } | undefined {
+    const leakedMb = this.getLeakedMb(id) ?? 0;
+    const wasLeaking = this.releaseLeak(id);
+
+    const simulation = SimulationTrackerService.stopSimulation(id);
+
+    if (!wasLeaking && !simulation) {
+      return undefined;
+    }
+
+    EventLogService.info(
+      'MEMORY_RELEASED',
+      `Memory leak stopped, released ${leakedMb}MB of heap memory`,
+      {
+        simulationId: id,
+        simulationType: 'MEMORY_LEAK',
+        details: { leakedMb, wasLeaking, hadSimulation: !!simulation },
+        messageKey: 'srv.memory.released',
+        messageParams: { size: leakedMb },
+      }
+    );
+
+    return { simulation, leakedMb, wasLeaking };
+  }
+
+  /**
+   * Clears the duration timer of a leak being paused. Growth stops by
+   * itself: ticks skip PAUSED simulations.
+   *
+   * @param id - Simulation ID
+   */
+  pause(id: string): void {
+    const leak = leaks.get(id);
+    if (leak?.completionTimer) {
+      clearTimeout(leak.completionTimer);
+      leak.completionTimer = null;
+    }
+  }
+
+  /**
+   * Re-arms the duration timer of a resumed leak.
+   *
+   * @param id - Simulation ID
+   */
+  resume(id: string): void {
+    this.reschedule(id);
+  }
+
+  /**
+   * Re-arms the duration timer for the simulation's current scheduledEndAt
+   * (after an extension or resume). Leaks without a duration and paused
+   * leaks get no timer.
+   *
+   * @param id - Simulation ID
+   */
+  reschedule(id: string): void {
+    const leak = leaks.get(id);
+    const simulation = SimulationTrackerService.getSimulation(id);
+    if (!leak || simulation?.status !== 'ACTIVE' || leak.params.durationSeconds === undefined) {
+      return;
+    }
+
+    if (leak.completionTimer) {
+      clearTimeout(leak.completionTimer);
+    }
+    leak.completionTimer = setTimeout(
+      () => this.complete(id),
+      Math.max(0, simulation.scheduledEndAt.getTime() - Date.now())
+    );
+  }
+
+  /**
+   * Gets all active memory leak simulations.
+   *
+   * @returns Array of active memory leak simulations
+   */
+  getActiveLeaks(): Simulation[] {
+    return SimulationTrackerService.getActiveSimulationsByType('MEMORY_LEAK');
+  }
+
+  /**
+   * Gets the amount of memory currently retained by a leak.
+   *
+   * @param id - Simulation ID
+   * @returns Retained size in MB (2 decimal places) or undefined if not found
+   */
+  getLeakedMb(id: string): number | undefined {
+    const leak = leaks.get(id);
+    return leak ? Math.round((leak.data.length / OBJECTS_PER_MB) * 100) / 100 : undefined;
+  }
+
+  /**
+   * Gets the total memory retained across all active leaks.
+   *
+   * @returns Total leaked memory in megabytes
+   */
+  getTotalLeakedMb(): number {
+    let totalObjects = 0;
+    for (const leak of leaks.values()) {
+      totalObjects += leak.data.length;
+    }
+    return Math.round((totalObjects / OBJECTS_PER_MB) * 100) / 100;
+  }
+
+  /**
+   * Stops all active memory leaks.
+   */
+  stopAll(): void {
+    for (const id of Array.from(leaks.keys())) {
+      this.stop(id);
+    }
+  }
+
+  /**
+   * Gets the count of active leaks.
+   *
+   * @returns Number of active leaks
+   */
+  getActiveCount(): number {
+    return leaks.size;
+  }
+
+  /**
+   * Growth tick — allocates towards the time-based target size.
+   *
+   * ALGORITHM:
+   * 1. Abort if the simulation has ended (e.g. tracker expired it); skip while PAUSED
+   * 2. targetMb = min(ceiling, rate * elapsedMinutes)
+   * 3. Allocate the missing objects in batches via setImmediate
+   * 4. Log progress periodically and once when the ceiling is reached
+   *
+   * @param id - Simulation ID
+   */
+  private grow(id: string): void {
+    const leak = leaks.get(id);
+    if (!leak) {
+      return;
+    }
+
+    if (!SimulationTrackerService.isActive(id)) {
+      // Simulation was ended elsewhere — don't keep holding memory for it
+      this.releaseLeak(id);
+      return;
+    }
+
+    if (leak.allocating || SimulationTrackerService.getSimulation(id)?.status === 'PAUSED') {
+      // Previous tick's batches still running (the next tick will catch up), or paused
+      return;
+    }
+
+    const elapsedMinutes = SimulationTrackerService.getElapsedMs(id) / 60000;
+    const targetMb = Math.min(leak.ceilingMb, leak.params.leakRateMbPerMinute * elapsedMinutes);
+    const targetObjects = Math.floor(targetMb * OBJECTS_PER_MB);
+
+    if (targetObjects > leak.data.length) {
+      leak.allocating = true;
+      const allocateBatch = (): void => {
+        // Leak may have been released while batches were pending
+        if (leaks.get(id) !== leak) {
+          return;
+        }
+
+        const end = Math.min(leak.data.length + BATCH_SIZE, targetObjects);
+        for (let i = leak.data.length; i < end; i++) {
+          leak.data.push({
+            id: i,
+            timestamp: Date.now(),
+            random: leak.random.next(),
+            payload: `leak-${i}-${leak.random.next().toString(36)}`,
+          });
+        }
+
+        if (leak.data.length < targetObjects) {
+          setImmediate(allocateBatch);
+        } else {
+          leak.allocating = false;
+          this.reportProgress(id, leak);
+        }
+      };
+      allocateBatch();
+    } else {
+      this.reportProgress(id, leak);
+    }
+  }
+
+  /**
+   * Logs periodic progress and the one-time ceiling-reached event.
+   *
+   * @param id - Simulation ID
+   * @param leak - Leak state
+   */
+  private reportProgress(id: string, leak: MemoryLeak): void {
+    const leakedMb = this.getLeakedMb(id) ?? 0;
+    const now = Date.now();
+
+    if (!leak.ceilingReached && leak.data.length >= Math.floor(leak.ceilingMb * OBJECTS_PER_MB)) {
+      leak.ceilingReached = true;
+      leak.lastProgressLogMs = now;
+      EventLogService.warn(
+        'MEMORY_LEAK_PROGRESS',
+        `Memory leak reached its ${leak.ceilingMb}MB ceiling - growth stopped, memory retained`,
+        {
+          simulationId: id,
+          simulationType: 'MEMORY_LEAK',
+          details: { leakedMb, ceilingMb: leak.ceilingMb, ceilingReached: true },
+          messageKey: 'srv.memoryLeak.ceiling',
+          messageParams: { ceiling: leak.ceilingMb },
+        }
+      );
+      return;
+    }
+
+    if (leak.ceilingReached || now - leak.lastProgressLogMs < PROGRESS_LOG_INTERVAL_MS) {
+      return;
+    }
+
+    leak.lastProgressLogMs = now;
+    const elapsedSeconds = Math.round(SimulationTrackerService.getElapsedMs(id) / 1000);
+    EventLogService.info(
+      'MEMORY_LEAK_PROGRESS',
+      `Memory leak at ${leakedMb}MB after ${elapsedSeconds}s (${leak.params.leakRateMbPerMinute}MB/min)`,
+      {
+        simulationId: id,
+        simulationType: 'MEMORY_LEAK',
+        details: {
+          leakedMb,
+          elapsedSeconds,
+          leakRateMbPerMinute: leak.params.leakRateMbPerMinute,
+          ceilingMb: leak.ceilingMb,
+        },
+        messageKey: 'srv.memoryLeak.progress',
+        messageParams: {
+          size: leakedMb,
+          elapsed: elapsedSeconds,
+          rate: leak.params.leakRateMbPerMinute,
+        },
+      }
+    );
+  }
+
+  /**
+   * Completes a leak whose duration has elapsed and releases its memory.
+   *
+   * @param id - Simulation ID
+   */
+  private complete(id: string): void {
+    const leakedMb = this.getLeakedMb(id) ?? 0;
+    this.releaseLeak(id);
+
+    const simulation = SimulationTrackerService.completeSimulation(id);
+    if (simulation) {
+      EventLogService.info(
+        'SIMULATION_COMPLETED',
+        `Memory leak completed, released ${leakedMb}MB of heap memory`,
+        {
+          simulationId: id,
+          simulationType: 'MEMORY_LEAK',
+          details: { leakedMb },
+          messageKey: 'srv.memoryLeak.completed',
+          messageParams: { size: leakedMb },
+        }
+      );
+    }
+  }
+
+  /**
+   * Clears timers, dereferences retained objects and forces GC if available.
+   *
+   * @param id - Simulation ID
+   * @returns True if a leak was found and released
+   */
+  private releaseLeak(id: string): boolean {
+    const leak = leaks.get(id);
+    if (!leak) {
+      return false;
+    }
+
+    clearInterval(leak.tickTimer);
+    if (leak.completionTimer) {
+      clearTimeout(leak.completionTimer);
+    }
+
+    leak.data.length = 0;
+    leaks.delete(id);
+
+    // Force garbage collection if available (requires --expose-gc flag)
+    if (typeof global.gc === 'function') {
+      global.gc();
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Singleton instance of the MemoryLeakService.
+ */
+export const MemoryLeakService = new MemoryLeakServiceClass();
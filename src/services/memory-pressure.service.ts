@@ -45,6 +45,7 @@ import { Simulation, MemoryPressureParams } from '../types';
 import { SimulationTrackerService } from './simulation-tracker.service';
 import { EventLogService } from './event-log.service';
 import { SimulationContextService } from './simulation-context.service';
+import { RandomService } from './random.service';
 
 /** Memory allocation entry with data and size tracking */
 interface MemoryAllocation {
@@ -97,6 +98,7 @@ class MemoryPressureServiceClass {
 
     // Initialize allocation immediately so it shows up
     const data: object[] = [];
+    const random = RandomService.createGenerator(simulation.seed);
     allocations.set(simulation.id, { data, sizeMb });
 
     // Set Application Insights correlation context
@@ -130,8 +132,8 @@ class MemoryPressureServiceClass {
         allocation.data.push({ 
           id: i, 
           timestamp: Date.now(), 
-          random: Math.random(),
-          payload: `data-${i}-${Math.random().toString(36)}`
+          random: random.next(),
+          payload: `data-${i}-${random.next().toString(36)}`
         });
       }
       allocated = end;
@@ -0,0 +1,348 @@
+/**
+ * =============================================================================
+ * METRICS HISTORY SERVICE — Bounded In-Memory Time Series of SystemMetrics
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Keeps a server-side history of the metrics broadcast loop so a freshly
+ *   opened dashboard (or an external script) can reconstruct what happened
+ *   during a simulation. Without it, chart history lives only in the browser
+ *   and is lost on reload.
+ *
+ * TIERS (downsampled, each with its own retention):
+ *   - 250ms resolution for 10 minutes  (~2,400 points)
+ *   - 5s resolution for 24 hours       (~17,280 points)
+ *   Each tier buckets incoming samples by resolution and aggregates a bucket
+ *   once the next bucket starts. Points older than the tier's retention are
+ *   dropped on every record, so memory stays bounded.
+ *
+ * AGGREGATION:
+ *   Gauges are averaged, but spike-type values keep their worst case so a
+ *   short event loop block is still visible at 5s resolution:
+ *   heartbeatLagMs/lagP99Ms/maxMs → max, minMs → min. Cumulative counters
+ *   (cpu.user/system) and identity fields (pid, uptime) take the last value.
+ *
+ * MEMORY COST:
+ *   A full tier set is roughly 20k snapshots (~10–15MB of heap). That shows
+ *   up as baseline heapUsed on the dashboard — worth knowing before reading
+ *   memory charts after a long-running session.
+ *
+ * PORTING NOTES:
+ *   - Java: Micrometer has no built-in history; use a ring buffer per tier
+ *     (e.g., ArrayDeque) or an embedded TSDB.
+ *   - C#: a Queue<T> per tier trimmed by timestamp.
+ *   - Python: collections.deque per tier, or pandas resample() for queries.
+ *
+ * @module services/metrics-history
+ */
+
+import { ContainerMetrics, GcKind, GcMetrics, SystemMetrics } from '../types';
+
+/**
+ * One downsampling tier.
+ */
+interface HistoryTier {
+  /** Bucket width in milliseconds */
+  resolutionMs: number;
+  /** How long points are kept in milliseconds */
+  retentionMs: number;
+  /** Completed (aggregated) buckets, oldest first */
+  points: SystemMetrics[];
+  /** Raw samples of the bucket currently being filled */
+  pending: SystemMetrics[];
+  /** Start time (epoch ms) of the bucket currently being filled */
+  pendingBucketStart: number;
+}
+
+/**
+ * Result of a history query.
+ */
+export interface MetricsHistoryQueryResult {
+  /** Effective resolution of the returned points in milliseconds */
+  resolutionMs: number;
+  /** Resolution of the tier the points were read from */
+  sourceResolutionMs: number;
+  /** Points within the range, oldest first */
+  points: SystemMetrics[];
+}
+
+/** Tier definitions, finest first */
+const TIER_DEFINITIONS: Array<{ resolutionMs: number; retentionMs: number }> = [
+  { resolutionMs: 250, retentionMs: 10 * 60 * 1000 },
+  { resolutionMs: 5000, retentionMs: 24 * 60 * 60 * 1000 },
+];
+
+/** Upper bound on points returned when no resolution is requested */
+const MAX_AUTO_POINTS = 2000;
+
+/**
+ * Rounds to two decimals, matching the precision of the live metrics.
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Aggregates raw samples into one point at the given timestamp.
+ *
+ * @param samples - Samples in the bucket (non-empty, oldest first)
+ * @param timestamp - Bucket start time
+ * @returns Aggregated snapshot
+ */
+function aggregate(samples: SystemMetrics[], timestamp: Date): SystemMetrics {
+  const last = samples[samples.length - 1];
+  const avg = (pick: (m: SystemMetrics) => number): number =>
+    round2(samples.reduce((sum, m) => sum + pick(m), 0) / samples.length);
+  const max = (pick: (m: SystemMetrics) => number): number => Math.max(...samples.map(pick));
+  const min = (pick: (m: SystemMetrics) => number): number => Math.min(...samples.map(pick));
+
+  return {
+    timestamp,
+    cpu: {
+      usagePercent: avg((m) => m.cpu.usagePercent),
+      user: last.cpu.user,
+      system: last.cpu.system,
+    },
+    memory: {
+      heapUsedMb: avg((m) => m.memory.heapUsedMb),
+      heapTotalMb: avg((m) => m.memory.heapTotalMb),
+      rssMb: avg((m) => m.memory.rssMb),
+      externalMb: avg((m) => m.memory.externalMb),
+      totalSystemMb: last.memory.totalSystemMb,
+    },
+    eventLoop: {
+      lagMs: avg((m) => m.eventLoop.lagMs),
+      heartbeatLagMs: max((m) => m.eventLoop.heartbeatLagMs),
+      lagP99Ms: max((m) => m.eventLoop.lagP99Ms),
+      minMs: min((m) => m.eventLoop.minMs),
+      maxMs: max((m) => m.eventLoop.maxMs),
+      idleMs: round2(samples.reduce((sum, m) => sum + m.eventLoop.idleMs, 0)),
+      activeMs: round2(samples.reduce((sum, m) => sum + m.eventLoop.activeMs, 0)),
+      utilization: eventLoopUtilization(samples),
+    },
+    process: {
+      pid: last.process.pid,
+      activeHandles: Math.round(avg((m) => m.process.activeHandles)),
+      activeRequests: Math.round(avg((m) => m.process.activeRequests)),
+      uptime: last.process.uptime,
+    },
+    container: aggregateContainer(samples),
+    gc: aggregateGc(samples),
+    threadPool: {
+      poolSize: last.threadPool.poolSize,
+      probeLatencyMs: max((m) => m.threadPool.probeLatencyMs),
+      probeLatencyMaxMs: max((m) => m.threadPool.probeLatencyMaxMs),
+      probes: samples.reduce((sum, m) => sum + m.threadPool.probes, 0),
+      probePending: last.threadPool.probePending,
+    },
+  };
+}
+
+/**
+ * Utilization over a bucket: total active time over total time, so that
+ * longer intervals weigh more than a plain average would give them.
+ *
+ * @param samples - Samples in the bucket (non-empty, oldest first)
+ * @returns Utilization ratio (0-1)
+ */
+function eventLoopUtilization(samples: SystemMetrics[]): number {
+  const active = samples.reduce((sum, m) => sum + m.eventLoop.activeMs, 0);
+  const idle = samples.reduce((sum, m) => sum + m.eventLoop.idleMs, 0);
+  return active + idle > 0 ? Math.round((active / (active + idle)) * 1000) / 1000 : 0;
+}
+
+/**
+ * Aggregates the container metrics of a bucket: averages for usage, sums
+ * for the per-interval throttling counts, latest values for totals and limits.
+ *
+ * @param samples - Samples in the bucket (non-empty, oldest first)
+ * @returns Aggregated container metrics, or null if the latest sample has none
+ */
+function aggregateContainer(samples: SystemMetrics[]): ContainerMetrics | null {
+  const last = samples[samples.length - 1].container;
+  const withContainer = samples
+    .map((m) => m.container)
+    .filter((c): c is ContainerMetrics => c !== null);
+  if (!last) {
+    return null;
+  }
+  const avg = (pick: (c: ContainerMetrics) => number): number =>
+    round2(withContainer.reduce((sum, c) => sum + pick(c), 0) / withContainer.length);
+  const sum = (pick: (c: ContainerMetrics) => number): number =>
+    round2(withContainer.reduce((total, c) => total + pick(c), 0));
+
+  return {
+    ...last,
+    cpuUsagePercent: avg((c) => c.cpuUsagePercent),
+    throttledPeriods: sum((c) => c.throttledPeriods),
+    throttledTimeMs: sum((c) => c.throttledTimeMs),
+  };
+}
+
+/**
+ * Aggregates the GC metrics of a bucket: sums for the per-interval counts
+ * and pauses, the longest pause, latest values for totals and heap spaces.
+ *
+ * @param samples - Samples in the bucket (non-empty, oldest first)
+ * @returns Aggregated GC metrics
+ */
+function aggregateGc(samples: SystemMetrics[]): GcMetrics {
+  const last = samples[samples.length - 1].gc;
+  const byKind = { ...last.byKind };
+  for (const kind of Object.keys(byKind) as GcKind[]) {
+    byKind[kind] = {
+      ...last.byKind[kind],
+      count: samples.reduce((total, m) => total + m.gc.byKind[kind].count, 0),
+      pauseMs: round2(samples.reduce((total, m) => total + m.gc.byKind[kind].pauseMs, 0)),
+    };
+  }
+
+  return {
+    byKind,
+    maxPauseMs: Math.max(...samples.map((m) => m.gc.maxPauseMs)),
+    heapSpaces: last.heapSpaces,
+  };
+}
+
+/**
+ * Groups points into buckets of resolutionMs and aggregates each bucket.
+ *
+ * @param points - Points, oldest first
+ * @param resolutionMs - Bucket width
+ * @returns Aggregated points, oldest first
+ */
+function downsample(points: SystemMetrics[], resolutionMs: number): SystemMetrics[] {
+  const result: SystemMetrics[] = [];
+  let bucket: SystemMetrics[] = [];
+  let bucketStart = -1;
+
+  for (const point of points) {
+    const start = Math.floor(point.timestamp.getTime() / resolutionMs) * resolutionMs;
+    if (start !== bucketStart && bucket.length > 0) {
+      result.push(aggregate(bucket, new Date(bucketStart)));
+      bucket = [];
+    }
+    bucketStart = start;
+    bucket.push(point);
+  }
+  if (bucket.length > 0) {
+    result.push(aggregate(bucket, new Date(bucketStart)));
+  }
+
+  return result;
+}
+
+/**
+ * Service that records metrics snapshots into downsampled tiers and answers
+ * time-range queries.
+ */
+class MetricsHistoryServiceClass {
+  private tiers: HistoryTier[] = this.createTiers();
+
+  /**
+   * Records one snapshot into every tier. Called by the broadcast loop.
+   *
+   * @param metrics - Snapshot from MetricsService.getMetrics()
+   */
+  record(metrics: SystemMetrics): void {
+    const time = metrics.timestamp.getTime();
+
+    for (const tier of this.tiers) {
+      const bucketStart = Math.floor(time / tier.resolutionMs) * tier.resolutionMs;
+
+      if (bucketStart !== tier.pendingBucketStart && tier.pending.length > 0) {
+        tier.points.push(aggregate(tier.pending, new Date(tier.pendingBucketStart)));
+        tier.pending = [];
+      }
+      tier.pendingBucketStart = bucketStart;
+      tier.pending.push(metrics);
+
+      // Drop points that fell out of this tier's retention window
+      const cutoff = time - tier.retentionMs;
+      while (tier.points.length > 0 && tier.points[0].timestamp.getTime() < cutoff) {
+        tier.points.shift();
+      }
+    }
+  }
+
+  /**
+   * Returns history points within [from, to].
+   *
+   * Reads from the finest tier whose retention still covers `from` (falling
+   * back to the coarsest tier). Without a requested resolution, the result
+   * is downsampled further only as needed to stay within MAX_AUTO_POINTS.
+   *
+   * @param from - Range start
+   * @param to - Range end
+   * @param resolutionMs - Optional requested resolution (never finer than the tier)
+   * @returns Points and the effective resolution
+   */
+  query(from: Date, to: Date, resolutionMs?: number): MetricsHistoryQueryResult {
+    const now = Date.now();
+    const tier =
+      this.tiers.find((t) => from.getTime() >= now - t.retentionMs) ??
+      this.tiers[this.tiers.length - 1];
+
+    let effectiveResolutionMs: number;
+    if (resolutionMs !== undefined) {
+      effectiveResolutionMs = Math.max(tier.resolutionMs, resolutionMs);
+    } else {
+      const rangeMs = Math.max(0, to.getTime() - from.getTime());
+      const bucketsNeeded = Math.ceil(rangeMs / MAX_AUTO_POINTS / tier.resolutionMs);
+      effectiveResolutionMs = Math.max(1, bucketsNeeded) * tier.resolutionMs;
+    }
+
+    const current =
+      tier.pending.length > 0 ? [aggregate(tier.pending, new Date(tier.pendingBucketStart))] : [];
+    const inRange = [...tier.points, ...current].filter((point) => {
+      const time = point.timestamp.getTime();
+      return time >= from.getTime() && time <= to.getTime();
+    });
+
+    return {
+      resolutionMs: effectiveResolutionMs,
+      sourceResolutionMs: tier.resolutionMs,
+      points:
+        effectiveResolutionMs === tier.resolutionMs
+          ? inRange
+          : downsample(inRange, effectiveResolutionMs),
+    };
+  }
+
+  /**
+   * Describes the configured tiers (resolution, retention, stored points).
+   *
+   * @returns Tier summaries, finest first
+   */
+  getTiers(): Array<{ resolutionMs: number; retentionMs: number; points: number }> {
+    return this.tiers.map((tier) => ({
+      resolutionMs: tier.resolutionMs,
+      retentionMs: tier.retentionMs,
+      points: tier.points.length + (tier.pending.length > 0 ? 1 : 0),
+    }));
+  }
+
+  /**
+   * Clears all history. Useful for testing.
+   */
+  clear(): void {
+    this.tiers = this.createTiers();
+  }
+
+  /**
+   * Builds empty tiers from TIER_DEFINITIONS.
+   */
+  private createTiers(): HistoryTier[] {
+    return TIER_DEFINITIONS.map((definition) => ({
+      ...definition,
+      points: [],
+      pending: [],
+      pendingBucketStart: -1,
+    }));
+  }
+}
+
+/**
+ * Singleton instance of the MetricsHistoryService.
+ */
+export const MetricsHistoryService = new MetricsHistoryServiceClass();
@@ -16,11 +16,20 @@
  *   3. Event Loop Lag — Two measurements:
  *      a) Histogram mean from perf_hooks.monitorEventLoopDelay (precise but averaged)
  *      b) Heartbeat lag: wall-clock time for setImmediate callback (intuitive, real-time)
+ *      plus utilization: idle/active time and their ratio per interval from
+ *      performance.eventLoopUtilization() deltas.
  *   4. Process — PID (for restart detection), handles, requests, uptime.
+ *   5. Container — CPU %, throttling and working set against the cgroup's
+ *      quota and limit (ContainerMetricsService), null outside containers.
+ *   6. Garbage Collection — count and pause time per GC kind from a
+ *      PerformanceObserver on 'gc' entries, the longest pause, and V8 heap
+ *      space sizes (v8.getHeapSpaceStatistics).
+ *   7. Thread Pool — libuv queue wait from ThreadPoolProbeService.
  *
  * SINGLETON PATTERN:
  *   Instantiated once at module load time. The constructor starts the event loop
- *   histogram and heartbeat monitor which run for the lifetime of the process.
+ *   histogram, heartbeat monitor and GC observer which run for the lifetime of
+ *   the process.
  *
  * PORTING NOTES:
  *   - Java: Create a MetricsService bean with @Scheduled collection.
@@ -34,20 +43,65 @@
  * @module services/metrics
  */
 
-import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+import {
+  monitorEventLoopDelay,
+  IntervalHistogram,
+  PerformanceObserver,
+  PerformanceEntry,
+  NodeGCPerformanceDetail,
+  EventLoopUtilization,
+  constants,
+  performance,
+} from 'perf_hooks';
 import * as os from 'os';
+import * as v8 from 'v8';
 import {
   SystemMetrics,
   CpuMetrics,
   MemoryMetrics,
   EventLoopMetrics,
   ProcessMetrics,
+  GcKind,
+  GcKindMetrics,
+  GcMetrics,
 } from '../types';
 import { bytesToMb, nsToMs } from '../utils';
+import { ContainerMetricsService } from './container-metrics.service';
+import { ThreadPoolProbeService } from './threadpool-probe.service';
 
 // Log memory info on startup
 console.log(`[Metrics] Host memory available: ${bytesToMb(os.totalmem()).toFixed(0)} MB`);
 
+/**
+ * Maps the `kind` of perf_hooks 'gc' entries to GC kind names.
+ */
+const GC_KINDS: Record<number, GcKind> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: 'scavenge',
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: 'markSweepCompact',
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: 'incremental',
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: 'weakCallbacks',
+};
+
+/**
+ * Creates zeroed GC counters for every kind.
+ */
+function emptyGcStats(): Record<GcKind, GcKindMetrics> {
+  const empty = (): GcKindMetrics => ({ count: 0, pauseMs: 0, countTotal: 0, pauseMsTotal: 0 });
+  return {
+    scavenge: empty(),
+    markSweepCompact: empty(),
+    incremental: empty(),
+    weakCallbacks: empty(),
+  };
+}
+
+/**
+ * Rounds to 2 decimal places.
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 /**
  * Snapshot of CPU times for calculating usage between intervals.
  */
@@ -63,6 +117,9 @@ interface CpuSnapshot {
  *   - lastCpuSnapshot: Previous CPU times for percentage calculation
  *   - histogram: Running event loop delay histogram (reset-able)
  *   - heartbeatLagMs: Latest setImmediate timing measurement
+ *   - lastElu: Previous event loop utilization reading for per-interval deltas
+ *   - gcStats/gcMaxPauseMs: GC counters fed by the PerformanceObserver; the
+ *     interval fields are reset each time getGcMetrics() reports them
  *
  * All methods are synchronous (no async I/O) so they can be called
  * from a setInterval without introducing concurrency issues.
@@ -70,11 +127,19 @@ interface CpuSnapshot {
 class MetricsServiceClass {
   private histogram: IntervalHistogram;
   private lastCpuSnapshot: CpuSnapshot | null = null;
+  private lastMetrics: SystemMetrics | null = null;
   
   // Real-time heartbeat lag measurement
   // This measures actual time for setImmediate to fire, showing real blocking
   private heartbeatLagMs: number = 0;
 
+  // Cumulative event loop utilization at the previous collection
+  private lastElu: EventLoopUtilization = performance.eventLoopUtilization();
+
+  // GC counters, updated by the PerformanceObserver callback
+  private gcStats = emptyGcStats();
+  private gcMaxPauseMs = 0;
+
   constructor() {
     // Initialize event loop delay histogram with 10ms resolution
     this.histogram = monitorEventLoopDelay({ resolution: 10 });
@@ -85,6 +150,9 @@ class MetricsServiceClass {
     
     // Start heartbeat measurement
     this.startHeartbeat();
+
+    // Start counting garbage collections
+    this.startGcObserver();
   }
   
   /**
@@ -144,6 +212,39 @@ class MetricsServiceClass {
     measureHeartbeat();
   }
 
+  /**
+   * Starts observing garbage collections.
+   *
+   * V8 reports every collection as a perf_hooks 'gc' entry whose duration is
+   * the pause and whose detail.kind says which collector ran. Entries are
+   * delivered in batches after the GC, never during it, so counting them
+   * does not add to the pause being measured.
+   *
+   * PORTING NOTES:
+   *   - Java: GarbageCollectorMXBean notifications (GARBAGE_COLLECTION_NOTIFICATION)
+   *   - C#: EventListener on the Microsoft-Windows-DotNETRuntime GC events
+   *   - Python: gc.callbacks ('start'/'stop' phases)
+   */
+  private startGcObserver(): void {
+    const observer = new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) {
+        // 'gc' entries carry a NodeGCPerformanceDetail, which the base type omits
+        const { detail } = entry as PerformanceEntry & { detail?: NodeGCPerformanceDetail };
+        const kind = detail ? GC_KINDS[detail.kind] : undefined;
+        if (!kind) {
+          continue;
+        }
+        const stats = this.gcStats[kind];
+        stats.count++;
+        stats.countTotal++;
+        stats.pauseMs += entry.duration;
+        stats.pauseMsTotal += entry.duration;
+        this.gcMaxPauseMs = Math.max(this.gcMaxPauseMs, entry.duration);
+      }
+    });
+    observer.observe({ entryTypes: ['gc'] });
+  }
+
   /**
    * Collects current CPU metrics using system-wide measurement.
    * This captures CPU usage from all processes including forked workers.
@@ -201,12 +302,55 @@ class MetricsServiceClass {
    * @returns Event loop metrics
    */
   getEventLoopMetrics(): EventLoopMetrics {
+    // Passing the previous reading returns only the time since it was taken
+    const elu = performance.eventLoopUtilization();
+    const delta = performance.eventLoopUtilization(elu, this.lastElu);
+    this.lastElu = elu;
+
     return {
       lagMs: nsToMs(this.histogram.mean),
       heartbeatLagMs: this.heartbeatLagMs,
       lagP99Ms: nsToMs(this.histogram.percentile(99)),
       minMs: nsToMs(this.histogram.min),
       maxMs: nsToMs(this.histogram.max),
+      idleMs: round2(delta.idle),
+      activeMs: round2(delta.active),
+      utilization: Math.round(delta.utilization * 1000) / 1000,
+    };
+  }
+
+  /**
+   * Collects garbage collection metrics since the previous call, plus
+   * current heap space sizes.
+   *
+   * @returns GC metrics
+   */
+  getGcMetrics(): GcMetrics {
+    const byKind = emptyGcStats();
+    for (const kind of Object.keys(byKind) as GcKind[]) {
+      const stats = this.gcStats[kind];
+      byKind[kind] = {
+        count: stats.count,
+        pauseMs: round2(stats.pauseMs),
+        countTotal: stats.countTotal,
+        pauseMsTotal: round2(stats.pauseMsTotal),
+      };
+      stats.count = 0;
+      stats.pauseMs = 0;
+    }
+    const maxPauseMs = round2(this.gcMaxPauseMs);
+    this.gcMaxPauseMs = 0;
+
+    return {
+      byKind,
+      maxPauseMs,
+      heapSpaces: v8.getHeapSpaceStatistics().map((space) => ({
+        name: space.space_name,
+        sizeMb: bytesToMb(space.space_size),
+        usedMb: bytesToMb(space.space_used_size),
+        availableMb: bytesToMb(space.space_available_size),
+        physicalMb: bytesToMb(space.physical_space_size),
+      })),
     };
   }
 
@@ -227,18 +371,39 @@ class MetricsServiceClass {
   }
 
   /**
-   * Collects all system metrics.
+   * Collects all system metrics, starting a new measurement interval for the
+   * per-interval values (CPU usage, event loop utilization, GC counts and
+   * pauses, container CPU and throttling). Only the metrics broadcast loop
+   * calls this; everything else reads getLastMetrics().
    *
    * @returns Complete system metrics snapshot
    */
   getMetrics(): SystemMetrics {
-    return {
+    this.lastMetrics = {
       timestamp: new Date(),
       cpu: this.getCpuMetrics(),
       memory: this.getMemoryMetrics(),
       eventLoop: this.getEventLoopMetrics(),
       process: this.getProcessMetrics(),
+      container: ContainerMetricsService.getMetrics(),
+      gc: this.getGcMetrics(),
+      threadPool: ThreadPoolProbeService.getMetrics(),
     };
+    return this.lastMetrics;
+  }
+
+  /**
+   * Returns the most recently collected snapshot without collecting a new one.
+   *
+   * Per-interval values are deltas between getMetrics() calls, so pull-based
+   * readers (REST endpoints, a Prometheus scrape) use this to avoid shrinking
+   * the broadcast loop's measurement window. Falls back to a fresh collection
+   * before the first tick.
+   *
+   * @returns Latest system metrics snapshot
+   */
+  getLastMetrics(): SystemMetrics {
+    return this.lastMetrics ?? this.getMetrics();
   }
 
   /**
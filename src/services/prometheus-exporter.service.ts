@@ -0,0 +1,454 @@
+/**
+ * =============================================================================
+ * PROMETHEUS EXPORTER SERVICE — Text Exposition of Simulator Metrics
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Renders the simulator's metrics in the Prometheus text exposition format
+ *   (version 0.0.4) so they can be scraped and graphed in Grafana without
+ *   Application Insights. Served by GET /metrics.
+ *
+ * METRICS EXPORTED (all prefixed perfsim_):
+ *   - SystemMetrics (cpu, memory, eventLoop, process, container, gc, threadPool)
+ *     as gauges/counters, read from the latest broadcast snapshot
+ *     (MetricsService.getLastMetrics)
+ *   - LoadTestStats lifetime counters and gauges
+ *   - Active simulation count per SimulationType (every type, zeros included)
+ *   - Sidecar probe latency as a histogram, fed from the sidecar IPC messages
+ *
+ * UNITS:
+ *   Prometheus convention is base units — seconds and bytes. The internal
+ *   metrics are in ms and MB, so values are converted on the way out.
+ *
+ * WHY HAND-WRITTEN:
+ *   The exposition format is a few lines of text per metric; a client library
+ *   would add a dependency and a second registry for values that already live
+ *   in MetricsService and LoadTestService.
+ *
+ * PORTING NOTES:
+ *   - Java: Micrometer + micrometer-registry-prometheus (/actuator/prometheus)
+ *   - C#: prometheus-net (app.UseMetricServer()) or OpenTelemetry Prometheus exporter
+ *   - Python: prometheus_client (generate_latest())
+ *
+ * @module services/prometheus-exporter
+ */
+
+import { SimulationType } from '../types';
+import { MetricsService } from './metrics.service';
+import { LoadTestService } from './load-test.service';
+import { SimulationTrackerService } from './simulation-tracker.service';
+import { APP_VERSION } from '../config';
+import { mbToBytes } from '../utils';
+
+/** Content-Type for the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Upper bounds (seconds) for the sidecar probe latency histogram.
+ * Spans an idle probe (~5ms) up to the sidecar's probe timeout range.
+ */
+const PROBE_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricKind = 'gauge' | 'counter' | 'histogram';
+
+/**
+ * Builds one metric family (HELP, TYPE and samples) in exposition format.
+ */
+class MetricWriter {
+  private lines: string[] = [];
+
+  /**
+   * Starts a metric family.
+   *
+   * @param name - Metric name
+   * @param kind - Metric type
+   * @param help - HELP description
+   */
+  family(name: string, kind: MetricKind, help: string): this {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${kind}`);
+    return this;
+  }
+
+  /**
+   * Adds a sample line.
+   *
+   * @param name - Sample name (family name plus optional _bucket/_sum/_count suffix)
+   * @param value - Sample value
+   * @param labels - Optional labels
+   */
+  sample(name: string, value: number, labels?: Record<string, string>): this {
+    const labelText = labels
+      ? `{${Object.entries(labels)
+          .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+          .join(',')}}`
+      : '';
+    this.lines.push(`${name}${labelText} ${formatValue(value)}`);
+    return this;
+  }
+
+  /**
+   * Shorthand for a family with a single unlabelled sample.
+   */
+  single(name: string, kind: MetricKind, help: string, value: number): this {
+    return this.family(name, kind, help).sample(name, value);
+  }
+
+  /**
+   * @returns The rendered exposition text (trailing newline included)
+   */
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Escapes a label value per the exposition format (backslash, quote, newline).
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats a sample value; Prometheus spells infinities as +Inf/-Inf.
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Prometheus Exporter Service
+ *
+ * Holds the only state that is not already tracked elsewhere — the sidecar
+ * probe latency histogram — and renders everything else on demand.
+ */
+class PrometheusExporterServiceClass {
+  private probeBucketCounts: number[] = PROBE_LATENCY_BUCKETS.map(() => 0);
+  private probeLatencySumSeconds = 0;
+  private probeLatencyCount = 0;
+
+  /**
+   * Records one sidecar probe latency measurement in the histogram.
+   *
+   * @param latencyMs - Probe round-trip time in milliseconds
+   */
+  observeProbeLatency(latencyMs: number): void {
+    const seconds = latencyMs / 1000;
+    PROBE_LATENCY_BUCKETS.forEach((upperBound, index) => {
+      if (seconds <= upperBound) {
+        this.probeBucketCounts[index]++;
+      }
+    });
+    this.probeLatencySumSeconds += seconds;
+    this.probeLatencyCount++;
+  }
+
+  /**
+   * Renders all metrics in Prometheus text exposition format.
+   *
+   * @returns Exposition text
+   */
+  render(): string {
+    const metrics = MetricsService.getLastMetrics();
+    const loadTest = LoadTestService.getCurrentStats();
+    const writer = new MetricWriter();
+
+    writer
+      .family('perfsim_app_info', 'gauge', 'Application version information')
+      .sample('perfsim_app_info', 1, { version: APP_VERSION });
+
+    // ---- CPU ----
+    writer
+      .single(
+        'perfsim_cpu_usage_percent',
+        'gauge',
+        'System-wide CPU usage percentage across all cores (includes worker processes)',
+        metrics.cpu.usagePercent
+      )
+      .single(
+        'perfsim_process_cpu_user_seconds_total',
+        'counter',
+        'User CPU time consumed by the main process',
+        metrics.cpu.user / 1e6
+      )
+      .single(
+        'perfsim_process_cpu_system_seconds_total',
+        'counter',
+        'System CPU time consumed by the main process',
+        metrics.cpu.system / 1e6
+      );
+
+    // ---- Memory ----
+    writer
+      .single(
+        'perfsim_memory_heap_used_bytes',
+        'gauge',
+        'V8 heap memory used',
+        mbToBytes(metrics.memory.heapUsedMb)
+      )
+      .single(
+        'perfsim_memory_heap_total_bytes',
+        'gauge',
+        'V8 heap memory reserved',
+        mbToBytes(metrics.memory.heapTotalMb)
+      )
+      .single(
+        'perfsim_memory_rss_bytes',
+        'gauge',
+        'Resident set size of the main process',
+        mbToBytes(metrics.memory.rssMb)
+      )
+      .single(
+        'perfsim_memory_external_bytes',
+        'gauge',
+        'Memory held by native (C++) objects outside the V8 heap',
+        mbToBytes(metrics.memory.externalMb)
+      )
+      .single(
+        'perfsim_memory_system_total_bytes',
+        'gauge',
+        'Total physical memory on the host',
+        mbToBytes(metrics.memory.totalSystemMb)
+      );
+
+    // ---- Event loop ----
+    writer
+      .single(
+        'perfsim_event_loop_lag_seconds',
+        'gauge',
+        'Mean event loop delay from the perf_hooks histogram',
+        metrics.eventLoop.lagMs / 1000
+      )
+      .single(
+        'perfsim_event_loop_lag_p99_seconds',
+        'gauge',
+        '99th percentile event loop delay',
+        metrics.eventLoop.lagP99Ms / 1000
+      )
+      .single(
+        'perfsim_event_loop_lag_min_seconds',
+        'gauge',
+        'Minimum observed event loop delay',
+        metrics.eventLoop.minMs / 1000
+      )
+      .single(
+        'perfsim_event_loop_lag_max_seconds',
+        'gauge',
+        'Maximum observed event loop delay',
+        metrics.eventLoop.maxMs / 1000
+      )
+      .single(
+        'perfsim_event_loop_heartbeat_lag_seconds',
+        'gauge',
+        'Wall-clock time for a setImmediate callback to fire',
+        metrics.eventLoop.heartbeatLagMs / 1000
+      )
+      .single(
+        'perfsim_event_loop_utilization_ratio',
+        'gauge',
+        'Fraction of time the event loop spent running callbacks over the last interval',
+        metrics.eventLoop.utilization
+      );
+
+    // ---- Process ----
+    writer
+      .single('perfsim_process_pid', 'gauge', 'Process ID of the main process', metrics.process.pid)
+      .single(
+        'perfsim_process_active_handles',
+        'gauge',
+        'Active libuv handles (sockets, timers)',
+        metrics.process.activeHandles
+      )
+      .single(
+        'perfsim_process_active_requests',
+        'gauge',
+        'Active libuv requests',
+        metrics.process.activeRequests
+      )
+      .single('perfsim_process_uptime_seconds', 'gauge', 'Process uptime', metrics.process.uptime);
+
+    // ---- libuv thread pool ----
+    writer
+      .single(
+        'perfsim_threadpool_size',
+        'gauge',
+        'Configured libuv thread pool size (UV_THREADPOOL_SIZE)',
+        metrics.threadPool.poolSize
+      )
+      .single(
+        'perfsim_threadpool_probe_latency_seconds',
+        'gauge',
+        'Queue wait of the latest no-op thread pool probe',
+        metrics.threadPool.probeLatencyMs / 1000
+      );
+
+    // ---- Garbage collection ----
+    writer.family(
+      'perfsim_gc_collections_total',
+      'counter',
+      'Garbage collections since start by GC kind'
+    );
+    for (const [kind, stats] of Object.entries(metrics.gc.byKind)) {
+      writer.sample('perfsim_gc_collections_total', stats.countTotal, { kind });
+    }
+    writer.family(
+      'perfsim_gc_pause_seconds_total',
+      'counter',
+      'Time the main thread was paused for garbage collection by GC kind'
+    );
+    for (const [kind, stats] of Object.entries(metrics.gc.byKind)) {
+      writer.sample('perfsim_gc_pause_seconds_total', stats.pauseMsTotal / 1000, { kind });
+    }
+    writer.family('perfsim_heap_space_size_bytes', 'gauge', 'V8 heap space size by space');
+    for (const space of metrics.gc.heapSpaces) {
+      writer.sample('perfsim_heap_space_size_bytes', mbToBytes(space.sizeMb), {
+        space: space.name,
+      });
+    }
+    writer.family('perfsim_heap_space_used_bytes', 'gauge', 'V8 heap space used by space');
+    for (const space of metrics.gc.heapSpaces) {
+      writer.sample('perfsim_heap_space_used_bytes', mbToBytes(space.usedMb), {
+        space: space.name,
+      });
+    }
+
+    // ---- Container (cgroup) — only inside containers with cgroup accounting ----
+    const container = metrics.container;
+    if (container) {
+      writer
+        .single(
+          'perfsim_container_cpu_usage_percent',
+          'gauge',
+          'Container CPU usage as a percentage of its CPU quota (or host cores without one)',
+          container.cpuUsagePercent
+        )
+        .single(
+          'perfsim_container_cpu_limit_cores',
+          'gauge',
+          'Container CPU quota in cores (host cores without a quota)',
+          container.cpuLimitCores
+        )
+        .single(
+          'perfsim_container_cpu_throttled_periods_total',
+          'counter',
+          'CFS periods in which the container was throttled',
+          container.throttledPeriodsTotal
+        )
+        .single(
+          'perfsim_container_cpu_throttled_seconds_total',
+          'counter',
+          'Time the container was throttled by its CPU quota',
+          container.throttledTimeMsTotal / 1000
+        );
+      if (container.memoryUsageMb !== null) {
+        writer.single(
+          'perfsim_container_memory_working_set_bytes',
+          'gauge',
+          'Container memory usage minus inactive file cache',
+          mbToBytes(container.memoryUsageMb)
+        );
+      }
+      if (container.memoryLimitMb !== null) {
+        writer.single(
+          'perfsim_container_memory_limit_bytes',
+          'gauge',
+          'Container memory limit',
+          mbToBytes(container.memoryLimitMb)
+        );
+      }
+    }
+
+    // ---- Load test ----
+    writer
+      .single(
+        'perfsim_loadtest_concurrent_requests',
+        'gauge',
+        'Load test requests currently in flight',
+        loadTest.currentConcurrentRequests
+      )
+      .single(
+        'perfsim_loadtest_requests_total',
+        'counter',
+        'Load test requests processed since start',
+        loadTest.totalRequestsProcessed
+      )
+      .single(
+        'perfsim_loadtest_exceptions_total',
+        'counter',
+        'Random exceptions thrown by load test requests since start',
+        loadTest.totalExceptionsThrown
+      )
+      .single(
+        'perfsim_loadtest_average_response_time_seconds',
+        'gauge',
+        'Average load test response time since start',
+        loadTest.averageResponseTimeMs / 1000
+      );
+
+    // ---- Simulations ----
+    writer.family('perfsim_active_simulations', 'gauge', 'Active simulations by simulation type');
+    for (const [type, count] of Object.entries(this.countActiveSimulations())) {
+      writer.sample('perfsim_active_simulations', count, { type });
+    }
+
+    // ---- Sidecar probe latency ----
+    writer.family(
+      'perfsim_sidecar_probe_latency_seconds',
+      'histogram',
+      'Round-trip latency of sidecar probes to /api/metrics/probe'
+    );
+    PROBE_LATENCY_BUCKETS.forEach((upperBound, index) => {
+      writer.sample('perfsim_sidecar_probe_latency_seconds_bucket', this.probeBucketCounts[index], {
+        le: String(upperBound),
+      });
+    });
+    writer
+      .sample('perfsim_sidecar_probe_latency_seconds_bucket', this.probeLatencyCount, {
+        le: '+Inf',
+      })
+      .sample('perfsim_sidecar_probe_latency_seconds_sum', this.probeLatencySumSeconds)
+      .sample('perfsim_sidecar_probe_latency_seconds_count', this.probeLatencyCount);
+
+    return writer.toString();
+  }
+
+  /**
+   * Resets the probe latency histogram. Useful for testing.
+   */
+  reset(): void {
+    this.probeBucketCounts = PROBE_LATENCY_BUCKETS.map(() => 0);
+    this.probeLatencySumSeconds = 0;
+    this.probeLatencyCount = 0;
+  }
+
+  /**
+   * Counts active simulations for every SimulationType, so series exist
+   * (at 0) before the first simulation of a type is started.
+   */
+  private countActiveSimulations(): Record<SimulationType, number> {
+    const counts: Record<SimulationType, number> = {
+      CPU_STRESS: 0,
+      MEMORY_PRESSURE: 0,
+      MEMORY_LEAK: 0,
+      EVENT_LOOP_BLOCKING: 0,
+      SLOW_REQUEST: 0,
+      FAILED_REQUEST: 0,
+      CRASH_EXCEPTION: 0,
+      CRASH_MEMORY: 0,
+      CRASH_FAILFAST: 0,
+      CRASH_STACKOVERFLOW: 0,
+    };
+
+    for (const simulation of SimulationTrackerService.getActiveSimulations()) {
+      counts[simulation.type]++;
+    }
+
+    return counts;
+  }
+}
+
+/**
+ * Singleton instance of the PrometheusExporterService.
+ */
+export const PrometheusExporterService = new PrometheusExporterServiceClass();
@@ -0,0 +1,133 @@
+/**
+ * =============================================================================
+ * QUOTA SERVICE — Per-Client Simulation Concurrency and Start Rate Limits
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   In a shared training lab one trainee hammering "start" can starve the
+ *   instance for everyone else. Before a simulation starts, checkStart()
+ *   enforces three limits (each disabled when set to 0):
+ *     config.quotaMaxActivePerType   → active simulations of a type, all clients
+ *     config.quotaMaxActivePerClient → active simulations of a type, one client
+ *     config.quotaStartsPerMinute    → starts per client in any 60s window
+ *   Violations throw TooManyRequestsError (HTTP 429).
+ *
+ * CLIENTS:
+ *   A client is AuthPrincipal.clientId: the API key fingerprint, the bearer
+ *   token fingerprint plus the caller's IP address, or the IP address alone
+ *   without credentials (see middleware/auth and TRUST_PROXY).
+ *   Active simulations are counted from SimulationTrackerService, which
+ *   records the client that started each one (see runAsClient()).
+ *
+ * RATE WINDOW:
+ *   Sliding window of start timestamps per client, kept in memory. Rejected
+ *   starts are not recorded, so retrying after Retry-After succeeds.
+ *
+ * PORTING NOTES:
+ *   - Java: Bucket4j or Resilience4j RateLimiter keyed by client; a Semaphore per type.
+ *   - C#: ASP.NET Core RateLimiter (SlidingWindowRateLimiter) with a partition per client.
+ *   - Python: slowapi / limits with a moving-window strategy.
+ *   Behind multiple instances, move the window to a shared store (Redis).
+ *
+ * @module services/quota
+ */
+
+import { SimulationType } from '../types';
+import { SimulationTrackerService } from './simulation-tracker.service';
+import { TooManyRequestsError } from '../middleware/error-handler';
+import { config } from '../config';
+
+/** Length of the start rate window in milliseconds */
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Current quota settings (0 = unlimited).
+ */
+export interface QuotaLimits {
+  maxActivePerType: number;
+  maxActivePerClient: number;
+  startsPerMinute: number;
+}
+
+/**
+ * Service for enforcing simulation quotas and start rate limits.
+ */
+class QuotaServiceClass {
+  private starts: Map<string, number[]> = new Map();
+
+  /**
+   * Checks that a client may start a simulation and records the start.
+   *
+   * @param clientId - Client starting the simulation
+   * @param type - Simulation type, or undefined to apply only the rate limit
+   * @throws TooManyRequestsError if a concurrency quota or the rate limit is exceeded
+   */
+  checkStart(clientId: string, type?: SimulationType): void {
+    if (type) {
+      this.checkConcurrency(clientId, type);
+    }
+
+    const now = Date.now();
+    const recent = (this.starts.get(clientId) ?? []).filter(
+      (timestamp) => timestamp > now - RATE_WINDOW_MS
+    );
+
+    if (config.quotaStartsPerMinute > 0 && recent.length >= config.quotaStartsPerMinute) {
+      this.starts.set(clientId, recent);
+      const retryAfterSeconds = Math.max(1, Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000));
+      throw new TooManyRequestsError(
+        `Rate limit exceeded: at most ${config.quotaStartsPerMinute} simulation starts per minute`,
+        { limit: 'startsPerMinute', max: config.quotaStartsPerMinute, retryAfterSeconds }
+      );
+    }
+
+    recent.push(now);
+    this.starts.set(clientId, recent);
+  }
+
+  /**
+   * Returns the configured limits.
+   *
+   * @returns Quota settings
+   */
+  getLimits(): QuotaLimits {
+    return {
+      maxActivePerType: config.quotaMaxActivePerType,
+      maxActivePerClient: config.quotaMaxActivePerClient,
+      startsPerMinute: config.quotaStartsPerMinute,
+    };
+  }
+
+  /**
+   * Forgets all recorded starts (used by tests).
+   */
+  clear(): void {
+    this.starts.clear();
+  }
+
+  /**
+   * Throws if the type is at its global or per-client concurrency quota.
+   */
+  private checkConcurrency(clientId: string, type: SimulationType): void {
+    const active = SimulationTrackerService.getActiveSimulationsByType(type).length;
+    if (config.quotaMaxActivePerType > 0 && active >= config.quotaMaxActivePerType) {
+      throw new TooManyRequestsError(
+        `Too many active ${type} simulations (max ${config.quotaMaxActivePerType}); stop one first`,
+        { limit: 'maxActivePerType', type, active, max: config.quotaMaxActivePerType }
+      );
+    }
+
+    const own = SimulationTrackerService.getActiveSimulationsByClient(type, clientId).length;
+    if (config.quotaMaxActivePerClient > 0 && own >= config.quotaMaxActivePerClient) {
+      throw new TooManyRequestsError(
+        `You already have ${own} active ${type} simulations (max ${config.quotaMaxActivePerClient}); stop one first`,
+        { limit: 'maxActivePerClient', type, active: own, max: config.quotaMaxActivePerClient }
+      );
+    }
+  }
+}
+
+/**
+ * Singleton instance of the QuotaService.
+ */
+export const QuotaService = new QuotaServiceClass();
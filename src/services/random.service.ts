@@ -0,0 +1,150 @@
+/**
+ * =============================================================================
+ * RANDOM SERVICE — Seedable Randomness for Reproducible Runs
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Every random choice a simulation makes (load test error injection, the
+ *   exception picked from the catalog, memory payloads, CPU spikes, the slow
+ *   request blocking pattern) comes from a generator created here instead of
+ *   Math.random(), so a run can be replayed exactly from its seed.
+ *
+ * WHERE SEEDS COME FROM:
+ *   1. A "seed" query parameter or JSON body field on the request (see the
+ *      randomSeed middleware, which runs the request inside runWithSeed())
+ *   2. Otherwise the next value of the master generator, seeded from
+ *      RANDOM_SEED or, when unset, from crypto randomness at startup
+ *
+ *   Each simulation record and LoadTestResult carries the seed it used.
+ *   Sending that seed again replays the run. Setting RANDOM_SEED replays the
+ *   whole sequence of runs, as long as they are started in the same order.
+ *
+ * ALGORITHM:
+ *   mulberry32: a 32-bit state advanced by a constant and mixed with two
+ *   multiply/xorshift rounds. Fast, tiny, and good enough for simulations;
+ *   not for anything security related.
+ *
+ * PORTING NOTES:
+ *   - Java: new java.util.Random(seed) or SplittableRandom(seed)
+ *   - C#: new System.Random(seed)
+ *   - Python: random.Random(seed)
+ *   The per-request seed context maps to a request-scoped bean (Spring),
+ *   a scoped service (ASP.NET) or a contextvars.ContextVar (Python).
+ *
+ * @module services/random
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomInt } from 'crypto';
+import { config } from '../config';
+
+/** Number of distinct 32-bit values */
+const UINT32_RANGE = 2 ** 32;
+
+/**
+ * Deterministic pseudo-random number generator (mulberry32).
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * @param seed - Unsigned 32-bit seed
+   */
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Gets the next unsigned 32-bit integer.
+   *
+   * @returns Integer in [0, 2^32)
+   */
+  nextUint32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /**
+   * Gets the next number, like Math.random().
+   *
+   * @returns Number in [0, 1)
+   */
+  next(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  /**
+   * Gets the next integer below a bound.
+   *
+   * @param max - Exclusive upper bound
+   * @returns Integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+/**
+ * Service handing out seeds and seeded generators.
+ */
+class RandomServiceClass {
+  private master: SeededRandom = new SeededRandom(config.randomSeed ?? randomInt(UINT32_RANGE));
+  private seedContext = new AsyncLocalStorage<number>();
+
+  /**
+   * Gets the seed of the master generator.
+   *
+   * @returns RANDOM_SEED, or the seed picked at startup
+   */
+  getMasterSeed(): number {
+    return this.master.seed;
+  }
+
+  /**
+   * Runs fn with every seed it asks for fixed to one value.
+   *
+   * @param seed - Seed requested by the caller
+   * @param fn - Function to run (e.g. the next request handler)
+   * @returns fn's return value
+   */
+  runWithSeed<T>(seed: number, fn: () => T): T {
+    return this.seedContext.run(seed, fn);
+  }
+
+  /**
+   * Gets the seed for a new run: the requested one inside runWithSeed(),
+   * otherwise the next value of the master generator.
+   *
+   * @returns Unsigned 32-bit seed
+   */
+  nextSeed(): number {
+    return this.seedContext.getStore() ?? this.master.nextUint32();
+  }
+
+  /**
+   * Creates a generator.
+   *
+   * @param seed - Seed to replay (default: nextSeed())
+   * @returns New generator
+   */
+  createGenerator(seed: number = this.nextSeed()): SeededRandom {
+    return new SeededRandom(seed);
+  }
+
+  /**
+   * Restarts the master generator. Useful for testing.
+   *
+   * @param seed - New master seed (default: RANDOM_SEED or a random one)
+   */
+  reset(seed: number = config.randomSeed ?? randomInt(UINT32_RANGE)): void {
+    this.master = new SeededRandom(seed);
+  }
+}
+
+/**
+ * Singleton instance of the RandomService.
+ */
+export const RandomService = new RandomServiceClass();
@@ -0,0 +1,257 @@
+/**
+ * =============================================================================
+ * REQUEST METRICS SERVICE — Rate, Errors and Duration per Route
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   The dashboard's latency monitor times one probe endpoint, and the request
+ *   logger only prints lines. This service aggregates every API request by
+ *   method and Express route template (/api/scenarios/:id, not each id) so
+ *   trainees can see which endpoint degrades during a scenario.
+ *   Fed by the requestMetrics middleware; served by GET /api/metrics/requests
+ *   and broadcast as the 'requestMetrics' Socket.IO event.
+ *
+ * WHAT IS KEPT PER ROUTE:
+ *   - Totals since start: requests, 5xx errors, responses per status class
+ *   - A sliding window of WINDOW_SLOTS slots of SLOT_SECONDS each: request
+ *     and error counts plus an HDR-style latency histogram per slot. Rates
+ *     and percentiles come from the slots inside the window, so a route that
+ *     recovers stops looking slow once its bad minute has passed.
+ *   - In-flight requests, resolved to a route when the snapshot is taken
+ *     (the route is only known once Express has matched it)
+ *
+ * CARDINALITY:
+ *   Keys are route templates, so the number of series is bounded by the
+ *   routes the app defines. API requests that match no route (404s, requests
+ *   rejected by authentication) share the "(unmatched)" route. As a backstop
+ *   against keys built from client input, routes beyond MAX_ROUTES share the
+ *   "(other)" route instead of adding series.
+ *
+ * PORTING NOTES:
+ *   - Java: Spring Boot Actuator records http.server.requests per uri template.
+ *   - C#: ASP.NET Core emits http.server.request.duration tagged by http.route.
+ *   - Python: starlette/FastAPI middleware reading request.scope['route'].path.
+ *
+ * @module services/request-metrics
+ */
+
+import { LatencyHistogram } from './latency-histogram';
+import { RequestMetricsSnapshot, RouteMetrics, StatusClass } from '../types';
+import { statusClass } from '../utils';
+
+/** Length of one window slot in seconds */
+const SLOT_SECONDS = 10;
+
+/** Slots in the sliding window (window = 60s) */
+const WINDOW_SLOTS = 6;
+
+/** Route name shared by API requests that matched no route */
+export const UNMATCHED_ROUTE = '(unmatched)';
+
+/** Route name shared by routes seen after MAX_ROUTES */
+export const OVERFLOW_ROUTE = '(other)';
+
+/** Most routes tracked separately (the app defines about a hundred) */
+const MAX_ROUTES = 500;
+
+/**
+ * Method and route template of a request.
+ */
+export interface RouteKey {
+  method: string;
+  route: string;
+}
+
+/**
+ * Resolves an in-flight request to its route, or null while unknown.
+ */
+export type RouteResolver = () => RouteKey | null;
+
+/**
+ * Counts for one window slot.
+ */
+interface WindowSlot {
+  /** Slot number (epoch seconds / SLOT_SECONDS) */
+  slot: number;
+  requests: number;
+  errors: number;
+  latency: LatencyHistogram;
+}
+
+/**
+ * Everything tracked for one route.
+ */
+interface RouteStats {
+  method: string;
+  route: string;
+  requests: number;
+  errors: number;
+  statusClasses: Record<StatusClass, number>;
+  slots: WindowSlot[];
+}
+
+/**
+ * Service for aggregating per-route request metrics.
+ */
+class RequestMetricsServiceClass {
+  private routes: Map<string, RouteStats> = new Map();
+  private inFlight: Set<RouteResolver> = new Set();
+
+  /**
+   * Registers a request as in flight.
+   *
+   * @param resolveRoute - Resolves the request's route when a snapshot is taken
+   * @returns Callback to call once the request has ended
+   */
+  trackInFlight(resolveRoute: RouteResolver): () => void {
+    this.inFlight.add(resolveRoute);
+    return () => {
+      this.inFlight.delete(resolveRoute);
+    };
+  }
+
+  /**
+   * Records a completed request.
+   *
+   * @param key - Method and route template
+   * @param statusCode - Response status code
+   * @param durationMs - Time from request start to response finish
+   * @param now - Completion time in epoch ms (overridable for tests)
+   */
+  record(key: RouteKey, statusCode: number, durationMs: number, now: number = Date.now()): void {
+    const stats = this.getRouteStats(key);
+    const isError = statusCode >= 500;
+    const slot = this.currentSlot(stats, now);
+
+    stats.requests++;
+    stats.statusClasses[statusClass(statusCode)]++;
+    slot.requests++;
+    slot.latency.record(durationMs);
+    if (isError) {
+      stats.errors++;
+      slot.errors++;
+    }
+  }
+
+  /**
+   * Builds the current metrics for every route seen so far.
+   *
+   * @param now - Snapshot time in epoch ms (overridable for tests)
+   * @returns Request metrics, busiest route first
+   */
+  getSnapshot(now: number = Date.now()): RequestMetricsSnapshot {
+    const inFlightByRoute = new Map<string, number>();
+    for (const resolveRoute of this.inFlight) {
+      const key = resolveRoute();
+      if (key) {
+        // An in-flight request may be the first one seen for its route
+        this.getRouteStats(key);
+        const id = routeId(key);
+        inFlightByRoute.set(id, (inFlightByRoute.get(id) ?? 0) + 1);
+      }
+    }
+
+    const oldestSlot = Math.floor(now / 1000 / SLOT_SECONDS) - WINDOW_SLOTS + 1;
+    const routes: RouteMetrics[] = [];
+    for (const [id, stats] of this.routes) {
+      stats.slots = stats.slots.filter((slot) => slot.slot >= oldestSlot);
+      const latency = new LatencyHistogram();
+      let requests = 0;
+      let errors = 0;
+      for (const slot of stats.slots) {
+        latency.merge(slot.latency);
+        requests += slot.requests;
+        errors += slot.errors;
+      }
+
+      routes.push({
+        method: stats.method,
+        route: stats.route,
+        requests: stats.requests,
+        errors: stats.errors,
+        inFlight: inFlightByRoute.get(id) ?? 0,
+        requestsPerSecond: round2(requests / (SLOT_SECONDS * WINDOW_SLOTS)),
+        errorsPerSecond: round2(errors / (SLOT_SECONDS * WINDOW_SLOTS)),
+        statusClasses: { ...stats.statusClasses },
+        latencyMs: latency.summary(),
+      });
+    }
+
+    routes.sort((a, b) => b.requestsPerSecond - a.requestsPerSecond || b.requests - a.requests);
+    return { timestamp: new Date(now), windowSeconds: SLOT_SECONDS * WINDOW_SLOTS, routes };
+  }
+
+  /**
+   * Forgets all routes and in-flight requests. Useful for testing.
+   */
+  reset(): void {
+    this.routes.clear();
+    this.inFlight.clear();
+  }
+
+  /**
+   * Gets or creates the stats for a route.
+   */
+  private getRouteStats(key: RouteKey): RouteStats {
+    let id = routeId(key);
+    let stats = this.routes.get(id);
+    if (!stats && this.routes.size >= MAX_ROUTES) {
+      key = { method: key.method, route: OVERFLOW_ROUTE };
+      id = routeId(key);
+      stats = this.routes.get(id);
+    }
+    if (!stats) {
+      stats = {
+        method: key.method,
+        route: key.route,
+        requests: 0,
+        errors: 0,
+        statusClasses: { '1xx': 0, '2xx': 0, '3xx': 0, '4xx': 0, '5xx': 0 },
+        slots: [],
+      };
+      this.routes.set(id, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Gets or creates the window slot for a time, dropping slots that have
+   * left the window.
+   */
+  private currentSlot(stats: RouteStats, now: number): WindowSlot {
+    const slotNumber = Math.floor(now / 1000 / SLOT_SECONDS);
+    const last = stats.slots[stats.slots.length - 1];
+    if (last && last.slot === slotNumber) {
+      return last;
+    }
+
+    const slot: WindowSlot = {
+      slot: slotNumber,
+      requests: 0,
+      errors: 0,
+      latency: new LatencyHistogram(),
+    };
+    stats.slots = stats.slots.filter((s) => s.slot > slotNumber - WINDOW_SLOTS);
+    stats.slots.push(slot);
+    return slot;
+  }
+}
+
+/**
+ * Map key for a route.
+ */
+function routeId(key: RouteKey): string {
+  return `${key.method} ${key.route}`;
+}
+
+/**
+ * Rounds to 2 decimal places.
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Singleton instance of the RequestMetricsService.
+ */
+export const RequestMetricsService = new RequestMetricsServiceClass();
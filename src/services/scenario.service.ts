@@ -0,0 +1,574 @@
+/**
+ * =============================================================================
+ * SCENARIO SERVICE — Scripted, Timed Sequences of Simulations
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Runs a playbook of timed steps ("t=0 allocate 500MB, t=30s CPU high 60s,
+ *   t=60s block the event loop 10s, t=120s release") so an instructor does not
+ *   have to click each simulation at the right moment during a training session.
+ *
+ * HOW IT WORKS:
+ *   1. The validated playbook's steps are sorted by atSeconds
+ *   2. One timer per run waits for the next pending step's offset
+ *   3. When it fires, every step that is due is dispatched to its service
+ *      (CpuStressService, MemoryPressureService, EventLoopBlockService,
+ *      SlowRequestService) and the timer is re-armed for the next step.
+ *      Steps run as the client that started the run and pass the same
+ *      QuotaService and GuardrailService checks as that simulation's endpoint
+ *      (without force); a step over quota or the safe memory limit fails
+ *   4. The run completes once every step has finished
+ *
+ *   A step finishes when its service call returns: CPU_STRESS and
+ *   MEMORY_PRESSURE return as soon as the simulation has started (it keeps
+ *   running on its own); EVENT_LOOP_BLOCKING and SLOW_REQUEST return when the
+ *   block/delay ends. Steps are dispatched on schedule and never wait for an
+ *   earlier step to finish — except that nothing (including this scheduler)
+ *   runs while the event loop is blocked, so steps due during a block fire
+ *   late, exactly as any other timer would.
+ *
+ * PAUSE / ABORT:
+ *   - Pause freezes the scenario clock: no further steps are dispatched, and
+ *     time spent paused does not count towards atSeconds. Simulations that
+ *     are already running continue.
+ *   - Abort skips all pending steps and cleans up what the run started:
+ *     CPU stress is stopped and memory allocations are released. An event
+ *     loop block in progress cannot be interrupted and finishes on its own.
+ *   - A failed step fails the run, with the same cleanup as abort.
+ *
+ * Only one scenario may be running or paused at a time (HTTP 409 otherwise).
+ *
+ * PORTING NOTES:
+ *   - Java: ScheduledExecutorService with one ScheduledFuture per run.
+ *   - C#: a BackgroundService with Task.Delay and CancellationTokenSource for pause/abort.
+ *   - Python: asyncio task per run; asyncio.Event for pause.
+ *
+ * @module services/scenario
+ */
+
+import {
+  ScenarioAction,
+  ScenarioPlaybook,
+  ScenarioRun,
+  ScenarioRunStatus,
+  ScenarioStepState,
+  SimulationType,
+} from '../types';
+import { CpuStressService } from './cpu-stress.service';
+import { MemoryPressureService } from './memory-pressure.service';
+import { EventLoopBlockService } from './eventloop-block.service';
+import { SlowRequestService } from './slow-request.service';
+import { SimulationTrackerService } from './simulation-tracker.service';
+import { EventLogService } from './event-log.service';
+import { QuotaService } from './quota.service';
+import { GuardrailService } from './guardrail.service';
+import { ConflictError, NotFoundError } from '../middleware/error-handler';
+import { generateId } from '../utils';
+
+/** Finished runs kept for inspection; older ones are dropped */
+const MAX_RETAINED_RUNS = 20;
+
+/** Quota type checked before a step, as on its own endpoint (slow requests are not limited) */
+const STEP_QUOTA_TYPES: Partial<Record<ScenarioAction, SimulationType>> = {
+  CPU_STRESS: 'CPU_STRESS',
+  MEMORY_PRESSURE: 'MEMORY_PRESSURE',
+  EVENT_LOOP_BLOCKING: 'EVENT_LOOP_BLOCKING',
+};
+
+/**
+ * Scenario Service
+ *
+ * Owns the run registry and one step timer per active run.
+ */
+class ScenarioServiceClass {
+  private runs: Map<string, ScenarioRun> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Starts running a validated playbook.
+   *
+   * @param playbook - Validated playbook (see validateScenarioPlaybook)
+   * @param clientId - Client starting the run; its quotas apply to every step
+   * @returns The new run
+   * @throws ConflictError if another scenario is running or paused
+   */
+  start(playbook: ScenarioPlaybook, clientId?: string): ScenarioRun {
+    const active = this.getActiveRun();
+    if (active) {
+      throw new ConflictError(
+        `Scenario "${active.playbook.name}" is already ${active.status.toLowerCase()}`,
+        {
+          runId: active.id,
+        }
+      );
+    }
+
+    const run: ScenarioRun = {
+      id: generateId(),
+      playbook,
+      clientId: clientId ?? null,
+      status: 'RUNNING',
+      startedAt: new Date(),
+      finishedAt: null,
+      pausedAt: null,
+      totalPausedMs: 0,
+      steps: playbook.steps.map((step, index) => ({
+        index,
+        step,
+        status: 'PENDING',
+        startedAt: null,
+        finishedAt: null,
+        simulationId: null,
+        error: null,
+      })),
+    };
+
+    this.runs.set(run.id, run);
+    this.pruneFinishedRuns();
+
+    EventLogService.info(
+      'SCENARIO_STARTED',
+      `Scenario "${playbook.name}" started (${playbook.steps.length} steps)`,
+      {
+        details: { runId: run.id, name: playbook.name, stepCount: playbook.steps.length },
+        messageKey: 'srv.scenario.started',
+        messageParams: { name: playbook.name, steps: playbook.steps.length },
+      }
+    );
+
+    this.scheduleNext(run);
+    return run;
+  }
+
+  /**
+   * Pauses a running scenario. Running simulations continue; pending steps wait.
+   *
+   * @param id - Run ID
+   * @returns The paused run
+   * @throws NotFoundError if the run does not exist
+   * @throws ConflictError if the run is not RUNNING
+   */
+  pause(id: string): ScenarioRun {
+    const run = this.requireRun(id);
+    if (run.status !== 'RUNNING') {
+      throw new ConflictError(`Scenario is ${run.status.toLowerCase()}, not running`);
+    }
+
+    this.clearTimer(run.id);
+    run.status = 'PAUSED';
+    run.pausedAt = new Date();
+
+    EventLogService.info('SCENARIO_PAUSED', `Scenario "${run.playbook.name}" paused`, {
+      details: { runId: run.id, elapsedSeconds: this.getElapsedMs(run) / 1000 },
+      messageKey: 'srv.scenario.paused',
+      messageParams: { name: run.playbook.name },
+    });
+
+    return run;
+  }
+
+  /**
+   * Resumes a paused scenario. Time spent paused is excluded from the scenario clock.
+   *
+   * @param id - Run ID
+   * @returns The resumed run
+   * @throws NotFoundError if the run does not exist
+   * @throws ConflictError if the run is not PAUSED
+   */
+  resume(id: string): ScenarioRun {
+    const run = this.requireRun(id);
+    if (run.status !== 'PAUSED' || !run.pausedAt) {
+      throw new ConflictError(`Scenario is ${run.status.toLowerCase()}, not paused`);
+    }
+
+    run.totalPausedMs += Date.now() - run.pausedAt.getTime();
+    run.pausedAt = null;
+    run.status = 'RUNNING';
+
+    EventLogService.info('SCENARIO_RESUMED', `Scenario "${run.playbook.name}" resumed`, {
+      details: { runId: run.id, elapsedSeconds: this.getElapsedMs(run) / 1000 },
+      messageKey: 'srv.scenario.resumed',
+      messageParams: { name: run.playbook.name },
+    });
+
+    this.scheduleNext(run);
+    return run;
+  }
+
+  /**
+   * Aborts a running or paused scenario and cleans up what it started.
+   *
+   * @param id - Run ID
+   * @returns The aborted run
+   * @throws NotFoundError if the run does not exist
+   * @throws ConflictError if the run has already finished
+   */
+  abort(id: string): ScenarioRun {
+    const run = this.requireRun(id);
+    if (run.status !== 'RUNNING' && run.status !== 'PAUSED') {
+      throw new ConflictError(`Scenario has already ${run.status.toLowerCase()}`);
+    }
+
+    this.finish(run, 'ABORTED');
+
+    EventLogService.warn('SCENARIO_ABORTED', `Scenario "${run.playbook.name}" aborted`, {
+      details: { runId: run.id, elapsedSeconds: this.getElapsedMs(run) / 1000 },
+      messageKey: 'srv.scenario.aborted',
+      messageParams: { name: run.playbook.name },
+    });
+
+    return run;
+  }
+
+  /**
+   * Gets a run by ID.
+   *
+   * @param id - Run ID
+   * @returns The run or undefined if not found
+   */
+  getRun(id: string): ScenarioRun | undefined {
+    return this.runs.get(id);
+  }
+
+  /**
+   * Lists retained runs, newest first.
+   *
+   * @returns Runs
+   */
+  listRuns(): ScenarioRun[] {
+    return Array.from(this.runs.values()).reverse();
+  }
+
+  /**
+   * Scenario clock: time since start, excluding time spent paused.
+   *
+   * @param run - Scenario run
+   * @returns Elapsed scenario time in milliseconds
+   */
+  getElapsedMs(run: ScenarioRun): number {
+    const end = run.pausedAt ?? run.finishedAt ?? new Date();
+    return Math.max(0, end.getTime() - run.startedAt.getTime() - run.totalPausedMs);
+  }
+
+  /**
+   * Aborts any active run and forgets all runs. Useful for testing.
+   */
+  clear(): void {
+    const active = this.getActiveRun();
+    if (active) {
+      this.finish(active, 'ABORTED');
+    }
+    this.runs.clear();
+  }
+
+  /**
+   * Arms the timer for the next pending step, or completes the run if none remain.
+   */
+  private scheduleNext(run: ScenarioRun): void {
+    if (run.status !== 'RUNNING') {
+      return;
+    }
+
+    const next = run.steps.find((state) => state.status === 'PENDING');
+    if (!next) {
+      this.completeIfDone(run);
+      return;
+    }
+
+    const waitMs = Math.max(0, next.step.atSeconds * 1000 - this.getElapsedMs(run));
+    this.clearTimer(run.id);
+    this.timers.set(
+      run.id,
+      setTimeout(() => {
+        this.timers.delete(run.id);
+        this.dispatchDueSteps(run);
+      }, waitMs)
+    );
+  }
+
+  /**
+   * Dispatches every pending step whose offset has been reached, then re-arms the timer.
+   */
+  private dispatchDueSteps(run: ScenarioRun): void {
+    if (run.status !== 'RUNNING') {
+      return;
+    }
+
+    const elapsedMs = this.getElapsedMs(run);
+    for (const state of run.steps) {
+      if (run.status !== 'RUNNING') {
+        break;
+      }
+      if (state.status === 'PENDING' && state.step.atSeconds * 1000 <= elapsedMs) {
+        void this.runStep(run, state);
+      }
+    }
+
+    this.scheduleNext(run);
+  }
+
+  /**
+   * Executes one step and records its outcome.
+   */
+  private async runStep(run: ScenarioRun, state: ScenarioStepState): Promise<void> {
+    const { step } = state;
+    state.status = 'RUNNING';
+    state.startedAt = new Date();
+
+    EventLogService.info(
+      'SCENARIO_STEP_STARTED',
+      `Scenario "${run.playbook.name}" step ${state.index + 1}/${run.steps.length}: ${step.action} at t=${step.atSeconds}s`,
+      {
+        details: { runId: run.id, stepIndex: state.index, step },
+        messageKey: 'srv.scenario.stepStarted',
+        messageParams: {
+          num: state.index + 1,
+          total: run.steps.length,
+          action: step.action,
+          at: step.atSeconds,
+        },
+      }
+    );
+
+    try {
+      state.simulationId = await this.executeStep(run, state);
+      state.status = 'COMPLETED';
+      state.finishedAt = new Date();
+      // Another step due at the same time may have failed the run meanwhile
+      if (run.status === 'ABORTED' || run.status === 'FAILED') {
+        this.stopStepSimulation(state);
+      }
+
+      EventLogService.info(
+        'SCENARIO_STEP_COMPLETED',
+        `Scenario "${run.playbook.name}" step ${state.index + 1}/${run.steps.length} completed: ${step.action}`,
+        {
+          simulationId: state.simulationId ?? undefined,
+          details: { runId: run.id, stepIndex: state.index },
+          messageKey: 'srv.scenario.stepCompleted',
+          messageParams: { num: state.index + 1, total: run.steps.length, action: step.action },
+        }
+      );
+
+      this.completeIfDone(run);
+    } catch (error) {
+      state.status = 'FAILED';
+      state.finishedAt = new Date();
+      state.error = (error as Error).message;
+
+      EventLogService.error(
+        'SCENARIO_STEP_FAILED',
+        `Scenario "${run.playbook.name}" step ${state.index + 1}/${run.steps.length} failed: ${state.error}`,
+        {
+          details: { runId: run.id, stepIndex: state.index, error: state.error },
+          messageKey: 'srv.scenario.stepFailed',
+          messageParams: { num: state.index + 1, total: run.steps.length, error: state.error },
+        }
+      );
+
+      if (run.status === 'RUNNING' || run.status === 'PAUSED') {
+        this.finish(run, 'FAILED');
+      }
+    }
+  }
+
+  /**
+   * Calls the simulation service for a step, as the client that started the run.
+   *
+   * @returns ID of the simulation the step created, or null (MEMORY_RELEASE)
+   * @throws TooManyRequestsError if the step would exceed the client's quotas
+   */
+  private async executeStep(run: ScenarioRun, state: ScenarioStepState): Promise<string | null> {
+    const { clientId } = run;
+    if (!clientId) {
+      return this.startStepSimulation(run, state);
+    }
+    const quotaType = STEP_QUOTA_TYPES[state.step.action];
+    if (quotaType) {
+      QuotaService.checkStart(clientId, quotaType);
+    }
+    return SimulationTrackerService.runAsClient(clientId, () =>
+      this.startStepSimulation(run, state)
+    );
+  }
+
+  /**
+   * Dispatches a step to its simulation service, inside the container's guardrails.
+   *
+   * @returns ID of the simulation the step created, or null (MEMORY_RELEASE)
+   * @throws ValidationError if a memory step exceeds the safe limit in reject mode
+   */
+  private async startStepSimulation(
+    run: ScenarioRun,
+    state: ScenarioStepState
+  ): Promise<string | null> {
+    const { step } = state;
+
+    switch (step.action) {
+      case 'CPU_STRESS': {
+        const params = GuardrailService.guardCpuStress(
+          {
+            intensity: step.intensity,
+            targetPercent: step.targetPercent,
+            profile: step.profile,
+            durationSeconds: step.durationSeconds,
+          },
+          false
+        );
+        return CpuStressService.start(params).id;
+      }
+      case 'MEMORY_PRESSURE': {
+        const sizeMb = GuardrailService.guardMemoryAllocation(step.sizeMb, false);
+        return MemoryPressureService.allocate({ sizeMb }).id;
+      }
+      case 'MEMORY_RELEASE': {
+        for (const target of run.steps) {
+          const isTarget = !step.target || target.step.label === step.target;
+          if (
+            target.step.action === 'MEMORY_PRESSURE' &&
+            isTarget &&
+            target.simulationId &&
+            MemoryPressureService.getAllocationSize(target.simulationId) !== undefined
+          ) {
+            MemoryPressureService.release(target.simulationId);
+          }
+        }
+        return null;
+      }
+      case 'EVENT_LOOP_BLOCKING':
+        return (
+          await EventLoopBlockService.block({
+            durationSeconds: step.durationSeconds,
+            chunkMs: step.chunkMs,
+          })
+        ).id;
+      case 'SLOW_REQUEST':
+        return (
+          await SlowRequestService.delay({
+            delaySeconds: step.delaySeconds,
+            blockingPattern: step.blockingPattern,
+          })
+        ).id;
+    }
+  }
+
+  /**
+   * Completes the run once no step is pending or running.
+   */
+  private completeIfDone(run: ScenarioRun): void {
+    if (run.status !== 'RUNNING') {
+      return;
+    }
+    const done = run.steps.every(
+      (state) => state.status !== 'PENDING' && state.status !== 'RUNNING'
+    );
+    if (!done) {
+      return;
+    }
+
+    this.clearTimer(run.id);
+    run.status = 'COMPLETED';
+    run.finishedAt = new Date();
+
+    EventLogService.info('SCENARIO_COMPLETED', `Scenario "${run.playbook.name}" completed`, {
+      details: { runId: run.id, elapsedSeconds: this.getElapsedMs(run) / 1000 },
+      messageKey: 'srv.scenario.completed',
+      messageParams: { name: run.playbook.name },
+    });
+  }
+
+  /**
+   * Moves a run to a terminal state: skips pending steps and stops the CPU
+   * stress and memory allocations the run started.
+   */
+  private finish(run: ScenarioRun, status: ScenarioRunStatus): void {
+    this.clearTimer(run.id);
+
+    const now = new Date();
+    if (run.pausedAt) {
+      run.totalPausedMs += now.getTime() - run.pausedAt.getTime();
+      run.pausedAt = null;
+    }
+    run.status = status;
+    run.finishedAt = now;
+
+    for (const state of run.steps) {
+      if (state.status === 'PENDING') {
+        state.status = 'SKIPPED';
+        state.finishedAt = now;
+      }
+      this.stopStepSimulation(state);
+    }
+  }
+
+  /**
+   * Stops the CPU stress or releases the memory allocation a step started, if still running.
+   */
+  private stopStepSimulation(state: ScenarioStepState): void {
+    if (!state.simulationId) {
+      return;
+    }
+    if (state.step.action === 'CPU_STRESS' && this.isActive(state.simulationId)) {
+      CpuStressService.stop(state.simulationId);
+    } else if (
+      state.step.action === 'MEMORY_PRESSURE' &&
+      MemoryPressureService.getAllocationSize(state.simulationId) !== undefined
+    ) {
+      MemoryPressureService.release(state.simulationId);
+    }
+  }
+
+  /**
+   * Whether a simulation started by a step is still active (or paused) in the tracker.
+   */
+  private isActive(simulationId: string): boolean {
+    return SimulationTrackerService.isActive(simulationId);
+  }
+
+  /**
+   * Returns the run that is RUNNING or PAUSED, if any.
+   */
+  private getActiveRun(): ScenarioRun | undefined {
+    return Array.from(this.runs.values()).find(
+      (run) => run.status === 'RUNNING' || run.status === 'PAUSED'
+    );
+  }
+
+  /**
+   * Gets a run or throws NotFoundError.
+   */
+  private requireRun(id: string): ScenarioRun {
+    const run = this.runs.get(id);
+    if (!run) {
+      throw new NotFoundError('Scenario run not found');
+    }
+    return run;
+  }
+
+  /**
+   * Cancels a run's step timer.
+   */
+  private clearTimer(runId: string): void {
+    const timer = this.timers.get(runId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(runId);
+    }
+  }
+
+  /**
+   * Drops the oldest finished runs beyond MAX_RETAINED_RUNS.
+   */
+  private pruneFinishedRuns(): void {
+    const finished = Array.from(this.runs.values()).filter((run) => run.finishedAt !== null);
+    const excess = this.runs.size - MAX_RETAINED_RUNS;
+    for (const run of finished.slice(0, Math.max(0, excess))) {
+      this.runs.delete(run.id);
+    }
+  }
+}
+
+/**
+ * Singleton instance of the ScenarioService.
+ */
+export const ScenarioService = new ScenarioServiceClass();
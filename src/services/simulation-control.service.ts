@@ -0,0 +1,193 @@
+/**
+ * =============================================================================
+ * SIMULATION CONTROL SERVICE — Inspect, Pause, Resume and Extend by ID
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Backs the /api/simulations/:id endpoints. The tracker records the
+ *   transitions (PAUSED, resumed, new scheduledEndAt); the hooks below make
+ *   the simulation services follow them:
+ *
+ *   - CPU_STRESS: workers are suspended with SIGSTOP and continued with SIGCONT
+ *   - MEMORY_LEAK: growth stops, the memory already leaked stays retained
+ *   - EVENT_LOOP_BLOCKING: the chunk loop stops blocking while paused
+ *     (it reads the tracker itself, so it needs no hook)
+ *
+ *   Other types cannot be paused (409); memory pressure, for example, has no
+ *   work to suspend. Any active simulation can be extended.
+ *
+ * PORTING NOTES:
+ *   - Java: Process.suspend() is not available; use `kill -STOP <pid>` on
+ *     Linux, or pause worker threads with a shared flag they check.
+ *   - C#: suspend threads cooperatively (ManualResetEventSlim); Thread.Suspend
+ *     is obsolete.
+ *   - Python: os.kill(pid, signal.SIGSTOP) / SIGCONT for worker processes.
+ *
+ * @module services/simulation-control
+ */
+
+import { Simulation, SimulationType, EventLogEntry } from '../types';
+import { NotFoundError, ConflictError } from '../middleware/error-handler';
+import { SimulationTrackerService } from './simulation-tracker.service';
+import { EventLogService } from './event-log.service';
+import { CpuStressService } from './cpu-stress.service';
+import { MemoryLeakService } from './memory-leak.service';
+
+/**
+ * Hooks a simulation service provides to follow tracker transitions.
+ */
+interface SimulationControls {
+  /** Suspends the simulation's work (before it is marked PAUSED) */
+  pause?(id: string): void;
+  /** Continues the simulation's work (after it is marked ACTIVE) */
+  resume?(id: string): void;
+  /** Re-arms the service's own completion timer after scheduledEndAt moved */
+  reschedule?(id: string): void;
+}
+
+/**
+ * Simulation types that can be paused, with their hooks.
+ */
+const CONTROLS: Partial<Record<SimulationType, SimulationControls>> = {
+  CPU_STRESS: CpuStressService,
+  MEMORY_LEAK: MemoryLeakService,
+  EVENT_LOOP_BLOCKING: {},
+};
+
+/**
+ * A simulation with its event log entries.
+ */
+export interface SimulationDetails {
+  simulation: Simulation;
+  events: EventLogEntry[];
+}
+
+/**
+ * Service controlling individual simulations.
+ */
+class SimulationControlServiceClass {
+  /**
+   * Gets a simulation and the events logged for it.
+   *
+   * @param id - Simulation ID
+   * @returns Record and events, oldest first
+   * @throws NotFoundError if the simulation does not exist
+   */
+  getDetails(id: string): SimulationDetails {
+    return {
+      simulation: this.requireSimulation(id),
+      events: EventLogService.getEntriesForSimulation(id),
+    };
+  }
+
+  /**
+   * Pauses an active simulation. Its remaining duration is kept: the time
+   * spent paused is added to scheduledEndAt on resume.
+   *
+   * @param id - Simulation ID
+   * @returns The paused simulation
+   * @throws NotFoundError if the simulation does not exist
+   * @throws ConflictError if its type cannot be paused or it is not ACTIVE
+   */
+  pause(id: string): Simulation {
+    const simulation = this.requireSimulation(id);
+    const controls = CONTROLS[simulation.type];
+    if (!controls) {
+      throw new ConflictError(`${simulation.type} simulations cannot be paused`);
+    }
+    if (simulation.status !== 'ACTIVE') {
+      throw new ConflictError(`Simulation is ${simulation.status.toLowerCase()}, not active`);
+    }
+
+    controls.pause?.(id);
+    SimulationTrackerService.pauseSimulation(id);
+
+    EventLogService.info('SIMULATION_PAUSED', `${simulation.type} simulation paused`, {
+      simulationId: id,
+      simulationType: simulation.type,
+      details: { elapsedSeconds: SimulationTrackerService.getElapsedMs(id) / 1000 },
+      messageKey: 'srv.simulation.paused',
+      messageParams: { type: simulation.type },
+    });
+
+    return simulation;
+  }
+
+  /**
+   * Resumes a paused simulation.
+   *
+   * @param id - Simulation ID
+   * @returns The resumed simulation, with scheduledEndAt moved by the time paused
+   * @throws NotFoundError if the simulation does not exist
+   * @throws ConflictError if it is not PAUSED
+   */
+  resume(id: string): Simulation {
+    const simulation = this.requireSimulation(id);
+    if (simulation.status !== 'PAUSED') {
+      throw new ConflictError(`Simulation is ${simulation.status.toLowerCase()}, not paused`);
+    }
+
+    SimulationTrackerService.resumeSimulation(id);
+    CONTROLS[simulation.type]?.resume?.(id);
+
+    EventLogService.info('SIMULATION_RESUMED', `${simulation.type} simulation resumed`, {
+      simulationId: id,
+      simulationType: simulation.type,
+      details: {
+        elapsedSeconds: SimulationTrackerService.getElapsedMs(id) / 1000,
+        scheduledEndAt: simulation.scheduledEndAt.toISOString(),
+      },
+      messageKey: 'srv.simulation.resumed',
+      messageParams: { type: simulation.type },
+    });
+
+    return simulation;
+  }
+
+  /**
+   * Moves an active or paused simulation's scheduled end later.
+   *
+   * @param id - Simulation ID
+   * @param seconds - Seconds to add
+   * @returns The extended simulation
+   * @throws NotFoundError if the simulation does not exist
+   * @throws ConflictError if it has already ended
+   */
+  extend(id: string, seconds: number): Simulation {
+    const simulation = this.requireSimulation(id);
+    if (!SimulationTrackerService.extendSimulation(id, seconds)) {
+      throw new ConflictError(`Simulation is ${simulation.status.toLowerCase()}, not active`);
+    }
+    CONTROLS[simulation.type]?.reschedule?.(id);
+
+    EventLogService.info(
+      'SIMULATION_EXTENDED',
+      `${simulation.type} simulation extended by ${seconds}s`,
+      {
+        simulationId: id,
+        simulationType: simulation.type,
+        details: { seconds, scheduledEndAt: simulation.scheduledEndAt.toISOString() },
+        messageKey: 'srv.simulation.extended',
+        messageParams: { type: simulation.type, seconds },
+      }
+    );
+
+    return simulation;
+  }
+
+  /**
+   * Gets a simulation or throws NotFoundError.
+   */
+  private requireSimulation(id: string): Simulation {
+    const simulation = SimulationTrackerService.getSimulation(id);
+    if (!simulation) {
+      throw new NotFoundError('Simulation not found');
+    }
+    return simulation;
+  }
+}
+
+/**
+ * Singleton instance of the SimulationControlService.
+ */
+export const SimulationControlService = new SimulationControlServiceClass();
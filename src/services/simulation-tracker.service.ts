@@ -5,13 +5,13 @@
  *
  * PURPOSE:
  *   Central registry for all active and completed simulations. Manages the
- *   lifecycle state machine (ACTIVE → COMPLETED/STOPPED/FAILED) and provides
- *   query methods for listing and filtering simulations.
+ *   lifecycle state machine (ACTIVE ⇄ PAUSED → COMPLETED/STOPPED/FAILED) and
+ *   provides query methods for listing and filtering simulations.
  *
  * RESPONSIBILITIES:
  *   1. Create simulation records with unique IDs and timestamps
  *   2. Manage auto-completion timers (simulations expire after their duration)
- *   3. Handle user-initiated stops and error failures
+ *   3. Handle user-initiated stops, pauses and extensions, and error failures
  *   4. Provide query methods (by ID, by type, active only)
  *
  * STATE MACHINE:
@@ -19,6 +19,25 @@
  *   completeSimulation() → status=COMPLETED (timer elapsed naturally)
  *   stopSimulation() → status=STOPPED (user called DELETE endpoint)
  *   failSimulation() → status=FAILED (error during execution)
+ *   pauseSimulation() → status=PAUSED, timer cleared
+ *   resumeSimulation() → status=ACTIVE, scheduledEndAt moved by the time paused
+ *   extendSimulation() → scheduledEndAt moved later (ACTIVE or PAUSED)
+ *
+ *   The tracker only records these transitions. Suspending the work itself
+ *   (CPU workers, leak growth, event loop chunks) is done by the simulation
+ *   services; see SimulationControlService.
+ *
+ *   "Active" queries include PAUSED simulations: they still hold their
+ *   resources and count towards quotas.
+ *
+ * SEEDS:
+ *   Each simulation gets the seed of its random generator (RandomService), so
+ *   starting it again with ?seed= replays it exactly.
+ *
+ * CLIENT ATTRIBUTION:
+ *   Simulations created inside runAsClient() record the client that started
+ *   them (AsyncLocalStorage, so timers and awaits inside the request keep the
+ *   client). The quota layer counts active simulations per client this way.
  *
  * STORAGE:
  *   In-memory Map<id, Simulation>. All data is lost on process restart.
@@ -41,9 +60,17 @@
  * @module services/simulation-tracker
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { Simulation, SimulationType, SimulationStatus, SimulationParameters } from '../types';
 import { generateId } from '../utils';
 import { config } from '../config';
+import { RandomService } from './random.service';
+
+/** Longest delay setTimeout supports; longer durations are never auto-completed */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/** Latest time a Date can represent */
+const MAX_DATE_MS = 8.64e15;
 
 /**
  * Service for tracking active simulations.
@@ -53,6 +80,18 @@ import { config } from '../config';
 class SimulationTrackerServiceClass {
   private simulations: Map<string, Simulation> = new Map();
   private cleanupTimers: Map<string, NodeJS.Timeout> = new Map();
+  private clientContext = new AsyncLocalStorage<string>();
+
+  /**
+   * Runs fn with simulations it creates attributed to a client.
+   *
+   * @param clientId - Client identifier (see AuthPrincipal.clientId)
+   * @param fn - Function to run (e.g. the next request handler)
+   * @returns fn's return value
+   */
+  runAsClient<T>(clientId: string, fn: () => T): T {
+    return this.clientContext.run(clientId, fn);
+  }
 
   /**
    * Creates and registers a new simulation.
@@ -60,17 +99,20 @@ class SimulationTrackerServiceClass {
    * @param type - Type of simulation
    * @param parameters - Simulation parameters
    * @param durationSeconds - Duration in seconds (optional, defaults to max)
+   * @param seed - Random seed (default: the requested seed or the next one from the master generator)
    * @returns The created simulation
    */
   createSimulation(
     type: SimulationType,
     parameters: SimulationParameters,
-    durationSeconds?: number
+    durationSeconds?: number,
+    seed: number = RandomService.nextSeed()
   ): Simulation {
     const id = generateId();
     const now = new Date();
     const duration = durationSeconds ?? config.maxSimulationDurationSeconds;
-    const scheduledEndAt = new Date(now.getTime() + duration * 1000);
+    const durationMs = duration * 1000;
+    const scheduledEndAt = new Date(Math.min(now.getTime() + durationMs, MAX_DATE_MS));
 
     const simulation: Simulation = {
       id,
@@ -80,16 +122,14 @@ class SimulationTrackerServiceClass {
       startedAt: now,
       stoppedAt: null,
       scheduledEndAt,
+      clientId: this.clientContext.getStore() ?? null,
+      seed,
+      pausedAt: null,
+      totalPausedMs: 0,
     };
 
     this.simulations.set(id, simulation);
-
-    // Set up auto-cleanup timer
-    const timer = setTimeout(() => {
-      this.completeSimulation(id);
-    }, duration * 1000);
-
-    this.cleanupTimers.set(id, timer);
+    this.scheduleCompletion(simulation);
 
     return simulation;
   }
@@ -114,12 +154,38 @@ class SimulationTrackerServiceClass {
   }
 
   /**
-   * Gets all active simulations.
+   * Gets all active simulations, paused ones included.
    *
    * @returns Array of active simulations
    */
   getActiveSimulations(): Simulation[] {
-    return this.getAllSimulations().filter((sim) => sim.status === 'ACTIVE');
+    return this.getAllSimulations().filter((sim) => this.isActive(sim.id));
+  }
+
+  /**
+   * Whether a simulation has not ended yet (ACTIVE or PAUSED).
+   *
+   * @param id - Simulation ID
+   * @returns True if the simulation exists and is ACTIVE or PAUSED
+   */
+  isActive(id: string): boolean {
+    const status = this.simulations.get(id)?.status;
+    return status === 'ACTIVE' || status === 'PAUSED';
+  }
+
+  /**
+   * Gets how long a simulation has been running, excluding time spent paused.
+   *
+   * @param id - Simulation ID
+   * @returns Elapsed milliseconds, or 0 if not found
+   */
+  getElapsedMs(id: string): number {
+    const simulation = this.simulations.get(id);
+    if (!simulation) {
+      return 0;
+    }
+    const end = simulation.pausedAt ?? simulation.stoppedAt ?? new Date();
+    return Math.max(0, end.getTime() - simulation.startedAt.getTime() - simulation.totalPausedMs);
   }
 
   /**
@@ -132,6 +198,17 @@ class SimulationTrackerServiceClass {
     return this.getActiveSimulations().filter((sim) => sim.type === type);
   }
 
+  /**
+   * Gets active simulations of a type started by a client.
+   *
+   * @param type - Simulation type to filter by
+   * @param clientId - Client that started them
+   * @returns Array of matching active simulations
+   */
+  getActiveSimulationsByClient(type: SimulationType, clientId: string): Simulation[] {
+    return this.getActiveSimulationsByType(type).filter((sim) => sim.clientId === clientId);
+  }
+
   /**
    * Stops a simulation (user-initiated).
    *
@@ -162,30 +239,126 @@ class SimulationTrackerServiceClass {
     return this.updateSimulationStatus(id, 'FAILED');
   }
 
+  /**
+   * Pauses an active simulation: clears its auto-completion timer so the
+   * paused time does not count towards its duration.
+   *
+   * @param id - Simulation ID
+   * @returns The paused simulation or undefined if not found or not ACTIVE
+   */
+  pauseSimulation(id: string): Simulation | undefined {
+    const simulation = this.simulations.get(id);
+    if (!simulation || simulation.status !== 'ACTIVE') {
+      return undefined;
+    }
+
+    simulation.status = 'PAUSED';
+    simulation.pausedAt = new Date();
+    this.clearCleanupTimer(id);
+
+    return simulation;
+  }
+
+  /**
+   * Resumes a paused simulation, moving scheduledEndAt by the time it spent paused.
+   *
+   * @param id - Simulation ID
+   * @returns The resumed simulation or undefined if not found or not PAUSED
+   */
+  resumeSimulation(id: string): Simulation | undefined {
+    const simulation = this.simulations.get(id);
+    if (!simulation || simulation.status !== 'PAUSED' || !simulation.pausedAt) {
+      return undefined;
+    }
+
+    const pausedMs = Date.now() - simulation.pausedAt.getTime();
+    simulation.status = 'ACTIVE';
+    simulation.pausedAt = null;
+    simulation.totalPausedMs += pausedMs;
+    simulation.scheduledEndAt = new Date(
+      Math.min(simulation.scheduledEndAt.getTime() + pausedMs, MAX_DATE_MS)
+    );
+    this.scheduleCompletion(simulation);
+
+    return simulation;
+  }
+
+  /**
+   * Moves a simulation's scheduled end later.
+   *
+   * @param id - Simulation ID
+   * @param seconds - Seconds to add
+   * @returns The extended simulation or undefined if not found or already ended
+   */
+  extendSimulation(id: string, seconds: number): Simulation | undefined {
+    const simulation = this.simulations.get(id);
+    if (!simulation || !this.isActive(id)) {
+      return undefined;
+    }
+
+    simulation.scheduledEndAt = new Date(
+      Math.min(simulation.scheduledEndAt.getTime() + seconds * 1000, MAX_DATE_MS)
+    );
+    // A paused simulation is rescheduled when it resumes
+    if (simulation.status === 'ACTIVE') {
+      this.scheduleCompletion(simulation);
+    }
+
+    return simulation;
+  }
+
   /**
    * Updates a simulation's status.
    *
    * @param id - Simulation ID
    * @param status - New status
-   * @returns The updated simulation or undefined if not found
+   * @returns The updated simulation or undefined if not found or already ended
    */
   private updateSimulationStatus(id: string, status: SimulationStatus): Simulation | undefined {
     const simulation = this.simulations.get(id);
-    if (!simulation || simulation.status !== 'ACTIVE') {
+    if (!simulation || !this.isActive(id)) {
       return undefined;
     }
 
+    const now = new Date();
+    if (simulation.pausedAt) {
+      simulation.totalPausedMs += now.getTime() - simulation.pausedAt.getTime();
+      simulation.pausedAt = null;
+    }
     simulation.status = status;
-    simulation.stoppedAt = new Date();
+    simulation.stoppedAt = now;
+    this.clearCleanupTimer(id);
+
+    return simulation;
+  }
+
+  /**
+   * (Re)arms the auto-completion timer for scheduledEndAt. Longer delays
+   * would overflow and fire immediately, so effectively unlimited simulations
+   * (memory allocations) stay active until stopped.
+   */
+  private scheduleCompletion(simulation: Simulation): void {
+    this.clearCleanupTimer(simulation.id);
+
+    const delayMs = Math.max(0, simulation.scheduledEndAt.getTime() - Date.now());
+    if (delayMs <= MAX_TIMER_MS) {
+      const timer = setTimeout(() => {
+        this.completeSimulation(simulation.id);
+      }, delayMs);
 
-    // Clear the cleanup timer
+      this.cleanupTimers.set(simulation.id, timer);
+    }
+  }
+
+  /**
+   * Clears a simulation's auto-completion timer, if any.
+   */
+  private clearCleanupTimer(id: string): void {
     const timer = this.cleanupTimers.get(id);
     if (timer) {
       clearTimeout(timer);
       this.cleanupTimers.delete(id);
     }
-
-    return simulation;
   }
 
   /**
@@ -195,11 +368,7 @@ class SimulationTrackerServiceClass {
    * @returns True if simulation was removed
    */
   removeSimulation(id: string): boolean {
-    const timer = this.cleanupTimers.get(id);
-    if (timer) {
-      clearTimeout(timer);
-      this.cleanupTimers.delete(id);
-    }
+    this.clearCleanupTimer(id);
 
     return this.simulations.delete(id);
   }
@@ -18,7 +18,7 @@
  *
  *   2. libuv — I/O THREAD POOL SATURATION
  *      Saturates Node.js's internal thread pool (libuv, default 4 threads)
- *      with synchronous crypto operations. When all threads are busy, other
+ *      with long async crypto operations. When all threads are busy, other
  *      operations that use the pool (fs.readFile, dns.lookup, crypto.pbkdf2)
  *      queue up, causing cascading slowdowns.
  *      Other runtimes: Saturate the framework's worker thread pool
@@ -47,16 +47,14 @@
  */
 
 import { Worker } from 'worker_threads';
-import { pbkdf2Sync } from 'crypto';
+import { pbkdf2 } from 'crypto';
 import path from 'path';
 import { Simulation, SlowRequestParams, SlowRequestBlockingPattern } from '../types';
 import { SimulationTrackerService } from './simulation-tracker.service';
 import { EventLogService } from './event-log.service';
 import { SimulationContextService } from './simulation-context.service';
 import { delay } from '../utils';
-
-// Default libuv thread pool size is 4
-const LIBUV_THREAD_POOL_SIZE = parseInt(process.env.UV_THREADPOOL_SIZE || '4', 10);
+import { config } from '../config';
 
 /**
  * Slow Request Service
@@ -68,16 +66,18 @@ class SlowRequestServiceClass {
    * Delays the response using the specified blocking pattern.
    *
    * @param params - Slow request parameters including blocking pattern
+   * @param seed - Seed the blocking pattern was picked with (default: the next seed)
    * @returns The completed simulation
    */
-  async delay(params: SlowRequestParams): Promise<Simulation> {
+  async delay(params: SlowRequestParams, seed?: number): Promise<Simulation> {
     const { delaySeconds, blockingPattern = 'setTimeout' } = params;
 
     // Create simulation record
     const simulation = SimulationTrackerService.createSimulation(
       'SLOW_REQUEST',
       { type: 'SLOW_REQUEST', delaySeconds, blockingPattern },
-      delaySeconds
+      delaySeconds,
+      seed
     );
 
     // Set Application Insights correlation context
@@ -140,15 +140,19 @@ class SlowRequestServiceClass {
    *
    * ALGORITHM:
    * 1. Create N promises (N = UV_THREADPOOL_SIZE, default 4)
-   * 2. Each promise runs a loop that:
-   *    a) Yields via setImmediate (puts work on the libuv thread pool queue)
-   *    b) Executes pbkdf2Sync (~10-20ms per call, blocks one libuv thread)
+   * 2. Each promise runs a loop of async pbkdf2 calls (~10-20ms each). Async
+   *    crypto runs on a libuv thread, so each loop keeps one thread busy
+   *    while the event loop stays free (pbkdf2Sync would block the event
+   *    loop instead and leave the pool idle).
    * 3. With all 4 threads busy, other libuv operations queue up:
    *    - fs.readFile, fs.writeFile (file I/O)
    *    - dns.lookup (DNS resolution)
    *    - crypto.pbkdf2 (async crypto)
    * 4. Continue until total duration is reached
    *
+   * The thread pool probe (ThreadPoolProbeService) shows the resulting queue
+   * wait in the metrics stream.
+   *
    * PORTING NOTES:
    *   The goal is to exhaust to the runtime's internal worker pool:
    *   - Java: Submit Callable tasks to the common ForkJoinPool
@@ -164,19 +168,16 @@ class SlowRequestServiceClass {
     // Each pbkdf2 call blocks a libuv thread for ~10-20ms
     const saturateThread = async (): Promise<void> => {
       while (Date.now() < endTime) {
-        // Sync crypto blocks a libuv thread
+        // Async crypto occupies a libuv thread
         // We use a reasonable iteration count that takes ~10-20ms
-        await new Promise<void>((resolve) => {
-          setImmediate(() => {
-            pbkdf2Sync('password', 'salt', 10000, 64, 'sha512');
-            resolve();
-          });
+        await new Promise<void>((resolve, reject) => {
+          pbkdf2('password', 'salt', 10000, 64, 'sha512', (err) => (err ? reject(err) : resolve()));
         });
       }
     };
 
     // Saturate all libuv threads (default: 4)
-    const workers = Array(LIBUV_THREAD_POOL_SIZE).fill(null).map(() => saturateThread());
+    const workers = Array(config.threadPoolSize).fill(null).map(() => saturateThread());
     await Promise.all(workers);
   }
 
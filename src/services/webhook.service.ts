@@ -0,0 +1,333 @@
+/**
+ * =============================================================================
+ * WEBHOOK SERVICE — Push Event Log Entries to External HTTP Endpoints
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Lets shared training labs hook chat channels or automation into the
+ *   simulator: every EventLogEntry matching a registered webhook's filters is
+ *   POSTed to its URL, e.g. to announce that someone triggered a crash.
+ *
+ * DELIVERY:
+ *   Subscribes to EventLogService while at least one webhook is registered.
+ *   Each matching entry becomes one delivery, sent as JSON with headers:
+ *     X-PerfSim-Event      → event type (e.g. SIMULATION_STARTED)
+ *     X-PerfSim-Delivery   → delivery ID (stable across retries)
+ *     X-PerfSim-Timestamp  → unix seconds when the attempt was signed
+ *     X-PerfSim-Signature  → sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *   Receivers verify the signature with the webhook secret and reject stale
+ *   timestamps to prevent replays.
+ *
+ * RETRIES & DEAD LETTERS:
+ *   Network errors, timeouts (config.webhookTimeoutMs) and non-2xx responses
+ *   are retried after config.webhookRetryBaseMs, doubling per retry, up to
+ *   config.webhookMaxAttempts attempts. Deliveries that exhaust their attempts
+ *   go to a bounded dead-letter list, from where they can be redelivered.
+ *
+ * NO FEEDBACK LOOPS:
+ *   Delivery outcomes are only written to the console, never to the event
+ *   log — otherwise a failing webhook subscribed to all events would feed
+ *   itself.
+ *
+ * STORAGE:
+ *   Registrations and dead letters are in memory and lost on restart.
+ *
+ * PORTING NOTES:
+ *   - Java: Spring ApplicationListener + WebClient with Reactor retryBackoff;
+ *     javax.crypto.Mac("HmacSHA256").
+ *   - C#: IHostedService + HttpClient with Polly WaitAndRetryAsync; HMACSHA256.
+ *   - Python: asyncio task + httpx with tenacity; hmac.new(key, msg, sha256).
+ *
+ * @module services/webhook
+ */
+
+import crypto from 'crypto';
+import { EventLogEntry, WebhookDeadLetter, WebhookParams, WebhookRegistration } from '../types';
+import { EventLogService } from './event-log.service';
+import { generateId, createTimeoutSignal } from '../utils';
+import { config, APP_NAME, APP_VERSION } from '../config';
+
+/** Dead letters kept (oldest dropped first) */
+const MAX_DEAD_LETTERS = 100;
+
+/** Retry delays are capped at this many milliseconds */
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * One delivery of an entry to a webhook, across its attempts.
+ */
+interface PendingDelivery {
+  id: string;
+  webhookId: string;
+  entryId: string;
+  event: EventLogEntry['event'];
+  body: string;
+  attempts: number;
+}
+
+/**
+ * Signs a webhook body: hex HMAC-SHA256 of "<timestamp>.<body>".
+ *
+ * @param secret - Webhook secret
+ * @param timestamp - Unix seconds sent in X-PerfSim-Timestamp
+ * @param body - Raw request body
+ * @returns Signature in the form sha256=<hex>
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Service for registering webhooks and delivering event log entries to them.
+ */
+class WebhookServiceClass {
+  private webhooks: Map<string, WebhookRegistration> = new Map();
+  private deadLetters: WebhookDeadLetter[] = [];
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Registers a webhook. A signing secret is generated if none is given.
+   *
+   * @param params - Validated webhook parameters
+   * @returns The registration, including its secret
+   */
+  register(params: WebhookParams): WebhookRegistration {
+    const webhook: WebhookRegistration = {
+      id: generateId(),
+      url: params.url,
+      events: params.events ?? null,
+      levels: params.levels ?? null,
+      secret: params.secret ?? crypto.randomBytes(32).toString('hex'),
+      description: params.description ?? null,
+      createdAt: new Date(),
+      deliveredCount: 0,
+      failedCount: 0,
+      lastDeliveryAt: null,
+    };
+    this.webhooks.set(webhook.id, webhook);
+
+    if (!this.unsubscribe) {
+      this.unsubscribe = EventLogService.subscribe((entry) => this.dispatch(entry));
+    }
+
+    console.log(`[Webhook] Registered ${webhook.id} → ${webhook.url}`);
+    return webhook;
+  }
+
+  /**
+   * Removes a webhook. Its pending retries are dropped when they fire.
+   *
+   * @param id - Webhook ID
+   * @returns True if the webhook existed
+   */
+  remove(id: string): boolean {
+    const removed = this.webhooks.delete(id);
+    if (this.webhooks.size === 0 && this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    return removed;
+  }
+
+  /**
+   * Gets a webhook by ID.
+   *
+   * @param id - Webhook ID
+   * @returns The webhook or undefined
+   */
+  get(id: string): WebhookRegistration | undefined {
+    return this.webhooks.get(id);
+  }
+
+  /**
+   * Lists registered webhooks, oldest first.
+   *
+   * @returns All webhooks
+   */
+  list(): WebhookRegistration[] {
+    return Array.from(this.webhooks.values());
+  }
+
+  /**
+   * Lists dead-lettered deliveries, newest first.
+   *
+   * @returns Dead letters
+   */
+  getDeadLetters(): WebhookDeadLetter[] {
+    return [...this.deadLetters].reverse();
+  }
+
+  /**
+   * Takes a dead letter off the list and delivers it again with a fresh
+   * set of attempts.
+   *
+   * @param id - Dead letter (delivery) ID
+   * @returns The dead letter, or undefined if unknown or its webhook was removed
+   */
+  redeliver(id: string): WebhookDeadLetter | undefined {
+    const index = this.deadLetters.findIndex((letter) => letter.id === id);
+    if (index < 0 || !this.webhooks.has(this.deadLetters[index].webhookId)) {
+      return undefined;
+    }
+
+    const [letter] = this.deadLetters.splice(index, 1);
+    void this.attempt({
+      id: letter.id,
+      webhookId: letter.webhookId,
+      entryId: letter.entryId,
+      event: letter.event,
+      body: letter.body,
+      attempts: 0,
+    });
+    return letter;
+  }
+
+  /**
+   * Empties the dead-letter list.
+   *
+   * @returns Number of dead letters removed
+   */
+  clearDeadLetters(): number {
+    const count = this.deadLetters.length;
+    this.deadLetters = [];
+    return count;
+  }
+
+  /**
+   * Removes all webhooks, pending retries and dead letters (used by tests).
+   */
+  clear(): void {
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    this.webhooks.clear();
+    this.deadLetters = [];
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Starts a delivery for every webhook whose filters match the entry.
+   */
+  private dispatch(entry: EventLogEntry): void {
+    const matching = this.list().filter(
+      (webhook) =>
+        (!webhook.events || webhook.events.includes(entry.event)) &&
+        (!webhook.levels || webhook.levels.includes(entry.level))
+    );
+    if (matching.length === 0) {
+      return;
+    }
+
+    const body = JSON.stringify({
+      id: entry.id,
+      timestamp: entry.timestamp.toISOString(),
+      level: entry.level,
+      event: entry.event,
+      message: entry.message,
+      simulationId: entry.simulationId,
+      simulationType: entry.simulationType,
+      details: entry.details,
+      messageKey: entry.messageKey,
+      messageParams: entry.messageParams,
+    });
+
+    for (const webhook of matching) {
+      void this.attempt({
+        id: generateId(),
+        webhookId: webhook.id,
+        entryId: entry.id,
+        event: entry.event,
+        body,
+        attempts: 0,
+      });
+    }
+  }
+
+  /**
+   * Makes one delivery attempt, then schedules a retry or dead-letters it.
+   */
+  private async attempt(delivery: PendingDelivery): Promise<void> {
+    const webhook = this.webhooks.get(delivery.webhookId);
+    if (!webhook) {
+      return;
+    }
+
+    delivery.attempts++;
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | null = null;
+    let error: string;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': `${APP_NAME}-Webhook/${APP_VERSION}`,
+          'X-PerfSim-Event': delivery.event,
+          'X-PerfSim-Delivery': delivery.id,
+          'X-PerfSim-Timestamp': String(timestamp),
+          'X-PerfSim-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.body),
+        },
+        body: delivery.body,
+        signal: createTimeoutSignal(config.webhookTimeoutMs),
+      });
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+      if (response.ok) {
+        webhook.deliveredCount++;
+        webhook.lastDeliveryAt = new Date();
+        return;
+      }
+      statusCode = response.status;
+      error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (delivery.attempts < config.webhookMaxAttempts) {
+      const delayMs = Math.min(
+        MAX_RETRY_DELAY_MS,
+        config.webhookRetryBaseMs * 2 ** (delivery.attempts - 1)
+      );
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        void this.attempt(delivery);
+      }, delayMs);
+      timer.unref();
+      this.retryTimers.add(timer);
+      return;
+    }
+
+    webhook.failedCount++;
+    this.deadLetters.push({
+      id: delivery.id,
+      webhookId: webhook.id,
+      url: webhook.url,
+      entryId: delivery.entryId,
+      event: delivery.event,
+      attempts: delivery.attempts,
+      lastError: error,
+      lastStatusCode: statusCode,
+      failedAt: new Date(),
+      body: delivery.body,
+    });
+    if (this.deadLetters.length > MAX_DEAD_LETTERS) {
+      this.deadLetters.shift();
+    }
+    console.warn(
+      `[Webhook] Delivery ${delivery.id} to ${webhook.url} dead-lettered after ${delivery.attempts} attempts: ${error}`
+    );
+  }
+}
+
+/**
+ * Singleton instance of the WebhookService.
+ */
+export const WebhookService = new WebhookServiceClass();
@@ -0,0 +1,334 @@
+/**
+ * =============================================================================
+ * LOAD GENERATOR — Open and Closed Model Traffic from the Sidecar
+ * =============================================================================
+ *
+ * PURPOSE:
+ *   Sends traffic to GET /api/loadtest so a full degradation demo works
+ *   without Azure Load Testing or another outside tool. Runs in the sidecar
+ *   process: traffic generated by the main app itself would stall whenever
+ *   the main event loop does, hiding exactly the slowdown being demonstrated.
+ *
+ * TRAFFIC MODELS:
+ *   - open:   arrivals at target requests per second, independent of
+ *             responses. Every TICK_MS the rate is integrated into "arrival
+ *             credit" and one request starts per whole credit, so the low
+ *             rates early in a ramp are sent evenly. In-flight requests are capped at
+ *             MAX_OPEN_IN_FLIGHT; arrivals beyond that are counted as dropped.
+ *   - closed: target virtual users, each looping request → response → think
+ *             time. When the target falls, the highest-numbered users leave
+ *             after their current request.
+ *
+ * RAMP STAGES:
+ *   Like k6 stages: the target moves linearly from the previous stage's
+ *   target (0 for the first stage) to the stage's target over its duration.
+ *   When the last stage ends, no new requests start; the run completes once
+ *   in-flight requests have finished (or timed out). Stopping a run aborts
+ *   in-flight requests immediately.
+ *
+ * RESULTS:
+ *   Counts, status classes and HDR-style latency histograms (LatencyHistogram)
+ *   for the last second and the whole run, reported every REPORT_INTERVAL_MS.
+ *
+ * PORTING NOTES:
+ *   - Java: a ScheduledExecutorService for arrivals with HttpClient.sendAsync(),
+ *     one thread per virtual user for the closed model.
+ *   - C#: PeriodicTimer for arrivals, one Task per virtual user, HttpClient.
+ *   - Python: asyncio tasks with aiohttp; the arrival loop sleeps TICK_MS.
+ *
+ * @module sidecar/load-generator
+ */
+
+import { performance } from 'perf_hooks';
+import { LatencyHistogram } from '../services/latency-histogram';
+import {
+  LoadGeneratorPlan,
+  LoadGeneratorProgress,
+  LoadGeneratorStage,
+  LoadTestRequest,
+  StatusClass,
+} from '../types';
+import { statusClass } from '../utils';
+
+/** How often arrivals and virtual users are updated */
+const TICK_MS = 50;
+
+/** How often progress is reported */
+const REPORT_INTERVAL_MS = 1000;
+
+/** Open model: most requests waiting for a response before arrivals are dropped */
+const MAX_OPEN_IN_FLIGHT = 2000;
+
+/**
+ * Sends one GET request and resolves with its status code. Rejects on
+ * network errors, on timeout and when the signal aborts.
+ */
+export type LoadGeneratorSender = (
+  path: string,
+  timeoutMs: number,
+  signal: AbortSignal
+) => Promise<number>;
+
+/**
+ * Gets the target (RPS or virtual users) at a point in the run.
+ *
+ * @param stages - Ramp stages
+ * @param elapsedSeconds - Time since the run started
+ * @returns Target, linearly interpolated within the current stage
+ */
+export function targetAt(stages: LoadGeneratorStage[], elapsedSeconds: number): number {
+  let from = 0;
+  let stageStart = 0;
+  for (const stage of stages) {
+    const stageEnd = stageStart + stage.durationSeconds;
+    if (elapsedSeconds < stageEnd) {
+      const fraction = (elapsedSeconds - stageStart) / stage.durationSeconds;
+      return from + (stage.target - from) * fraction;
+    }
+    from = stage.target;
+    stageStart = stageEnd;
+  }
+  return from;
+}
+
+/**
+ * Builds the /api/loadtest path for the request parameters.
+ *
+ * @param request - Load test parameters (unset ones use the endpoint defaults)
+ * @returns Path with query string
+ */
+export function buildLoadTestPath(request: Partial<LoadTestRequest>): string {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(request)) {
+    if (value !== undefined) {
+      query.set(name, String(value));
+    }
+  }
+  const queryString = query.toString();
+  return queryString ? `/api/loadtest?${queryString}` : '/api/loadtest';
+}
+
+/**
+ * One load generator run.
+ */
+export class LoadGenerator {
+  private readonly path: string;
+  private readonly durationSeconds: number;
+  private readonly abortController = new AbortController();
+
+  private startedAt = 0;
+  private lastTickAt = 0;
+  private lastReportAt = 0;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private reportTimer: NodeJS.Timeout | null = null;
+  private finishing: 'completed' | 'stopped' | null = null;
+  private done = false;
+
+  private arrivalCredit = 0;
+  private virtualUsers = 0;
+  private currentTarget = 0;
+
+  private sent = 0;
+  private completed = 0;
+  private errors = 0;
+  private inFlight = 0;
+  private dropped = 0;
+  private statusClasses: Record<StatusClass, number> = {
+    '1xx': 0,
+    '2xx': 0,
+    '3xx': 0,
+    '4xx': 0,
+    '5xx': 0,
+  };
+  private intervalCompleted = 0;
+  private intervalLatency = new LatencyHistogram();
+  private runLatency = new LatencyHistogram();
+
+  /**
+   * @param plan - What to send
+   * @param send - Sends one request
+   * @param onProgress - Called with results every REPORT_INTERVAL_MS
+   * @param onDone - Called once with the final results
+   */
+  constructor(
+    private readonly plan: LoadGeneratorPlan,
+    private readonly send: LoadGeneratorSender,
+    private readonly onProgress: (progress: LoadGeneratorProgress) => void,
+    private readonly onDone: (
+      progress: LoadGeneratorProgress,
+      state: 'completed' | 'stopped'
+    ) => void
+  ) {
+    this.path = buildLoadTestPath(plan.request);
+    this.durationSeconds = plan.stages.reduce((sum, stage) => sum + stage.durationSeconds, 0);
+  }
+
+  /**
+   * Starts sending traffic.
+   */
+  start(): void {
+    this.startedAt = Date.now();
+    this.lastTickAt = this.startedAt;
+    this.lastReportAt = this.startedAt;
+    this.tickTimer = setInterval(() => this.tick(), TICK_MS);
+    this.reportTimer = setInterval(() => this.onProgress(this.progress()), REPORT_INTERVAL_MS);
+    this.tick();
+  }
+
+  /**
+   * Stops the run, aborting requests in flight.
+   */
+  stop(): void {
+    this.finish('stopped');
+  }
+
+  /**
+   * Starts requests or virtual users for the current target.
+   */
+  private tick(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.startedAt) / 1000;
+    if (elapsedSeconds >= this.durationSeconds) {
+      this.finish('completed');
+      return;
+    }
+
+    this.currentTarget = targetAt(this.plan.stages, elapsedSeconds);
+    if (this.plan.model === 'open') {
+      this.arrivalCredit += (this.currentTarget * (now - this.lastTickAt)) / 1000;
+      while (this.arrivalCredit >= 1) {
+        this.arrivalCredit--;
+        if (this.inFlight >= MAX_OPEN_IN_FLIGHT) {
+          this.dropped++;
+        } else {
+          void this.sendOne();
+        }
+      }
+    } else {
+      while (this.virtualUsers < Math.round(this.currentTarget)) {
+        this.virtualUsers++;
+        void this.runVirtualUser(this.virtualUsers);
+      }
+    }
+    this.lastTickAt = now;
+  }
+
+  /**
+   * Closed model: one user sending requests back to back until the target
+   * drops below its number or the run ends.
+   */
+  private async runVirtualUser(userNumber: number): Promise<void> {
+    while (this.finishing === null && userNumber <= Math.round(this.currentTarget)) {
+      await this.sendOne();
+      if (this.plan.thinkTimeMs > 0 && this.finishing === null) {
+        await new Promise((resolve) => setTimeout(resolve, this.plan.thinkTimeMs));
+      }
+    }
+    this.virtualUsers--;
+  }
+
+  /**
+   * Sends one request and records its outcome.
+   */
+  private async sendOne(): Promise<void> {
+    this.sent++;
+    this.inFlight++;
+    const startedAt = performance.now();
+    try {
+      const statusCode = await this.send(
+        this.path,
+        this.plan.requestTimeoutMs,
+        this.abortController.signal
+      );
+      const latencyMs = performance.now() - startedAt;
+      this.completed++;
+      this.intervalCompleted++;
+      this.statusClasses[statusClass(statusCode)]++;
+      this.intervalLatency.record(latencyMs);
+      this.runLatency.record(latencyMs);
+      if (statusCode < 200 || statusCode >= 300) {
+        this.errors++;
+      }
+    } catch {
+      // Aborted requests of a stopped run are not failures of the app
+      if (this.finishing !== 'stopped') {
+        this.errors++;
+      }
+    } finally {
+      this.inFlight--;
+      if (this.finishing === 'completed' && this.inFlight === 0) {
+        this.reportDone();
+      }
+    }
+  }
+
+  /**
+   * Stops starting requests; reports the end now or once in-flight requests finish.
+   */
+  private finish(state: 'completed' | 'stopped'): void {
+    if (this.finishing !== null) {
+      // A completing run can still be stopped while it drains
+      if (state === 'stopped' && this.finishing === 'completed' && !this.done) {
+        this.finishing = 'stopped';
+        this.abortController.abort();
+        this.reportDone();
+      }
+      return;
+    }
+
+    this.finishing = state;
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.currentTarget = 0;
+    if (state === 'stopped') {
+      this.abortController.abort();
+    }
+    if (state === 'stopped' || this.inFlight === 0) {
+      this.reportDone();
+    }
+  }
+
+  /**
+   * Reports the final results once.
+   */
+  private reportDone(): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    if (this.reportTimer) {
+      clearInterval(this.reportTimer);
+      this.reportTimer = null;
+    }
+    this.onDone(this.progress(), this.finishing ?? 'completed');
+  }
+
+  /**
+   * Builds a progress report and starts a new reporting interval.
+   */
+  private progress(): LoadGeneratorProgress {
+    const now = Date.now();
+    // The final report can come moments after the last one; don't let a
+    // short interval inflate the rate
+    const intervalSeconds = Math.max(REPORT_INTERVAL_MS, now - this.lastReportAt) / 1000;
+    const progress: LoadGeneratorProgress = {
+      elapsedSeconds: Math.round((now - this.startedAt) / 100) / 10,
+      target: Math.round(this.currentTarget * 100) / 100,
+      sent: this.sent,
+      completed: this.completed,
+      errors: this.errors,
+      inFlight: this.inFlight,
+      dropped: this.dropped,
+      requestsPerSecond: Math.round((this.intervalCompleted / intervalSeconds) * 100) / 100,
+      statusClasses: { ...this.statusClasses },
+      latencyMs: this.intervalLatency.summary(),
+      runLatencyMs: this.runLatency.summary(),
+    };
+    this.lastReportAt = now;
+    this.intervalCompleted = 0;
+    this.intervalLatency.reset();
+    return progress;
+  }
+}
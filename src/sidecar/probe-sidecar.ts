@@ -39,6 +39,13 @@
  *   5. Parent process (index.ts) relays result to dashboard via Socket.IO
  *   6. Dashboard renders real-time latency chart (charts.js) with interpolation
  *
+ * LOAD GENERATOR:
+ *   The parent can also ask the sidecar to send load test traffic
+ *   (IPC 'loadGeneratorStart' / 'loadGeneratorStop', see load-generator.ts).
+ *   Requests go to the same target as the probes and carry the credential
+ *   of whoever started the run. Results go back every second
+ *   as 'loadGeneratorProgress' and once at the end as 'loadGeneratorDone'.
+ *
  * PROBE BEHAVIOR DURING EVENT LOOP BLOCKING:
  *   When the main app's event loop is blocked, incoming HTTP requests queue up.
  *   The sidecar continues SENDING probes on schedule (its event loop is fine).
@@ -66,6 +73,8 @@
 
 import http from 'http';
 import https from 'https';
+import { LoadGenerator } from './load-generator';
+import { LoadGeneratorPlan } from '../types';
 
 // Configuration from environment (set by parent process)
 const MAIN_APP_PORT = parseInt(process.env.MAIN_APP_PORT || '3000', 10);
@@ -100,11 +109,33 @@ let probeErrors = 0;
 let probesSkipped = 0;  // Probes skipped due to idle state
 let lastProbeLatency = 0;
 
+// Load generator run (at most one at a time; the parent enforces this too)
+let loadGenerator: LoadGenerator | null = null;
+let loadGeneratorRunId: string | null = null;
+
+// Separate keep-alive pool so load traffic reuses connections instead of
+// opening thousands of sockets
+const loadAgent = useExternalProbe
+  ? new https.Agent({ keepAlive: true })
+  : new http.Agent({ keepAlive: true });
+
+/**
+ * Messages the parent process sends to the sidecar.
+ */
+interface ParentMessage {
+  type: string;
+  isIdle?: boolean;
+  slowRequestActive?: boolean;
+  runId?: string;
+  plan?: LoadGeneratorPlan;
+  credential?: string;
+}
+
 /**
- * Handle messages from the parent process (main app).
- * Currently used to receive idle state change notifications.
+ * Handle messages from the parent process (main app): idle and slow request
+ * state changes, and load generator start/stop.
  */
-process.on('message', (msg: { type: string; isIdle?: boolean; slowRequestActive?: boolean }) => {
+process.on('message', (msg: ParentMessage) => {
   if (msg.type === 'idleStateChange' && typeof msg.isIdle === 'boolean') {
     const wasIdle = isIdle;
     isIdle = msg.isIdle;
@@ -128,8 +159,77 @@ process.on('message', (msg: { type: string; isIdle?: boolean; slowRequestActive?
       restartProbeLoop(PROBE_INTERVAL_MS);
     }
   }
+
+  if (msg.type === 'loadGeneratorStart' && msg.runId && msg.plan) {
+    startLoadGenerator(msg.runId, msg.plan, msg.credential);
+  }
+
+  if (msg.type === 'loadGeneratorStop' && msg.runId === loadGeneratorRunId && loadGenerator) {
+    loadGenerator.stop();
+  }
 });
 
+/**
+ * Starts a load generator run, replacing any run still going.
+ *
+ * @param runId - Run ID assigned by the parent
+ * @param plan - What to send
+ * @param credential - Credential of the user who started the run, if any
+ */
+function startLoadGenerator(runId: string, plan: LoadGeneratorPlan, credential?: string): void {
+  if (loadGenerator) {
+    loadGenerator.stop();
+  }
+
+  const headers: Record<string, string> = {};
+  if (credential) {
+    headers.Authorization = `Bearer ${credential}`;
+  }
+
+  const generator = new LoadGenerator(
+    plan,
+    (path, timeoutMs, signal) =>
+      new Promise<number>((resolve, reject) => {
+        const req = probeProtocol.get(
+          {
+            hostname: probeHostname,
+            port: probePort,
+            path,
+            agent: loadAgent,
+            headers,
+            timeout: timeoutMs,
+            signal,
+          },
+          (res) => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode ?? 0));
+            res.on('error', reject);
+          }
+        );
+        req.on('timeout', () => req.destroy(new Error('timeout')));
+        req.on('error', reject);
+      }),
+    (progress) => sendToParent('loadGeneratorProgress', { runId, progress }),
+    (progress, state) => {
+      sendToParent('loadGeneratorDone', { runId, progress, state });
+      if (loadGenerator === generator) {
+        loadGenerator = null;
+        loadGeneratorRunId = null;
+      }
+      console.log(
+        `[Sidecar] Load generator ${state}: ${progress.sent} sent, ${progress.errors} errors`
+      );
+    }
+  );
+
+  loadGenerator = generator;
+  loadGeneratorRunId = runId;
+  console.log(
+    `[Sidecar] Load generator started (${plan.model} model, ${plan.stages.length} stage(s))`
+  );
+  generator.start();
+}
+
 /**
  * Send a structured message to the parent process via Node.js IPC channel.
  *
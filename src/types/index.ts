@@ -35,6 +35,7 @@
  * Each type corresponds to a distinct simulation service and API endpoint:
  *   - CPU_STRESS:          Spawns OS-level worker processes to burn CPU cores
  *   - MEMORY_PRESSURE:     Allocates V8 heap objects to consume memory
+ *   - MEMORY_LEAK:         Grows retained V8 heap at a steady rate (gradual leak)
  *   - EVENT_LOOP_BLOCKING: Runs synchronous crypto in the main thread to block I/O
  *   - SLOW_REQUEST:        Delays HTTP responses using various blocking strategies
  *   - CRASH_*:             Intentionally terminates the process via different failure modes
@@ -46,6 +47,7 @@
 export type SimulationType =
   | 'CPU_STRESS'
   | 'MEMORY_PRESSURE'
+  | 'MEMORY_LEAK'
   | 'EVENT_LOOP_BLOCKING'
   | 'SLOW_REQUEST'
   | 'FAILED_REQUEST'
@@ -60,10 +62,14 @@ export type SimulationType =
  * State machine: ACTIVE → COMPLETED (duration elapsed)
  *                ACTIVE → STOPPED   (user-initiated stop)
  *                ACTIVE → FAILED    (error during simulation)
+ *                ACTIVE ⇄ PAUSED    (user pause/resume; CPU stress, memory leak
+ *                                    and event loop blocking only)
+ *                PAUSED → STOPPED / FAILED
  *
- * Only ACTIVE simulations consume resources. Terminal states are immutable.
+ * ACTIVE and PAUSED simulations hold resources (a paused CPU stress keeps its
+ * suspended workers, a paused leak its memory). Terminal states are immutable.
  */
-export type SimulationStatus = 'ACTIVE' | 'COMPLETED' | 'STOPPED' | 'FAILED';
+export type SimulationStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'STOPPED' | 'FAILED';
 
 /**
  * Log severity levels — used in the event log ring buffer.
@@ -71,6 +77,24 @@ export type SimulationStatus = 'ACTIVE' | 'COMPLETED' | 'STOPPED' | 'FAILED';
  */
 export type LogLevel = 'info' | 'warn' | 'error';
 
+/**
+ * Access roles, from least to most privileged. Each role includes the
+ * permissions of the roles before it:
+ *   - viewer:     read metrics, simulations and scenarios; receive live updates
+ *   - trainee:    also start/stop CPU, event loop, slow/failed request
+ *                 simulations, scenarios and load tests
+ *   - instructor: also crash and memory simulations and all /api/admin routes
+ */
+export type AuthRole = 'viewer' | 'trainee' | 'instructor';
+
+/**
+ * What the resource guardrails do with a request that exceeds the safe limits:
+ *   - reject: answer 400 (unless the request sets force=true)
+ *   - clamp:  reduce the request to the safe limit
+ *   - off:    no guardrails
+ */
+export type GuardrailMode = 'reject' | 'clamp' | 'off';
+
 /**
  * Types of events that can be logged in the event system.
  *
@@ -84,29 +108,79 @@ export type EventType =
   | 'SIMULATION_STOPPED'
   | 'SIMULATION_COMPLETED'
   | 'SIMULATION_FAILED'
+  | 'SIMULATION_PAUSED'
+  | 'SIMULATION_RESUMED'
+  | 'SIMULATION_EXTENDED'
   | 'CRASH_WARNING'
   | 'MEMORY_ALLOCATING'
   | 'MEMORY_ALLOCATED'
   | 'MEMORY_RELEASED'
+  | 'MEMORY_LEAK_PROGRESS'
+  | 'HEAP_SNAPSHOT_CAPTURED'
+  | 'CPU_PROFILE_CAPTURED'
+  | 'SCENARIO_STARTED'
+  | 'SCENARIO_STEP_STARTED'
+  | 'SCENARIO_STEP_COMPLETED'
+  | 'SCENARIO_STEP_FAILED'
+  | 'SCENARIO_PAUSED'
+  | 'SCENARIO_RESUMED'
+  | 'SCENARIO_COMPLETED'
+  | 'SCENARIO_ABORTED'
   | 'SERVER_STARTED'
+  | 'EVENT_LOG_RESTORED'
   | 'CLIENT_CONNECTED'
   | 'CLIENT_DISCONNECTED'
   | 'LOAD_TEST_STATS'
   | 'LOAD_TEST_ERROR_INJECTED'
-  | 'FAILED_REQUEST_ERROR';
+  | 'LOAD_TEST_EXCEPTIONS_UPDATED'
+  | 'LOAD_GENERATOR_STARTED'
+  | 'LOAD_GENERATOR_COMPLETED'
+  | 'LOAD_GENERATOR_STOPPED'
+  | 'LOAD_GENERATOR_FAILED'
+  | 'FAILED_REQUEST_ERROR'
+  | 'GUARDRAIL_CLAMPED';
 
 // =============================================================================
 // SIMULATION PARAMETER TYPES
 // =============================================================================
 
+/**
+ * Shapes of a time-varying CPU load profile.
+ *
+ *   RAMP   — linear from startPercent to endPercent over periodSeconds, then holds endPercent
+ *   STEP   — holds startPercent for periodSeconds, then jumps to endPercent
+ *   SINE   — oscillates between startPercent and endPercent, one full cycle per periodSeconds
+ *   SPIKES — baseline startPercent with random spikes to endPercent, on average
+ *            one per periodSeconds, each lasting a tenth of the period (at least 1s)
+ */
+export type CpuLoadProfileShape = 'RAMP' | 'STEP' | 'SINE' | 'SPIKES';
+
+/**
+ * Time-varying CPU load profile for CPU stress.
+ *
+ * Percentages are system-wide (like targetPercent) and may be 0 for an idle phase.
+ */
+export interface CpuLoadProfile {
+  /** Profile shape */
+  shape: CpuLoadProfileShape;
+  /** Load at the start (RAMP/STEP), trough (SINE) or baseline (SPIKES), 0–100 */
+  startPercent: number;
+  /** Load at the end (RAMP/STEP), peak (SINE) or spike height (SPIKES), 0–100 */
+  endPercent: number;
+  /** Ramp length, step delay, wave period or mean spike interval in seconds */
+  periodSeconds: number;
+}
+
 /**
  * Parameters for CPU stress simulation.
  *
  * BEHAVIOR:
  *   The service spawns N child processes (via fork()) where
- *   N = round((targetLoadPercent / 100) * CPU_CORE_COUNT).
- *   Each child process runs a tight synchronous loop (pbkdf2Sync) burning 100%
- *   of one CPU core. The OS scheduler distributes them across physical cores.
+ *   N = ceil((targetPercent / 100) * CPU_CORE_COUNT).
+ *   Each child process runs a synchronous loop (pbkdf2Sync) on a busy/sleep
+ *   duty cycle so the N workers together reach the target. With a load
+ *   profile, the duty cycle is adjusted over time via IPC.
+ *   The OS scheduler distributes them across physical cores.
  *
  * PORTING NOTES:
  *   - Java: Use Executors with Runnable tasks in a thread pool.
@@ -117,8 +191,12 @@ export type EventType =
  *   the load is visible in system-wide CPU metrics.
  */
 export interface CpuStressParams {
-  /** CPU stress intensity level. 'moderate' targets ~65%, 'high' targets ~100%. */
-  intensity: 'moderate' | 'high';
+  /** CPU stress preset. 'moderate' targets ~65%, 'high' targets ~100%. Ignored when targetPercent or profile is set. */
+  intensity?: 'moderate' | 'high';
+  /** Explicit system-wide CPU target (1–100). Takes precedence over intensity. */
+  targetPercent?: number;
+  /** Time-varying load profile. Takes precedence over targetPercent and intensity. */
+  profile?: CpuLoadProfile;
   /** Duration in seconds. After this, worker processes are killed and simulation completes. */
   durationSeconds: number;
 }
@@ -144,6 +222,32 @@ export interface MemoryPressureParams {
   sizeMb: number;
 }
 
+/**
+ * Parameters for gradual memory leak simulation.
+ *
+ * BEHAVIOR:
+ *   Unlike MEMORY_PRESSURE (a one-shot allocation), a leak grows the retained
+ *   heap a little at a time at leakRateMbPerMinute. Nothing is ever freed while
+ *   the leak is active, so heapUsed rises monotonically with no GC sawtooth —
+ *   the signature that memory diagnostic tools are designed to catch.
+ *   Growth stops at maxSizeMb (memory stays held), and the whole leak is
+ *   released when durationSeconds elapses or the user calls the DELETE endpoint.
+ *
+ * PORTING NOTES:
+ *   - Use a periodic timer that appends managed heap objects to a long-lived
+ *     collection (static List<byte[]> in C#/Java, module-level list in Python).
+ *   - Derive the target size from elapsed time rather than counting ticks so
+ *     timer drift does not change the effective leak rate.
+ */
+export interface MemoryLeakParams {
+  /** Heap growth rate in megabytes per minute. */
+  leakRateMbPerMinute: number;
+  /** Optional ceiling in MB. Growth stops (but memory is retained) once reached. */
+  maxSizeMb?: number;
+  /** Optional duration in seconds. When elapsed, the leak completes and memory is released. */
+  durationSeconds?: number;
+}
+
 /**
  * Parameters for event loop blocking simulation.
  *
@@ -179,7 +283,7 @@ export interface EventLoopBlockingParams {
  * Three patterns demonstrate different ways a request can be "slow":
  *   - setTimeout:  Non-blocking async delay. The server remains fully responsive
  *                  to other requests. Simulates async I/O waits (DB queries, API calls).
- *   - libuv:       Saturates the internal I/O thread pool with synchronous crypto.
+ *   - libuv:       Saturates the internal I/O thread pool with long async crypto calls.
  *                  Other operations using the thread pool (file I/O, DNS) are starved.
  *                  In Node.js, the libuv thread pool defaults to 4 threads.
  *   - worker:      Spawns a Worker Thread that blocks with CPU-heavy sync work.
@@ -240,6 +344,7 @@ export interface FailedRequestParams {
 export type SimulationParameters =
   | ({ type: 'CPU_STRESS' } & CpuStressParams)
   | ({ type: 'MEMORY_PRESSURE' } & MemoryPressureParams)
+  | ({ type: 'MEMORY_LEAK' } & MemoryLeakParams)
   | ({ type: 'EVENT_LOOP_BLOCKING' } & EventLoopBlockingParams)
   | ({ type: 'SLOW_REQUEST' } & SlowRequestParams)
   | ({ type: 'FAILED_REQUEST' } & FailedRequestParams)
@@ -274,8 +379,16 @@ export interface Simulation {
   startedAt: Date;
   /** When the simulation ended (null if still active). Set on stop/complete/fail. */
   stoppedAt: Date | null;
-  /** When the simulation will auto-stop if not manually stopped. */
+  /** When the simulation will auto-stop; moved by extend and by time spent paused. */
   scheduledEndAt: Date;
+  /** When the simulation was paused (null unless PAUSED). */
+  pausedAt: Date | null;
+  /** Time spent in finished pauses, in milliseconds (excluded from the elapsed time). */
+  totalPausedMs: number;
+  /** Client that started it (AuthPrincipal.clientId); null if started outside a request. */
+  clientId: string | null;
+  /** Seed of the simulation's random generator; start it again with this seed to replay it. */
+  seed: number;
 }
 
 // =============================================================================
@@ -337,6 +450,129 @@ export interface MemoryMetrics {
   totalSystemMb: number;
 }
 
+/**
+ * Container-level metrics from the cgroup the process runs in.
+ *
+ * WHY SEPARATE FROM CpuMetrics / MemoryMetrics:
+ *   Those describe the host (os.cpus(), os.totalmem()). Azure's container
+ *   metrics are computed against the container's CPU quota and memory limit,
+ *   which these fields mirror. Interval fields cover the time since the
+ *   previous sample (one metrics tick).
+ *
+ * PORTING NOTES:
+ *   Read the same cgroup files (cpu.stat, cpu.max, memory.current, memory.max
+ *   or their v1 equivalents) in any runtime running on Linux.
+ */
+export interface ContainerMetrics {
+  /** cgroup version the values were read from */
+  cgroupVersion: 1 | 2;
+  /** CPU used by the container as a percentage of cpuLimitCores (0-100) */
+  cpuUsagePercent: number;
+  /** CPU quota in cores, or the host core count when there is no quota */
+  cpuLimitCores: number;
+  /** CFS periods in which the container was throttled, this interval */
+  throttledPeriods: number;
+  /** Time the container was throttled in ms, this interval */
+  throttledTimeMs: number;
+  /** Throttled periods since the container started */
+  throttledPeriodsTotal: number;
+  /** Time throttled in ms since the container started */
+  throttledTimeMsTotal: number;
+  /** Working set (usage minus inactive file cache) in MB (null = not available) */
+  memoryUsageMb: number | null;
+  /** Memory limit in MB (null = unlimited) */
+  memoryLimitMb: number | null;
+  /** Working set as a percentage of the limit (null = no limit) */
+  memoryUsagePercent: number | null;
+}
+
+/**
+ * libuv thread pool probe results.
+ *
+ * CONCEPT:
+ *   File system, dns.lookup, zlib and async crypto calls run on a small
+ *   thread pool (UV_THREADPOOL_SIZE). When all its threads are busy, those
+ *   calls queue up even though the event loop is idle. The probe times a
+ *   no-op pool operation; its latency is the queue wait.
+ *
+ * PORTING NOTES:
+ *   Equivalent to timing a no-op task on the runtime's worker pool (Java
+ *   ForkJoinPool/ExecutorService, .NET ThreadPool, Python executor).
+ */
+export interface ThreadPoolMetrics {
+  /** Configured pool size (UV_THREADPOOL_SIZE) */
+  poolSize: number;
+  /** Latest probe latency in ms (or the running time of a probe still queued) */
+  probeLatencyMs: number;
+  /** Longest probe latency this interval in ms */
+  probeLatencyMaxMs: number;
+  /** Probes completed this interval */
+  probes: number;
+  /** Whether a probe is still waiting for a thread */
+  probePending: boolean;
+}
+
+/**
+ * V8 garbage collection kinds, from the `kind` of perf_hooks 'gc' entries.
+ */
+export type GcKind = 'scavenge' | 'markSweepCompact' | 'incremental' | 'weakCallbacks';
+
+/**
+ * Collections and pause time for one GC kind.
+ */
+export interface GcKindMetrics {
+  /** Collections this interval */
+  count: number;
+  /** Total pause time in ms, this interval */
+  pauseMs: number;
+  /** Collections since process start */
+  countTotal: number;
+  /** Total pause time in ms since process start */
+  pauseMsTotal: number;
+}
+
+/**
+ * Size of one V8 heap space (new_space, old_space, large_object_space, ...).
+ */
+export interface HeapSpaceMetrics {
+  /** V8 space name */
+  name: string;
+  /** Space size in MB */
+  sizeMb: number;
+  /** Used bytes in the space in MB */
+  usedMb: number;
+  /** Free bytes in the space in MB */
+  availableMb: number;
+  /** Physically committed size in MB */
+  physicalMb: number;
+}
+
+/**
+ * Garbage collection metrics.
+ *
+ * CONCEPT:
+ *   Memory simulations show up first as GC activity: a leak promotes objects
+ *   to old space and makes mark-sweep pauses longer and more frequent, long
+ *   before the process runs out of memory. Scavenges collect the young
+ *   generation (new space); mark-sweep-compact collects the whole heap.
+ *   Interval fields cover the time since the previous sample.
+ *
+ * PORTING NOTES:
+ *   - Java: GarbageCollectorMXBean (getCollectionCount/Time per collector);
+ *     MemoryPoolMXBean for Eden/Survivor/Old Gen sizes.
+ *   - C#: GC.CollectionCount(generation), GC.GetTotalPauseDuration(),
+ *     GC.GetGCMemoryInfo().GenerationInfo.
+ *   - Python: gc.callbacks and gc.get_stats() per generation.
+ */
+export interface GcMetrics {
+  /** Counts and pause times per GC kind */
+  byKind: Record<GcKind, GcKindMetrics>;
+  /** Longest single GC pause this interval in ms */
+  maxPauseMs: number;
+  /** Per-space sizes from v8.getHeapSpaceStatistics() */
+  heapSpaces: HeapSpaceMetrics[];
+}
+
 /**
  * Event loop lag metrics — measures how responsive the main thread is.
  *
@@ -351,12 +587,21 @@ export interface MemoryMetrics {
  *   2. heartbeatLagMs: Measures actual wall-clock time for a setImmediate callback
  *      to fire. More intuitive and responsive for the dashboard display.
  *
+ *   Lag says how long callbacks wait; utilization says how busy the loop is.
+ *   performance.eventLoopUtilization() splits time into idle (waiting for I/O)
+ *   and active (running callbacks). A loop serving many short CPU-bound
+ *   requests is highly utilized yet still responsive (low lag); a loop stuck
+ *   in one synchronous call is fully utilized AND lagging.
+ *
  * PORTING NOTES:
  *   This concept is specific to event-loop-based runtimes (Node.js, Python asyncio).
  *   - Java: Measure thread pool queue wait time or use Spring Actuator's event loop metrics.
  *   - C#: Measure ThreadPool queue depth or Task scheduling delay.
  *   - Python asyncio: Measure delay between loop iterations.
  *   - PHP (synchronous): Not directly applicable — use request processing time instead.
+ *   Utilization: the busy fraction of the request-processing threads (Java
+ *   thread pool active time, .NET ThreadPool busy time, asyncio loop time
+ *   spent outside select()).
  */
 export interface EventLoopMetrics {
   /** Mean event loop lag in ms (from perf_hooks histogram) */
@@ -369,6 +614,12 @@ export interface EventLoopMetrics {
   minMs: number;
   /** Maximum observed lag in ms */
   maxMs: number;
+  /** Time the loop spent waiting for events in ms, this interval */
+  idleMs: number;
+  /** Time the loop spent running callbacks in ms, this interval */
+  activeMs: number;
+  /** active / (idle + active) this interval (0-1) */
+  utilization: number;
 }
 
 /**
@@ -411,6 +662,80 @@ export interface SystemMetrics {
   eventLoop: EventLoopMetrics;
   /** Process-level metrics */
   process: ProcessMetrics;
+  /** Container (cgroup) CPU and memory, or null where cgroups are unavailable (Windows, macOS) */
+  container: ContainerMetrics | null;
+  /** Garbage collection counts, pauses and heap space sizes */
+  gc: GcMetrics;
+  /** libuv thread pool queue wait */
+  threadPool: ThreadPoolMetrics;
+}
+
+// =============================================================================
+// REQUEST METRICS — rate, errors and duration (RED) per Express route
+// =============================================================================
+
+/**
+ * Latency distribution summary in milliseconds.
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * HTTP status code classes.
+ */
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+
+/**
+ * RED metrics for one route.
+ *
+ * CONCEPT:
+ *   Rate, Errors and Duration per endpoint. The dashboard's latency monitor
+ *   only sees the probe endpoint; these show which endpoint slows down or
+ *   starts failing during a scenario. Rates and latency cover a sliding
+ *   window (windowSeconds); totals and status classes are since start.
+ *
+ * PORTING NOTES:
+ *   - Java: Micrometer's http.server.requests timer (tagged by uri template)
+ *   - C#: ASP.NET Core http.server.request.duration (tagged by http.route)
+ *   - Python: prometheus-fastapi-instrumentator / django-prometheus
+ */
+export interface RouteMetrics {
+  /** HTTP method */
+  method: string;
+  /** Express route template (e.g. /api/scenarios/:id), "(unmatched)" or "(other)" */
+  route: string;
+  /** Requests completed since start */
+  requests: number;
+  /** Requests answered with 5xx since start */
+  errors: number;
+  /** Requests currently being processed */
+  inFlight: number;
+  /** Completed requests per second over the window */
+  requestsPerSecond: number;
+  /** 5xx responses per second over the window */
+  errorsPerSecond: number;
+  /** Responses per status class since start */
+  statusClasses: Record<StatusClass, number>;
+  /** Latency percentiles over the window */
+  latencyMs: LatencyPercentiles;
+}
+
+/**
+ * Request metrics for all routes seen so far.
+ */
+export interface RequestMetricsSnapshot {
+  /** When the snapshot was taken (serialized as ISO 8601 string in JSON) */
+  timestamp: Date;
+  /** Length of the sliding window for rates and latency in seconds */
+  windowSeconds: number;
+  /** Per-route metrics, busiest first */
+  routes: RouteMetrics[];
 }
 
 // =============================================================================
@@ -453,6 +778,290 @@ export interface EventLogEntry {
   messageParams?: Record<string, unknown>;
 }
 
+/**
+ * Durable destination for event log entries, plugged into EventLogService.
+ *
+ * The in-memory ring buffer is lost when the process dies — including during
+ * the CRASH_* simulations, which are the events most worth keeping. A sink
+ * persists every entry as it is logged and hands the most recent ones back
+ * to the next process at startup.
+ *
+ * PORTING NOTES:
+ *   Java: a Logback/Log4j2 appender (RollingFileAppender); C#: a Serilog sink
+ *   (Serilog.Sinks.File with rollOnFileSizeLimit); Python: logging.handlers.RotatingFileHandler.
+ */
+export interface EventLogSink {
+  /** Persists one entry. Must not throw; must be durable before returning. */
+  append(entry: EventLogEntry): void;
+  /** Loads up to `limit` of the most recently persisted entries, oldest first. */
+  loadRecent(limit: number): EventLogEntry[];
+}
+
+/**
+ * Filters and paging for EventLogService.query(). All filters are optional
+ * and combined with AND; list filters match any of their values.
+ */
+export interface EventLogQuery {
+  /** Only these levels */
+  levels?: LogLevel[];
+  /** Only these event types */
+  events?: string[];
+  /** Only entries for this simulation */
+  simulationId?: string;
+  /** Only entries for this simulation type */
+  simulationType?: string;
+  /** Only entries at or after this time */
+  from?: Date;
+  /** Only entries at or before this time */
+  to?: Date;
+  /** Case-insensitive text matched against message, event and details */
+  search?: string;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+  /** Maximum entries to return */
+  limit: number;
+}
+
+/**
+ * One page of event log query results, newest first.
+ */
+export interface EventLogPage {
+  /** Matching entries, newest first */
+  entries: EventLogEntry[];
+  /** Cursor for the next (older) page, or null when there are no more matches */
+  nextCursor: string | null;
+}
+
+// =============================================================================
+// WEBHOOKS — event log entries pushed to external HTTP endpoints
+// =============================================================================
+
+/**
+ * Validated parameters for registering a webhook.
+ */
+export interface WebhookParams {
+  /** http(s) URL the entries are POSTed to */
+  url: string;
+  /** Only deliver these event types (all if omitted) */
+  events?: EventType[];
+  /** Only deliver these levels (all if omitted) */
+  levels?: LogLevel[];
+  /** HMAC-SHA256 signing secret (generated if omitted) */
+  secret?: string;
+  /** Free-text label, e.g. the lab or channel name */
+  description?: string;
+}
+
+/**
+ * A registered webhook.
+ *
+ * Each matching EventLogEntry is POSTed as JSON with an
+ * X-PerfSim-Signature header (sha256=HMAC of "<timestamp>.<body>").
+ */
+export interface WebhookRegistration {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Target URL */
+  url: string;
+  /** Event type filter (null = all) */
+  events: EventType[] | null;
+  /** Level filter (null = all) */
+  levels: LogLevel[] | null;
+  /** Signing secret — only returned when the webhook is created */
+  secret: string;
+  /** Free-text label */
+  description: string | null;
+  /** When the webhook was registered */
+  createdAt: Date;
+  /** Successful deliveries */
+  deliveredCount: number;
+  /** Deliveries that exhausted their retries */
+  failedCount: number;
+  /** Time of the last successful delivery */
+  lastDeliveryAt: Date | null;
+}
+
+/**
+ * A delivery that failed every attempt, kept for inspection and redelivery.
+ */
+export interface WebhookDeadLetter {
+  /** Delivery ID (UUID), also sent as X-PerfSim-Delivery */
+  id: string;
+  /** Webhook the delivery was for */
+  webhookId: string;
+  /** Target URL at the time of delivery */
+  url: string;
+  /** Event log entry that was being delivered */
+  entryId: string;
+  /** Event type of the entry */
+  event: EventType;
+  /** Attempts made */
+  attempts: number;
+  /** Error of the last attempt */
+  lastError: string;
+  /** HTTP status of the last attempt (null for network errors and timeouts) */
+  lastStatusCode: number | null;
+  /** When the delivery was given up */
+  failedAt: Date;
+  /** Request body that was sent */
+  body: string;
+}
+
+// =============================================================================
+// DIAGNOSTIC ARTIFACTS — heap snapshots and profiles captured on demand
+// =============================================================================
+
+/**
+ * Kinds of diagnostic artifacts the application can capture.
+ *
+ *   - HEAP_SNAPSHOT: V8 heap snapshot (.heapsnapshot) written by v8.writeHeapSnapshot().
+ *                    Open in Chrome DevTools → Memory tab.
+ *   - CPU_PROFILE:   V8 CPU profile (.cpuprofile) recorded through the inspector
+ *                    Profiler domain. Open in Chrome DevTools → Performance tab.
+ */
+export type DiagnosticArtifactKind = 'HEAP_SNAPSHOT' | 'CPU_PROFILE';
+
+/**
+ * Metadata for a captured diagnostic artifact.
+ *
+ * The file itself lives in config.diagnosticsDir; the registry
+ * (DiagnosticArtifactService) keeps this metadata in memory so artifacts can
+ * be listed and downloaded later. Like simulations, the registry is lost on
+ * restart — files already on disk are not re-indexed.
+ *
+ * PORTING NOTES:
+ *   - Java: jcmd GC.heap_dump / HotSpotDiagnosticMXBean.dumpHeap() → .hprof
+ *   - C#: dotnet-gcdump / dotnet-dump → .gcdump / .dmp
+ *   - Python: tracemalloc snapshots or guppy/heapy dumps
+ */
+export interface DiagnosticArtifact {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** What kind of artifact this is */
+  kind: DiagnosticArtifactKind;
+  /** File name inside the diagnostics directory (used for downloads) */
+  fileName: string;
+  /** File size in bytes */
+  sizeBytes: number;
+  /** When the capture finished */
+  createdAt: Date;
+  /** How long the capture took in milliseconds */
+  captureDurationMs: number;
+  /** IDs of simulations that were active when the capture was taken */
+  activeSimulationIds: string[];
+  /** Simulation the capture was taken for (CPU profiles only) */
+  simulationId?: string;
+}
+
+// =============================================================================
+// SCENARIO PLAYBOOKS — scripted, timed sequences of simulations
+// =============================================================================
+
+/**
+ * One timed step in a scenario playbook.
+ *
+ * `atSeconds` is measured from the start of the run (excluding time spent
+ * paused). `action` selects the simulation service and carries the same
+ * parameters as the corresponding REST endpoint:
+ *   - CPU_STRESS          → CpuStressService.start()
+ *   - MEMORY_PRESSURE     → MemoryPressureService.allocate()
+ *   - MEMORY_RELEASE      → MemoryPressureService.release() for the allocation
+ *                           labelled `target`, or every allocation made by the run
+ *   - EVENT_LOOP_BLOCKING → EventLoopBlockService.block()
+ *   - SLOW_REQUEST        → SlowRequestService.delay()
+ *
+ * PORTING NOTES:
+ *   Same discriminated-union pattern as SimulationParameters, keyed on `action`.
+ */
+export type ScenarioStep = {
+  /** Offset from the start of the run in seconds */
+  atSeconds: number;
+  /** Optional label so later steps (MEMORY_RELEASE) can refer to this one */
+  label?: string;
+} & (
+  | ({ action: 'CPU_STRESS' } & CpuStressParams)
+  | ({ action: 'MEMORY_PRESSURE' } & MemoryPressureParams)
+  | { action: 'MEMORY_RELEASE'; target?: string }
+  | ({ action: 'EVENT_LOOP_BLOCKING' } & EventLoopBlockingParams)
+  | ({ action: 'SLOW_REQUEST' } & SlowRequestParams)
+);
+
+/**
+ * Action names accepted in a playbook step.
+ */
+export type ScenarioAction = ScenarioStep['action'];
+
+/**
+ * A scenario playbook as submitted (JSON or YAML).
+ */
+export interface ScenarioPlaybook {
+  /** Display name of the scenario */
+  name: string;
+  /** Optional description shown to trainees */
+  description?: string;
+  /** Steps, in any order — they are run sorted by atSeconds */
+  steps: ScenarioStep[];
+}
+
+/**
+ * Lifecycle states of a scenario run.
+ *
+ * State machine: RUNNING ⇄ PAUSED
+ *                RUNNING → COMPLETED (every step finished)
+ *                RUNNING/PAUSED → ABORTED (user-initiated)
+ *                RUNNING → FAILED (a step failed)
+ */
+export type ScenarioRunStatus = 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'ABORTED' | 'FAILED';
+
+/**
+ * Lifecycle states of a single step within a run.
+ */
+export type ScenarioStepStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'SKIPPED';
+
+/**
+ * Runtime state of one step.
+ */
+export interface ScenarioStepState {
+  /** Position in the sorted step list */
+  index: number;
+  /** The step definition */
+  step: ScenarioStep;
+  /** Current step state */
+  status: ScenarioStepStatus;
+  /** When the step was dispatched */
+  startedAt: Date | null;
+  /** When the step finished (completed, failed or skipped) */
+  finishedAt: Date | null;
+  /** Simulation created by the step (not set for MEMORY_RELEASE) */
+  simulationId: string | null;
+  /** Error message if the step failed */
+  error: string | null;
+}
+
+/**
+ * A scenario run — one execution of a playbook.
+ */
+export interface ScenarioRun {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Playbook being run */
+  playbook: ScenarioPlaybook;
+  /** Client that started the run (AuthPrincipal.clientId); its quotas apply to every step */
+  clientId: string | null;
+  /** Current run state */
+  status: ScenarioRunStatus;
+  /** When the run started */
+  startedAt: Date;
+  /** When the run reached a terminal state */
+  finishedAt: Date | null;
+  /** When the current pause began (null unless PAUSED) */
+  pausedAt: Date | null;
+  /** Total time spent paused in milliseconds (excluded from the scenario clock) */
+  totalPausedMs: number;
+  /** Per-step state, sorted by atSeconds */
+  steps: ScenarioStepState[];
+}
+
 // =============================================================================
 // APPLICATION CONFIGURATION
 // =============================================================================
@@ -479,6 +1088,16 @@ export interface AppConfig {
   maxMemoryAllocationMb: number;
   /** Maximum event log entries to retain */
   eventLogMaxEntries: number;
+  /** Whether event log entries are persisted to JSONL files (and restored at startup) */
+  eventLogPersist: boolean;
+  /** Directory for persisted event log files */
+  eventLogDir: string;
+  /** Size at which the active event log file is rotated, in MB */
+  eventLogMaxFileMb: number;
+  /** Maximum event log files kept (active + rotated) */
+  eventLogMaxFiles: number;
+  /** Rotated event log files older than this are deleted, in hours */
+  eventLogRetentionHours: number;
   /** Health probe interval in ms (default: 200, min: 100) */
   healthProbeRateMs: number;
   /** Idle timeout in minutes (default: 20) */
@@ -491,6 +1110,95 @@ export interface AppConfig {
   translatorEndpoint: string;
   /** Azure Translator region */
   translatorRegion: string;
+  /** Directory where diagnostic artifacts (heap snapshots, profiles) are written */
+  diagnosticsDir: string;
+  /** Maximum diagnostic artifacts to retain (oldest files are deleted first) */
+  maxDiagnosticArtifacts: number;
+  /** Webhook request timeout in ms */
+  webhookTimeoutMs: number;
+  /** Attempts per webhook delivery before it is dead-lettered */
+  webhookMaxAttempts: number;
+  /** Delay before the first webhook retry in ms (doubles each retry) */
+  webhookRetryBaseMs: number;
+  /** API keys and the role each grants (auth is enabled when any key or token is set) */
+  authApiKeys: AuthApiKey[];
+  /** Shared-secret bearer token ('' = none) */
+  authBearerToken: string;
+  /** Role granted by the shared bearer token */
+  authBearerRole: AuthRole;
+  /** Role of requests without credentials when auth is enabled (null = rejected) */
+  authAnonymousRole: AuthRole | null;
+  /** Express "trust proxy" setting: which proxies' X-Forwarded-For is believed */
+  trustProxy: boolean | number | string;
+  /** Max active simulations of one type across all clients (0 = unlimited) */
+  quotaMaxActivePerType: number;
+  /** Max active simulations of one type started by one client (0 = unlimited) */
+  quotaMaxActivePerClient: number;
+  /** Simulation starts allowed per client in any 60-second window (0 = unlimited) */
+  quotaStartsPerMinute: number;
+  /** What to do with requests that exceed the safe resource limits */
+  guardrailMode: GuardrailMode;
+  /** Share of the memory limit kept free when computing safe allocations (percent) */
+  guardrailMemoryHeadroomPercent: number;
+  /** libuv thread pool size (mirrors UV_THREADPOOL_SIZE, which libuv reads itself) */
+  threadPoolSize: number;
+  /** How often the thread pool probe runs in ms */
+  threadPoolProbeIntervalMs: number;
+  /** Highest open model rate the load generator accepts (requests per second) */
+  loadGeneratorMaxRps: number;
+  /** Most virtual users the load generator accepts (closed model) */
+  loadGeneratorMaxVirtualUsers: number;
+  /** JSON file with the load test exception catalog (empty = built-in catalog) */
+  loadTestExceptionsFile: string;
+  /** Whether X-Request-Start (set by a trusted front end) is the load test arrival time */
+  trustRequestStart: boolean;
+  /** Seed of the master random generator (null = random at startup) */
+  randomSeed: number | null;
+}
+
+/**
+ * An API key and the role it grants.
+ */
+export interface AuthApiKey {
+  /** The secret key presented by the client */
+  key: string;
+  /** Role granted */
+  role: AuthRole;
+}
+
+/**
+ * Effective resource limits and the safe limits derived from them
+ * (reported in GET /api/admin/status).
+ */
+export interface ResourceLimits {
+  /** Detected cgroup version (null = no cgroup limits found, e.g. Windows or macOS) */
+  cgroupVersion: 1 | 2 | null;
+  /** Container memory limit in MB (null = unlimited) */
+  containerMemoryLimitMb: number | null;
+  /** Container CPU quota in cores (null = unlimited) */
+  containerCpuQuotaCores: number | null;
+  /** Physical memory reported by the OS in MB */
+  hostMemoryMb: number;
+  /** CPU cores reported by the OS */
+  hostCpus: number;
+  /** V8 heap size limit in MB (heap-based simulations crash beyond it) */
+  heapLimitMb: number;
+  /** Current guardrail mode */
+  mode: GuardrailMode;
+  /** Largest memory allocation or leak ceiling that is safe right now (MB) */
+  safeMemoryAllocationMb: number;
+  /** Highest system-wide CPU target the CPU quota can deliver (percent) */
+  maxCpuPercent: number;
+}
+
+/**
+ * Who is making a request, as resolved by the auth middleware.
+ */
+export interface AuthPrincipal {
+  /** Stable, non-secret client identifier (e.g. "key:1a2b3c4d", "bearer", "anonymous") */
+  clientId: string;
+  /** Granted role (null = no access to protected routes) */
+  role: AuthRole | null;
 }
 
 // =============================================================================
@@ -605,6 +1313,8 @@ export interface LoadTestResult {
   exceptionThrown: boolean;
   /** Type name of exception thrown (null if no exception) */
   exceptionType: string | null;
+  /** Seed of the request's random generator (pass as ?seed= to replay) */
+  seed: number;
   /** UTC timestamp when the result was generated */
   timestamp: string;
 }
@@ -621,6 +1331,14 @@ export interface LoadTestStats {
   totalExceptionsThrown: number;
   /** Average response time in milliseconds */
   averageResponseTimeMs: number;
+  /** Response time percentiles since app start (arrival to completion) */
+  responseTimeMs: LatencyPercentiles;
+  /** Time between arrival and the start of work since app start */
+  queueTimeMs: LatencyPercentiles;
+  /** Time from the start of work to completion since app start */
+  workTimeMs: LatencyPercentiles;
+  /** Exceptions thrown since app start, by exception type */
+  exceptionsByType: Record<string, number>;
 }
 
 /**
@@ -646,10 +1364,150 @@ export interface LoadTestStatsData {
   requestsPerSecond: number;
   /** Number of exceptions thrown in this period */
   exceptionCount: number;
+  /** Exceptions thrown in this period, by exception type */
+  exceptionsByType: Record<string, number>;
+  /** Response time percentiles of requests completed in this period */
+  responseTimeMs: LatencyPercentiles;
+  /** Queue time (arrival to start of work) of requests completed in this period */
+  queueTimeMs: LatencyPercentiles;
+  /** Work time (start of work to completion) of requests completed in this period */
+  workTimeMs: LatencyPercentiles;
   /** When this stats snapshot was taken */
   timestamp: string;
 }
 
+/**
+ * One error that load test error injection can throw.
+ */
+export interface LoadTestExceptionEntry {
+  /** Error class name, reported as the exception type (e.g. "TimeoutError") */
+  name: string;
+  /** Error message */
+  message: string;
+  /** HTTP status code of the failed response (e.g. 500, 503, 504, 429) */
+  statusCode: number;
+  /** Relative chance of being picked */
+  weight: number;
+}
+
+/** Where the active exception catalog came from */
+export type LoadTestExceptionSource = 'default' | 'file' | 'api';
+
+/**
+ * The errors load test error injection picks from.
+ */
+export interface LoadTestExceptionCatalog {
+  source: LoadTestExceptionSource;
+  /** LOAD_TEST_EXCEPTIONS_FILE, or null when unset */
+  file: string | null;
+  exceptions: LoadTestExceptionEntry[];
+}
+
+// =============================================================================
+// LOAD GENERATOR — built-in traffic against /api/loadtest, sent by the sidecar
+// =============================================================================
+
+/**
+ * Traffic model of the load generator.
+ *
+ * - open:   requests start at a target rate whether or not earlier ones have
+ *           finished, like independent users arriving from the internet.
+ *           When the app slows down, requests pile up.
+ * - closed: a fixed number of virtual users each send a request, wait for
+ *           the response (and think time) and send the next. When the app
+ *           slows down, throughput drops instead.
+ */
+export type LoadGeneratorModel = 'open' | 'closed';
+
+/** State of a load generator run */
+export type LoadGeneratorState = 'running' | 'completed' | 'stopped' | 'failed';
+
+/**
+ * One ramp stage. The target moves linearly from the previous stage's target
+ * (0 for the first stage) to this one; a 0-second stage jumps straight to it.
+ */
+export interface LoadGeneratorStage {
+  /** Stage length in seconds */
+  durationSeconds: number;
+  /** Requests per second (open) or virtual users (closed) at the end of the stage */
+  target: number;
+}
+
+/**
+ * What a load generator run sends.
+ */
+export interface LoadGeneratorPlan {
+  model: LoadGeneratorModel;
+  /** Ramp stages, run back to back; their durations add up to the run duration */
+  stages: LoadGeneratorStage[];
+  /** Parameters sent as query parameters to GET /api/loadtest on every request */
+  request: Partial<LoadTestRequest>;
+  /** Pause between a response and the same virtual user's next request (closed model) */
+  thinkTimeMs: number;
+  /** Requests slower than this are abandoned and counted as errors */
+  requestTimeoutMs: number;
+}
+
+/**
+ * Live results of a load generator run, reported by the sidecar every second.
+ */
+export interface LoadGeneratorProgress {
+  /** Seconds since the run started */
+  elapsedSeconds: number;
+  /** Current target: requests per second (open) or virtual users (closed) */
+  target: number;
+  /** Requests sent */
+  sent: number;
+  /** Responses received, any status */
+  completed: number;
+  /** Non-2xx responses, network errors and timeouts */
+  errors: number;
+  /** Requests waiting for a response */
+  inFlight: number;
+  /** Open model arrivals not sent because too many requests were in flight */
+  dropped: number;
+  /** Responses per second since the previous report */
+  requestsPerSecond: number;
+  /** Responses per status class */
+  statusClasses: Record<StatusClass, number>;
+  /** Response time of responses since the previous report */
+  latencyMs: LatencyPercentiles;
+  /** Response time of all responses in the run */
+  runLatencyMs: LatencyPercentiles;
+}
+
+/**
+ * A load generator run as tracked by the main process.
+ */
+export interface LoadGeneratorRun {
+  id: string;
+  state: LoadGeneratorState;
+  plan: LoadGeneratorPlan;
+  /** Sum of the stage durations */
+  durationSeconds: number;
+  startedAt: Date;
+  endedAt: Date | null;
+  /** Why the run failed */
+  error?: string;
+  /** Latest results (null until the first report) */
+  progress: LoadGeneratorProgress | null;
+}
+
+/**
+ * Load testing tools a plan can be exported for.
+ */
+export type LoadTestExportFormat = 'k6' | 'jmeter';
+
+/**
+ * A generated load test script, ready to download.
+ */
+export interface LoadTestScript {
+  format: LoadTestExportFormat;
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
 // =============================================================================
 // HEALTH & ADMIN RESPONSE TYPES
 // =============================================================================
@@ -21,6 +21,7 @@
  */
 
 import { randomUUID } from 'crypto';
+import { StatusClass } from '../types';
 
 /**
  * Generates a new UUID v4.
@@ -116,6 +117,17 @@ export function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+/**
+ * Gets the class of an HTTP status code.
+ *
+ * @param statusCode - HTTP status code
+ * @returns "1xx" to "5xx" (out-of-range codes are clamped)
+ */
+export function statusClass(statusCode: number): StatusClass {
+  const digit = clamp(Math.floor(statusCode / 100), 1, 5);
+  return `${digit}xx` as StatusClass;
+}
+
 /**
  * Delays execution for a specified duration.
  *
@@ -2,11 +2,20 @@
  * API Integration Tests
  */
 
+import { AddressInfo } from 'net';
 import request from 'supertest';
 import { createApp } from '../../src/app';
 import { SimulationTrackerService } from '../../src/services/simulation-tracker.service';
 import { CpuStressService } from '../../src/services/cpu-stress.service';
 import { MemoryPressureService } from '../../src/services/memory-pressure.service';
+import { ScenarioService } from '../../src/services/scenario.service';
+import { EventLogService } from '../../src/services/event-log.service';
+import { WebhookService } from '../../src/services/webhook.service';
+import { QuotaService } from '../../src/services/quota.service';
+import { RequestMetricsService } from '../../src/services/request-metrics.service';
+import { MetricsService } from '../../src/services/metrics.service';
+import { config } from '../../src/config';
+import { resolvePrincipal } from '../../src/middleware/auth';
 
 const app = createApp();
 
@@ -16,10 +25,12 @@ describe('API Integration Tests', () => {
     SimulationTrackerService.clear();
     CpuStressService.stopAll();
     MemoryPressureService.releaseAll();
+    QuotaService.clear();
   });
 
   afterAll(() => {
     // Final cleanup
+    ScenarioService.clear();
     CpuStressService.stopAll();
     MemoryPressureService.releaseAll();
     SimulationTrackerService.clear();
@@ -62,6 +73,238 @@ describe('API Integration Tests', () => {
       expect(response.body.memory.heapUsedMb).toBeGreaterThan(0);
       expect(response.body.memory.rssMb).toBeGreaterThan(0);
     });
+
+    it('should serve the broadcast snapshot without starting a new interval', async () => {
+      const snapshot = MetricsService.getMetrics();
+
+      const response = await request(app).get('/api/metrics');
+
+      expect(response.body.timestamp).toBe(snapshot.timestamp.toISOString());
+      expect(MetricsService.getLastMetrics()).toBe(snapshot);
+    });
+  });
+
+  describe('GET /api/metrics/history', () => {
+    it('should return points for the default range', async () => {
+      const response = await request(app).get('/api/metrics/history');
+
+      expect(response.status).toBe(200);
+      expect(Array.isArray(response.body.points)).toBe(true);
+      expect(response.body.resolutionMs).toBeGreaterThanOrEqual(250);
+    });
+
+    it('should reject an invalid timestamp', async () => {
+      const response = await request(app).get('/api/metrics/history?from=yesterday');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/metrics/requests', () => {
+    it('should group requests by route template', async () => {
+      RequestMetricsService.reset();
+      await request(app).get('/api/scenarios/unknown-id');
+      await request(app).get('/api/metrics');
+
+      const response = await request(app).get('/api/metrics/requests');
+
+      expect(response.status).toBe(200);
+      expect(response.body.windowSeconds).toBe(60);
+      const scenario = response.body.routes.find(
+        (route: { route: string }) => route.route === '/api/scenarios/:id'
+      );
+      expect(scenario).toMatchObject({ method: 'GET', requests: 1 });
+      expect(scenario.statusClasses['4xx']).toBe(1);
+      expect(response.body.routes.map((route: { route: string }) => route.route)).toContain(
+        '/api/metrics'
+      );
+    });
+
+    it('should group paths differing only in case under one route', async () => {
+      RequestMetricsService.reset();
+      await request(app).get('/api/scenarios/unknown-id');
+      await request(app).get('/API/Scenarios/unknown-id');
+
+      const response = await request(app).get('/api/metrics/requests');
+
+      const scenarioRoutes = response.body.routes.filter((route: { route: string }) =>
+        route.route.toLowerCase().startsWith('/api/scenarios')
+      );
+      expect(scenarioRoutes).toEqual([
+        expect.objectContaining({ route: '/api/scenarios/:id', requests: 2 }),
+      ]);
+    });
+  });
+
+  describe('GET /api/loadtest/stats', () => {
+    const loadtest =
+      '/api/loadtest?workIterations=0&bufferSizeKb=1&baselineDelayMs=0&suppressLogs=true';
+
+    afterEach(() => {
+      config.trustRequestStart = false;
+    });
+
+    it('should ignore X-Request-Start unless the front end is trusted', async () => {
+      const work = await request(app)
+        .get(loadtest)
+        .set('X-Request-Start', `t=${Date.now() - 500}`);
+
+      expect(work.status).toBe(200);
+      expect(work.body.elapsedMs).toBeLessThan(500);
+    });
+
+    it('should ignore a trusted X-Request-Start older than the front end timeout', async () => {
+      config.trustRequestStart = true;
+      const work = await request(app).get(loadtest).set('X-Request-Start', 't=1');
+
+      expect(work.status).toBe(200);
+      expect(work.body.elapsedMs).toBeLessThan(60000);
+    });
+
+    it('should count time before a trusted X-Request-Start as queue time', async () => {
+      config.trustRequestStart = true;
+      const arrival = Date.now() - 500;
+      const work = await request(app).get(loadtest).set('X-Request-Start', `t=${arrival}`);
+
+      const response = await request(app).get('/api/loadtest/stats');
+
+      expect(work.status).toBe(200);
+      expect(work.body.elapsedMs).toBeGreaterThanOrEqual(500);
+      expect(response.status).toBe(200);
+      expect(response.body.queueTimeMs.max).toBeGreaterThanOrEqual(500);
+      expect(response.body.workTimeMs).toBeDefined();
+      expect(response.body.exceptionsByType).toBeDefined();
+    });
+  });
+
+  describe('Random seeds', () => {
+    const loadtest =
+      '/api/loadtest?workIterations=0&bufferSizeKb=1&baselineDelayMs=0&suppressLogs=true';
+    const failing = `${loadtest}&errorAboveConcurrent=-1&errorPercent=100`;
+
+    it('should echo the seed in the load test result', async () => {
+      const response = await request(app).get(`${loadtest}&errorAboveConcurrent=0&seed=42`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.seed).toBe(42);
+    });
+
+    it('should replay the injected exception with the same seed', async () => {
+      const errors = new Set<string>();
+      for (const seed of [1, 2, 3, 1, 2, 3]) {
+        const response = await request(app).get(`${failing}&seed=${seed}`);
+        expect(response.body.details).toEqual({ seed });
+        errors.add(`${seed}:${response.body.error}`);
+      }
+
+      expect(errors.size).toBe(3);
+    });
+
+    it('should echo the seed in the simulation record', async () => {
+      const response = await request(app)
+        .post('/api/simulations/memory')
+        .send({ sizeMb: 1, seed: 7 });
+      const list = await request(app).get('/api/simulations');
+
+      expect(response.status).toBe(201);
+      expect(response.body.seed).toBe(7);
+      expect(list.body.simulations[0].seed).toBe(7);
+
+      await request(app).delete(`/api/simulations/memory/${response.body.id}`);
+    });
+
+    it('should reject an invalid seed', async () => {
+      const response = await request(app).get(`${failing}&seed=-1`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('seed');
+    });
+  });
+
+  describe('/api/admin/exception-catalog', () => {
+    afterEach(async () => {
+      await request(app).delete('/api/admin/exception-catalog');
+    });
+
+    it('should inject errors with the status code of the configured entry', async () => {
+      const put = await request(app)
+        .put('/api/admin/exception-catalog')
+        .send({
+          exceptions: [
+            { name: 'GatewayTimeoutError', message: 'Upstream timed out', statusCode: 504 },
+          ],
+        });
+      const response = await request(app).get(
+        '/api/loadtest?workIterations=0&bufferSizeKb=1&baselineDelayMs=0&errorAboveConcurrent=-1&errorPercent=100&suppressLogs=true'
+      );
+
+      expect(put.status).toBe(200);
+      expect(put.body.source).toBe('api');
+      expect(response.status).toBe(504);
+      expect(response.body.error).toBe('GatewayTimeoutError');
+      expect(response.body.message).toBe('Upstream timed out');
+    });
+
+    it('should reject an invalid catalog', async () => {
+      const response = await request(app)
+        .put('/api/admin/exception-catalog')
+        .send([{ name: 'Oops', message: 'Not an error status', statusCode: 302 }]);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('exceptions[0]');
+    });
+  });
+
+  describe('/api/loadtest/generator', () => {
+    it('should reject an invalid plan', async () => {
+      const response = await request(app)
+        .post('/api/loadtest/generator')
+        .send({ model: 'open', stages: [{ durationSeconds: 10, target: 100000 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('stages[0]');
+    });
+
+    it('should report 503 when no sidecar is running', async () => {
+      const response = await request(app)
+        .post('/api/loadtest/generator')
+        .send({ model: 'closed', target: 5, durationSeconds: 10 });
+
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('POST /api/loadtest/export', () => {
+    it('should download a k6 script for this host', async () => {
+      const response = await request(app)
+        .post('/api/loadtest/export')
+        .send({ format: 'k6', target: 30, durationSeconds: 300, rampUpSeconds: 60 });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toContain('perfsim-loadtest.js');
+      expect(response.text).toMatch(/__ENV\.BASE_URL \|\| "http:\/\/127\.0\.0\.1:\d+"/);
+      expect(response.text).toContain("{ duration: '300s', target: 30 },");
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app)
+        .post('/api/loadtest/export')
+        .send({ format: 'gatling', target: 30, durationSeconds: 300 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('format');
+    });
+  });
+
+  describe('GET /metrics', () => {
+    it('should return Prometheus text exposition', async () => {
+      const response = await request(app).get('/metrics');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.text).toContain('# TYPE perfsim_cpu_usage_percent gauge');
+      expect(response.text).toContain('perfsim_active_simulations{type="CPU_STRESS"}');
+    });
   });
 
   describe('POST /api/simulations/cpu', () => {
@@ -79,6 +322,50 @@ describe('API Integration Tests', () => {
       await request(app).delete(`/api/simulations/cpu/${response.body.id}`);
     });
 
+    it('should start with an explicit targetPercent', async () => {
+      const response = await request(app)
+        .post('/api/simulations/cpu')
+        .send({ targetPercent: 40, durationSeconds: 5 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.parameters.targetPercent).toBe(40);
+      expect(response.body.message).toContain('40%');
+    });
+
+    it('should expose a load profile in GET /api/simulations', async () => {
+      const profile = { shape: 'SINE', startPercent: 10, endPercent: 50, periodSeconds: 30 };
+      const created = await request(app)
+        .post('/api/simulations/cpu')
+        .send({ profile, durationSeconds: 5 });
+
+      expect(created.status).toBe(201);
+
+      const response = await request(app).get('/api/simulations');
+      const simulation = response.body.simulations.find(
+        (sim: { id: string }) => sim.id === created.body.id
+      );
+      expect(simulation.parameters.profile).toEqual(profile);
+    });
+
+    it('should reject an unknown profile shape', async () => {
+      const response = await request(app)
+        .post('/api/simulations/cpu')
+        .send({
+          profile: { shape: 'SAWTOOTH', startPercent: 0, endPercent: 50, periodSeconds: 10 },
+          durationSeconds: 5,
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an out-of-range targetPercent', async () => {
+      const response = await request(app)
+        .post('/api/simulations/cpu')
+        .send({ targetPercent: 150, durationSeconds: 5 });
+
+      expect(response.status).toBe(400);
+    });
+
     it('should reject invalid intensity', async () => {
       const response = await request(app)
         .post('/api/simulations/cpu')
@@ -156,6 +443,15 @@ describe('API Integration Tests', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should reject sizes above the container safe limit', async () => {
+      const response = await request(app)
+        .post('/api/simulations/memory')
+        .send({ sizeMb: 60000 }); // Within 65536 MB, beyond any test machine's heap
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.safeLimitMb).toBeGreaterThanOrEqual(0);
+    });
   });
 
   describe('DELETE /api/simulations/memory/:id', () => {
@@ -175,6 +471,31 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('POST /api/simulations/memory/leak', () => {
+    it('should start a memory leak and stop it by ID', async () => {
+      const startResponse = await request(app)
+        .post('/api/simulations/memory/leak')
+        .send({ leakRateMbPerMinute: 10, maxSizeMb: 50 });
+
+      expect(startResponse.status).toBe(201);
+      expect(startResponse.body.type).toBe('MEMORY_LEAK');
+      expect(startResponse.body.parameters.leakRateMbPerMinute).toBe(10);
+
+      const stopResponse = await request(app).delete(
+        `/api/simulations/memory/leak/${startResponse.body.id}`
+      );
+
+      expect(stopResponse.status).toBe(200);
+      expect(stopResponse.body.status).toBe('STOPPED');
+    });
+
+    it('should reject missing leak rate', async () => {
+      const response = await request(app).post('/api/simulations/memory/leak').send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('GET /api/simulations', () => {
     it('should return empty list when no active simulations', async () => {
       const response = await request(app).get('/api/simulations');
@@ -211,6 +532,83 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('/api/simulations/:id', () => {
+    it('should return a simulation with its events', async () => {
+      const startResponse = await request(app)
+        .post('/api/simulations/memory')
+        .send({ sizeMb: 10 });
+
+      const response = await request(app).get(`/api/simulations/${startResponse.body.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.type).toBe('MEMORY_PRESSURE');
+      expect(response.body.status).toBe('ACTIVE');
+      expect(response.body.pausedAt).toBeNull();
+      expect(response.body.events.length).toBeGreaterThan(0);
+      expect(
+        response.body.events.every(
+          (e: { simulationId: string }) => e.simulationId === startResponse.body.id
+        )
+      ).toBe(true);
+
+      const pauseResponse = await request(app).post(
+        `/api/simulations/${startResponse.body.id}/pause`
+      );
+      expect(pauseResponse.status).toBe(409);
+
+      await request(app).delete(`/api/simulations/memory/${startResponse.body.id}`);
+    });
+
+    it('should pause, resume and extend a memory leak', async () => {
+      const startResponse = await request(app)
+        .post('/api/simulations/memory/leak')
+        .send({ leakRateMbPerMinute: 10, maxSizeMb: 50, durationSeconds: 60 });
+      const id = startResponse.body.id;
+
+      const pauseResponse = await request(app).post(`/api/simulations/${id}/pause`);
+      expect(pauseResponse.status).toBe(200);
+      expect(pauseResponse.body.status).toBe('PAUSED');
+      expect((await request(app).post(`/api/simulations/${id}/pause`)).status).toBe(409);
+
+      const extendResponse = await request(app)
+        .post(`/api/simulations/${id}/extend`)
+        .send({ seconds: 30 });
+      expect(extendResponse.status).toBe(200);
+      expect(Date.parse(extendResponse.body.scheduledEndAt)).toBe(
+        Date.parse(startResponse.body.scheduledEndAt) + 30000
+      );
+
+      const resumeResponse = await request(app).post(`/api/simulations/${id}/resume`);
+      expect(resumeResponse.status).toBe(200);
+      expect(resumeResponse.body.status).toBe('ACTIVE');
+
+      const detailsResponse = await request(app).get(`/api/simulations/${id}`);
+      expect(detailsResponse.body.events.map((e: { event: string }) => e.event)).toEqual(
+        expect.arrayContaining(['SIMULATION_PAUSED', 'SIMULATION_EXTENDED', 'SIMULATION_RESUMED'])
+      );
+
+      await request(app).delete(`/api/simulations/memory/leak/${id}`);
+    });
+
+    it('should reject an invalid extension and unknown IDs', async () => {
+      const startResponse = await request(app)
+        .post('/api/simulations/memory')
+        .send({ sizeMb: 10 });
+
+      const extendResponse = await request(app)
+        .post(`/api/simulations/${startResponse.body.id}/extend`)
+        .send({ seconds: 0 });
+      const unknownResponse = await request(app).get(
+        '/api/simulations/00000000-0000-4000-8000-000000000000'
+      );
+
+      expect(extendResponse.status).toBe(400);
+      expect(unknownResponse.status).toBe(404);
+
+      await request(app).delete(`/api/simulations/memory/${startResponse.body.id}`);
+    });
+  });
+
   describe('GET /api/admin/status', () => {
     it('should return admin status', async () => {
       const response = await request(app).get('/api/admin/status');
@@ -220,6 +618,8 @@ describe('API Integration Tests', () => {
       expect(response.body.config).toBeDefined();
       expect(response.body.activeSimulations).toBeDefined();
       expect(response.body.metrics).toBeDefined();
+      expect(response.body.resourceLimits.safeMemoryAllocationMb).toBeGreaterThanOrEqual(0);
+      expect(response.body.resourceLimits.maxCpuPercent).toBeGreaterThan(0);
     });
   });
 
@@ -238,6 +638,366 @@ describe('API Integration Tests', () => {
       expect(response.status).toBe(200);
       expect(response.body.events.length).toBeLessThanOrEqual(5);
     });
+
+    it('should filter and page with a cursor', async () => {
+      for (let i = 0; i < 5; i++) {
+        EventLogService.warn('SIMULATION_FAILED', `query test ${i}`, { simulationId: 'query-sim' });
+      }
+      EventLogService.info('SIMULATION_STARTED', 'query test other', { simulationId: 'query-sim' });
+
+      const first = await request(app).get(
+        '/api/admin/events?simulationId=query-sim&level=warn,error&limit=3'
+      );
+      expect(first.status).toBe(200);
+      expect(first.body.events.map((e: { message: string }) => e.message)).toEqual([
+        'query test 4',
+        'query test 3',
+        'query test 2',
+      ]);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await request(app).get(
+        `/api/admin/events?simulationId=query-sim&level=warn,error&limit=3&cursor=${first.body.nextCursor}`
+      );
+      expect(second.body.events.map((e: { message: string }) => e.message)).toEqual([
+        'query test 1',
+        'query test 0',
+      ]);
+      expect(second.body.nextCursor).toBeNull();
+
+      const search = await request(app).get('/api/admin/events?q=TEST%20OTHER');
+      expect(search.body.events).toHaveLength(1);
+    });
+
+    it('should export CSV as a download', async () => {
+      EventLogService.info('SIMULATION_STARTED', 'csv, "quoted"', { simulationId: 'csv-sim' });
+
+      const response = await request(app).get('/api/admin/events?simulationId=csv-sim&format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="events-.*\.csv"/);
+      const lines = response.text.trim().split('\r\n');
+      expect(lines[0]).toBe('id,timestamp,level,event,simulationId,simulationType,message,details');
+      expect(lines[1]).toContain(',"csv, ""quoted""",');
+    });
+
+    it('should neutralise spreadsheet formulas in CSV fields', async () => {
+      EventLogService.info('SIMULATION_STARTED', '=HYPERLINK("http://x")', {
+        simulationId: 'csv-formula',
+      });
+
+      const response = await request(app).get(
+        '/api/admin/events?simulationId=csv-formula&format=csv'
+      );
+
+      const lines = response.text.trim().split('\r\n');
+      expect(lines[1]).toContain(`,"'=HYPERLINK(""http://x"")",`);
+    });
+
+    it('should reject an unknown level', async () => {
+      const response = await request(app).get('/api/admin/events?level=debug');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('/api/admin/webhooks', () => {
+    afterEach(() => {
+      WebhookService.clear();
+    });
+
+    it('should register, list and remove a webhook without exposing the secret', async () => {
+      const created = await request(app)
+        .post('/api/admin/webhooks')
+        .send({ url: 'http://127.0.0.1:9/hook', events: ['CRASH_WARNING'], levels: 'warn,error' });
+
+      expect(created.status).toBe(201);
+      expect(created.body.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(created.body.levels).toEqual(['warn', 'error']);
+
+      const list = await request(app).get('/api/admin/webhooks');
+      expect(list.body.count).toBe(1);
+      expect(list.body.webhooks[0].secret).toBeUndefined();
+
+      const removed = await request(app).delete(`/api/admin/webhooks/${created.body.id}`);
+      expect(removed.status).toBe(200);
+      expect((await request(app).get(`/api/admin/webhooks/${created.body.id}`)).status).toBe(404);
+    });
+
+    it('should reject a non-http URL', async () => {
+      const response = await request(app)
+        .post('/api/admin/webhooks')
+        .send({ url: 'ftp://example.com/hook' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an unknown event type', async () => {
+      const response = await request(app)
+        .post('/api/admin/webhooks')
+        .send({ url: 'http://127.0.0.1:9/hook', events: ['CRASH_WARNING', 'crash_warning'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toMatchObject({ field: 'events', received: 'crash_warning' });
+    });
+  });
+
+  describe('Authentication', () => {
+    const original = {
+      authApiKeys: config.authApiKeys,
+      authBearerToken: config.authBearerToken,
+      authAnonymousRole: config.authAnonymousRole,
+    };
+
+    beforeAll(() => {
+      config.authApiKeys = [
+        { key: 'viewer-key', role: 'viewer' },
+        { key: 'trainee-key', role: 'trainee' },
+        { key: 'other-trainee-key', role: 'trainee' },
+      ];
+      config.authBearerToken = 'instructor-token';
+      config.authAnonymousRole = null;
+    });
+
+    afterAll(() => {
+      Object.assign(config, original);
+    });
+
+    it('should keep health checks and the sidecar probe public', async () => {
+      expect((await request(app).get('/api/health')).status).toBe(200);
+      expect((await request(app).get('/api/metrics/probe')).status).toBe(200);
+    });
+
+    it('should return 401 without or with an unknown credential', async () => {
+      const missing = await request(app).get('/api/metrics');
+      expect(missing.status).toBe(401);
+      expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+      const unknown = await request(app).get('/api/metrics').set('X-API-Key', 'nope');
+      expect(unknown.status).toBe(401);
+    });
+
+    it('should let a viewer read but not start simulations', async () => {
+      const read = await request(app).get('/api/metrics').set('X-API-Key', 'viewer-key');
+      expect(read.status).toBe(200);
+
+      const write = await request(app)
+        .post('/api/simulations/eventloop')
+        .set('X-API-Key', 'viewer-key')
+        .send({ durationSeconds: 1 });
+      expect(write.status).toBe(403);
+    });
+
+    it('should require the instructor role for memory and admin routes', async () => {
+      const trainee = await request(app)
+        .post('/api/simulations/memory')
+        .set('Authorization', 'Bearer trainee-key')
+        .send({ sizeMb: 1 });
+      expect(trainee.status).toBe(403);
+      expect((await request(app).get('/api/admin/status').set('X-API-Key', 'trainee-key')).status).toBe(403);
+
+      const instructor = await request(app)
+        .post('/api/simulations/memory')
+        .set('Authorization', 'Bearer instructor-token')
+        .send({ sizeMb: 1 });
+      expect(instructor.status).toBe(201);
+    });
+
+    it('should apply route policies whatever the case of the path', async () => {
+      expect((await request(app).get('/Api/simulations/memory')).status).toBe(401);
+      const admin = await request(app).get('/API/ADMIN/STATUS').set('X-API-Key', 'trainee-key');
+      expect(admin.status).toBe(403);
+
+      const write = await request(app)
+        .post('/API/Simulations/Memory')
+        .set('X-API-Key', 'trainee-key')
+        .send({ sizeMb: 1 });
+      expect(write.status).toBe(403);
+    });
+
+    it('should require the instructor role for playbooks with memory steps', async () => {
+      const response = await request(app)
+        .post('/api/scenarios')
+        .set('X-API-Key', 'trainee-key')
+        .send({
+          name: 'memory',
+          steps: [{ atSeconds: 0, action: 'MEMORY_PRESSURE', sizeMb: 1 }],
+        });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should only let the owner or an instructor control a simulation', async () => {
+      const owner = resolvePrincipal('trainee-key', 'ip:127.0.0.1')?.clientId ?? '';
+      const [blocking, leak] = SimulationTrackerService.runAsClient(owner, () => [
+        SimulationTrackerService.createSimulation(
+          'EVENT_LOOP_BLOCKING',
+          { type: 'EVENT_LOOP_BLOCKING', durationSeconds: 60 },
+          60
+        ),
+        SimulationTrackerService.createSimulation(
+          'MEMORY_LEAK',
+          { type: 'MEMORY_LEAK', leakRateMbPerMinute: 1 },
+          60
+        ),
+      ]);
+      const extend = (id: string, key: string): request.Test =>
+        request(app)
+          .post(`/api/simulations/${id}/extend`)
+          .set('X-API-Key', key)
+          .send({ seconds: 10 });
+
+      expect((await extend(blocking.id, 'other-trainee-key')).status).toBe(403);
+      expect((await extend(blocking.id, 'trainee-key')).status).toBe(200);
+      // Memory simulations need the instructor role, even for their owner
+      expect((await extend(leak.id, 'trainee-key')).status).toBe(403);
+      expect((await extend(leak.id, 'instructor-token')).status).toBe(200);
+    });
+
+    it('should send failed-request loopback calls with the caller credential', async () => {
+      const server = app.listen(0);
+      const originalPort = config.port;
+      config.port = (server.address() as AddressInfo).port;
+      try {
+        const response = await request(app)
+          .post('/api/simulations/failed')
+          .set('X-API-Key', 'trainee-key')
+          .send({ requestCount: 1 });
+
+        expect(response.status).toBe(200);
+        const errors = EventLogService.getEntriesForSimulation(response.body.id).filter(
+          (entry) => entry.event === 'FAILED_REQUEST_ERROR'
+        );
+        expect(errors).toHaveLength(1);
+        expect(errors[0].details?.statusCode).toBeGreaterThanOrEqual(500);
+      } finally {
+        config.port = originalPort;
+        server.close();
+      }
+    });
+
+    it('should give each holder of the shared bearer token its own client ID', () => {
+      const first = resolvePrincipal('instructor-token', 'ip:203.0.113.1');
+      const second = resolvePrincipal('instructor-token', 'ip:203.0.113.2');
+
+      expect(first?.clientId).toMatch(/^bearer:[0-9a-f]{8}@ip:203\.0\.113\.1$/);
+      expect(second?.clientId).not.toBe(first?.clientId);
+      expect(first?.clientId).not.toContain('instructor-token');
+    });
+
+    it('should report the caller role in the frontend config', async () => {
+      const response = await request(app).get('/api/admin/config').set('X-API-Key', 'viewer-key');
+
+      expect(response.status).toBe(200);
+      expect(response.body.authEnabled).toBe(true);
+      expect(response.body.role).toBe('viewer');
+    });
+  });
+
+  describe('Quotas', () => {
+    const original = {
+      quotaMaxActivePerClient: config.quotaMaxActivePerClient,
+      quotaStartsPerMinute: config.quotaStartsPerMinute,
+    };
+
+    afterEach(() => {
+      Object.assign(config, original);
+    });
+
+    it('should return 429 once a client has too many active simulations', async () => {
+      config.quotaMaxActivePerClient = 1;
+
+      const first = await request(app).post('/api/simulations/memory').send({ sizeMb: 1 });
+      expect(first.status).toBe(201);
+
+      const second = await request(app).post('/api/simulations/memory').send({ sizeMb: 1 });
+      expect(second.status).toBe(429);
+      expect(second.body.details).toMatchObject({ limit: 'maxActivePerClient', max: 1 });
+
+      await request(app).delete(`/api/simulations/memory/${first.body.id}`);
+      const afterRelease = await request(app).post('/api/simulations/memory').send({ sizeMb: 1 });
+      expect(afterRelease.status).toBe(201);
+    });
+
+    it('should rate-limit starts with Retry-After', async () => {
+      config.quotaStartsPerMinute = 1;
+
+      const first = await request(app).post('/api/simulations/memory').send({ sizeMb: 1 });
+      expect(first.status).toBe(201);
+
+      const second = await request(app).post('/api/simulations/memory').send({ sizeMb: 1 });
+      expect(second.status).toBe(429);
+      expect(Number(second.headers['retry-after'])).toBeGreaterThan(0);
+    });
+
+    it('should key clients by X-Forwarded-For behind a trusted proxy', async () => {
+      config.quotaStartsPerMinute = 1;
+      const trustProxy = config.trustProxy;
+      config.trustProxy = 1;
+      const proxied = createApp();
+      config.trustProxy = trustProxy;
+
+      const start = (forwardedFor: string): request.Test =>
+        request(proxied)
+          .post('/api/simulations/memory')
+          .set('X-Forwarded-For', forwardedFor)
+          .send({ sizeMb: 1 });
+
+      expect((await start('203.0.113.1')).status).toBe(201);
+      expect((await start('203.0.113.2')).status).toBe(201);
+      // Same client on another connection (App Service appends the port)
+      expect((await start('203.0.113.1:50123')).status).toBe(429);
+    });
+
+    it('should expose the limits in the frontend config', async () => {
+      const response = await request(app).get('/api/admin/config');
+
+      expect(response.body.quotas).toEqual({
+        maxActivePerType: config.quotaMaxActivePerType,
+        maxActivePerClient: config.quotaMaxActivePerClient,
+        startsPerMinute: config.quotaStartsPerMinute,
+      });
+    });
+  });
+
+  describe('POST /api/scenarios', () => {
+    afterEach(() => {
+      ScenarioService.clear();
+    });
+
+    it('should start a YAML playbook and abort it', async () => {
+      const yaml = [
+        'name: yaml scenario',
+        'steps:',
+        '  - { atSeconds: 0, action: MEMORY_PRESSURE, sizeMb: 1 }',
+        '  - { atSeconds: 60, action: MEMORY_RELEASE }',
+      ].join('\n');
+
+      const response = await request(app)
+        .post('/api/scenarios')
+        .set('Content-Type', 'application/yaml')
+        .send(yaml);
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('yaml scenario');
+      expect(response.body.status).toBe('RUNNING');
+      expect(response.body.steps).toHaveLength(2);
+
+      const aborted = await request(app).post(`/api/scenarios/${response.body.id}/abort`);
+
+      expect(aborted.status).toBe(200);
+      expect(aborted.body.status).toBe('ABORTED');
+      expect(aborted.body.steps[1].status).toBe('SKIPPED');
+    });
+
+    it('should reject an invalid playbook', async () => {
+      const response = await request(app)
+        .post('/api/scenarios')
+        .send({ name: 'bad', steps: [{ atSeconds: 0, action: 'NOPE' }] });
+
+      expect(response.status).toBe(400);
+    });
   });
 
   describe('404 handling', () => {
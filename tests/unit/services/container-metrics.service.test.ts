@@ -0,0 +1,158 @@
+/**
+ * Container Metrics Service Unit Tests
+ *
+ * cgroup parsing runs against fake cgroup trees in a temp directory.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ContainerMetricsService,
+  readCgroupLimits,
+  readCgroupStats,
+} from '../../../src/services/container-metrics.service';
+
+describe('ContainerMetricsService', () => {
+  let root: string;
+
+  /**
+   * Writes files into the fake cgroup tree.
+   */
+  function writeCgroup(files: Record<string, string>): void {
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+      fs.writeFileSync(path.join(root, name), `${content}\n`);
+    }
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'perfsim-cgroup-'));
+    ContainerMetricsService.setCgroupRoot(root);
+  });
+
+  afterEach(() => {
+    ContainerMetricsService.setCgroupRoot();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('readCgroupLimits', () => {
+    it('should read cgroup v2 limits', () => {
+      writeCgroup({
+        'cgroup.controllers': 'cpu memory',
+        'memory.max': String(512 * 1024 * 1024),
+        'cpu.max': '150000 100000',
+      });
+
+      expect(readCgroupLimits(root)).toEqual({
+        version: 2,
+        memoryLimitBytes: 512 * 1024 * 1024,
+        cpuQuotaCores: 1.5,
+      });
+    });
+
+    it('should treat "max" as unlimited in cgroup v2', () => {
+      writeCgroup({ 'cgroup.controllers': '', 'memory.max': 'max', 'cpu.max': 'max 100000' });
+
+      expect(readCgroupLimits(root)).toEqual({
+        version: 2,
+        memoryLimitBytes: null,
+        cpuQuotaCores: null,
+      });
+    });
+
+    it('should read cgroup v1 limits and ignore the unlimited sentinel', () => {
+      writeCgroup({
+        'memory/memory.limit_in_bytes': '9223372036854771712',
+        'cpu,cpuacct/cpu.cfs_quota_us': '50000',
+        'cpu,cpuacct/cpu.cfs_period_us': '100000',
+      });
+
+      expect(readCgroupLimits(root)).toEqual({
+        version: 1,
+        memoryLimitBytes: null,
+        cpuQuotaCores: 0.5,
+      });
+    });
+
+    it('should report no cgroup when nothing is mounted', () => {
+      expect(readCgroupLimits(root).version).toBeNull();
+    });
+  });
+
+  describe('readCgroupStats', () => {
+    it('should read cgroup v2 counters and subtract inactive file cache', () => {
+      writeCgroup({
+        'cgroup.controllers': 'cpu memory',
+        'cpu.stat': 'usage_usec 5000000\nnr_periods 100\nnr_throttled 7\nthrottled_usec 250000',
+        'memory.current': String(300 * 1024 * 1024),
+        'memory.stat': `anon 1\ninactive_file ${100 * 1024 * 1024}`,
+      });
+
+      expect(readCgroupStats(root)).toMatchObject({
+        version: 2,
+        cpuUsageUs: 5000000,
+        periods: 100,
+        throttledPeriods: 7,
+        throttledUs: 250000,
+        memoryWorkingSetBytes: 200 * 1024 * 1024,
+      });
+    });
+
+    it('should convert cgroup v1 nanosecond counters', () => {
+      writeCgroup({
+        'cpu,cpuacct/cpuacct.usage': '3000000000',
+        'cpu,cpuacct/cpu.stat': 'nr_periods 10\nnr_throttled 2\nthrottled_time 40000000',
+        'memory/memory.usage_in_bytes': String(64 * 1024 * 1024),
+        'memory/memory.stat': 'total_inactive_file 0',
+      });
+
+      expect(readCgroupStats(root)).toMatchObject({
+        version: 1,
+        cpuUsageUs: 3000000,
+        throttledPeriods: 2,
+        throttledUs: 40000,
+        memoryWorkingSetBytes: 64 * 1024 * 1024,
+      });
+    });
+  });
+
+  describe('getMetrics', () => {
+    it('should return null without cgroups', () => {
+      expect(ContainerMetricsService.getMetrics()).toBeNull();
+    });
+
+    it('should report throttling deltas and memory against the limit', () => {
+      writeCgroup({
+        'cgroup.controllers': 'cpu memory',
+        'cpu.max': '100000 100000',
+        'cpu.stat': 'usage_usec 1000\nnr_periods 10\nnr_throttled 1\nthrottled_usec 1000',
+        'memory.max': String(1024 * 1024 * 1024),
+        'memory.current': String(256 * 1024 * 1024),
+      });
+
+      const first = ContainerMetricsService.getMetrics();
+      expect(first).toMatchObject({
+        cgroupVersion: 2,
+        cpuUsagePercent: 0,
+        cpuLimitCores: 1,
+        throttledPeriods: 0,
+        throttledPeriodsTotal: 1,
+        memoryUsageMb: 256,
+        memoryLimitMb: 1024,
+        memoryUsagePercent: 25,
+      });
+
+      writeCgroup({
+        'cpu.stat': 'usage_usec 2000\nnr_periods 20\nnr_throttled 4\nthrottled_usec 6000',
+      });
+      const second = ContainerMetricsService.getMetrics();
+
+      expect(second?.throttledPeriods).toBe(3);
+      expect(second?.throttledTimeMs).toBe(5);
+      expect(second?.throttledPeriodsTotal).toBe(4);
+      expect(second?.cpuUsagePercent).toBeGreaterThan(0);
+      expect(second?.cpuUsagePercent).toBeLessThanOrEqual(100);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * CPU Profile Service Unit Tests
+ */
+
+import * as fs from 'fs';
+import { CpuProfileService } from '../../../src/services/cpu-profile.service';
+import { DiagnosticArtifactService } from '../../../src/services/diagnostic-artifact.service';
+import { SimulationTrackerService } from '../../../src/services/simulation-tracker.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { ConflictError, NotFoundError } from '../../../src/middleware/error-handler';
+
+describe('CpuProfileService', () => {
+  beforeEach(() => {
+    SimulationTrackerService.clear();
+  });
+
+  afterEach(() => {
+    DiagnosticArtifactService.clear();
+  });
+
+  describe('capture', () => {
+    it('should record a profile tied to the active CPU-related simulation', async () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'EVENT_LOOP_BLOCKING',
+        { type: 'EVENT_LOOP_BLOCKING', durationSeconds: 10 },
+        10
+      );
+
+      const artifact = await CpuProfileService.capture(1);
+
+      expect(artifact.kind).toBe('CPU_PROFILE');
+      expect(artifact.fileName).toMatch(/\.cpuprofile$/);
+      expect(artifact.simulationId).toBe(simulation.id);
+      expect(artifact.activeSimulationIds).toContain(simulation.id);
+
+      const profile = JSON.parse(
+        fs.readFileSync(DiagnosticArtifactService.getFilePath(artifact), 'utf8')
+      ) as { nodes: unknown[] };
+      expect(profile.nodes.length).toBeGreaterThan(0);
+
+      const events = EventLogService.getEntriesForSimulation(simulation.id);
+      expect(events.some((entry) => entry.event === 'CPU_PROFILE_CAPTURED')).toBe(true);
+
+      SimulationTrackerService.stopSimulation(simulation.id);
+    });
+
+    it('should accept a paused simulation', async () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'EVENT_LOOP_BLOCKING',
+        { type: 'EVENT_LOOP_BLOCKING', durationSeconds: 10 },
+        10
+      );
+      SimulationTrackerService.pauseSimulation(simulation.id);
+
+      const artifact = await CpuProfileService.capture(1, simulation.id);
+
+      expect(artifact.simulationId).toBe(simulation.id);
+
+      SimulationTrackerService.stopSimulation(simulation.id);
+    });
+
+    it('should reject a simulation that is not active', async () => {
+      await expect(
+        CpuProfileService.capture(1, '00000000-0000-4000-8000-000000000000')
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(CpuProfileService.isRecording()).toBe(false);
+    });
+
+    it('should refuse to run concurrently', async () => {
+      const first = CpuProfileService.capture(1);
+
+      await expect(CpuProfileService.capture(1)).rejects.toBeInstanceOf(ConflictError);
+      const artifact = await first;
+      expect(artifact.simulationId).toBeUndefined();
+    });
+  });
+});
@@ -50,6 +50,53 @@ describe('CpuStressService', () => {
     });
   });
 
+  describe('planWorkers', () => {
+    it('should spread a fractional target over partially busy workers', () => {
+      expect(CpuStressService.planWorkers(65, 2)).toEqual({ workers: 2, dutyCycle: 0.65 });
+
+      const plan = CpuStressService.planWorkers(30, 8);
+      expect(plan.workers).toBe(3);
+      expect(plan.dutyCycle).toBeCloseTo(0.8);
+      expect(CpuStressService.planWorkers(100, 4)).toEqual({ workers: 4, dutyCycle: 1 });
+    });
+
+    it('should use one worker for small targets', () => {
+      expect(CpuStressService.planWorkers(10, 4)).toEqual({ workers: 1, dutyCycle: 0.4 });
+    });
+  });
+
+  describe('getProfilePercent', () => {
+    it('should ramp linearly and then hold', () => {
+      const ramp = { shape: 'RAMP' as const, startPercent: 10, endPercent: 90, periodSeconds: 60 };
+
+      expect(CpuStressService.getProfilePercent(ramp, 0)).toBe(10);
+      expect(CpuStressService.getProfilePercent(ramp, 30)).toBe(50);
+      expect(CpuStressService.getProfilePercent(ramp, 120)).toBe(90);
+    });
+
+    it('should step after one period', () => {
+      const step = { shape: 'STEP' as const, startPercent: 20, endPercent: 80, periodSeconds: 10 };
+
+      expect(CpuStressService.getProfilePercent(step, 9)).toBe(20);
+      expect(CpuStressService.getProfilePercent(step, 10)).toBe(80);
+    });
+
+    it('should oscillate between start and end for a sine wave', () => {
+      const sine = { shape: 'SINE' as const, startPercent: 20, endPercent: 80, periodSeconds: 60 };
+
+      expect(CpuStressService.getProfilePercent(sine, 0)).toBeCloseTo(20);
+      expect(CpuStressService.getProfilePercent(sine, 30)).toBeCloseTo(80);
+      expect(CpuStressService.getProfilePercent(sine, 60)).toBeCloseTo(20);
+    });
+
+    it('should use the baseline outside spikes', () => {
+      const spikes = { shape: 'SPIKES' as const, startPercent: 5, endPercent: 95, periodSeconds: 30 };
+
+      expect(CpuStressService.getProfilePercent(spikes, 12)).toBe(5);
+      expect(CpuStressService.getProfilePercent(spikes, 12, true)).toBe(95);
+    });
+  });
+
   describe('stop', () => {
     it('should stop an active simulation', () => {
       const simulation = CpuStressService.start({
@@ -0,0 +1,116 @@
+/**
+ * Event Log File Sink Unit Tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonlFileEventSink } from '../../../src/services/event-log-file-sink';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { EventLogEntry } from '../../../src/types';
+import { config } from '../../../src/config';
+
+/**
+ * Builds an event log entry with the given ID.
+ */
+function entry(id: string): EventLogEntry {
+  return {
+    id,
+    timestamp: new Date(),
+    level: 'info',
+    simulationId: null,
+    simulationType: null,
+    event: 'SERVER_STARTED',
+    message: `entry ${id}`,
+    details: null,
+  };
+}
+
+describe('JsonlFileEventSink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'perfsim-events-test-'));
+  });
+
+  afterEach(() => {
+    EventLogService.setSink(null);
+    EventLogService.clear();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append entries as JSON lines and load them back with dates', () => {
+    const sink = new JsonlFileEventSink({
+      dir,
+      maxFileBytes: 1024 * 1024,
+      maxFiles: 3,
+      maxAgeMs: 60_000,
+    });
+    sink.append(entry('a'));
+    sink.append(entry('b'));
+
+    const lines = fs.readFileSync(path.join(dir, 'events.jsonl'), 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+
+    const loaded = new JsonlFileEventSink({
+      dir,
+      maxFileBytes: 1024 * 1024,
+      maxFiles: 3,
+      maxAgeMs: 60_000,
+    }).loadRecent(10);
+    expect(loaded.map((e) => e.id)).toEqual(['a', 'b']);
+    expect(loaded[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should rotate by size, keep maxFiles and load across files', () => {
+    // ~170 bytes per line: two entries per file
+    const sink = new JsonlFileEventSink({ dir, maxFileBytes: 400, maxFiles: 2, maxAgeMs: 60_000 });
+    for (let i = 0; i < 8; i++) {
+      sink.append(entry(`e${i}`));
+    }
+
+    const files = fs.readdirSync(dir);
+    expect(files).toContain('events.jsonl');
+    expect(files).toHaveLength(2);
+
+    const recent = sink.loadRecent(3);
+    expect(recent.map((e) => e.id)).toEqual(['e5', 'e6', 'e7']);
+  });
+
+  it('should skip a line truncated by a crash', () => {
+    const sink = new JsonlFileEventSink({
+      dir,
+      maxFileBytes: 1024 * 1024,
+      maxFiles: 3,
+      maxAgeMs: 60_000,
+    });
+    sink.append(entry('ok'));
+    fs.appendFileSync(path.join(dir, 'events.jsonl'), '{"id":"cut","timest');
+
+    expect(sink.loadRecent(10).map((e) => e.id)).toEqual(['ok']);
+  });
+
+  it('should restore persisted entries into EventLogService ahead of new ones', () => {
+    const options = { dir, maxFileBytes: 1024 * 1024, maxFiles: 3, maxAgeMs: 60_000 };
+    new JsonlFileEventSink(options).append(entry('before-crash'));
+
+    EventLogService.clear();
+    EventLogService.info('SERVER_STARTED', 'new process');
+    const restored = EventLogService.setSink(new JsonlFileEventSink(options));
+
+    expect(restored).toBe(1);
+    const entries = EventLogService.getEntries();
+    expect(entries[0].id).toBe('before-crash');
+    expect(entries[1].message).toBe('new process');
+  });
+
+  it('should trim the in-memory log to eventLogMaxEntries', () => {
+    EventLogService.clear();
+    for (let i = 0; i < config.eventLogMaxEntries + 5; i++) {
+      EventLogService.info('SERVER_STARTED', `event ${i}`);
+    }
+
+    expect(EventLogService.getCount()).toBe(config.eventLogMaxEntries);
+    expect(EventLogService.getEntries()[0].message).toBe('event 5');
+  });
+});
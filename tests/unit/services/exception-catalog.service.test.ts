@@ -0,0 +1,109 @@
+/**
+ * Exception Catalog Service Unit Tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ExceptionCatalogService } from '../../../src/services/exception-catalog.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { InjectedError, ValidationError } from '../../../src/middleware/error-handler';
+import { config } from '../../../src/config';
+
+describe('ExceptionCatalogService', () => {
+  const originalFile = config.loadTestExceptionsFile;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'perfsim-exceptions-'));
+    config.loadTestExceptionsFile = '';
+    ExceptionCatalogService.load();
+    EventLogService.clear();
+  });
+
+  afterEach(() => {
+    config.loadTestExceptionsFile = originalFile;
+    ExceptionCatalogService.load();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start with the built-in catalog', () => {
+    const catalog = ExceptionCatalogService.getCatalog();
+
+    expect(catalog.source).toBe('default');
+    expect(catalog.file).toBeNull();
+    expect(catalog.exceptions).toHaveLength(16);
+    expect(catalog.exceptions.every((exception) => exception.statusCode === 500)).toBe(true);
+  });
+
+  it('should pick entries by weight', () => {
+    ExceptionCatalogService.setExceptions([
+      { name: 'TimeoutError', message: 'Gateway timed out', statusCode: 504, weight: 3 },
+      { name: 'TooManyRequestsError', message: 'Rate limit exceeded', statusCode: 429 },
+    ]);
+
+    expect(ExceptionCatalogService.pick(0).name).toBe('TimeoutError');
+    expect(ExceptionCatalogService.pick(0.74).name).toBe('TimeoutError');
+    expect(ExceptionCatalogService.pick(0.76).name).toBe('TooManyRequestsError');
+    expect(ExceptionCatalogService.getCatalog().source).toBe('api');
+    expect(EventLogService.getEntries()[0].event).toBe('LOAD_TEST_EXCEPTIONS_UPDATED');
+  });
+
+  it('should create errors carrying the name and status code', () => {
+    const error = ExceptionCatalogService.createError({
+      name: 'System.TimeoutException',
+      message: 'The operation has timed out',
+      statusCode: 503,
+      weight: 1,
+    });
+
+    expect(error).toBeInstanceOf(InjectedError);
+    expect(error.name).toBe('System.TimeoutException');
+    expect(error.statusCode).toBe(503);
+  });
+
+  it('should reject invalid entries and keep the current catalog', () => {
+    expect(() =>
+      ExceptionCatalogService.setExceptions({
+        exceptions: [{ name: 'TimeoutError', message: 'x', statusCode: 200 }],
+      })
+    ).toThrow(ValidationError);
+    expect(() => ExceptionCatalogService.setExceptions([])).toThrow(ValidationError);
+    expect(ExceptionCatalogService.getCatalog().source).toBe('default');
+  });
+
+  it('should load the catalog file and reload it after runtime changes', () => {
+    const file = path.join(dir, 'exceptions.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        exceptions: [{ name: 'BadGatewayError', message: 'Upstream failed', statusCode: 502 }],
+      })
+    );
+    config.loadTestExceptionsFile = file;
+
+    expect(ExceptionCatalogService.load().source).toBe('file');
+    ExceptionCatalogService.setExceptions([{ name: 'Other', message: 'Other', statusCode: 500 }]);
+
+    const reloaded = ExceptionCatalogService.load();
+    expect(reloaded.source).toBe('file');
+    expect(reloaded.file).toBe(file);
+    expect(reloaded.exceptions).toEqual([
+      { name: 'BadGatewayError', message: 'Upstream failed', statusCode: 502, weight: 1 },
+    ]);
+  });
+
+  it('should fall back to the built-in catalog when the file is invalid', () => {
+    const file = path.join(dir, 'exceptions.json');
+    fs.writeFileSync(file, '{ not json');
+    config.loadTestExceptionsFile = file;
+
+    const catalog = ExceptionCatalogService.load();
+
+    expect(catalog.source).toBe('default');
+    expect(catalog.exceptions).toHaveLength(16);
+    const [warning] = EventLogService.getEntries();
+    expect(warning.level).toBe('warn');
+    expect(warning.message).toContain(file);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Guardrail Service Unit Tests
+ *
+ * cgroup detection runs against fake cgroup trees in a temp directory.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GuardrailService } from '../../../src/services/guardrail.service';
+import { ValidationError } from '../../../src/middleware/error-handler';
+import { config } from '../../../src/config';
+
+describe('GuardrailService', () => {
+  let root: string;
+  const originalMode = config.guardrailMode;
+
+  /**
+   * Writes files into the fake cgroup tree.
+   */
+  function writeCgroup(files: Record<string, string>): void {
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+      fs.writeFileSync(path.join(root, name), `${content}\n`);
+    }
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'perfsim-cgroup-'));
+    GuardrailService.setCgroupRoot(root);
+  });
+
+  afterEach(() => {
+    config.guardrailMode = originalMode;
+    GuardrailService.setCgroupRoot();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('memory guardrails', () => {
+    beforeEach(() => {
+      writeCgroup({ 'cgroup.controllers': '', 'memory.max': String(64 * 1024 * 1024 * 1024) });
+    });
+
+    it('should report the container limit and a safe allocation below it', () => {
+      const limits = GuardrailService.getLimits();
+
+      expect(limits.cgroupVersion).toBe(2);
+      expect(limits.containerMemoryLimitMb).toBe(65536);
+      expect(limits.safeMemoryAllocationMb).toBeGreaterThan(0);
+      expect(limits.safeMemoryAllocationMb).toBeLessThan(limits.heapLimitMb);
+    });
+
+    it('should reject allocations above the safe limit unless forced', () => {
+      config.guardrailMode = 'reject';
+
+      expect(() => GuardrailService.guardMemoryAllocation(60000, false)).toThrow(ValidationError);
+      expect(GuardrailService.guardMemoryAllocation(60000, true)).toBe(60000);
+      expect(GuardrailService.guardMemoryAllocation(1, false)).toBe(1);
+    });
+
+    it('should clamp allocations in clamp mode', () => {
+      config.guardrailMode = 'clamp';
+      const { safeMemoryAllocationMb } = GuardrailService.getLimits();
+
+      expect(GuardrailService.guardMemoryAllocation(60000, false)).toBeLessThanOrEqual(
+        safeMemoryAllocationMb + 1
+      );
+    });
+
+    it('should give unbounded leaks the safe limit as their ceiling', () => {
+      const params = GuardrailService.guardMemoryLeak({ leakRateMbPerMinute: 10 }, false);
+
+      expect(params.maxSizeMb).toBeGreaterThan(0);
+      expect(GuardrailService.guardMemoryLeak({ leakRateMbPerMinute: 10 }, true).maxSizeMb).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('guardCpuStress', () => {
+    it('should clamp targets above the CPU quota', () => {
+      const quotaCores = os.cpus().length / 4;
+      writeCgroup({ 'cgroup.controllers': '', 'cpu.max': `${quotaCores * 100000} 100000` });
+      const { maxCpuPercent } = GuardrailService.getLimits();
+
+      const params = GuardrailService.guardCpuStress(
+        { intensity: 'high', durationSeconds: 10 },
+        false
+      );
+
+      expect(maxCpuPercent).toBe(25);
+      expect(params).toEqual({ intensity: 'high', targetPercent: 25, durationSeconds: 10 });
+      expect(
+        GuardrailService.guardCpuStress({ targetPercent: 20, durationSeconds: 10 }, false)
+      ).toEqual({ targetPercent: 20, durationSeconds: 10 });
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Heap Snapshot Service Unit Tests
+ */
+
+import * as fs from 'fs';
+import v8 from 'v8';
+import { HeapSnapshotService } from '../../../src/services/heap-snapshot.service';
+import { DiagnosticArtifactService } from '../../../src/services/diagnostic-artifact.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { ConflictError } from '../../../src/middleware/error-handler';
+
+describe('HeapSnapshotService', () => {
+  beforeEach(() => {
+    // A real snapshot of the jest worker's heap stalls under the test runtime,
+    // so write a small placeholder file instead
+    jest.spyOn(v8, 'writeHeapSnapshot').mockImplementation((filePath?: string) => {
+      fs.writeFileSync(filePath as string, '{"snapshot":{}}');
+      return filePath as string;
+    });
+  });
+
+  afterEach(() => {
+    DiagnosticArtifactService.clear();
+    jest.restoreAllMocks();
+  });
+
+  describe('capture', () => {
+    it('should write a snapshot and register it as an artifact', async () => {
+      const artifact = await HeapSnapshotService.capture();
+
+      expect(artifact.kind).toBe('HEAP_SNAPSHOT');
+      expect(artifact.fileName).toMatch(/\.heapsnapshot$/);
+      expect(artifact.sizeBytes).toBeGreaterThan(0);
+      expect(fs.existsSync(DiagnosticArtifactService.getFilePath(artifact))).toBe(true);
+      expect(DiagnosticArtifactService.listArtifacts()).toEqual([artifact]);
+
+      const events = EventLogService.getRecentEntries(5);
+      expect(events.some((entry) => entry.event === 'HEAP_SNAPSHOT_CAPTURED')).toBe(true);
+    });
+
+    it('should refuse to run concurrently', async () => {
+      const first = HeapSnapshotService.capture();
+
+      await expect(HeapSnapshotService.capture()).rejects.toBeInstanceOf(ConflictError);
+      await first;
+      expect(HeapSnapshotService.isCapturing()).toBe(false);
+    });
+  });
+
+  describe('DiagnosticArtifactService.deleteArtifact', () => {
+    it('should remove the file and registry entry', async () => {
+      const artifact = await HeapSnapshotService.capture();
+      const filePath = DiagnosticArtifactService.getFilePath(artifact);
+
+      expect(DiagnosticArtifactService.deleteArtifact(artifact.id)).toBe(true);
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(DiagnosticArtifactService.getArtifact(artifact.id)).toBeUndefined();
+    });
+  });
+});
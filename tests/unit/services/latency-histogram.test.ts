@@ -0,0 +1,55 @@
+/**
+ * Latency Histogram Unit Tests
+ */
+
+import { LatencyHistogram } from '../../../src/services/latency-histogram';
+
+describe('LatencyHistogram', () => {
+  it('should report zeros when empty', () => {
+    const histogram = new LatencyHistogram();
+
+    expect(histogram.count).toBe(0);
+    expect(histogram.summary()).toEqual({ p50: 0, p90: 0, p95: 0, p99: 0, max: 0, mean: 0 });
+  });
+
+  it('should report percentiles within the bucket error', () => {
+    const histogram = new LatencyHistogram();
+    for (let ms = 1; ms <= 1000; ms++) {
+      histogram.record(ms);
+    }
+
+    const summary = histogram.summary();
+
+    expect(histogram.count).toBe(1000);
+    expect(summary.p50).toBeGreaterThanOrEqual(500);
+    expect(summary.p50).toBeLessThanOrEqual(500 * 1.02);
+    expect(summary.p99).toBeGreaterThanOrEqual(990);
+    expect(summary.p99).toBeLessThanOrEqual(990 * 1.02);
+    expect(summary.max).toBe(1000);
+    expect(summary.mean).toBeCloseTo(500.5, 1);
+  });
+
+  it('should count sub-millisecond values exactly', () => {
+    const histogram = new LatencyHistogram();
+    histogram.record(0.05);
+
+    expect(histogram.percentile(50)).toBe(0.05);
+  });
+
+  it('should merge and reset', () => {
+    const fast = new LatencyHistogram();
+    const slow = new LatencyHistogram();
+    fast.record(10);
+    slow.record(5000);
+
+    fast.merge(slow);
+
+    expect(fast.count).toBe(2);
+    expect(fast.summary().max).toBe(5000);
+
+    fast.reset();
+
+    expect(fast.count).toBe(0);
+    expect(fast.percentile(99)).toBe(0);
+  });
+});
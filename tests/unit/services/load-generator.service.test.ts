@@ -0,0 +1,95 @@
+/**
+ * Load Generator Service Unit Tests
+ */
+
+import { LoadGeneratorService } from '../../../src/services/load-generator.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { LoadGeneratorPlan, LoadGeneratorProgress } from '../../../src/types';
+
+describe('LoadGeneratorService', () => {
+  const plan: LoadGeneratorPlan = {
+    model: 'closed',
+    stages: [{ durationSeconds: 30, target: 5 }],
+    request: { baselineDelayMs: 100 },
+    thinkTimeMs: 0,
+    requestTimeoutMs: 60000,
+  };
+  const progress = { sent: 12, errors: 1 } as LoadGeneratorProgress;
+  let sent: Record<string, unknown>[];
+
+  beforeEach(() => {
+    LoadGeneratorService.reset();
+    EventLogService.clear();
+    sent = [];
+    LoadGeneratorService.setTransport((message) => {
+      sent.push(message);
+      return true;
+    });
+  });
+
+  it('should send the plan to the sidecar and track the run', () => {
+    const run = LoadGeneratorService.start(plan, 'secret');
+
+    expect(run.state).toBe('running');
+    expect(run.durationSeconds).toBe(30);
+    expect(sent).toEqual([
+      { type: 'loadGeneratorStart', runId: run.id, plan, credential: 'secret' },
+    ]);
+    expect(LoadGeneratorService.getRun()).toBe(run);
+    expect(EventLogService.getEntries().some((e) => e.event === 'LOAD_GENERATOR_STARTED')).toBe(
+      true
+    );
+  });
+
+  it('should allow one run at a time', () => {
+    LoadGeneratorService.start(plan);
+
+    expect(() => LoadGeneratorService.start(plan)).toThrow('already active');
+  });
+
+  it('should fail to start without a sidecar', () => {
+    LoadGeneratorService.setTransport(null);
+
+    expect(() => LoadGeneratorService.start(plan)).toThrow('not running');
+    expect(() => LoadGeneratorService.getRun()).toThrow('has not been run');
+  });
+
+  it('should apply progress and completion from the sidecar, ignoring other runs', () => {
+    const run = LoadGeneratorService.start(plan);
+
+    LoadGeneratorService.handleMessage({ type: 'loadGeneratorProgress', runId: 'other', progress });
+    expect(run.progress).toBeNull();
+
+    LoadGeneratorService.handleMessage({ type: 'loadGeneratorProgress', runId: run.id, progress });
+    expect(run.progress).toBe(progress);
+    expect(run.state).toBe('running');
+
+    LoadGeneratorService.handleMessage({
+      type: 'loadGeneratorDone',
+      runId: run.id,
+      progress,
+      state: 'completed',
+    });
+    expect(run.state).toBe('completed');
+    expect(run.endedAt).not.toBeNull();
+  });
+
+  it('should stop the run in the sidecar', () => {
+    const run = LoadGeneratorService.start(plan);
+
+    LoadGeneratorService.stop();
+
+    expect(run.state).toBe('stopped');
+    expect(sent[1]).toEqual({ type: 'loadGeneratorStop', runId: run.id });
+    expect(() => LoadGeneratorService.stop()).toThrow('No load generator run is active');
+  });
+
+  it('should fail the run when the sidecar exits', () => {
+    const run = LoadGeneratorService.start(plan);
+
+    LoadGeneratorService.setTransport(null);
+
+    expect(run.state).toBe('failed');
+    expect(run.error).toContain('sidecar');
+  });
+});
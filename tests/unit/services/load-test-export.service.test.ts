@@ -0,0 +1,123 @@
+/**
+ * Load Test Export Service Unit Tests
+ */
+
+import {
+  LoadTestExportService,
+  openModelSchedule,
+} from '../../../src/services/load-test-export.service';
+import { LoadGeneratorPlan } from '../../../src/types';
+
+describe('LoadTestExportService', () => {
+  const closedPlan: LoadGeneratorPlan = {
+    model: 'closed',
+    stages: [
+      { durationSeconds: 60, target: 10 },
+      { durationSeconds: 120, target: 30 },
+      { durationSeconds: 30, target: 0 },
+    ],
+    request: { softLimit: 25 },
+    thinkTimeMs: 500,
+    requestTimeoutMs: 60000,
+  };
+  const openPlan: LoadGeneratorPlan = {
+    model: 'open',
+    stages: [
+      { durationSeconds: 0, target: 5 },
+      { durationSeconds: 60, target: 20 },
+    ],
+    request: {},
+    thinkTimeMs: 0,
+    requestTimeoutMs: 30000,
+  };
+  const target = { baseUrl: 'https://perfsim.example.net', authenticate: false };
+
+  describe('k6', () => {
+    it('should write a ramping-vus scenario with every load test parameter', () => {
+      const script = LoadTestExportService.generate('k6', closedPlan, target);
+
+      expect(script.fileName).toBe('perfsim-loadtest.js');
+      expect(script.contentType).toBe('application/javascript');
+      expect(script.content).toContain(
+        'const BASE_URL = __ENV.BASE_URL || "https://perfsim.example.net";'
+      );
+      expect(script.content).toContain("executor: 'ramping-vus'");
+      expect(script.content).toContain("{ duration: '120s', target: 30 },");
+      // Overridden parameter plus defaults for the rest
+      expect(script.content).toContain('  softLimit: 25,');
+      expect(script.content).toContain('  workIterations: 700,');
+      expect(script.content).toContain("timeout: '60000ms'");
+      expect(script.content).toContain('sleep(0.5);');
+      expect(script.content).not.toContain('PERFSIM_API_KEY');
+    });
+
+    it('should write a ramping-arrival-rate scenario for the open model', () => {
+      const script = LoadTestExportService.generate('k6', openPlan, {
+        ...target,
+        authenticate: true,
+      });
+
+      expect(script.content).toContain("executor: 'ramping-arrival-rate'");
+      // 20 RPS at the default 1000 ms baseline
+      expect(script.content).toContain('preAllocatedVUs: 20,');
+      expect(script.content).toContain("{ duration: '0s', target: 5 },");
+      expect(script.content).not.toContain('sleep(');
+      expect(script.content).toContain(
+        'headers.Authorization = `Bearer ${__ENV.PERFSIM_API_KEY}`;'
+      );
+    });
+  });
+
+  describe('JMeter', () => {
+    it('should split closed model stages into hold and ramp thread groups', () => {
+      const script = LoadTestExportService.generate('jmeter', closedPlan, target);
+
+      expect(script.fileName).toBe('perfsim-loadtest.jmx');
+      expect(script.contentType).toBe('application/xml');
+      expect(script.content).toContain('${__P(host,perfsim.example.net)}');
+      expect(script.content).toContain('${__P(port,443)}');
+      expect(script.content).toContain('${__P(protocol,https)}');
+
+      const groups = [...script.content.matchAll(/<ThreadGroup [^>]*testname="([^"]*)">/g)].map(
+        (match) => match[1]
+      );
+      // Stage 1 ramps 0 → 10, stage 2 holds 10 and ramps 20 more, stage 3 is a ramp to 0
+      expect(groups).toEqual([
+        'Stage 1: 0 → 10 users over 60s (ramp)',
+        'Stage 2: 10 → 30 users over 120s',
+        'Stage 2: 10 → 30 users over 120s (ramp)',
+      ]);
+      expect(script.content).toContain('<stringProp name="ThreadGroup.delay">60</stringProp>');
+      expect(script.content).toContain('<stringProp name="ConstantTimer.delay">500</stringProp>');
+      expect(script.content).toContain('<stringProp name="Argument.value">25</stringProp>');
+    });
+
+    it('should use an Open Model Thread Group for the open model', () => {
+      const script = LoadTestExportService.generate('jmeter', openPlan, {
+        baseUrl: 'http://localhost:3000',
+        authenticate: true,
+      });
+
+      expect(script.content).toContain('<OpenModelThreadGroup');
+      expect(script.content).toContain(
+        '<stringProp name="schedule">rate(0/s) rate(5/s) random_arrivals(60 s) rate(20/s)</stringProp>'
+      );
+      expect(script.content).toContain('${__P(port,3000)}');
+      expect(script.content).toContain('Bearer ${__P(apiKey,)}');
+    });
+  });
+
+  describe('openModelSchedule', () => {
+    it('should ramp between rates and step on 0-second stages', () => {
+      expect(
+        openModelSchedule([
+          { durationSeconds: 30, target: 10 },
+          { durationSeconds: 0, target: 50 },
+          { durationSeconds: 60, target: 50 },
+        ])
+      ).toBe(
+        'rate(0/s) random_arrivals(30 s) rate(10/s) rate(50/s) random_arrivals(60 s) rate(50/s)'
+      );
+    });
+  });
+});
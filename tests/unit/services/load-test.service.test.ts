@@ -0,0 +1,53 @@
+/**
+ * Load Test Service Unit Tests
+ */
+
+import { LoadTestService } from '../../../src/services/load-test.service';
+
+describe('LoadTestService', () => {
+  const quickRequest = {
+    workIterations: 0,
+    bufferSizeKb: 1,
+    baselineDelayMs: 10,
+    errorAboveConcurrent: 0,
+    suppressLogs: true,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report queue time separately from work time', async () => {
+    await LoadTestService.executeWork(quickRequest, Date.now() - 300);
+
+    const stats = LoadTestService.getCurrentStats();
+
+    expect(stats.queueTimeMs.max).toBeGreaterThanOrEqual(300);
+    expect(stats.workTimeMs.max).toBeGreaterThanOrEqual(10);
+    expect(stats.responseTimeMs.max).toBeGreaterThanOrEqual(310);
+    expect(stats.responseTimeMs.p50).toBeGreaterThan(0);
+  });
+
+  it('should count exceptions by type', async () => {
+    const before = LoadTestService.getCurrentStats();
+
+    await expect(
+      LoadTestService.executeWork({ ...quickRequest, errorAboveConcurrent: -1, errorPercent: 100 })
+    ).rejects.toThrow();
+
+    const after = LoadTestService.getCurrentStats();
+    const countByType = (byType: Record<string, number>): number =>
+      Object.values(byType).reduce((sum, count) => sum + count, 0);
+
+    expect(after.totalExceptionsThrown).toBe(before.totalExceptionsThrown + 1);
+    expect(countByType(after.exceptionsByType)).toBe(countByType(before.exceptionsByType) + 1);
+    for (const type of Object.keys(after.exceptionsByType)) {
+      expect(type).toMatch(/^[A-Z][A-Za-z]*(Error|Exception)$/);
+    }
+  });
+});
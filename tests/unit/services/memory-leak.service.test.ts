@@ -0,0 +1,80 @@
+/**
+ * Memory Leak Service Unit Tests
+ */
+
+import { MemoryLeakService } from '../../../src/services/memory-leak.service';
+import { SimulationTrackerService } from '../../../src/services/simulation-tracker.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+
+describe('MemoryLeakService', () => {
+  beforeEach(() => {
+    MemoryLeakService.stopAll();
+    SimulationTrackerService.clear();
+  });
+
+  afterAll(() => {
+    MemoryLeakService.stopAll();
+  });
+
+  describe('start', () => {
+    it('should create a memory leak simulation', () => {
+      const simulation = MemoryLeakService.start({ leakRateMbPerMinute: 60 });
+
+      expect(simulation.type).toBe('MEMORY_LEAK');
+      expect(simulation.status).toBe('ACTIVE');
+      expect(simulation.parameters).toEqual({ type: 'MEMORY_LEAK', leakRateMbPerMinute: 60 });
+      expect(MemoryLeakService.getLeakedMb(simulation.id)).toBe(0);
+
+      MemoryLeakService.stop(simulation.id);
+    });
+
+    it('should grow retained memory over time', async () => {
+      const simulation = MemoryLeakService.start({ leakRateMbPerMinute: 120 });
+
+      await new Promise((resolve) => setTimeout(resolve, 1300));
+
+      expect(MemoryLeakService.getLeakedMb(simulation.id)).toBeGreaterThan(0);
+
+      MemoryLeakService.stop(simulation.id);
+    });
+
+    it('should stop growing at the ceiling and log it', async () => {
+      const simulation = MemoryLeakService.start({ leakRateMbPerMinute: 600, maxSizeMb: 2 });
+
+      await new Promise((resolve) => setTimeout(resolve, 1300));
+
+      expect(MemoryLeakService.getLeakedMb(simulation.id)).toBeCloseTo(2, 0);
+      const ceilingEvents = EventLogService.getEntriesForSimulation(simulation.id).filter(
+        (entry) => entry.event === 'MEMORY_LEAK_PROGRESS' && entry.details?.ceilingReached
+      );
+      expect(ceilingEvents.length).toBe(1);
+
+      MemoryLeakService.stop(simulation.id);
+    });
+
+    it('should complete and release memory when duration elapses', async () => {
+      const simulation = MemoryLeakService.start({ leakRateMbPerMinute: 120, durationSeconds: 1 });
+
+      await new Promise((resolve) => setTimeout(resolve, 1300));
+
+      expect(SimulationTrackerService.getSimulation(simulation.id)?.status).toBe('COMPLETED');
+      expect(MemoryLeakService.getLeakedMb(simulation.id)).toBeUndefined();
+    });
+  });
+
+  describe('stop', () => {
+    it('should release memory and mark simulation stopped', () => {
+      const simulation = MemoryLeakService.start({ leakRateMbPerMinute: 60 });
+
+      const result = MemoryLeakService.stop(simulation.id);
+
+      expect(result?.wasLeaking).toBe(true);
+      expect(result?.simulation?.status).toBe('STOPPED');
+      expect(MemoryLeakService.getActiveCount()).toBe(0);
+    });
+
+    it('should return undefined for non-existent leak', () => {
+      expect(MemoryLeakService.stop('non-existent')).toBeUndefined();
+    });
+  });
+});
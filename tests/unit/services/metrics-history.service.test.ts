@@ -0,0 +1,110 @@
+/**
+ * Metrics History Service Unit Tests
+ */
+
+import { MetricsHistoryService } from '../../../src/services/metrics-history.service';
+import { SystemMetrics } from '../../../src/types';
+
+/**
+ * Builds a metrics snapshot with the given timestamp and values.
+ */
+function snapshot(time: number, cpu: number, heartbeatLagMs = 1): SystemMetrics {
+  return {
+    timestamp: new Date(time),
+    cpu: { usagePercent: cpu, user: time, system: 0 },
+    memory: { heapUsedMb: 50, heapTotalMb: 80, rssMb: 120, externalMb: 2, totalSystemMb: 4096 },
+    eventLoop: {
+      lagMs: 1,
+      heartbeatLagMs,
+      lagP99Ms: 2,
+      minMs: 1,
+      maxMs: 3,
+      idleMs: 250 - cpu,
+      activeMs: cpu,
+      utilization: cpu / 250,
+    },
+    process: { pid: 1, activeHandles: 4, activeRequests: 0, uptime: 10 },
+    container: null,
+    gc: {
+      byKind: {
+        scavenge: { count: 1, pauseMs: 0.5, countTotal: 1, pauseMsTotal: 0.5 },
+        markSweepCompact: { count: 0, pauseMs: 0, countTotal: 0, pauseMsTotal: 0 },
+        incremental: { count: 0, pauseMs: 0, countTotal: 0, pauseMsTotal: 0 },
+        weakCallbacks: { count: 0, pauseMs: 0, countTotal: 0, pauseMsTotal: 0 },
+      },
+      maxPauseMs: heartbeatLagMs,
+      heapSpaces: [],
+    },
+    threadPool: {
+      poolSize: 4,
+      probeLatencyMs: heartbeatLagMs,
+      probeLatencyMaxMs: heartbeatLagMs,
+      probes: 1,
+      probePending: false,
+    },
+  };
+}
+
+describe('MetricsHistoryService', () => {
+  // Align to a 5s boundary so bucket membership is deterministic
+  const base = Math.floor((Date.now() - 60_000) / 5000) * 5000;
+
+  beforeEach(() => {
+    MetricsHistoryService.clear();
+  });
+
+  describe('record', () => {
+    it('should store samples in every tier', () => {
+      for (let i = 0; i < 40; i++) {
+        MetricsHistoryService.record(snapshot(base + i * 250, 10));
+      }
+
+      const [fine, coarse] = MetricsHistoryService.getTiers();
+      expect(fine.resolutionMs).toBe(250);
+      expect(fine.points).toBe(40);
+      expect(coarse.resolutionMs).toBe(5000);
+      expect(coarse.points).toBe(2);
+    });
+  });
+
+  describe('query', () => {
+    it('should return fine-resolution points for a recent range', () => {
+      for (let i = 0; i < 8; i++) {
+        MetricsHistoryService.record(snapshot(base + i * 250, i));
+      }
+
+      const result = MetricsHistoryService.query(new Date(base), new Date(base + 10_000));
+
+      expect(result.sourceResolutionMs).toBe(250);
+      expect(result.points.map((p) => p.cpu.usagePercent)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('should downsample to a requested resolution, keeping lag spikes', () => {
+      for (let i = 0; i < 40; i++) {
+        MetricsHistoryService.record(snapshot(base + i * 250, i < 20 ? 20 : 40, i === 5 ? 900 : 1));
+      }
+
+      const result = MetricsHistoryService.query(new Date(base), new Date(base + 10_000), 5000);
+
+      expect(result.resolutionMs).toBe(5000);
+      expect(result.points).toHaveLength(2);
+      expect(result.points[0].cpu.usagePercent).toBe(20);
+      expect(result.points[0].eventLoop.heartbeatLagMs).toBe(900);
+      expect(result.points[0].gc.byKind.scavenge.count).toBe(20);
+      expect(result.points[0].gc.byKind.scavenge.pauseMs).toBe(10);
+      expect(result.points[0].gc.maxPauseMs).toBe(900);
+      expect(result.points[0].eventLoop.activeMs).toBe(400);
+      expect(result.points[0].eventLoop.utilization).toBe(0.08);
+      expect(result.points[1].cpu.usagePercent).toBe(40);
+    });
+
+    it('should read from the coarse tier for ranges older than the fine retention', () => {
+      MetricsHistoryService.record(snapshot(base, 10));
+
+      const result = MetricsHistoryService.query(new Date(Date.now() - 60 * 60 * 1000), new Date());
+
+      expect(result.sourceResolutionMs).toBe(5000);
+      expect(result.points).toHaveLength(1);
+    });
+  });
+});
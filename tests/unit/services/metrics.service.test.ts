@@ -50,6 +50,23 @@ describe('MetricsService', () => {
       expect(typeof metrics.eventLoop.heartbeatLagMs).toBe('number');
     });
 
+    it('should report event loop utilization for the interval', async () => {
+      MetricsService.getEventLoopMetrics();
+      // Keep the loop busy for part of the interval
+      const busyUntil = Date.now() + 30;
+      while (Date.now() < busyUntil) {
+        // spin
+      }
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      const { idleMs, activeMs, utilization } = MetricsService.getEventLoopMetrics();
+
+      expect(activeMs).toBeGreaterThanOrEqual(25);
+      expect(idleMs).toBeGreaterThan(0);
+      expect(utilization).toBeGreaterThan(0);
+      expect(utilization).toBeLessThan(1);
+    });
+
     it('should return valid process metrics', () => {
       const metrics = MetricsService.getMetrics();
 
@@ -61,6 +78,31 @@ describe('MetricsService', () => {
     });
   });
 
+  describe('getGcMetrics', () => {
+    it('should count scavenges and reset interval counts once reported', async () => {
+      MetricsService.getGcMetrics();
+
+      // Churn short-lived objects to force young-generation collections
+      let retained = 0;
+      for (let i = 0; i < 200_000; i++) {
+        retained += new Array(16).fill(i).length;
+      }
+      expect(retained).toBeGreaterThan(0);
+      // GC entries are delivered to the observer asynchronously
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const first = MetricsService.getGcMetrics();
+      const second = MetricsService.getGcMetrics();
+
+      expect(first.byKind.scavenge.count).toBeGreaterThan(0);
+      expect(first.byKind.scavenge.pauseMs).toBeGreaterThan(0);
+      expect(first.maxPauseMs).toBeGreaterThan(0);
+      expect(second.byKind.scavenge.count).toBe(0);
+      expect(second.byKind.scavenge.countTotal).toBe(first.byKind.scavenge.countTotal);
+      expect(second.heapSpaces.map((space) => space.name)).toContain('old_space');
+    });
+  });
+
   describe('getCpuMetrics', () => {
     it('should track CPU usage over time', async () => {
       // First call establishes baseline
@@ -0,0 +1,94 @@
+/**
+ * Prometheus Exporter Service Unit Tests
+ */
+
+import { PrometheusExporterService } from '../../../src/services/prometheus-exporter.service';
+import { SimulationTrackerService } from '../../../src/services/simulation-tracker.service';
+import { SystemMetrics } from '../../../src/types';
+
+// The real MetricsService starts timers on import that keep Jest from exiting
+jest.mock('../../../src/services/metrics.service', () => {
+  const gcKind = { count: 0, pauseMs: 0, countTotal: 3, pauseMsTotal: 4 };
+  const metrics: SystemMetrics = {
+    timestamp: new Date(),
+    cpu: { usagePercent: 12, user: 2e6, system: 1e6 },
+    memory: { heapUsedMb: 20, heapTotalMb: 40, rssMb: 80, externalMb: 2, totalSystemMb: 4096 },
+    eventLoop: {
+      lagMs: 1,
+      heartbeatLagMs: 1,
+      lagP99Ms: 3,
+      minMs: 0,
+      maxMs: 5,
+      idleMs: 90,
+      activeMs: 10,
+      utilization: 0.1,
+    },
+    process: { pid: 1, activeHandles: 4, activeRequests: 0, uptime: 60 },
+    container: null,
+    gc: {
+      byKind: {
+        scavenge: gcKind,
+        markSweepCompact: gcKind,
+        incremental: gcKind,
+        weakCallbacks: gcKind,
+      },
+      maxPauseMs: 2,
+      heapSpaces: [{ name: 'new_space', sizeMb: 1, usedMb: 0.5, availableMb: 0.5, physicalMb: 1 }],
+    },
+    threadPool: {
+      poolSize: 4,
+      probeLatencyMs: 0.2,
+      probeLatencyMaxMs: 0.5,
+      probes: 10,
+      probePending: false,
+    },
+  };
+  return { MetricsService: { getLastMetrics: () => metrics } };
+});
+
+describe('PrometheusExporterService', () => {
+  beforeEach(() => {
+    PrometheusExporterService.reset();
+    SimulationTrackerService.clear();
+  });
+
+  describe('render', () => {
+    it('should emit HELP and TYPE lines for system metrics', () => {
+      const output = PrometheusExporterService.render();
+
+      expect(output).toContain('# TYPE perfsim_memory_heap_used_bytes gauge');
+      expect(output).toContain('# TYPE perfsim_loadtest_requests_total counter');
+      expect(output).toMatch(/^perfsim_event_loop_heartbeat_lag_seconds \d/m);
+      expect(output.endsWith('\n')).toBe(true);
+    });
+
+    it('should count active simulations by type', () => {
+      SimulationTrackerService.createSimulation(
+        'MEMORY_PRESSURE',
+        { type: 'MEMORY_PRESSURE', sizeMb: 10 },
+        60
+      );
+
+      const output = PrometheusExporterService.render();
+
+      expect(output).toContain('perfsim_active_simulations{type="MEMORY_PRESSURE"} 1');
+      expect(output).toContain('perfsim_active_simulations{type="CPU_STRESS"} 0');
+    });
+  });
+
+  describe('observeProbeLatency', () => {
+    it('should fill cumulative histogram buckets', () => {
+      PrometheusExporterService.observeProbeLatency(20);
+      PrometheusExporterService.observeProbeLatency(300);
+
+      const output = PrometheusExporterService.render();
+
+      expect(output).toContain('perfsim_sidecar_probe_latency_seconds_bucket{le="0.01"} 0');
+      expect(output).toContain('perfsim_sidecar_probe_latency_seconds_bucket{le="0.025"} 1');
+      expect(output).toContain('perfsim_sidecar_probe_latency_seconds_bucket{le="0.5"} 2');
+      expect(output).toContain('perfsim_sidecar_probe_latency_seconds_bucket{le="+Inf"} 2');
+      expect(output).toContain('perfsim_sidecar_probe_latency_seconds_count 2');
+      expect(output).toContain('perfsim_sidecar_probe_latency_seconds_sum 0.32');
+    });
+  });
+});
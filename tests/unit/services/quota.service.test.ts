@@ -0,0 +1,87 @@
+/**
+ * Quota Service Unit Tests
+ */
+
+import { QuotaService } from '../../../src/services/quota.service';
+import { SimulationTrackerService } from '../../../src/services/simulation-tracker.service';
+import { TooManyRequestsError } from '../../../src/middleware/error-handler';
+import { config } from '../../../src/config';
+
+describe('QuotaService', () => {
+  const originalConfig = {
+    quotaMaxActivePerType: config.quotaMaxActivePerType,
+    quotaMaxActivePerClient: config.quotaMaxActivePerClient,
+    quotaStartsPerMinute: config.quotaStartsPerMinute,
+  };
+
+  /**
+   * Starts a CPU simulation attributed to a client.
+   */
+  function startAs(clientId: string): void {
+    SimulationTrackerService.runAsClient(clientId, () =>
+      SimulationTrackerService.createSimulation(
+        'CPU_STRESS',
+        { type: 'CPU_STRESS', intensity: 'moderate', durationSeconds: 60 },
+        60
+      )
+    );
+  }
+
+  beforeEach(() => {
+    Object.assign(config, originalConfig);
+    QuotaService.clear();
+    SimulationTrackerService.clear();
+  });
+
+  afterAll(() => {
+    Object.assign(config, originalConfig);
+    QuotaService.clear();
+    SimulationTrackerService.clear();
+  });
+
+  it('should cap active simulations per client and type', () => {
+    config.quotaMaxActivePerClient = 2;
+    startAs('alice');
+    startAs('alice');
+
+    expect(() => QuotaService.checkStart('alice', 'CPU_STRESS')).toThrow(TooManyRequestsError);
+    expect(() => QuotaService.checkStart('bob', 'CPU_STRESS')).not.toThrow();
+    expect(() => QuotaService.checkStart('alice', 'MEMORY_PRESSURE')).not.toThrow();
+  });
+
+  it('should cap active simulations per type across clients', () => {
+    config.quotaMaxActivePerType = 2;
+    startAs('alice');
+    startAs('bob');
+
+    expect(() => QuotaService.checkStart('carol', 'CPU_STRESS')).toThrow(/Too many active/);
+  });
+
+  it('should rate-limit starts per client with a retry hint', () => {
+    config.quotaStartsPerMinute = 2;
+    QuotaService.checkStart('alice');
+    QuotaService.checkStart('alice');
+
+    let error: unknown;
+    try {
+      QuotaService.checkStart('alice');
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect((error as TooManyRequestsError).statusCode).toBe(429);
+    expect((error as TooManyRequestsError).details?.retryAfterSeconds).toBeGreaterThan(0);
+    expect(() => QuotaService.checkStart('bob')).not.toThrow();
+  });
+
+  it('should treat 0 as unlimited', () => {
+    config.quotaMaxActivePerType = 0;
+    config.quotaMaxActivePerClient = 0;
+    config.quotaStartsPerMinute = 0;
+    for (let i = 0; i < 5; i++) {
+      startAs('alice');
+      QuotaService.checkStart('alice', 'CPU_STRESS');
+    }
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Random Service Unit Tests
+ */
+
+import { RandomService, SeededRandom } from '../../../src/services/random.service';
+
+describe('RandomService', () => {
+  afterEach(() => {
+    RandomService.reset();
+  });
+
+  it('should repeat the same sequence for the same seed', () => {
+    const first = new SeededRandom(42);
+    const second = new SeededRandom(42);
+    const sequence = Array.from({ length: 5 }, () => first.next());
+
+    expect(Array.from({ length: 5 }, () => second.next())).toEqual(sequence);
+    expect(new SeededRandom(43).next()).not.toBe(sequence[0]);
+    expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('should draw integers below the bound', () => {
+    const random = new SeededRandom(7);
+    const values = Array.from({ length: 1000 }, () => random.nextInt(3));
+
+    expect(new Set(values)).toEqual(new Set([0, 1, 2]));
+  });
+
+  it('should derive the same seeds from the same master seed', () => {
+    RandomService.reset(1234);
+    const seeds = [RandomService.nextSeed(), RandomService.nextSeed()];
+    RandomService.reset(1234);
+
+    expect([RandomService.nextSeed(), RandomService.nextSeed()]).toEqual(seeds);
+    expect(seeds[0]).not.toBe(seeds[1]);
+    expect(RandomService.getMasterSeed()).toBe(1234);
+  });
+
+  it('should use the requested seed inside runWithSeed', async () => {
+    const seed = await RandomService.runWithSeed(99, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      return RandomService.createGenerator().seed;
+    });
+
+    expect(seed).toBe(99);
+    expect(RandomService.nextSeed()).not.toBe(99);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Request Metrics Service Unit Tests
+ */
+
+import {
+  OVERFLOW_ROUTE,
+  RequestMetricsService,
+} from '../../../src/services/request-metrics.service';
+
+describe('RequestMetricsService', () => {
+  const getRoute = { method: 'GET', route: '/api/scenarios/:id' };
+  const postRoute = { method: 'POST', route: '/api/simulations/cpu' };
+  const now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    RequestMetricsService.reset();
+  });
+
+  it('should aggregate requests per route with status classes and error rate', () => {
+    RequestMetricsService.record(getRoute, 200, 10, now);
+    RequestMetricsService.record(getRoute, 404, 5, now);
+    RequestMetricsService.record(getRoute, 503, 100, now);
+
+    const [route] = RequestMetricsService.getSnapshot(now).routes;
+
+    expect(route).toMatchObject({ method: 'GET', route: '/api/scenarios/:id' });
+    expect(route.requests).toBe(3);
+    expect(route.errors).toBe(1);
+    expect(route.statusClasses).toEqual({ '1xx': 0, '2xx': 1, '3xx': 0, '4xx': 1, '5xx': 1 });
+    expect(route.requestsPerSecond).toBe(0.05);
+    expect(route.errorsPerSecond).toBe(0.02);
+    expect(route.latencyMs.max).toBe(100);
+  });
+
+  it('should sort the busiest route first', () => {
+    RequestMetricsService.record(getRoute, 200, 1, now);
+    RequestMetricsService.record(postRoute, 202, 1, now);
+    RequestMetricsService.record(postRoute, 202, 1, now);
+
+    const { routes } = RequestMetricsService.getSnapshot(now);
+
+    expect(routes.map((route) => route.method)).toEqual(['POST', 'GET']);
+  });
+
+  it('should drop requests that have left the window from rates but keep totals', () => {
+    RequestMetricsService.record(getRoute, 200, 2000, now);
+
+    const later = RequestMetricsService.getSnapshot(now + 61_000);
+
+    expect(later.windowSeconds).toBe(60);
+    expect(later.routes[0].requests).toBe(1);
+    expect(later.routes[0].requestsPerSecond).toBe(0);
+    expect(later.routes[0].latencyMs.p95).toBe(0);
+  });
+
+  it('should group routes beyond the limit under one route', () => {
+    for (let i = 0; i < 600; i++) {
+      RequestMetricsService.record({ method: 'GET', route: `/api/route-${i}` }, 200, 1, now);
+    }
+
+    const { routes } = RequestMetricsService.getSnapshot(now);
+
+    expect(routes).toHaveLength(501);
+    expect(routes.find((route) => route.route === OVERFLOW_ROUTE)?.requests).toBe(100);
+  });
+
+  it('should count in-flight requests once their route is known', () => {
+    let routed = false;
+    const done = RequestMetricsService.trackInFlight(() => (routed ? getRoute : null));
+
+    expect(RequestMetricsService.getSnapshot(now).routes).toHaveLength(0);
+
+    routed = true;
+    expect(RequestMetricsService.getSnapshot(now).routes[0].inFlight).toBe(1);
+
+    done();
+    expect(RequestMetricsService.getSnapshot(now).routes[0].inFlight).toBe(0);
+  });
+});
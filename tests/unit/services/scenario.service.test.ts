@@ -0,0 +1,182 @@
+/**
+ * Scenario Service Unit Tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ScenarioService } from '../../../src/services/scenario.service';
+import { MemoryPressureService } from '../../../src/services/memory-pressure.service';
+import { SimulationTrackerService } from '../../../src/services/simulation-tracker.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { QuotaService } from '../../../src/services/quota.service';
+import { GuardrailService } from '../../../src/services/guardrail.service';
+import { validateScenarioPlaybook } from '../../../src/middleware/validation';
+import { ScenarioPlaybook, ScenarioRun } from '../../../src/types';
+import { config } from '../../../src/config';
+
+/**
+ * Waits until the run leaves RUNNING/PAUSED or the timeout passes.
+ */
+async function waitForFinish(run: ScenarioRun, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (run.finishedAt === null && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+/** Allocate 1MB immediately, release it one second later */
+const allocateThenRelease: ScenarioPlaybook = validateScenarioPlaybook({
+  name: 'allocate then release',
+  steps: [
+    { atSeconds: 1, action: 'MEMORY_RELEASE', target: 'small' },
+    { atSeconds: 0, action: 'MEMORY_PRESSURE', sizeMb: 1, label: 'small' },
+  ],
+});
+
+describe('ScenarioService', () => {
+  beforeEach(() => {
+    ScenarioService.clear();
+    SimulationTrackerService.clear();
+    MemoryPressureService.releaseAll();
+    EventLogService.clear();
+  });
+
+  afterAll(() => {
+    ScenarioService.clear();
+    MemoryPressureService.releaseAll();
+  });
+
+  describe('validateScenarioPlaybook', () => {
+    it('should sort steps by atSeconds', () => {
+      expect(allocateThenRelease.steps.map((step) => step.action)).toEqual([
+        'MEMORY_PRESSURE',
+        'MEMORY_RELEASE',
+      ]);
+    });
+
+    it('should reject a release targeting an unknown label', () => {
+      expect(() =>
+        validateScenarioPlaybook({
+          name: 'bad',
+          steps: [{ atSeconds: 0, action: 'MEMORY_RELEASE', target: 'missing' }],
+        })
+      ).toThrow(/steps\[0\]/);
+    });
+  });
+
+  describe('start', () => {
+    it('should run steps on schedule and complete', async () => {
+      const run = ScenarioService.start(allocateThenRelease);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(run.steps[0].status).toBe('COMPLETED');
+      expect(MemoryPressureService.getActiveCount()).toBe(1);
+      expect(run.steps[1].status).toBe('PENDING');
+
+      await waitForFinish(run);
+
+      expect(run.status).toBe('COMPLETED');
+      expect(run.steps[1].status).toBe('COMPLETED');
+      expect(MemoryPressureService.getActiveCount()).toBe(0);
+
+      const types = EventLogService.getRecentEntries(50).map((entry) => entry.event);
+      expect(types).toContain('SCENARIO_STARTED');
+      expect(types).toContain('SCENARIO_STEP_COMPLETED');
+      expect(types).toContain('SCENARIO_COMPLETED');
+    });
+
+    it('should reject a second scenario while one is running', () => {
+      ScenarioService.start(allocateThenRelease);
+
+      expect(() => ScenarioService.start(allocateThenRelease)).toThrow(/already running/);
+    });
+
+    it("should run steps as the starting client and fail a step over the client's quota", async () => {
+      const originalMax = config.quotaMaxActivePerClient;
+      config.quotaMaxActivePerClient = 1;
+      QuotaService.clear();
+      try {
+        const run = ScenarioService.start(
+          validateScenarioPlaybook({
+            name: 'two allocations',
+            steps: [
+              { atSeconds: 0, action: 'MEMORY_PRESSURE', sizeMb: 1 },
+              { atSeconds: 0, action: 'MEMORY_PRESSURE', sizeMb: 1 },
+            ],
+          }),
+          'key:scenario-test'
+        );
+        await waitForFinish(run);
+
+        const first = SimulationTrackerService.getSimulation(run.steps[0].simulationId ?? '');
+        expect(first?.clientId).toBe('key:scenario-test');
+        expect(run.steps[1].status).toBe('FAILED');
+        expect(run.steps[1].error).toMatch(/active MEMORY_PRESSURE simulations/);
+        expect(run.status).toBe('FAILED');
+        expect(MemoryPressureService.getActiveCount()).toBe(0);
+      } finally {
+        config.quotaMaxActivePerClient = originalMax;
+        QuotaService.clear();
+      }
+    });
+
+    it('should fail a memory step above the guardrail limit', async () => {
+      // A 64MB container leaves no room for a 100MB allocation
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'perfsim-cgroup-'));
+      fs.writeFileSync(path.join(root, 'cgroup.controllers'), '\n');
+      fs.writeFileSync(path.join(root, 'memory.max'), `${64 * 1024 * 1024}\n`);
+      const originalMode = config.guardrailMode;
+      config.guardrailMode = 'reject';
+      GuardrailService.setCgroupRoot(root);
+      try {
+        const run = ScenarioService.start(
+          validateScenarioPlaybook({
+            name: 'too big',
+            steps: [{ atSeconds: 0, action: 'MEMORY_PRESSURE', sizeMb: 100 }],
+          })
+        );
+        await waitForFinish(run);
+
+        expect(run.steps[0].status).toBe('FAILED');
+        expect(run.status).toBe('FAILED');
+        expect(MemoryPressureService.getActiveCount()).toBe(0);
+      } finally {
+        config.guardrailMode = originalMode;
+        GuardrailService.setCgroupRoot();
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('pause/resume', () => {
+    it('should hold pending steps while paused', async () => {
+      const run = ScenarioService.start(allocateThenRelease);
+      ScenarioService.pause(run.id);
+
+      await new Promise((resolve) => setTimeout(resolve, 1200));
+      expect(run.status).toBe('PAUSED');
+      expect(run.steps[1].status).toBe('PENDING');
+
+      ScenarioService.resume(run.id);
+      await waitForFinish(run);
+
+      expect(run.status).toBe('COMPLETED');
+      expect(run.totalPausedMs).toBeGreaterThanOrEqual(1000);
+    });
+  });
+
+  describe('abort', () => {
+    it('should skip pending steps and release memory the run allocated', async () => {
+      const run = ScenarioService.start(allocateThenRelease);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      ScenarioService.abort(run.id);
+
+      expect(run.status).toBe('ABORTED');
+      expect(run.steps[1].status).toBe('SKIPPED');
+      expect(MemoryPressureService.getActiveCount()).toBe(0);
+      expect(() => ScenarioService.abort(run.id)).toThrow(/already aborted/);
+    });
+  });
+});
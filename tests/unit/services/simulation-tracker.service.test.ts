@@ -43,6 +43,39 @@ describe('SimulationTrackerService', () => {
 
       expect(sim1.id).not.toBe(sim2.id);
     });
+
+    it('should record the client from runAsClient', () => {
+      const system = SimulationTrackerService.createSimulation(
+        'CPU_STRESS',
+        { type: 'CPU_STRESS', intensity: 'moderate', durationSeconds: 10 },
+        10
+      );
+      const owned = SimulationTrackerService.runAsClient('ip:10.0.0.1', () =>
+        SimulationTrackerService.createSimulation(
+          'CPU_STRESS',
+          { type: 'CPU_STRESS', intensity: 'moderate', durationSeconds: 10 },
+          10
+        )
+      );
+
+      expect(system.clientId).toBeNull();
+      expect(owned.clientId).toBe('ip:10.0.0.1');
+      expect(
+        SimulationTrackerService.getActiveSimulationsByClient('CPU_STRESS', 'ip:10.0.0.1')
+      ).toEqual([owned]);
+    });
+
+    it('should keep simulations longer than the timer limit active', async () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'MEMORY_PRESSURE',
+        { type: 'MEMORY_PRESSURE', sizeMb: 1 },
+        Number.MAX_SAFE_INTEGER / 1000
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(simulation.status).toBe('ACTIVE');
+      expect(() => simulation.scheduledEndAt.toISOString()).not.toThrow();
+    });
   });
 
   describe('getSimulation', () => {
@@ -192,6 +225,73 @@ describe('SimulationTrackerService', () => {
     });
   });
 
+  describe('pauseSimulation / resumeSimulation', () => {
+    it('should exclude time paused from elapsed time and push back scheduledEndAt', async () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'MEMORY_LEAK',
+        { type: 'MEMORY_LEAK', leakRateMbPerMinute: 10 },
+        60
+      );
+      const scheduledEndAt = simulation.scheduledEndAt.getTime();
+
+      expect(SimulationTrackerService.pauseSimulation(simulation.id)?.status).toBe('PAUSED');
+      expect(SimulationTrackerService.pauseSimulation(simulation.id)).toBeUndefined();
+      expect(SimulationTrackerService.isActive(simulation.id)).toBe(true);
+      const elapsedAtPause = SimulationTrackerService.getElapsedMs(simulation.id);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(SimulationTrackerService.getElapsedMs(simulation.id)).toBe(elapsedAtPause);
+
+      const resumed = SimulationTrackerService.resumeSimulation(simulation.id);
+
+      expect(resumed?.status).toBe('ACTIVE');
+      expect(resumed?.pausedAt).toBeNull();
+      expect(resumed?.totalPausedMs).toBeGreaterThanOrEqual(45);
+      expect(simulation.scheduledEndAt.getTime()).toBe(scheduledEndAt + simulation.totalPausedMs);
+      expect(SimulationTrackerService.resumeSimulation(simulation.id)).toBeUndefined();
+    });
+
+    it('should close an open pause when a paused simulation is stopped', () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'MEMORY_LEAK',
+        { type: 'MEMORY_LEAK', leakRateMbPerMinute: 10 },
+        60
+      );
+      SimulationTrackerService.pauseSimulation(simulation.id);
+
+      expect(SimulationTrackerService.stopSimulation(simulation.id)?.status).toBe('STOPPED');
+      expect(simulation.pausedAt).toBeNull();
+      expect(SimulationTrackerService.getActiveCount()).toBe(0);
+    });
+  });
+
+  describe('extendSimulation', () => {
+    it('should move scheduledEndAt and the auto-completion', async () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'MEMORY_PRESSURE',
+        { type: 'MEMORY_PRESSURE', sizeMb: 1 },
+        0.05
+      );
+      const scheduledEndAt = simulation.scheduledEndAt.getTime();
+
+      SimulationTrackerService.extendSimulation(simulation.id, 60);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(simulation.scheduledEndAt.getTime()).toBe(scheduledEndAt + 60000);
+      expect(simulation.status).toBe('ACTIVE');
+    });
+
+    it('should not extend an ended simulation', () => {
+      const simulation = SimulationTrackerService.createSimulation(
+        'MEMORY_PRESSURE',
+        { type: 'MEMORY_PRESSURE', sizeMb: 1 },
+        60
+      );
+      SimulationTrackerService.stopSimulation(simulation.id);
+
+      expect(SimulationTrackerService.extendSimulation(simulation.id, 60)).toBeUndefined();
+    });
+  });
+
   describe('clear', () => {
     it('should remove all simulations', () => {
       SimulationTrackerService.createSimulation(
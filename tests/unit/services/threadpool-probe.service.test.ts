@@ -0,0 +1,47 @@
+/**
+ * Thread Pool Probe Service Unit Tests
+ */
+
+import { pbkdf2 } from 'crypto';
+import { ThreadPoolProbeService } from '../../../src/services/threadpool-probe.service';
+import { config } from '../../../src/config';
+
+describe('ThreadPoolProbeService', () => {
+  beforeEach(() => {
+    ThreadPoolProbeService.getMetrics();
+  });
+
+  it('should report probe latency and reset interval counts once reported', async () => {
+    await ThreadPoolProbeService.probe();
+    await ThreadPoolProbeService.probe();
+
+    const first = ThreadPoolProbeService.getMetrics();
+    const second = ThreadPoolProbeService.getMetrics();
+
+    expect(first.poolSize).toBe(config.threadPoolSize);
+    expect(first.probes).toBe(2);
+    expect(first.probePending).toBe(false);
+    expect(first.probeLatencyMaxMs).toBeGreaterThanOrEqual(first.probeLatencyMs);
+    expect(second.probes).toBe(0);
+  });
+
+  it('should measure queue wait while every pool thread is busy', async () => {
+    // Occupy every thread with slow hashing, then queue the probe behind them
+    const busy = Array.from(
+      { length: config.threadPoolSize },
+      () =>
+        new Promise<void>((resolve) => {
+          pbkdf2('password', 'salt', 200_000, 64, 'sha512', () => resolve());
+        })
+    );
+    const probe = ThreadPoolProbeService.probe();
+
+    expect(ThreadPoolProbeService.getMetrics().probePending).toBe(true);
+
+    const [latencyMs] = await Promise.all([probe, ...busy]);
+    const idleLatencyMs = await ThreadPoolProbeService.probe();
+
+    expect(latencyMs).toBeGreaterThan(idleLatencyMs);
+    expect(latencyMs).toBeGreaterThan(5);
+  });
+});
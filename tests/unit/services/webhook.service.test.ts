@@ -0,0 +1,144 @@
+/**
+ * Webhook Service Unit Tests
+ *
+ * Deliveries go to a local HTTP receiver standing in for a chat/automation endpoint.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService, signWebhookPayload } from '../../../src/services/webhook.service';
+import { EventLogService } from '../../../src/services/event-log.service';
+import { config } from '../../../src/config';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let statusCodes: number[];
+  const originalConfig = {
+    webhookMaxAttempts: config.webhookMaxAttempts,
+    webhookRetryBaseMs: config.webhookRetryBaseMs,
+  };
+
+  /**
+   * Waits until a condition holds (or 5 seconds pass).
+   */
+  async function waitFor(condition: () => boolean): Promise<void> {
+    const deadline = Date.now() + 5000;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  /**
+   * Waits until the receiver has seen `count` requests.
+   */
+  async function waitForRequests(count: number): Promise<void> {
+    await waitFor(() => received.length >= count);
+  }
+
+  beforeAll(async () => {
+    config.webhookMaxAttempts = 3;
+    config.webhookRetryBaseMs = 10;
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statusCodes.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    Object.assign(config, originalConfig);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statusCodes = [];
+  });
+
+  afterEach(() => {
+    WebhookService.clear();
+  });
+
+  it('should POST matching entries with a verifiable signature', async () => {
+    const secret = 'test-secret-0123456789';
+    const webhook = WebhookService.register({ url, secret, events: ['CRASH_WARNING'] });
+
+    EventLogService.info('SIMULATION_STARTED', 'not delivered');
+    const entry = EventLogService.warn('CRASH_WARNING', 'crash incoming');
+    await waitFor(() => WebhookService.get(webhook.id)?.deliveredCount === 1);
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(JSON.parse(body)).toMatchObject({ id: entry.id, event: 'CRASH_WARNING' });
+    expect(headers['x-perfsim-event']).toBe('CRASH_WARNING');
+    const timestamp = Number(headers['x-perfsim-timestamp']);
+    expect(headers['x-perfsim-signature']).toBe(signWebhookPayload(secret, timestamp, body));
+    expect(WebhookService.get(webhook.id)?.deliveredCount).toBe(1);
+  });
+
+  it('should filter by level', async () => {
+    WebhookService.register({ url, levels: ['error'] });
+
+    EventLogService.warn('CRASH_WARNING', 'warn only');
+    EventLogService.error('SIMULATION_FAILED', 'error');
+    await waitForRequests(1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(received.map((r) => JSON.parse(r.body).event)).toEqual(['SIMULATION_FAILED']);
+  });
+
+  it('should retry failed deliveries with the same delivery ID', async () => {
+    statusCodes = [500, 503];
+    const webhook = WebhookService.register({ url });
+
+    EventLogService.info('SIMULATION_STARTED', 'retry me');
+    await waitFor(() => WebhookService.get(webhook.id)?.deliveredCount === 1);
+
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers['x-perfsim-delivery'])).size).toBe(1);
+    expect(WebhookService.get(webhook.id)?.deliveredCount).toBe(1);
+    expect(WebhookService.getDeadLetters()).toHaveLength(0);
+  });
+
+  it('should dead-letter after the last attempt and redeliver on request', async () => {
+    statusCodes = [500, 500, 500];
+    const webhook = WebhookService.register({ url });
+
+    EventLogService.info('SIMULATION_STARTED', 'always failing');
+    await waitFor(() => WebhookService.getDeadLetters().length === 1);
+
+    const [letter] = WebhookService.getDeadLetters();
+    expect(letter).toMatchObject({ webhookId: webhook.id, attempts: 3, lastStatusCode: 500 });
+    expect(WebhookService.get(webhook.id)?.failedCount).toBe(1);
+
+    expect(WebhookService.redeliver(letter.id)).toBeDefined();
+    await waitForRequests(4);
+
+    expect(received[3].body).toBe(letter.body);
+    expect(WebhookService.getDeadLetters()).toHaveLength(0);
+  });
+
+  it('should stop delivering once the webhook is removed', async () => {
+    const webhook = WebhookService.register({ url });
+    WebhookService.remove(webhook.id);
+
+    EventLogService.info('SIMULATION_STARTED', 'nobody listening');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(received).toHaveLength(0);
+  });
+});
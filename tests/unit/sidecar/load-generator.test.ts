@@ -0,0 +1,142 @@
+/**
+ * Load Generator (sidecar) Unit Tests
+ */
+
+import { LoadGenerator, buildLoadTestPath, targetAt } from '../../../src/sidecar/load-generator';
+import { LoadGeneratorPlan, LoadGeneratorProgress } from '../../../src/types';
+
+describe('LoadGenerator', () => {
+  const plan = (overrides: Partial<LoadGeneratorPlan>): LoadGeneratorPlan => ({
+    model: 'open',
+    stages: [{ durationSeconds: 2, target: 10 }],
+    request: {},
+    thinkTimeMs: 0,
+    requestTimeoutMs: 1000,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should ramp linearly between stage targets', () => {
+    const stages = [
+      { durationSeconds: 10, target: 20 },
+      { durationSeconds: 0, target: 50 },
+      { durationSeconds: 10, target: 50 },
+    ];
+
+    expect(targetAt(stages, 0)).toBe(0);
+    expect(targetAt(stages, 5)).toBe(10);
+    expect(targetAt(stages, 10)).toBe(50);
+    expect(targetAt(stages, 30)).toBe(50);
+  });
+
+  it('should put load test parameters in the query string', () => {
+    expect(buildLoadTestPath({})).toBe('/api/loadtest');
+    expect(buildLoadTestPath({ baselineDelayMs: 500, errorPercent: 0 })).toBe(
+      '/api/loadtest?baselineDelayMs=500&errorPercent=0'
+    );
+  });
+
+  it('should send the open model rate and complete once requests finish', async () => {
+    const send = jest.fn().mockResolvedValue(200);
+    const progress: LoadGeneratorProgress[] = [];
+    let done: { progress: LoadGeneratorProgress; state: string } | null = null;
+    const generator = new LoadGenerator(
+      plan({
+        stages: [
+          { durationSeconds: 0, target: 10 },
+          { durationSeconds: 2, target: 10 },
+        ],
+      }),
+      send,
+      (report) => progress.push(report),
+      (report, state) => (done = { progress: report, state })
+    );
+
+    generator.start();
+    await jest.advanceTimersByTimeAsync(2100);
+
+    // 10 RPS for 2s; the arrival due exactly at the end may not be sent
+    expect(send.mock.calls.length).toBeGreaterThanOrEqual(19);
+    expect(send.mock.calls.length).toBeLessThanOrEqual(20);
+    expect(progress.length).toBeGreaterThanOrEqual(1);
+    expect(done).not.toBeNull();
+    expect(done!.state).toBe('completed');
+    const sent = send.mock.calls.length;
+    expect(done!.progress).toMatchObject({ sent, completed: sent, errors: 0, inFlight: 0 });
+    expect(done!.progress.statusClasses['2xx']).toBe(sent);
+  });
+
+  it('should keep the closed model at the target number of virtual users', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const send = jest.fn(
+      () =>
+        new Promise<number>((resolve) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          setTimeout(() => {
+            inFlight--;
+            resolve(503);
+          }, 100);
+        })
+    );
+    let done: LoadGeneratorProgress | null = null;
+    const generator = new LoadGenerator(
+      plan({
+        model: 'closed',
+        stages: [
+          { durationSeconds: 0, target: 3 },
+          { durationSeconds: 1, target: 3 },
+        ],
+      }),
+      send,
+      () => undefined,
+      (report) => (done = report)
+    );
+
+    generator.start();
+    await jest.advanceTimersByTimeAsync(1200);
+
+    expect(maxInFlight).toBe(3);
+    expect(done).not.toBeNull();
+    expect(done!.sent).toBeGreaterThanOrEqual(27);
+    expect(done!.errors).toBe(done!.completed);
+    expect(done!.statusClasses['5xx']).toBe(done!.completed);
+  });
+
+  it('should abort in-flight requests when stopped', async () => {
+    const send = jest.fn(
+      (_path: string, _timeoutMs: number, signal: AbortSignal) =>
+        new Promise<number>((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    let state: string | null = null;
+    const generator = new LoadGenerator(
+      plan({
+        stages: [
+          { durationSeconds: 0, target: 10 },
+          { durationSeconds: 60, target: 10 },
+        ],
+      }),
+      send,
+      () => undefined,
+      (_report, finalState) => (state = finalState)
+    );
+
+    generator.start();
+    await jest.advanceTimersByTimeAsync(500);
+    generator.stop();
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(state).toBe('stopped');
+    expect(send.mock.calls.length).toBeGreaterThan(0);
+  });
+});